@@ -0,0 +1,116 @@
+/**
+ * Command-line Argument Parsing
+ * Minimal parser for "bot <command> [subcommand] [positionals...] [--flags]".
+ * Supports "--flag value", "--flag=value" and boolean "--flag".
+ */
+
+export type FlagType = 'string' | 'number' | 'boolean';
+
+/**
+ * Definition of a command-line flag
+ */
+export interface FlagSpec {
+    name: string;                           // Without leading dashes, e.g. "max-fuel-price"
+    type: FlagType;
+    description: string;
+    env?: string;                           // BOT_CONFIG environment variable this flag overrides
+}
+
+export interface ParsedArgs {
+    positionals: string[];
+    flags: { [name: string]: string | number | boolean };
+}
+
+/**
+ * Invalid command line (unknown flag, missing value, ...)
+ */
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+export function parseArgs(argv: string[], specs: FlagSpec[]): ParsedArgs {
+    const byName = new Map(specs.map(spec => [spec.name, spec]));
+    const result: ParsedArgs = { positionals: [], flags: {} };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+
+        if (arg === '--') {
+            result.positionals.push(...argv.slice(i + 1));
+            break;
+        }
+
+        if (!arg.startsWith('--')) {
+            result.positionals.push(arg);
+            continue;
+        }
+
+        const [name, inlineValue] = splitFlag(arg.slice(2));
+        const spec = byName.get(name);
+        if (!spec) {
+            throw new UsageError(`Unknown flag --${name}`);
+        }
+
+        if (spec.type === 'boolean') {
+            if (inlineValue === undefined) {
+                result.flags[name] = true;
+            } else if (inlineValue === 'true' || inlineValue === 'false') {
+                result.flags[name] = inlineValue === 'true';
+            } else {
+                throw new UsageError(`--${name} expects true or false, got "${inlineValue}"`);
+            }
+            continue;
+        }
+
+        let value = inlineValue;
+        if (value === undefined) {
+            value = argv[i + 1];
+            if (value === undefined || value.startsWith('--')) {
+                throw new UsageError(`--${name} requires a value`);
+            }
+            i++;
+        }
+
+        if (spec.type === 'number') {
+            const number = Number(value);
+            if (value.trim() === '' || !Number.isFinite(number)) {
+                throw new UsageError(`--${name} expects a number, got "${value}"`);
+            }
+            result.flags[name] = number;
+        } else {
+            result.flags[name] = value;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Environment overrides for all flags that map to a BOT_CONFIG variable
+ */
+export function flagsToEnvOverrides(flags: ParsedArgs['flags'], specs: FlagSpec[]): { [envName: string]: string } {
+    const overrides: { [envName: string]: string } = {};
+    for (const spec of specs) {
+        if (spec.env && flags[spec.name] !== undefined) {
+            overrides[spec.env] = String(flags[spec.name]);
+        }
+    }
+    return overrides;
+}
+
+/**
+ * Format flags as help text lines
+ */
+export function formatFlags(specs: FlagSpec[]): string {
+    const labels = specs.map(spec => `--${spec.name}${spec.type === 'boolean' ? '' : ` <${spec.type}>`}`);
+    const width = Math.max(...labels.map(label => label.length)) + 2;
+    return specs.map((spec, i) => `  ${labels[i].padEnd(width)}${spec.description}`).join('\n');
+}
+
+function splitFlag(flag: string): [string, string | undefined] {
+    const index = flag.indexOf('=');
+    return index === -1 ? [flag, undefined] : [flag.slice(0, index), flag.slice(index + 1)];
+}
@@ -0,0 +1,572 @@
+/**
+ * Airline Manager 4 Bot - Command-line Entrypoint
+ *
+ * Launches Chromium itself (no Playwright test runner) and runs the same
+ * utils and task pipeline as tests/airlineManager.spec.ts.
+ *
+ * Usage:
+ *   npm run bot -- run                       # Full bot run (all tasks)
+ *   npm run bot -- fuel --max-fuel-price 600 # Single operation with config override
+ *   npm run bot -- run --dry-run             # Log what would happen, click nothing
+ *   npm run bot -- fleet fullscan --max-details 0
+ *   npm run bot -- planes update 105960001 105960002
+ *   npm run bot -- report
+ *   npm run bot -- report html --days 14 --out price-report.html
+ *   npm run bot -- backtest fuel --capacity 50000000 --strategy percentile,heuristic
+ *   npm run bot -- prices export fuel --format ndjson --since 2025-01-01
+ *   npm run bot -- prices import channel.txt --dry-run
+ *   npm run bot -- selectors doctor          # Check every registered selector against the game
+ *
+ * Exit codes:
+ *   0 = success, 1 = operation failed, 2 = invalid command line or configuration
+ */
+
+import { chromium, devices, Page } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BOT_CONFIG, ConfigValidationError, loadConfig, setConfigOverrides } from '../config';
+import { GeneralUtils } from '../utils/00_general.utils';
+import { FetchPlanesUtils, UpdatePlanesUtils } from '../utils/04_fleet.utils';
+import { PriceAnalyticsUtils } from '../utils/05_priceAnalytics.utils';
+import { createBotPipeline, BotTaskName, PipelineSummary, TaskPipeline } from '../utils/06_pipeline.utils';
+import { RunJournal, RunJournalReader } from '../utils/07_journal.utils';
+import { Notifier } from '../utils/08_notifications.utils';
+import { SessionManager } from '../utils/09_session.utils';
+import { SelectorDoctor } from '../utils/10_selectors.utils';
+import { PurchaseLedger, formatPurchaseReport } from '../utils/12_purchases.utils';
+import { ConsumptionForecaster, HoldingLog } from '../utils/13_consumption.utils';
+import { STRATEGIES, StrategyName } from '../utils/14_strategies.utils';
+import { BASELINE_STRATEGY, BacktestScenario, formatBacktestReport, loadPriceCsv, runBacktest } from '../utils/15_backtest.utils';
+import { PriceArchive } from '../utils/17_archive.utils';
+import { formatReconciliation, reconcileObservedPrices } from '../utils/18_quality.utils';
+import { ExportFormat, ImportFormat, applyPriceImport, exportPrices, formatImportPlan, loadPriceImport, planPriceImport } from '../utils/19_transfer.utils';
+import { buildPriceReport, renderHtmlReport } from '../utils/20_report.utils';
+import { BUYING_STRATEGIES } from '../utils/config/configSchema';
+import { FlagSpec, ParsedArgs, UsageError, flagsToEnvOverrides, formatFlags, parseArgs } from './args';
+
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+/**
+ * Flags accepted by every command
+ * Flags with an `env` override the matching BOT_CONFIG value (and .env) for this invocation.
+ */
+const FLAGS: FlagSpec[] = [
+    { name: 'headed', type: 'boolean', description: 'Show the browser window' },
+    { name: 'budget', type: 'number', description: 'Overall time budget in ms (default: 170000)' },
+    { name: 'config', type: 'string', env: 'BOT_CONFIG_FILE', description: 'Config file (default: bot.config.yaml/.yml/.json if present)' },
+    { name: 'profile', type: 'string', env: 'BOT_PROFILE', description: 'Config profile (conservative, aggressive, ci)' },
+    { name: 'base-url', type: 'string', env: 'AM4_BASE_URL', description: 'Game base URL (e.g. the local stand-in)' },
+    { name: 'data-dir', type: 'string', env: 'AM4_DATA_DIR', description: 'Directory for data files (default: ./data)' },
+    { name: 'max-fuel-price', type: 'number', env: 'MAX_FUEL_PRICE', description: 'Maximum fuel price' },
+    { name: 'max-co2-price', type: 'number', env: 'MAX_CO2_PRICE', description: 'Maximum CO2 price' },
+    { name: 'fleet-percentage', type: 'number', env: 'FLEET_PERCENTAGE', description: 'Share of the fleet to depart per run (0.10 = 10%)' },
+    { name: 'max-departures', type: 'number', env: 'MAX_DEPARTURES_OVERRIDE', description: 'Maximum departures per run' },
+    { name: 'dry-run', type: 'boolean', env: 'DRY_RUN', description: 'Analyze and log only, never confirm an action' },
+    { name: 'mock', type: 'boolean', env: 'FLEET_MOCK_MODE', description: 'Fleet mock mode' },
+    { name: 'skip', type: 'string', env: 'SKIP_TASKS', description: 'Comma-separated tasks to skip (run only)' },
+    { name: 'max-details', type: 'number', description: 'fleet fullscan: planes to fetch details for (0 = all, -1 = none, default: scraping.fullScanMaxDetails)' },
+    { name: 'runs', type: 'number', description: 'report: number of recent runs to list (default: 5)' },
+    { name: 'days', type: 'number', description: 'report, report html: purchase report / chart window in days (default: 7)' },
+    { name: 'strategy', type: 'string', description: 'backtest: comma-separated strategies (default: the configured one)' },
+    { name: 'csv', type: 'string', description: 'backtest: replay a CSV (timestamp,fuel,co2) instead of price-history.json' },
+    { name: 'capacity', type: 'number', description: 'backtest: tank capacity (L / kg)' },
+    { name: 'burn', type: 'number', description: 'backtest: consumption per hour (default: the consumption forecast)' },
+    { name: 'initial-holding', type: 'number', description: 'backtest: holding at the first slot (default: half the capacity)' },
+    { name: 'format', type: 'string', description: 'prices export: csv or ndjson (default: csv); prices import: csv, ndjson or text (default: from the extension)' },
+    { name: 'since', type: 'string', description: 'prices export: first timeslot (ISO date/time, UTC)' },
+    { name: 'until', type: 'string', description: 'prices export: last timeslot (ISO date/time, UTC)' },
+    { name: 'out', type: 'string', description: 'prices export, report html: output file (default: <data-dir>/price-export.<format>, <data-dir>/price-report.html)' },
+    { name: 'overwrite', type: 'boolean', env: 'IMPORT_OVERWRITE', description: 'prices import: replace stored prices that differ' },
+    { name: 'timestamp-column', type: 'string', env: 'IMPORT_TIMESTAMP_COLUMN', description: 'prices import: CSV column / NDJSON field with the time' },
+    { name: 'fuel-column', type: 'string', env: 'IMPORT_FUEL_COLUMN', description: 'prices import: CSV column / NDJSON field with the fuel price' },
+    { name: 'co2-column', type: 'string', env: 'IMPORT_CO2_COLUMN', description: 'prices import: CSV column / NDJSON field with the CO2 price' },
+    { name: 'timestamp-pattern', type: 'string', env: 'IMPORT_TIMESTAMP_PATTERN', description: 'prices import: text regex, first group = time' },
+    { name: 'fuel-pattern', type: 'string', env: 'IMPORT_FUEL_PATTERN', description: 'prices import: text regex, first group = fuel price' },
+    { name: 'co2-pattern', type: 'string', env: 'IMPORT_CO2_PATTERN', description: 'prices import: text regex, first group = CO2 price' },
+    { name: 'help', type: 'boolean', description: 'Show this help' }
+];
+
+interface Command {
+    usage: string;
+    description: string;
+    execute: (args: ParsedArgs) => Promise<number>;
+}
+
+const COMMANDS: { [name: string]: Command } = {
+    'run': {
+        usage: 'run',
+        description: 'Full bot run: fuel, co2, campaigns, maintenance, Smart Fleet',
+        execute: args => runTasks('run', undefined, args)
+    },
+    'fuel': {
+        usage: 'fuel',
+        description: 'Analyze fuel prices and buy fuel',
+        execute: args => runTasks('fuel', ['fuel'], args)
+    },
+    'co2': {
+        usage: 'co2',
+        description: 'Analyze CO2 prices and buy CO2',
+        execute: args => runTasks('co2', ['co2'], args)
+    },
+    'campaigns': {
+        usage: 'campaigns',
+        description: 'Start eco-friendly and airline reputation campaigns if needed',
+        execute: args => runTasks('campaigns', ['campaigns'], args)
+    },
+    'maintenance': {
+        usage: 'maintenance',
+        description: 'Plan bulk checks and bulk repairs',
+        execute: args => runTasks('maintenance', ['maintenance'], args)
+    },
+    'fleet scrape': {
+        usage: 'fleet scrape',
+        description: 'Smart Fleet: depart planes and scrape flight history',
+        execute: args => runTasks('fleet-scrape', ['smartFleet'], args)
+    },
+    'fleet fullscan': {
+        usage: 'fleet fullscan',
+        description: 'Scan all planes from the route list into planes.json',
+        execute: fleetFullScan
+    },
+    'planes update': {
+        usage: 'planes update <fleetId...>',
+        description: 'Update flight history of specific planes in planes.json',
+        execute: planesUpdate
+    },
+    'report': {
+        usage: 'report',
+        description: 'Print price, prediction, purchase and consumption reports and recent runs (no browser)',
+        execute: report
+    },
+    'report html': {
+        usage: 'report html',
+        description: 'Write an HTML price report with charts and purchase markers (no browser)',
+        execute: reportHtml
+    },
+    'backtest': {
+        usage: 'backtest [fuel|co2]',
+        description: 'Replay the price history through buying strategies vs. the threshold baseline (no browser)',
+        execute: backtest
+    },
+    'prices export': {
+        usage: 'prices export [fuel|co2]',
+        description: 'Export the price history as CSV or NDJSON (no browser)',
+        execute: pricesExport
+    },
+    'prices import': {
+        usage: 'prices import <file>',
+        description: 'Import prices from CSV, NDJSON or a text dump, preview with --dry-run (no browser)',
+        execute: pricesImport
+    },
+    'selectors doctor': {
+        usage: 'selectors doctor',
+        description: 'Log in and report broken, fallback-resolved and ambiguous selectors',
+        execute: selectorsDoctor
+    }
+};
+
+/**
+ * Entry point, returns the exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+    let args: ParsedArgs;
+    try {
+        args = parseArgs(argv, FLAGS);
+    } catch (error) {
+        return usageError((error as Error).message);
+    }
+
+    if (args.flags['help'] || args.positionals.length === 0) {
+        console.log(formatHelp());
+        return args.positionals.length === 0 && !args.flags['help'] ? EXIT_USAGE : EXIT_OK;
+    }
+
+    // Commands are one or two words ("fuel", "fleet scrape"), the rest are positionals
+    const twoWords = args.positionals.slice(0, 2).join(' ');
+    const commandName = COMMANDS[twoWords] ? twoWords : args.positionals[0];
+    const command = COMMANDS[commandName];
+    if (!command) {
+        return usageError(`Unknown command "${args.positionals.join(' ')}"`);
+    }
+
+    setConfigOverrides(flagsToEnvOverrides(args.flags, FLAGS));
+
+    // Fail fast on invalid config values before launching a browser
+    try {
+        loadConfig();
+    } catch (error) {
+        if (error instanceof ConfigValidationError) {
+            console.error(`❌ ${error.message}`);
+            return EXIT_USAGE;
+        }
+        throw error;
+    }
+
+    try {
+        return await command.execute({
+            positionals: args.positionals.slice(commandName.split(' ').length),
+            flags: args.flags
+        });
+    } catch (error) {
+        if (error instanceof UsageError) {
+            return usageError(error.message);
+        }
+        console.error('❌ Command failed:', error);
+        return EXIT_FAILED;
+    }
+}
+
+function usageError(message: string): number {
+    console.error(`❌ ${message}\n`);
+    console.error(formatHelp());
+    return EXIT_USAGE;
+}
+
+function formatHelp(): string {
+    const commands = Object.values(COMMANDS);
+    const width = Math.max(...commands.map(c => c.usage.length)) + 2;
+    return [
+        'Usage: npm run bot -- <command> [flags]',
+        '',
+        'Commands:',
+        ...commands.map(c => `  ${c.usage.padEnd(width)}${c.description}`),
+        '',
+        'Flags:',
+        formatFlags(FLAGS)
+    ].join('\n');
+}
+
+/**
+ * Launch Chromium, run the callback with a fresh page and close the browser again
+ */
+async function withBrowser<T>(args: ParsedArgs, callback: (page: Page) => Promise<T>): Promise<T> {
+    const browser = await chromium.launch({ headless: !args.flags['headed'] });
+    try {
+        const context = await browser.newContext({ ...devices['Desktop Chrome'] });
+        const page = await context.newPage();
+        return await callback(page);
+    } finally {
+        await browser.close();
+    }
+}
+
+/**
+ * Run a pipeline in the browser with journal and summary
+ * @param configure Registers additional tasks on the pipeline
+ */
+async function runPipeline(
+    runName: string,
+    tasks: BotTaskName[] | undefined,
+    args: ParsedArgs,
+    configure: (pipeline: TaskPipeline, page: Page) => void = () => {}
+): Promise<number> {
+    RunJournal.start(`cli-${runName}`);
+    const notifier = Notifier.fromConfig();
+    const unwatch = notifier.watchJournal();
+    let summary: PipelineSummary | null = null;
+
+    try {
+        summary = await withBrowser(args, async page => {
+            const pipeline = createBotPipeline(page, {
+                tasks,
+                totalBudgetMs: typeof args.flags['budget'] === 'number' ? args.flags['budget'] : 170000
+            });
+            configure(pipeline, page);
+            return await pipeline.run();
+        });
+    } catch (error) {
+        RunJournal.recordError('browser', error);
+        throw error;
+    } finally {
+        const succeeded = summary !== null && summary.failed.length === 0;
+        const run = RunJournal.finish(succeeded ? 'completed' : 'failed');
+        await notifier.sendRunSummary(run, summary);
+        unwatch();
+    }
+
+    console.log('\n' + TaskPipeline.formatSummary(summary));
+    return summary.failed.length === 0 ? EXIT_OK : EXIT_FAILED;
+}
+
+function runTasks(runName: string, tasks: BotTaskName[] | undefined, args: ParsedArgs): Promise<number> {
+    if (args.positionals.length > 0) {
+        throw new UsageError(`Unexpected argument "${args.positionals[0]}"`);
+    }
+    return runPipeline(runName, tasks, args);
+}
+
+async function fleetFullScan(args: ParsedArgs): Promise<number> {
+    if (args.positionals.length > 0) {
+        throw new UsageError(`Unexpected argument "${args.positionals[0]}"`);
+    }
+    const maxDetails = typeof args.flags['max-details'] === 'number' ? args.flags['max-details'] : BOT_CONFIG.scraping.fullScanMaxDetails;
+
+    return runPipeline('fleet-fullscan', [], args, (pipeline, page) => {
+        pipeline.register({
+            name: 'fleetFullScan',
+            dependsOn: ['login'],
+            timeoutMs: Infinity,
+            run: async () => {
+                // Read-only scan: simply start over after a re-login
+                const planes = await SessionManager.for(page).runStep('fleetFullScan', () => new FetchPlanesUtils(page).getAllPlanes(maxDetails));
+                if (planes.length === 0) {
+                    throw new Error('No planes found in the route list');
+                }
+
+                const planesPath = GeneralUtils.dataPath('planes.json');
+                fs.mkdirSync(path.dirname(planesPath), { recursive: true });
+                fs.writeFileSync(planesPath, JSON.stringify(planes, null, 2));
+                RunJournal.record({ type: 'scrape', target: 'fleet', count: planes.length });
+
+                return { 'Planes': planes.length, 'Written to': planesPath };
+            }
+        });
+    });
+}
+
+async function planesUpdate(args: ParsedArgs): Promise<number> {
+    const fleetIds = args.positionals;
+    if (fleetIds.length === 0) {
+        throw new UsageError('planes update requires at least one fleet ID');
+    }
+    const invalid = fleetIds.find(id => !/^\d+$/.test(id));
+    if (invalid) {
+        throw new UsageError(`Invalid fleet ID "${invalid}" (expected digits only)`);
+    }
+
+    return runPipeline('planes-update', [], args, (pipeline, page) => {
+        pipeline.register({
+            name: 'planesUpdate',
+            dependsOn: ['login'],
+            timeoutMs: Infinity,
+            run: async () => {
+                const updated = await SessionManager.for(page).runStep('planesUpdate', () => new UpdatePlanesUtils(page).updateSpecificPlanes(fleetIds));
+                for (const plane of updated) {
+                    RunJournal.record({ type: 'scrape', target: 'plane', fleetId: plane.fleetId || 'unknown', count: plane.flightHistory?.length || 0 });
+                }
+
+                const missing = fleetIds.filter(id => !updated.some(p => p.fleetId === id));
+                if (missing.length > 0) {
+                    throw new Error(`Could not update planes: ${missing.join(', ')}`);
+                }
+                return { 'Updated': updated.length };
+            }
+        });
+    });
+}
+
+async function report(args: ParsedArgs): Promise<number> {
+    if (args.positionals.length > 0) {
+        throw new UsageError(`Unexpected argument "${args.positionals[0]}"`);
+    }
+
+    const priceAnalytics = new PriceAnalyticsUtils();
+    console.log(priceAnalytics.generatePriceReport('fuel'));
+    console.log(priceAnalytics.generatePriceReport('co2'));
+    const archive = new PriceArchive();
+    console.log(`${archive.describe('fuel')}\n${archive.describe('co2')}`);
+
+    const { lookaheadHours } = BOT_CONFIG.seasonality;
+    console.log(`\n🔮 PREDICTED PRICES (next ${lookaheadHours}h, seasonality model)`);
+    console.log('━'.repeat(40));
+    for (const commodity of ['fuel', 'co2'] as const) {
+        const predictions = priceAnalytics.predictPrices(commodity, Math.floor(lookaheadHours * 2));
+        console.log(`${commodity.toUpperCase()}:`);
+        for (const prediction of predictions) {
+            console.log(prediction.resolution === 'none'
+                ? `   ${prediction.timestamp.slice(11, 16)} UTC  no history for this slot`
+                : `   ${prediction.timestamp.slice(11, 16)} UTC  $${prediction.price} ($${prediction.low}-$${prediction.high}, ` +
+                    `confidence ${prediction.confidence}%, ${prediction.samples} samples per ${prediction.resolution})`);
+        }
+    }
+
+    const days = typeof args.flags['days'] === 'number' ? args.flags['days'] : 7;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const purchases = new PurchaseLedger().query({ since });
+    console.log(formatPurchaseReport(purchases, priceAnalytics.loadHistory().timeslots, since));
+
+    console.log(`\n🔍 OBSERVED VS. CHART PRICES (last ${days} days)`);
+    console.log('━'.repeat(40));
+    for (const commodity of ['fuel', 'co2'] as const) {
+        console.log(formatReconciliation(reconcileObservedPrices(commodity, priceAnalytics.loadHistory().timeslots, since)));
+    }
+
+    const forecaster = new ConsumptionForecaster();
+    const holdingLog = new HoldingLog();
+    console.log('\n📉 CONSUMPTION (last observed holding)');
+    console.log('━'.repeat(40));
+    for (const commodity of ['fuel', 'co2'] as const) {
+        const last = holdingLog.query(commodity).pop();
+        console.log(last
+            ? `${ConsumptionForecaster.describe(forecaster.forecast(commodity, last.holding))} (holding ${last.holding.toLocaleString()} at ${last.timestamp})`
+            : `${commodity.toUpperCase()}: no holdings recorded yet`);
+    }
+
+    const runCount = typeof args.flags['runs'] === 'number' ? args.flags['runs'] : 5;
+    const runs = new RunJournalReader().listRuns().slice(-runCount);
+
+    console.log(`\n📓 RECENT RUNS (${BOT_CONFIG.storage.dataDir})`);
+    console.log('━'.repeat(40));
+    if (runs.length === 0) {
+        console.log('No runs recorded yet');
+    }
+    for (const run of runs) {
+        const counts = Object.entries(run.eventCounts).map(([type, count]) => `${type}: ${count}`).join(', ');
+        console.log(`${run.status === 'completed' ? '✅' : run.status === 'failed' ? '❌' : '⏳'} ${run.runId} ${run.name}${run.dryRun ? ' (dry run)' : ''}`);
+        console.log(`      ${counts || 'no events'}`);
+    }
+
+    return EXIT_OK;
+}
+
+async function reportHtml(args: ParsedArgs): Promise<number> {
+    if (args.positionals.length > 0) {
+        throw new UsageError(`Unexpected argument "${args.positionals[0]}"`);
+    }
+    const days = typeof args.flags['days'] === 'number' ? args.flags['days'] : 7;
+    if (days <= 0) {
+        throw new UsageError(`--days must be positive, got ${days}`);
+    }
+
+    const out = typeof args.flags['out'] === 'string' ? args.flags['out'] : GeneralUtils.dataPath('price-report.html');
+    fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+    fs.writeFileSync(out, renderHtmlReport(buildPriceReport(days)), 'utf-8');
+    console.log(`📄 Price report (last ${days} day(s)) written to ${out}`);
+    return EXIT_OK;
+}
+
+async function backtest(args: ParsedArgs): Promise<number> {
+    if (args.positionals.length > 1) {
+        throw new UsageError(`Unexpected argument "${args.positionals[1]}"`);
+    }
+    const commodity = args.positionals[0] ?? 'fuel';
+    if (commodity !== 'fuel' && commodity !== 'co2') {
+        throw new UsageError(`Unknown commodity "${commodity}" (expected fuel or co2)`);
+    }
+
+    const capacity = args.flags['capacity'];
+    if (typeof capacity !== 'number' || capacity <= 0) {
+        throw new UsageError('backtest requires --capacity (tank capacity in L / kg)');
+    }
+
+    let burnPerHour = args.flags['burn'];
+    if (typeof burnPerHour !== 'number') {
+        const estimate = new ConsumptionForecaster().burnRate(commodity);
+        if (!estimate) {
+            throw new UsageError(`No ${commodity} burn rate recorded yet - pass --burn`);
+        }
+        burnPerHour = estimate.perHour;
+    }
+
+    const names = typeof args.flags['strategy'] === 'string'
+        ? args.flags['strategy'].split(',').map(name => name.trim()).filter(name => name !== '')
+        : [BOT_CONFIG.strategies[commodity]];
+    const unknown = names.find(name => !BUYING_STRATEGIES.includes(name));
+    if (unknown) {
+        throw new UsageError(`Unknown strategy "${unknown}" (available: ${BUYING_STRATEGIES.join(', ')})`);
+    }
+
+    const timeslots = typeof args.flags['csv'] === 'string'
+        ? loadPriceCsv(args.flags['csv'])
+        : new PriceAnalyticsUtils().loadHistory().timeslots;
+
+    const scenario: BacktestScenario = {
+        commodity,
+        capacity,
+        initialHolding: typeof args.flags['initial-holding'] === 'number' ? args.flags['initial-holding'] : Math.round(capacity / 2),
+        burnPerHour,
+        maxPrice: commodity === 'fuel' ? BOT_CONFIG.fuel.maxFuelPrice : BOT_CONFIG.fuel.maxCo2Price
+    };
+    const results = [BASELINE_STRATEGY, ...names.filter(name => name !== BASELINE_STRATEGY)]
+        .map(name => runBacktest(timeslots, scenario, STRATEGIES[name as StrategyName]));
+
+    console.log(formatBacktestReport(scenario, results, timeslots));
+    return EXIT_OK;
+}
+
+function dateFlag(args: ParsedArgs, name: string): Date | undefined {
+    const value = args.flags[name];
+    if (typeof value !== 'string') return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new UsageError(`--${name} expects a date/time, got "${value}"`);
+    }
+    return date;
+}
+
+async function pricesExport(args: ParsedArgs): Promise<number> {
+    if (args.positionals.length > 1) {
+        throw new UsageError(`Unexpected argument "${args.positionals[1]}"`);
+    }
+    const commodity = args.positionals[0];
+    if (commodity !== undefined && commodity !== 'fuel' && commodity !== 'co2') {
+        throw new UsageError(`Unknown commodity "${commodity}" (expected fuel or co2)`);
+    }
+    const format = args.flags['format'] ?? 'csv';
+    if (format !== 'csv' && format !== 'ndjson') {
+        throw new UsageError(`Unknown export format "${format}" (expected csv or ndjson)`);
+    }
+
+    const content = exportPrices(new PriceAnalyticsUtils().loadHistory().timeslots, {
+        format: format as ExportFormat,
+        commodities: commodity ? [commodity] : ['fuel', 'co2'],
+        since: dateFlag(args, 'since'),
+        until: dateFlag(args, 'until')
+    });
+    const out = typeof args.flags['out'] === 'string' ? args.flags['out'] : GeneralUtils.dataPath(`price-export.${format}`);
+    fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+    fs.writeFileSync(out, content, 'utf-8');
+
+    const rows = content.split('\n').filter(line => line !== '').length - (format === 'csv' ? 1 : 0);
+    console.log(`📤 Exported ${rows} timeslot(s) to ${out}`);
+    return EXIT_OK;
+}
+
+async function pricesImport(args: ParsedArgs): Promise<number> {
+    if (args.positionals.length !== 1) {
+        throw new UsageError('prices import requires exactly one file');
+    }
+    const format = args.flags['format'];
+    if (format !== undefined && format !== 'csv' && format !== 'ndjson' && format !== 'text') {
+        throw new UsageError(`Unknown import format "${format}" (expected csv, ndjson or text)`);
+    }
+
+    const priceAnalytics = new PriceAnalyticsUtils();
+    const parsed = loadPriceImport(args.positionals[0], format as ImportFormat | undefined);
+    const plan = planPriceImport(parsed, priceAnalytics.loadHistory().timeslots, new PriceArchive().loadRollups());
+    console.log(formatImportPlan(plan));
+
+    if (BOT_CONFIG.mode.dryRun) {
+        console.log('\n🧪 DRY RUN: nothing written');
+        return EXIT_OK;
+    }
+    const written = applyPriceImport(plan, priceAnalytics);
+    console.log(`\n📥 Imported ${written} price(s)`);
+    return EXIT_OK;
+}
+
+async function selectorsDoctor(args: ParsedArgs): Promise<number> {
+    if (args.positionals.length > 0) {
+        throw new UsageError(`Unexpected argument "${args.positionals[0]}"`);
+    }
+
+    const report = await withBrowser(args, async page => {
+        await SessionManager.for(page).login();
+        return await new SelectorDoctor(page).run();
+    });
+
+    console.log(SelectorDoctor.formatReport(report));
+    return report.healthy ? EXIT_OK : EXIT_FAILED;
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    }).catch(error => {
+        // Errors outside a command (e.g. reading the config file)
+        console.error('❌ Bot failed:', error);
+        process.exitCode = EXIT_FAILED;
+    });
+}
@@ -5,9 +5,10 @@
  *
  * Benefits:
  * - Defines sensible defaults for all operations
+ * - Named profiles (conservative, aggressive, ci) and an optional config file
  * - Overridable via environment variables (for GitHub Actions)
- * - Type-safe configuration management
- * - Easy to extend for new features
+ * - Type-safe configuration, validated on every access (fails fast on typos)
+ * - Easy to extend for new features (see utils/config/configSchema.ts)
  *
  * Usage in code:
  *   import { BOT_CONFIG } from './config';
@@ -20,69 +21,257 @@
  * Usage locally:
  *   Create a .env file with your values (see .env.example)
  *   Example: MAX_DEPARTURES_OVERRIDE=5 npm run test:airline:headed
+ *
+ * Usage with the CLI:
+ *   Flags override .env values for that invocation
+ *   Example: npm run bot -- fuel --max-fuel-price 600
+ *
+ * Usage with a config file / profile:
+ *   Copy bot.config.example.yaml to bot.config.yaml (or set BOT_CONFIG_FILE)
+ *   Select a profile with BOT_PROFILE=conservative or `profile: conservative`
+ *   Precedence: defaults < profile < config file < environment < CLI flags
  */
 
 import * as dotenv from 'dotenv';
+import { BotSettings } from './utils/config/configSchema';
+import { LoadedSettings, loadSettings } from './utils/config/configLoader';
 
 /**
  * IMPORTANT: This config uses getter properties to ALWAYS read fresh values from .env
- * Each access reloads .env and reads process.env - NO CACHING!
+ * Each access reloads .env, the config file and process.env - NO CACHING!
  * This ensures .env changes are immediately effective without restart!
  */
 
+// Runtime overrides (e.g. CLI flags) - applied AFTER .env so they always win
+const runtimeOverrides: { [envName: string]: string } = {};
+
 // Helper function to reload .env on every access
 function reloadEnv() {
     dotenv.config({ override: true });
+    Object.assign(process.env, runtimeOverrides);
+}
+
+/**
+ * Override config values for the rest of the process (by environment variable name)
+ * Used by the CLI: `--max-fuel-price 600` → setConfigOverrides({ MAX_FUEL_PRICE: '600' })
+ */
+export function setConfigOverrides(overrides: { [envName: string]: string }): void {
+    Object.assign(runtimeOverrides, overrides);
+    reloadEnv();
+}
+
+/**
+ * Load and validate the complete configuration
+ * Called at startup to fail fast (the getters below throw the same error on access).
+ * @throws ConfigValidationError listing every invalid value
+ */
+export function loadConfig(): LoadedSettings {
+    reloadEnv();
+    return loadSettings(process.env);
+}
+
+function settings(): BotSettings {
+    return loadConfig().settings;
 }
 
 export const BOT_CONFIG = {
     /**
-     * Fuel & CO2 Purchase Limits
-     * Default thresholds for automated purchasing
+     * Game Connection
+     * Base URL of the game. Point this at the local stand-in server
+     * (tests/standin/) to run every util offline.
+     */
+    get game() {
+        return settings().game;
+    },
+
+    /**
+     * Data Storage
+     * Directory for all generated data files (price history, planes, cache, session state, run journals),
+     * the number of run journals kept in data/runs/ (oldest are deleted first) and how long
+     * prices are kept at full (30-minute) and hourly resolution before they are rolled up
+     */
+    get storage() {
+        return settings().storage;
+    },
+
+    /**
+     * Execution Mode
+     * Dry run: every module analyzes and logs what it would do, but stops before
+     * the confirming click (Purchase, campaign $, Plan bulk check/repair, Depart).
+     * Intended actions are recorded in the run journal with dryRun: true.
+     */
+    get mode() {
+        return settings().mode;
+    },
+
+    /**
+     * Fuel & CO2 Purchasing
+     * Price limits, emergency purchases and the thresholds of the price analysis
      */
     get fuel() {
-        reloadEnv();
-        return {
-            maxFuelPrice: parseInt(process.env.MAX_FUEL_PRICE || '550'),
-            maxCo2Price: parseInt(process.env.MAX_CO2_PRICE || '120')
-        };
+        return settings().fuel;
+    },
+
+    /**
+     * Spend Caps
+     * Limits of fuel and CO2 purchases by cash balance and daily spend.
+     * A purchase exceeding a cap is reduced to a partial fill.
+     */
+    get spending() {
+        return settings().spending;
+    },
+
+    /**
+     * Consumption Forecasting
+     * Burn rate estimation and the coverage window (hours of cover) that replaces
+     * the constant emergency thresholds and amounts once enough data exists
+     */
+    get consumption() {
+        return settings().consumption;
+    },
+
+    /**
+     * Buying Strategies
+     * Strategy per commodity (heuristic, threshold, percentile, ma-crossover,
+     * time-of-day) and the parameters of the non-default strategies
+     */
+    get strategies() {
+        return settings().strategies;
+    },
+
+    /**
+     * Seasonality Model
+     * Per-timeslot price profiles and when to wait for a cheaper predicted slot
+     */
+    get seasonality() {
+        return settings().seasonality;
+    },
+
+    /**
+     * Price Forecast
+     * Damped-trend exponential smoothing over the slot series: forecast window,
+     * horizon, prediction interval and how the forecast error sets the confidence
+     */
+    get forecast() {
+        return settings().forecast;
+    },
+
+    /**
+     * Purchase Ladder
+     * Regular purchases buy a share of the free capacity depending on the price's
+     * percentile (tiers "<percentile>:<fraction>") instead of filling it
+     */
+    get ladder() {
+        return settings().ladder;
+    },
+
+    /**
+     * Price Alerts
+     * Rules checked after every chart scrape ("fuel below 400", "co2 low 7d", "any bottom 5%")
+     */
+    get alerts() {
+        return settings().alerts;
+    },
+
+    /**
+     * Price Data Quality
+     * Plausibility limits for scraped chart prices, the score intelligent buying
+     * needs and when charts are scraped again to fill missing slots
+     */
+    get quality() {
+        return settings().quality;
+    },
+
+    /**
+     * Price Import
+     * Column names / regexes of `prices import` files and whether stored prices are replaced
+     */
+    get priceImport() {
+        return settings().priceImport;
     },
 
     /**
      * Fleet Management Configuration
-     * Controls automated departure and scraping behavior
+     * Controls automated departure behavior. percentage is a fraction (0.10 = 10%),
+     * maxDeparturesOverride replaces the percentage calculation when set.
      */
     get fleet() {
-        reloadEnv();
-        return {
-            // Percentage of total fleet to depart per run (0.10 = 10%)
-            percentage: parseFloat(process.env.FLEET_PERCENTAGE || '0.10'),
-
-            // Min delay between plane operations (ms)
-            minDelay: parseInt(process.env.FLEET_MIN_DELAY || '1000'),
-
-            // Max delay between plane operations (ms)
-            maxDelay: parseInt(process.env.FLEET_MAX_DELAY || '2000'),
-
-            // Mock mode: if true, no real departures (for testing)
-            mockMode: process.env.FLEET_MOCK_MODE === 'true',
-
-            // Global maximum: max departures per run (overrides percentage calculation)
-            // If not set or empty, no override is applied (uses percentage-based calculation)
-            maxDeparturesOverride: process.env.MAX_DEPARTURES_OVERRIDE && process.env.MAX_DEPARTURES_OVERRIDE.trim() !== ''
-                ? parseInt(process.env.MAX_DEPARTURES_OVERRIDE)
-                : undefined
-        };
-    }
+        return settings().fleet;
+    },
 
-    // Future expansion areas:
-    // campaigns: { ... }
-    // maintenance: { ... }
-    // scraping: { ... }
-    // notifications: { ... }
+    /**
+     * Task Pipeline Configuration
+     * Tasks to skip in the bot run (fuel, co2, campaigns, maintenance, smartFleet)
+     */
+    get pipeline() {
+        return settings().pipeline;
+    },
+
+    /**
+     * Marketing Campaigns
+     * Which campaigns are started and which reputation campaign/duration is bought
+     */
+    get campaigns() {
+        return settings().campaigns;
+    },
+
+    /**
+     * Maintenance
+     * Bulk check / bulk repair switches and the wear percentage for repairs
+     */
+    get maintenance() {
+        return settings().maintenance;
+    },
+
+    /**
+     * Scraping
+     * Timeouts, retention of flight history, Smart Fleet re-scrape interval
+     */
+    get scraping() {
+        return settings().scraping;
+    },
+
+    /**
+     * Session
+     * Validation of the stored login session and re-login when it dies mid-run
+     */
+    get session() {
+        return settings().session;
+    },
+
+    /**
+     * Notifications
+     * Telegram / webhook transports, enabled events and message templates
+     * (keep the Telegram token in the environment, never commit it to a config file)
+     */
+    get notifications() {
+        return settings().notifications;
+    }
 };
 
+export { ConfigValidationError } from './utils/config/configSchema';
+export { CONFIG_PROFILES } from './utils/config/configProfiles';
+export type { LoadedSettings } from './utils/config/configLoader';
+
 // Type exports for better IDE support
 export type BotConfig = typeof BOT_CONFIG;
 export type FleetConfig = typeof BOT_CONFIG.fleet;
 export type FuelConfig = typeof BOT_CONFIG.fuel;
+export type SpendingConfig = typeof BOT_CONFIG.spending;
+export type ConsumptionConfig = typeof BOT_CONFIG.consumption;
+export type StrategiesConfig = typeof BOT_CONFIG.strategies;
+export type SeasonalityConfig = typeof BOT_CONFIG.seasonality;
+export type ForecastConfig = typeof BOT_CONFIG.forecast;
+export type LadderConfig = typeof BOT_CONFIG.ladder;
+export type AlertsConfig = typeof BOT_CONFIG.alerts;
+export type QualityConfig = typeof BOT_CONFIG.quality;
+export type PriceImportConfig = typeof BOT_CONFIG.priceImport;
+export type PipelineConfig = typeof BOT_CONFIG.pipeline;
+export type GameConfig = typeof BOT_CONFIG.game;
+export type ModeConfig = typeof BOT_CONFIG.mode;
+export type StorageConfig = typeof BOT_CONFIG.storage;
+export type CampaignsConfig = typeof BOT_CONFIG.campaigns;
+export type MaintenanceConfig = typeof BOT_CONFIG.maintenance;
+export type ScrapingConfig = typeof BOT_CONFIG.scraping;
+export type SessionConfig = typeof BOT_CONFIG.session;
+export type NotificationsConfig = typeof BOT_CONFIG.notifications;
@@ -0,0 +1,21 @@
+import { defineConfig } from '@playwright/test';
+import baseConfig from './playwright.config';
+
+/**
+ * Offline configuration: runs the specs against the local AM4 stand-in
+ * (tests/standin/) instead of https://www.airlinemanager.com/.
+ *
+ * Usage:
+ *   npx playwright test -c playwright.standin.config.ts tests/airlineManager.spec.ts
+ *
+ * NOTE: Values in .env are reloaded with override on every BOT_CONFIG access,
+ * so do not set AM4_BASE_URL or AM4_DATA_DIR in .env when running offline.
+ */
+export default defineConfig({
+  ...baseConfig,
+  globalSetup: require.resolve('./tests/standin/globalSetup'),
+  reporter: 'list',
+  /* One shared stand-in server: keep runs sequential */
+  fullyParallel: false,
+  workers: 1,
+});
@@ -0,0 +1,109 @@
+import { test, expect } from '@playwright/test';
+import { PriceAlerts, evaluateAlertRules } from '../../utils/21_alerts.utils';
+import { RunJournal } from '../../utils/07_journal.utils';
+import { Notification, Notifier } from '../../utils/08_notifications.utils';
+import { loadSettings } from '../../utils/config/configLoader';
+import { ConfigValidationError, parseAlertRule } from '../../utils/config/configSchema';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Price Alerts Test
+ * Checks alert rules against synthetic price series and delivers the alerts
+ * through the journal to an in-memory transport (no browser).
+ *
+ * Run with: npx playwright test tests/dev/alerts.spec.ts
+ */
+
+const now = new Date('2025-01-15T12:00:00.000Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 3600000).toISOString();
+
+/**
+ * Hourly prices over the last `hours`, the newest one last
+ */
+function series(hours: number, price: (hour: number) => number) {
+    return Array.from({ length: hours }, (_, i) => ({ timestamp: hoursAgo(hours - 1 - i), price: price(i) }));
+}
+
+let dataDir: string;
+
+test.beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-alerts-'));
+    process.env.AM4_DATA_DIR = dataDir;
+});
+
+test.afterEach(async () => {
+    delete process.env.PRICE_ALERTS;
+    delete process.env.AM4_DATA_DIR;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('Alerts: rules are parsed and validated', async () => {
+    expect(parseAlertRule('fuel below $400')).toEqual({ text: 'fuel below $400', commodity: 'fuel', kind: 'below', price: 400 });
+    expect(parseAlertRule('CO2 low 7d')).toEqual({ text: 'CO2 low 7d', commodity: 'co2', kind: 'low', days: 7 });
+    expect(parseAlertRule('any bottom 5%')).toMatchObject({ kind: 'bottom', percent: 5, days: null });
+    expect(parseAlertRule('any bottom 2.5% 28d')).toMatchObject({ kind: 'bottom', percent: 2.5, days: 28 });
+
+    const issues = (env: NodeJS.ProcessEnv) => {
+        try {
+            loadSettings(env);
+        } catch (error) {
+            if (error instanceof ConfigValidationError) return error.issues;
+            throw error;
+        }
+        return [];
+    };
+    expect(issues({ PRICE_ALERTS: 'fuel below 400,co2 low 7d' })).toEqual([]);
+    expect(issues({ PRICE_ALERTS: 'fuel cheap,co2 bottom 80%' })).toEqual([
+        'alerts.rules: "fuel cheap" is not a rule like "fuel below 400", "co2 low 7d" or "any bottom 5% 28d"',
+        'alerts.rules: "co2 bottom 80%": the bottom share must be between 0 and 50%'
+    ]);
+});
+
+test('Alerts: absolute price, new low and bottom percentile', async () => {
+    const rules = ['fuel below 400', 'any low 7d', 'co2 bottom 5% 7d'].map(parseAlertRule);
+    const week = series(8 * 24, hour => 500 + (hour % 24) * 5);            // 500 ... 615, every day the same
+    const point = (price: number) => ({ timestamp: hoursAgo(0), price });
+
+    expect(evaluateAlertRules('fuel', point(505), [...week.slice(0, -1), point(505)], rules)).toEqual([]);
+    expect(evaluateAlertRules('fuel', point(399), [...week.slice(0, -1), point(399)], rules).map(alert => alert.message)).toEqual([
+        '$399 is below $400',
+        '$399 is a new 7-day low (previous low $500)'
+    ]);
+    expect(evaluateAlertRules('co2', point(500), [...week.slice(0, -1), point(500)], rules)).toEqual([
+        { rule: 'co2 bottom 5% 7d', commodity: 'co2', slot: hoursAgo(0), price: 500, message: '$500 is in the bottom 5% of the last 7 day(s) (P5 $505)' }
+    ]);
+
+    // Three days of history can't tell a 7-day low
+    expect(evaluateAlertRules('co2', point(450), [...week.slice(-72, -1), point(450)], rules).map(alert => alert.rule)).toEqual(['co2 bottom 5% 7d']);
+});
+
+test('Alerts: sent once per rule and slot, delivered via the journal', async () => {
+    process.env.PRICE_ALERTS = 'fuel below 400,co2 below 100';
+    const sent: Notification[] = [];
+    const notifier = new Notifier([{ name: 'memory', send: async notification => { sent.push(notification); } }]);
+    const alerts = new PriceAlerts();
+    const timeslots = [
+        { timestamp: hoursAgo(1), fuel: 380, co2: 90 },
+        { timestamp: hoursAgo(0.5), fuel: 390, co2: null }
+    ];
+
+    const unwatch = notifier.watchJournal();
+    try {
+        RunJournal.start('alerts');
+        expect(alerts.check('fuel', timeslots, now)).toMatchObject([{ rule: 'fuel below 400', slot: hoursAgo(0.5), price: 390 }]);
+        expect(alerts.check('fuel', timeslots, now)).toEqual([]);
+        expect(alerts.check('co2', timeslots, now)).toHaveLength(1);
+        expect(alerts.check('fuel', [...timeslots, { timestamp: hoursAgo(0), fuel: 395, co2: null }], now)).toHaveLength(1);
+        const run = RunJournal.finish('completed');
+        expect(run!.events.filter(event => event.type === 'price-alert')).toHaveLength(3);
+        await notifier.flush();
+    } finally {
+        unwatch();
+    }
+
+    expect(sent.map(notification => notification.event)).toEqual(['price-alert', 'price-alert', 'price-alert']);
+    expect(sent[0].text).toBe('📣 Fuel price alert: $390 is below $400 (rule "fuel below 400")');
+    expect(alerts.load().sent.map(alert => alert.slot)).toEqual([hoursAgo(0.5), hoursAgo(1), hoursAgo(0)]);
+});
@@ -0,0 +1,137 @@
+import { test, expect } from '@playwright/test';
+import { PriceArchive } from '../../utils/17_archive.utils';
+import type { PriceHistory } from '../../utils/05_priceAnalytics.utils';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Price Archive Test
+ * Rolls synthetic price history into hourly/daily aggregates in a temporary directory (no browser).
+ *
+ * Run with: npx playwright test tests/dev/archive.spec.ts
+ */
+
+const now = new Date('2025-03-01T12:00:00.000Z');
+
+/**
+ * Every slot of the last 20 days: $400 on the hour, $600 on the half hour
+ */
+function twentyDays(): PriceHistory {
+    const timeslots = Array.from({ length: 20 * 48 + 1 }, (_, i) => {
+        const time = new Date(now.getTime() - (20 * 48 - i) * 1800000);
+        return { timestamp: time.toISOString(), fuel: time.getUTCMinutes() === 0 ? 400 : 600, co2: 120 };
+    });
+    return { timeslots, lastUpdated: now.toISOString() };
+}
+
+let dataDir: string;
+let archive: PriceArchive;
+
+test.beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-archive-'));
+    archive = new PriceArchive(path.join(dataDir, 'price-history.json'), path.join(dataDir, 'price-archive.json'));
+    process.env.PRICE_FULL_RESOLUTION_DAYS = '7';
+    process.env.PRICE_HOURLY_DAYS = '14';
+});
+
+test.afterEach(async () => {
+    delete process.env.PRICE_FULL_RESOLUTION_DAYS;
+    delete process.env.PRICE_HOURLY_DAYS;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('Archive: old slots are rolled into hourly and daily aggregates', async () => {
+    archive.save(twentyDays(), now);
+    archive.save(archive.loadRecent(), now);            // Nothing is rolled up twice
+
+    expect(archive.loadRecent().timeslots).toHaveLength(7 * 48 + 1);
+
+    const rollups = archive.loadRollups();
+    expect(rollups.hourly).toHaveLength(180);           // 2025-02-15 00:00 until 7 days ago
+    expect(rollups.hourly[0]).toEqual({
+        timestamp: '2025-02-15T00:00:00.000Z',
+        fuel: { min: 400, avg: 500, max: 600, count: 2 },
+        co2: { min: 120, avg: 120, max: 120, count: 2 }
+    });
+    expect(rollups.daily.map(entry => entry.timestamp.slice(0, 10)))
+        .toEqual(['2025-02-09', '2025-02-10', '2025-02-11', '2025-02-12', '2025-02-13', '2025-02-14']);
+    expect(rollups.daily[0].fuel).toEqual({ min: 400, avg: 500, max: 600, count: 24 });
+    expect(rollups.daily[1].fuel!.count).toBe(48);
+});
+
+test('Archive: query by range and resolution', async () => {
+    archive.save(twentyDays(), now);
+
+    const days = archive.query({ commodity: 'fuel', since: new Date('2025-02-20T00:00:00.000Z'), resolution: 'day' });
+    expect(days).toHaveLength(10);
+    expect(days[0]).toEqual({ timestamp: '2025-02-20T00:00:00.000Z', resolution: 'day', min: 400, avg: 500, max: 600, count: 48 });
+
+    // Periods only archived at a coarser resolution keep it
+    const all = archive.query({ commodity: 'fuel' });
+    const count = (resolution: string) => all.filter(point => point.resolution === resolution).length;
+    expect([count('day'), count('hour'), count('slot')]).toEqual([6, 180, 7 * 48 + 1]);
+
+    const hours = archive.query({ commodity: 'co2', since: new Date('2025-03-01T10:00:00.000Z'), until: now, resolution: 'hour' });
+    expect(hours.map(point => [point.timestamp.slice(11, 16), point.count])).toEqual([['10:00', 2], ['11:00', 2], ['12:00', 1]]);
+});
+
+test('Archive: reads are cached until the file changes', async () => {
+    archive.save(twentyDays(), now);
+    expect(archive.loadRecent()).toEqual(archive.loadRecent());
+
+    // A loaded history changed without saving it (e.g. the save failed) does not change the next read
+    const loaded = archive.loadRecent();
+    const price = loaded.timeslots[0].fuel;
+    loaded.timeslots[0].fuel = 1;
+    loaded.timeslots.push({ timestamp: now.toISOString(), fuel: 1, co2: 1 });
+    expect(archive.loadRecent().timeslots[0].fuel).toBe(price);
+    expect(archive.loadRecent().timeslots).toHaveLength(loaded.timeslots.length - 1);
+
+    fs.writeFileSync(path.join(dataDir, 'price-history.json'), JSON.stringify({ timeslots: [], lastUpdated: now.toISOString() }));
+    expect(archive.loadRecent().timeslots).toHaveLength(0);
+});
+
+test('Archive: unreadable files are moved aside, not overwritten', async () => {
+    fs.writeFileSync(path.join(dataDir, 'price-archive.json'), '{ "hourly": [');
+    fs.writeFileSync(path.join(dataDir, 'price-history.json'), '{ "timeslots": [');
+    expect(archive.loadRecent().timeslots).toEqual([]);
+    expect(archive.loadRollups()).toEqual({ hourly: [], daily: [], lastRollup: null });
+
+    archive.save(twentyDays(), now);
+
+    const moved = (name: string) => fs.readdirSync(dataDir).filter(file => file.startsWith(`${name}.unreadable-`));
+    expect(moved('price-archive')).toHaveLength(1);
+    expect(fs.readFileSync(path.join(dataDir, moved('price-archive')[0]), 'utf8')).toBe('{ "hourly": [');
+    expect(fs.readFileSync(path.join(dataDir, moved('price-history')[0]), 'utf8')).toBe('{ "timeslots": [');
+    expect(archive.loadRollups().hourly).toHaveLength(180);
+});
+
+test('Archive: histories without sources are migrated', async () => {
+    fs.writeFileSync(path.join(dataDir, 'price-history.json'), JSON.stringify({
+        timeslots: [{ timestamp: '2025-03-01T11:30:00.000Z', fuel: 500, co2: 0 }],
+        lastUpdated: '2025-03-01T11:40:00.000Z'
+    }));
+
+    expect(archive.loadRecent().timeslots).toEqual([{
+        timestamp: '2025-03-01T11:30:00.000Z',
+        fuel: 500,
+        co2: null,                                                  // 0 marked a missing price
+        sources: { fuel: { source: 'migration', observedAt: '2025-03-01T11:40:00.000Z' } }
+    }]);
+});
+
+test('Archive: the old format is migrated once and saved', async () => {
+    const slot = new Date(Math.floor(Date.now() / 1800000) * 1800000 - 1800000).toISOString();
+    const file = path.join(dataDir, 'price-history.json');
+    fs.writeFileSync(file, JSON.stringify({ fuel: [{ timestamp: slot, price: 500 }], co2: [{ timestamp: slot, price: 120 }] }));
+
+    const migrated = archive.loadRecent();
+    expect(migrated.timeslots).toMatchObject([{ timestamp: slot, fuel: 500, co2: 120 }]);
+
+    const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+    expect(saved.fuel).toBeUndefined();
+    expect(saved.timeslots).toEqual(migrated.timeslots);
+    expect(new PriceArchive(file, path.join(dataDir, 'price-archive.json')).loadRecent().timeslots[0].sources)
+        .toEqual(migrated.timeslots[0].sources);
+});
@@ -0,0 +1,62 @@
+import { test, expect } from '@playwright/test';
+import { BacktestScenario, formatBacktestReport, parsePriceCsv, runBacktest } from '../../utils/15_backtest.utils';
+import { STRATEGIES } from '../../utils/14_strategies.utils';
+import type { TimeslotEntry } from '../../utils/05_priceAnalytics.utils';
+
+/**
+ * Backtest Test
+ * Replays synthetic price series through the strategies without a browser.
+ *
+ * Run with: npx playwright test tests/dev/backtest.spec.ts
+ */
+
+const start = new Date('2025-01-15T00:00:00.000Z').getTime();
+
+function hourly(prices: number[]): TimeslotEntry[] {
+    return prices.map((fuel, hour) => ({ timestamp: new Date(start + hour * 3600000).toISOString(), fuel, co2: 0 }));
+}
+
+test('Backtest: CSV prices are rounded to timeslots', async () => {
+    const timeslots = parsePriceCsv([
+        'Timestamp;Fuel;CO2',
+        '2025-01-15T00:40:00Z;510;120',
+        '2025-01-15T00:10:00Z;500;',
+        '2025-01-15T00:35:00Z;520;125',
+        'not a date;1;1'
+    ].join('\n'));
+
+    expect(timeslots).toEqual([
+        { timestamp: '2025-01-15T00:00:00.000Z', fuel: 500, co2: null },
+        { timestamp: '2025-01-15T00:30:00.000Z', fuel: 520, co2: 125 }
+    ]);
+    expect(() => parsePriceCsv('time,price\n2025-01-15T00:00:00Z,500')).toThrow('CSV header');
+});
+
+test('Backtest: cost, average price and cash tied up of the threshold baseline', async () => {
+    const scenario: BacktestScenario = { commodity: 'fuel', capacity: 1000000, initialHolding: 500000, burnPerHour: 50000, maxPrice: 550 };
+    const result = runBacktest(hourly([500, 600, 400, 500]), scenario, STRATEGIES['threshold']);
+
+    // Fill 500,000 at $500, skip $600, top up 100,000 at $400 and 50,000 at $500
+    expect(result).toMatchObject({
+        strategy: 'threshold', slots: 4, hours: 3, purchases: 3, emergencyPurchases: 0,
+        bought: 650000, totalCost: 315000, avgPricePaid: 485,
+        consumed: 150000, consumedCost: 74500, endingHolding: 1000000, maxCashTiedUp: 500000
+    });
+    expect(result.stockouts).toHaveLength(0);
+});
+
+test('Backtest: stockouts end with the next emergency purchase', async () => {
+    const scenario: BacktestScenario = { commodity: 'fuel', capacity: 1000000, initialHolding: 1000000, burnPerHour: 400000, maxPrice: 550 };
+    const timeslots = hourly([1200, 1200, 1200, 1200, 1200, 500]);
+    const result = runBacktest(timeslots, scenario, STRATEGIES['threshold']);
+
+    // Empty 30 minutes after the third slot, refilled at the sixth
+    expect(result.stockouts).toEqual([{ start: '2025-01-15T02:30:00.000Z', end: '2025-01-15T05:00:00.000Z', shortfall: 1000000 }]);
+    expect(result.stockoutHours).toBe(2.5);
+    expect(result).toMatchObject({ purchases: 1, emergencyPurchases: 1, bought: 1000000, totalCost: 500000 });
+
+    const report = formatBacktestReport(scenario, [result, runBacktest(timeslots, scenario, STRATEGIES['percentile'])], timeslots);
+    expect(report).toContain('threshold (baseline)');
+    expect(report).toContain('Stockouts:       1 (2.5h empty)');
+    expect(report).toContain('vs. baseline:');
+});
@@ -0,0 +1,88 @@
+import { test, expect } from '@playwright/test';
+import { loadSettings } from '../../utils/config/configLoader';
+import { ConfigValidationError } from '../../utils/config/configSchema';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Config Loader Test
+ * Loads settings from explicit environments and temporary config files (no .env, no browser).
+ *
+ * Run with: npx playwright test tests/dev/config.spec.ts
+ */
+
+function writeConfigFile(name: string, content: string): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-config-'));
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, content);
+    return file;
+}
+
+function validationIssues(env: NodeJS.ProcessEnv): string[] {
+    try {
+        loadSettings(env);
+    } catch (error) {
+        if (error instanceof ConfigValidationError) return error.issues;
+        throw error;
+    }
+    return [];
+}
+
+test('Config: profile, file and environment are layered in order', async () => {
+    const file = writeConfigFile('bot.config.yaml', [
+        'profile: conservative',
+        'fuel:',
+        '  maxFuelPrice: 520',
+        'campaigns:',
+        '  reputationHours: 12'
+    ].join('\n'));
+
+    const { settings, profile } = loadSettings({ BOT_CONFIG_FILE: file, MAX_CO2_PRICE: '115' });
+
+    expect(profile).toBe('conservative');
+    expect(settings.fuel.maxFuelPrice).toBe(520);           // file beats profile (500)
+    expect(settings.fuel.maxCo2Price).toBe(115);            // env beats profile (110)
+    expect(settings.fleet.percentage).toBe(0.05);           // profile beats default
+    expect(settings.campaigns.reputationHours).toBe(12);
+    expect(settings.storage.priceFullResolutionDays).toBe(28);
+
+    // BOT_PROFILE wins over the profile named in the file
+    expect(loadSettings({ BOT_CONFIG_FILE: file, BOT_PROFILE: 'aggressive' }).settings.fleet.percentage).toBe(0.25);
+});
+
+test('Config: JSON files and empty environment variables', async () => {
+    const file = writeConfigFile('bot.config.json', JSON.stringify({ fleet: { maxDeparturesOverride: 3 } }));
+
+    expect(loadSettings({ BOT_CONFIG_FILE: file }).settings.fleet.maxDeparturesOverride).toBe(3);
+    expect(loadSettings({ BOT_CONFIG_FILE: file, MAX_DEPARTURES_OVERRIDE: '' }).settings.fleet.maxDeparturesOverride).toBe(3);
+    expect(loadSettings({ SKIP_TASKS: 'campaigns, maintenance' }).settings.pipeline.skipTasks).toEqual(['campaigns', 'maintenance']);
+});
+
+test('Config: invalid values fail with all problems at once', async () => {
+    const issues = validationIssues({ FLEET_PERCENTAGE: '10', DRY_RUN: 'yes', MAX_FUEL_PRICE: 'abc', BOT_PROFILE: 'reckless' });
+
+    expect(issues).toHaveLength(4);
+    expect(issues).toContain('fleet.percentage must be between 0 and 1, got 10 (0.10 = 10% of the fleet) - set by FLEET_PERCENTAGE');
+    expect(issues).toContain('DRY_RUN="yes" must be true or false (mode.dryRun)');
+    expect(issues).toContain('MAX_FUEL_PRICE="abc" must be a number (fuel.maxFuelPrice)');
+    expect(issues).toContain('Unknown profile "reckless" (available: conservative, aggressive, ci)');
+
+    const file = writeConfigFile('bot.config.yaml', 'fleet:\n  percentag: 0.2\nmaintenance:\n  repairWearPercent: "60"\n');
+    expect(validationIssues({ BOT_CONFIG_FILE: file })).toEqual([
+        'Unknown setting "fleet.percentag" in bot.config.yaml',
+        'maintenance.repairWearPercent must be a number, got "60" - set by bot.config.yaml'
+    ]);
+
+    // Removed settings name their replacement instead of being unknown or ignored
+    const migration = 'intelligent buying is gated on the data-quality score now - set quality.minScore (QUALITY_MIN_SCORE) instead';
+    const retired = writeConfigFile('bot.config.yaml', 'fuel:\n  minConfidence: 60\n');
+    expect(validationIssues({ BOT_CONFIG_FILE: retired, MIN_CONFIDENCE: '60' })).toEqual([
+        `Setting "fuel.minConfidence" in bot.config.yaml was removed: ${migration}`,
+        `MIN_CONFIDENCE (fuel.minConfidence) was removed: ${migration}`
+    ]);
+
+    expect(validationIssues({ FLEET_MIN_DELAY: '3000' })).toEqual([
+        'fleet.minDelay (3000) must not be greater than fleet.maxDelay (2000)'
+    ]);
+});
@@ -0,0 +1,111 @@
+import { test, expect } from '@playwright/test';
+import { ConsumptionForecaster, HoldingLog, estimateFromFlights, estimateFromHoldings } from '../../utils/13_consumption.utils';
+import type { PurchaseEntry } from '../../utils/12_purchases.utils';
+import type { PlaneData } from '../../utils/04_fleet.utils';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Consumption Forecast Test
+ * Estimates burn rates from holdings, purchases and flight history without a browser.
+ *
+ * Run with: npx playwright test tests/dev/consumption.spec.ts
+ */
+
+const now = new Date('2025-01-15T12:00:00.000Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 3600000).toISOString();
+
+function purchase(timestamp: string, amount: number): PurchaseEntry {
+    return {
+        timestamp, commodity: 'fuel', amount, unitPrice: 500, totalCost: amount / 2,
+        holdingBefore: 0, holdingAfter: amount, reason: '', basis: 'threshold', marketAvg24h: null, runId: null
+    };
+}
+
+test('Consumption: burn rate from holdings corrected for purchases', async () => {
+    const observations = [
+        { timestamp: hoursAgo(100), commodity: 'fuel' as const, holding: 9000000 },   // Outside the 72h window
+        { timestamp: hoursAgo(12), commodity: 'fuel' as const, holding: 5000000 },
+        { timestamp: hoursAgo(8), commodity: 'fuel' as const, holding: 3000000 },     // -2,000,000 in 4h
+        { timestamp: hoursAgo(4), commodity: 'fuel' as const, holding: 7000000 },     // +6,000,000 bought, -2,000,000 used
+        { timestamp: hoursAgo(2), commodity: 'fuel' as const, holding: 9000000 }      // Unknown purchase - skipped
+    ];
+    const purchases = [purchase(hoursAgo(7.9), 6000000), purchase(hoursAgo(50), 1000000)];
+
+    const estimate = estimateFromHoldings(observations, purchases, now, 72);
+    expect(estimate).toEqual({ source: 'holdings', perHour: 500000, sampleHours: 8, samples: 2 });
+
+    expect(estimateFromHoldings(observations.slice(0, 2), [], now, 72)).toBeNull();
+});
+
+test('Consumption: CO2 burn rate from flight history', async () => {
+    const plane = (lastScraped: string, flights: { hoursAgo: number; quotas: number | null }[]) => ({
+        metadata: { lastScraped },
+        flightHistory: flights.map(flight => ({ timestamp: hoursAgo(flight.hoursAgo), quotas: flight.quotas }))
+    }) as unknown as PlaneData;
+
+    const planes = [
+        plane(hoursAgo(0), [{ hoursAgo: 2, quotas: 30000 }, { hoursAgo: 20, quotas: 42000 }, { hoursAgo: 30, quotas: 50000 }]),
+        plane(hoursAgo(12), [{ hoursAgo: 14, quotas: 12000 }, { hoursAgo: 16, quotas: null }]),
+        plane(hoursAgo(40), [{ hoursAgo: 41, quotas: 99999 }])      // Not scraped within the window
+    ];
+
+    // 72,000 quotas / 24h = 3,000/h and 12,000 / 12h = 1,000/h → 2,000/h per plane
+    const estimate = estimateFromFlights(planes, 10, now, 24);
+    expect(estimate).toEqual({ source: 'flights', perHour: 20000, sampleHours: 24, samples: 2 });
+    expect(estimateFromFlights(planes, null, now, 24)!.perHour).toBe(6000);
+    expect(estimateFromFlights([], 10, now, 24)).toBeNull();
+});
+
+test('Consumption: thresholds follow the coverage window once the burn rate is known', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-consumption-'));
+    process.env.AM4_DATA_DIR = dataDir;
+
+    try {
+        const forecaster = new ConsumptionForecaster();
+
+        // No data yet: configured constants
+        const initial = forecaster.forecast('fuel', 1500000, now);
+        expect(initial).toMatchObject({ derived: false, burnRate: null, hoursOfCover: null, emergencyHolding: 2000000, emergencyAmount: 2000000 });
+
+        // 6,000,000 L used in 12 hours → 500,000 L/h
+        const holdingLog = new HoldingLog();
+        holdingLog.record('fuel', 8000000, hoursAgo(12));
+        holdingLog.record('fuel', 2000000, hoursAgo(0));
+
+        const forecast = forecaster.forecast('fuel', 2000000, now);
+        expect(forecast).toMatchObject({ derived: true, hoursOfCover: 4, emergencyHolding: 3000000, emergencyAmount: 10000000 });
+        expect(forecast.burnRate).toMatchObject({ source: 'holdings', perHour: 500000 });
+        expect(ConsumptionForecaster.describe(forecast)).toContain('4.0h of cover');
+
+        // Too few observed hours: constants again
+        process.env.CONSUMPTION_MIN_SAMPLE_HOURS = '24';
+        expect(forecaster.forecast('fuel', 2000000, now).derived).toBe(false);
+    } finally {
+        delete process.env.CONSUMPTION_MIN_SAMPLE_HOURS;
+        delete process.env.AM4_DATA_DIR;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+});
+
+test('Consumption: an unreadable holding log is moved aside, not overwritten', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-consumption-'));
+    process.env.AM4_DATA_DIR = dataDir;
+
+    try {
+        fs.writeFileSync(path.join(dataDir, 'holdings.json'), '{ "observations": [');
+
+        const holdingLog = new HoldingLog();
+        expect(holdingLog.query('fuel')).toEqual([]);
+        holdingLog.record('fuel', 2000000, hoursAgo(0));
+
+        const backups = fs.readdirSync(dataDir).filter(name => name.startsWith('holdings.unreadable-'));
+        expect(backups).toHaveLength(1);
+        expect(fs.readFileSync(path.join(dataDir, backups[0]), 'utf-8')).toBe('{ "observations": [');
+        expect(holdingLog.query('fuel').map(observation => observation.holding)).toEqual([2000000]);
+    } finally {
+        delete process.env.AM4_DATA_DIR;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+});
@@ -1,13 +1,17 @@
 import { test } from '@playwright/test';
 import { GeneralUtils } from '../../utils/00_general.utils';
 import { FetchPlanesUtils } from '../../utils/04_fleet.utils';
+import { RunJournal } from '../../utils/07_journal.utils';
 import * as fs from 'fs';
+import * as path from 'path';
 
 require('dotenv').config();
 
 test('Fetch All Planes', async ({ page }) => {
   test.setTimeout(180000); // 3 minutes timeout for this operation
 
+  RunJournal.start('fetchPlanes');
+
   // Initialize utilities
   const generalUtils = new GeneralUtils(page);
   const fetchPlanesUtils = new FetchPlanesUtils(page);
@@ -19,17 +23,19 @@ test('Fetch All Planes', async ({ page }) => {
   // Fetch all planes and write to JSON
   try {
     console.log('Starting to fetch all planes...');
-    // Parameter: maxDetailsToFetch
+    // Parameter: maxDetailsToFetch (default: scraping.fullScanMaxDetails / FULLSCAN_MAX_DETAILS)
     // - 5 (default): Ersten 5 Flugzeuge mit Details + Flughistorie
     // - 0: ALLE Flugzeuge mit Details (langsam! ~1-2 Min)
     // - -1: NUR Basis-Daten ohne Details (schnell! ~20 Sek)
-    const planes = await fetchPlanesUtils.getAllPlanes(5); // ← Standard: 5 Flugzeuge mit Details
+    const planes = await fetchPlanesUtils.getAllPlanes(); // ← Standard: 5 Flugzeuge mit Details
     console.log(`Successfully fetched ${planes.length} planes`);
+    RunJournal.record({ type: 'scrape', target: 'fleet', count: planes.length });
     
     // Write data to JSON file
-    fs.mkdirSync('data', { recursive: true });
-    fs.writeFileSync('data/planes.json', JSON.stringify(planes, null, 2));
-    console.log('Planes data written to data/planes.json');
+    const planesPath = GeneralUtils.dataPath('planes.json');
+    fs.mkdirSync(path.dirname(planesPath), { recursive: true });
+    fs.writeFileSync(planesPath, JSON.stringify(planes, null, 2));
+    console.log(`Planes data written to ${planesPath}`);
     
     // Optional: Write timestamped version for history
     // const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
@@ -38,9 +44,13 @@ test('Fetch All Planes', async ({ page }) => {
     // console.log(`Historical data written to ${historyFilename}`);
   } catch (error) {
     console.error('Error while fetching planes data:', error);
+    RunJournal.recordError('fetch-planes', error);
+    RunJournal.finish('failed');
     throw error; // Re-throw to fail the test
   }
 
+  RunJournal.finish('completed');
+
   // Close the page
   await page.close();
 });
\ No newline at end of file
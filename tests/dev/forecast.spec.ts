@@ -0,0 +1,92 @@
+import { test, expect } from '@playwright/test';
+import { forecastPrices } from '../../utils/22_forecast.utils';
+import { PriceAnalyticsUtils } from '../../utils/05_priceAnalytics.utils';
+import { loadSettings } from '../../utils/config/configLoader';
+import { ConfigValidationError } from '../../utils/config/configSchema';
+
+/**
+ * Price Forecaster Test
+ * Forecasts synthetic slot series (trend, daily pattern, noise) without a browser.
+ *
+ * Run with: npx playwright test tests/dev/forecast.spec.ts
+ */
+
+const now = new Date('2025-01-15T12:10:00.000Z');
+const settings = { windowHours: 168, horizonSlots: 6, intervalPercent: 80, evaluationSlots: 48, maxErrorPercent: 50 };
+
+/**
+ * The last `count` slots up to `now`, priced by `price(index, time)`
+ */
+function series(count: number, price: (i: number, time: Date) => number): { timestamp: string; price: number }[] {
+    const end = Math.floor(now.getTime() / 1800000) * 1800000;
+    return Array.from({ length: count }, (_, i) => {
+        const time = new Date(end - (count - 1 - i) * 1800000);
+        return { timestamp: time.toISOString(), price: price(i, time) };
+    });
+}
+
+/**
+ * Deterministic noise between $400 and $1,200
+ */
+function noise(count: number): { timestamp: string; price: number }[] {
+    let seed = 1;
+    return series(count, () => {
+        seed = (seed * 16807) % 2147483647;
+        return Math.round(400 + seed / 2147483647 * 800);
+    });
+}
+
+test('Forecast: follows a trend with widening intervals', async () => {
+    const rising = forecastPrices(series(48, i => 400 + i * 10), now, settings);
+    expect(rising.points.map(point => point.timestamp.slice(11, 16))).toEqual(['12:30', '13:00', '13:30', '14:00', '14:30', '15:00']);
+    expect(rising.points[0].price).toBeGreaterThan(870);
+    expect(rising.points[5].price).toBeGreaterThan(rising.points[0].price);
+    expect(rising).toMatchObject({ trend: 'rising', seasonal: false, evaluated: 47 });
+    expect(rising.confidence).toBeGreaterThan(90);
+    for (const point of rising.points) {
+        expect(point.low).toBeLessThanOrEqual(point.price);
+        expect(point.high).toBeGreaterThanOrEqual(point.price);
+    }
+    const width = (i: number) => rising.points[i].high - rising.points[i].low;
+    expect(width(5)).toBeGreaterThan(width(0));
+
+    expect(forecastPrices(series(48, i => 900 - i * 10), now, settings).trend).toBe('falling');
+    expect(forecastPrices(series(49, () => 600), now, settings)).toMatchObject({ trend: 'stable', confidence: 100, level: 600 });
+
+    // Too few prices: no forecast
+    expect(forecastPrices(series(5, () => 600), now, settings)).toMatchObject({ points: [], confidence: 0, parameters: null });
+});
+
+test('Forecast: daily pattern is removed, noise lowers the confidence', async () => {
+    const pattern = forecastPrices(series(336, (_, time) => time.getUTCHours() < 14 ? 500 : 600), now, settings);
+    expect(pattern.seasonal).toBe(true);
+    expect(pattern.points.map(point => point.price)).toEqual([500, 500, 500, 600, 600, 600]);
+    expect(pattern.trend).toBe('stable');
+
+    const noisy = forecastPrices(noise(336), now, settings);
+    expect(noisy.seasonal).toBe(false);
+    expect(noisy.errorPercent).toBeGreaterThan(15);
+    expect(noisy.confidence).toBeLessThan(pattern.confidence);
+    expect(noisy.points[0].high - noisy.points[0].low).toBeGreaterThan(400);
+
+    // Fewer recent slots than evaluated: confidence scaled down
+    const sparse = forecastPrices(series(24, () => 600), now, settings);
+    expect(sparse).toMatchObject({ evaluated: 23, confidence: 48 });
+});
+
+test('Forecast: exposed by getStatistics and validated in the config', async () => {
+    const prices = series(48, i => 400 + i * 10);
+    const history = {
+        timeslots: prices.map(point => ({ timestamp: point.timestamp, fuel: point.price, co2: 0 })),
+        lastUpdated: now.toISOString()
+    };
+    const stats = new PriceAnalyticsUtils().getStatistics('fuel', 870, { history, now });
+    expect(stats.forecast.points).toHaveLength(6);
+    expect(stats.trend).toBe(stats.forecast.trend);
+    expect(stats.confidence).toBe(stats.forecast.confidence);
+    expect(new PriceAnalyticsUtils().getStatistics('co2', 500, { history, now })).toMatchObject({ trend: 'stable', confidence: 0 });
+
+    expect(() => loadSettings({ FORECAST_WINDOW_HOURS: '12', FORECAST_EVALUATION_SLOTS: '48' })).toThrow(ConfigValidationError);
+    expect(() => loadSettings({ FORECAST_INTERVAL_PERCENT: '100' })).toThrow(ConfigValidationError);
+    expect(loadSettings({ FORECAST_HORIZON_SLOTS: '12' }).settings.forecast.horizonSlots).toBe(12);
+});
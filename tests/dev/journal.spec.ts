@@ -0,0 +1,56 @@
+import { test, expect } from '@playwright/test';
+import { RunJournal, RunJournalReader } from '../../utils/07_journal.utils';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Run Journal Test
+ * Writes runs into a temporary data directory and reads them back.
+ *
+ * Run with: npx playwright test tests/dev/journal.spec.ts
+ */
+
+test('Journal: records events and reads them back', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-journal-'));
+    process.env.AM4_DATA_DIR = dataDir;
+
+    try {
+        const journal = RunJournal.start('airlineManager');
+        RunJournal.setTask('fuel');
+        RunJournal.record({ type: 'scrape', target: 'fuel-chart', count: 48 });
+        RunJournal.record({ type: 'purchase', commodity: 'fuel', amount: 7000000, price: 480, holdingBefore: 5000000, emergency: false, reason: 'Excellent price' });
+        RunJournal.setTask('co2');
+        RunJournal.record({ type: 'skip', scope: 'co2-purchase', reason: 'CO2 storage is full' });
+        RunJournal.recordError('co2-chart-scrape', new Error('chart not found'));
+        const finished = RunJournal.finish('completed');
+
+        expect(finished!.status).toBe('completed');
+        expect(RunJournal.active()).toBeNull();
+
+        // Without an active run, events are dropped
+        RunJournal.record({ type: 'skip', scope: 'fuel-purchase', reason: 'ignored' });
+
+        const reader = new RunJournalReader(path.join(dataDir, 'runs'));
+        const runs = reader.listRuns();
+        expect(runs).toHaveLength(1);
+        expect(runs[0]).toMatchObject({
+            runId: journal.record.runId,
+            name: 'airlineManager',
+            status: 'completed',
+            eventCounts: { scrape: 1, purchase: 1, skip: 1, error: 1 }
+        });
+
+        const purchases = reader.queryEvents({ types: ['purchase'] });
+        expect(purchases).toHaveLength(1);
+        expect(purchases[0]).toMatchObject({ commodity: 'fuel', amount: 7000000, task: 'fuel', runId: journal.record.runId });
+
+        expect(reader.queryEvents({ task: 'co2' }).map(e => e.type)).toEqual(['skip', 'error']);
+        expect(reader.queryEvents({ since: new Date(Date.now() + 60000) })).toHaveLength(0);
+        expect(reader.getLatestRun('airlineManager')!.events).toHaveLength(4);
+        expect(reader.getRun('does-not-exist')).toBeNull();
+    } finally {
+        delete process.env.AM4_DATA_DIR;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+});
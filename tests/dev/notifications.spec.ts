@@ -0,0 +1,140 @@
+import { test, expect } from '@playwright/test';
+import { RunJournal } from '../../utils/07_journal.utils';
+import { Notifier, TelegramTransport, WebhookTransport } from '../../utils/08_notifications.utils';
+import { PipelineSummary } from '../../utils/06_pipeline.utils';
+import { NotificationSink, bodyField } from '../standin/notificationSink';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Notifications Test
+ * Sends alerts and the run summary to a local notification sink instead of
+ * Telegram / a real webhook (no browser, temporary data directory).
+ *
+ * Run with: npx playwright test tests/dev/notifications.spec.ts
+ */
+
+let sink: NotificationSink;
+let sinkUrl: string;
+
+test.beforeEach(async () => {
+    sink = new NotificationSink();
+    sinkUrl = await sink.start();
+    process.env.AM4_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-notify-'));
+});
+
+test.afterEach(async () => {
+    await sink.stop();
+    delete process.env.AM4_DATA_DIR;
+});
+
+function pipelineSummary(): PipelineSummary {
+    const now = new Date().toISOString();
+    return {
+        startedAt: now,
+        finishedAt: now,
+        durationMs: 95000,
+        results: [
+            { name: 'login', status: 'success', attempts: 1, durationMs: 5000 },
+            { name: 'fuel', status: 'success', attempts: 1, durationMs: 8000 },
+            { name: 'maintenance', status: 'timeout', attempts: 2, durationMs: 90000, error: 'Task "maintenance" timed out after 45000ms' }
+        ],
+        succeeded: ['login', 'fuel'],
+        failed: ['maintenance'],
+        skipped: []
+    };
+}
+
+test('Notifications: alerts and run summary via Telegram and webhook', async () => {
+    const notifier = new Notifier([
+        new TelegramTransport('123:ABC', '42', sinkUrl),
+        new WebhookTransport(`${sinkUrl}/hook`)
+    ]);
+    const unwatch = notifier.watchJournal();
+
+    try {
+        RunJournal.start('airlineManager');
+        RunJournal.record({ type: 'purchase', commodity: 'fuel', amount: 2000000, price: 900, holdingBefore: 150000, emergency: true, reason: 'Emergency purchase' });
+        RunJournal.record({ type: 'purchase', commodity: 'co2', amount: 500000, price: 110, holdingBefore: 4000000, emergency: false, reason: 'Good price' });
+        RunJournal.record({ type: 'campaign', campaign: 'airline-reputation', option: 'Campaign 4, 24 Hours' });
+        RunJournal.record({ type: 'maintenance', action: 'check', planes: 3, wearThreshold: null });
+        RunJournal.record({ type: 'departure', fleetId: '105960001', registration: 'LU-001' });
+        RunJournal.record({ type: 'task', name: 'maintenance', status: 'timeout', attempts: 2, durationMs: 90000, error: 'timed out after 45000ms' });
+        const run = RunJournal.finish('failed');
+
+        await notifier.sendRunSummary(run, pipelineSummary());
+    } finally {
+        unwatch();
+    }
+
+    // Alerts are delivered concurrently, so don't rely on arrival order
+    const telegram = sink.received.filter(r => r.path === '/bot123:ABC/sendMessage');
+    const webhook = sink.received.filter(r => r.path === '/hook');
+    const telegramTexts = telegram.map(r => String(bodyField(r, 'text')));
+    expect(telegram).toHaveLength(3);
+    expect(webhook.map(r => String(bodyField(r, 'event'))).sort()).toEqual(['emergency-purchase', 'summary', 'timeout']);
+
+    expect(bodyField(telegram[0], 'chat_id')).toBe('42');
+    expect(telegramTexts.some(text => text.includes('🚨 Emergency fuel purchase: 2,000,000 L at $900'))).toBe(true);
+    expect(telegramTexts.some(text => text.includes('Task "maintenance" timed out after 1m 30s'))).toBe(true);
+
+    const summary = telegramTexts.find(text => text.includes('airlineManager failed')) || '';
+    expect(summary).toContain('airlineManager failed (1m 35s)');
+    expect(summary).toContain('⛽ Fuel: 2,000,000 L at $900, emergency');
+    expect(summary).toContain('🌱 CO2: 500,000 kg at $110');
+    expect(summary).toContain('📢 Campaigns: airline-reputation (Campaign 4, 24 Hours)');
+    expect(summary).toContain('🔧 Maintenance: check of 3 plane(s)');
+    expect(summary).toContain('🛫 Departures: 1');
+    expect(summary).toContain('✅ Tasks: 2/3 succeeded');
+    expect(summary).toContain('❌ Failures: maintenance timeout');
+    expect(bodyField(webhook.find(r => bodyField(r, 'event') === 'summary')!, 'values.departures')).toBe(1);
+});
+
+test('Notifications: opt-in per event, custom templates and failing transports', async () => {
+    sink.failPaths.add('/broken');
+    const notifier = new Notifier([
+        new WebhookTransport(`${sinkUrl}/hook`),
+        new WebhookTransport(`${sinkUrl}/broken`)
+    ], {
+        events: ['login-failure'],
+        templates: { 'login-failure': 'Login broke: {{error}}' }
+    });
+    const unwatch = notifier.watchJournal();
+
+    try {
+        RunJournal.start('airlineManager');
+        RunJournal.record({ type: 'purchase', commodity: 'co2', amount: 1000000, price: 150, holdingBefore: 0, emergency: true, reason: 'Emergency' });
+        RunJournal.record({ type: 'task', name: 'login', status: 'failed', attempts: 2, durationMs: 4000, error: 'Invalid credentials' });
+        await notifier.sendRunSummary(RunJournal.finish('failed'), null);
+    } finally {
+        unwatch();
+    }
+
+    // Only the opted-in event, the broken webhook did not throw
+    expect(sink.received).toEqual([
+        expect.objectContaining({ path: '/hook', body: expect.objectContaining({ event: 'login-failure', text: 'Login broke: Invalid credentials' }) })
+    ]);
+});
+
+test('Notifications: transports from config', async () => {
+    process.env.TELEGRAM_BOT_TOKEN = '999:XYZ';
+    process.env.TELEGRAM_CHAT_ID = '7';
+    process.env.TELEGRAM_API_URL = sinkUrl;
+    process.env.NOTIFY_EVENTS = 'summary';
+
+    try {
+        const notifier = Notifier.fromConfig();
+        expect(notifier.isEnabled('summary')).toBe(true);
+        expect(notifier.isEnabled('timeout')).toBe(false);
+
+        await notifier.notify('summary', { runName: 'cli-fuel', status: 'completed' });
+        expect(sink.received[0].path).toBe('/bot999:XYZ/sendMessage');
+        expect(bodyField(sink.received[0], 'text')).toContain('cli-fuel completed');
+    } finally {
+        delete process.env.TELEGRAM_BOT_TOKEN;
+        delete process.env.TELEGRAM_CHAT_ID;
+        delete process.env.TELEGRAM_API_URL;
+        delete process.env.NOTIFY_EVENTS;
+    }
+});
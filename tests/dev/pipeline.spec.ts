@@ -0,0 +1,98 @@
+import { test, expect } from '@playwright/test';
+import { TaskPipeline } from '../../utils/06_pipeline.utils';
+
+/**
+ * Task Pipeline Test
+ * Checks timeout, retry, dependency and skip handling without a browser.
+ *
+ * Run with: npx playwright test tests/dev/pipeline.spec.ts
+ */
+
+test('Pipeline: failing task does not abort independent tasks', async () => {
+    const executed: string[] = [];
+    const pipeline = new TaskPipeline();
+
+    pipeline.register({ name: 'login', run: async () => { executed.push('login'); } });
+    pipeline.register({ name: 'fuel', dependsOn: ['login'], run: async () => { throw new Error('selector not found'); } });
+    pipeline.register({ name: 'report', dependsOn: ['fuel'], run: async () => { executed.push('report'); } });
+    pipeline.register({ name: 'campaigns', dependsOn: ['login'], run: async () => { executed.push('campaigns'); return { started: 2 }; } });
+
+    const summary = await pipeline.run();
+
+    expect(executed).toEqual(['login', 'campaigns']);
+    expect(summary.succeeded).toEqual(['login', 'campaigns']);
+    expect(summary.failed).toEqual(['fuel']);
+    expect(summary.skipped).toEqual(['report']);
+    expect(summary.results.find(r => r.name === 'fuel')!.error).toBe('selector not found');
+    expect(summary.results.find(r => r.name === 'report')!.skipReason).toContain('fuel');
+    expect(summary.results.find(r => r.name === 'campaigns')!.output).toEqual({ started: 2 });
+});
+
+test('Pipeline: retries, timeouts and skip conditions', async () => {
+    let flakyAttempts = 0;
+    const events: string[] = [];
+    const pipeline = new TaskPipeline({
+        defaultTimeoutMs: 1000,
+        onTaskStart: task => events.push(`start ${task.name}`),
+        onTaskTimeout: async (task, attempt) => { events.push(`timeout ${task.name} #${attempt}`); }
+    });
+
+    pipeline.register({
+        name: 'flaky',
+        retries: 2,
+        retryDelayMs: 10,
+        run: async ({ attempt }) => {
+            flakyAttempts = attempt;
+            if (attempt < 2) throw new Error('temporary');
+        }
+    });
+    pipeline.register({
+        name: 'slow',
+        timeoutMs: 50,
+        run: () => new Promise<void>(resolve => setTimeout(resolve, 500))
+    });
+    pipeline.register({
+        name: 'disabled',
+        skipIf: () => 'disabled via SKIP_TASKS',
+        run: async () => { throw new Error('must not run'); }
+    });
+
+    const summary = await pipeline.run();
+    const result = (name: string) => summary.results.find(r => r.name === name)!;
+
+    expect(flakyAttempts).toBe(2);
+    expect(result('flaky')).toMatchObject({ status: 'success', attempts: 2 });
+    expect(result('slow')).toMatchObject({ status: 'timeout', attempts: 1 });
+    // The timed-out attempt is cleaned up before the next task starts
+    expect(events).toEqual(['start flaky', 'start slow', 'timeout slow #1', 'start disabled']);
+    expect(result('disabled')).toMatchObject({ status: 'skipped', skipReason: 'disabled via SKIP_TASKS' });
+    expect(TaskPipeline.formatSummary(summary)).toContain('Succeeded: 1, Failed: 1, Skipped: 1');
+});
+
+test('Pipeline: attempts cut short by the time budget are not reported', async () => {
+    const pipeline = new TaskPipeline({ totalBudgetMs: 100 });
+    pipeline.register({
+        name: 'campaigns',
+        retries: 3,
+        retryDelayMs: 100,
+        run: async () => { throw new Error('selector not found'); }
+    });
+
+    const summary = await pipeline.run();
+
+    expect(summary.results[0]).toMatchObject({ status: 'failed', attempts: 1, error: 'pipeline time budget exhausted' });
+});
+
+test('Pipeline: dependencies are validated', async () => {
+    const unknown = new TaskPipeline().register({ name: 'fuel', dependsOn: ['login'], run: async () => {} });
+    await expect(unknown.run()).rejects.toThrow('unknown task "login"');
+
+    const circular = new TaskPipeline()
+        .register({ name: 'a', dependsOn: ['b'], run: async () => {} })
+        .register({ name: 'b', dependsOn: ['a'], run: async () => {} });
+    await expect(circular.run()).rejects.toThrow('Circular task dependency');
+
+    expect(() => new TaskPipeline()
+        .register({ name: 'a', run: async () => {} })
+        .register({ name: 'a', run: async () => {} })).toThrow('already registered');
+});
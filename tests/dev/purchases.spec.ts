@@ -0,0 +1,138 @@
+import { test, expect } from '@playwright/test';
+import { PurchaseLedger, applySpendLimits, comparePrices, formatPurchaseReport, summarizeSpend } from '../../utils/12_purchases.utils';
+import { RunJournal } from '../../utils/07_journal.utils';
+import type { TimeslotEntry } from '../../utils/05_priceAnalytics.utils';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Purchase Ledger Test
+ * Records purchases into a temporary data directory and checks the reports.
+ *
+ * Run with: npx playwright test tests/dev/purchases.spec.ts
+ */
+
+test('Purchases: records purchases and queries them back', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-purchases-'));
+    process.env.AM4_DATA_DIR = dataDir;
+
+    try {
+        const ledger = new PurchaseLedger();
+        expect(ledger.query()).toEqual([]);
+
+        const journal = RunJournal.start('airlineManager');
+        const fuel = ledger.record({
+            commodity: 'fuel', amount: 2000000, unitPrice: 450, holdingBefore: 1000000,
+            reason: 'Excellent price', basis: 'intelligent', marketAvg24h: 600
+        });
+        RunJournal.finish('completed');
+        ledger.record({
+            timestamp: '2025-01-13T10:00:00.000Z', commodity: 'co2', amount: 500000, unitPrice: 120,
+            holdingBefore: 0, reason: 'Emergency', basis: 'emergency', marketAvg24h: null
+        });
+
+        expect(fuel).toMatchObject({ totalCost: 900000, holdingAfter: 3000000, runId: journal.record.runId });
+        expect(fs.existsSync(path.join(dataDir, 'purchase-log.json'))).toBe(true);
+
+        const all = new PurchaseLedger().query();
+        expect(all.map(entry => entry.commodity)).toEqual(['co2', 'fuel']);
+        expect(all[0].runId).toBeNull();
+        expect(ledger.query({ commodity: 'fuel' })).toHaveLength(1);
+        expect(ledger.query({ since: '2025-01-14', until: '2025-01-20' })).toHaveLength(0);
+        expect(ledger.spentToday('fuel')).toBe(900000);
+        expect(ledger.spentToday('co2')).toBe(0);
+    } finally {
+        delete process.env.AM4_DATA_DIR;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+});
+
+test('Purchases: an unreadable ledger is moved aside, not overwritten', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-purchases-'));
+    process.env.AM4_DATA_DIR = dataDir;
+
+    try {
+        const file = path.join(dataDir, 'purchase-log.json');
+        fs.writeFileSync(file, '{ "purchases": [ { "commodity": "fuel"');
+
+        const ledger = new PurchaseLedger();
+        expect(ledger.query()).toEqual([]);
+        ledger.record({
+            commodity: 'co2', amount: 500000, unitPrice: 120, holdingBefore: 0,
+            reason: 'Emergency', basis: 'emergency', marketAvg24h: null
+        });
+
+        const backups = fs.readdirSync(dataDir).filter(name => name.startsWith('purchase-log.unreadable-'));
+        expect(backups).toHaveLength(1);
+        expect(fs.readFileSync(path.join(dataDir, backups[0]), 'utf-8')).toBe('{ "purchases": [ { "commodity": "fuel"');
+        expect(ledger.query().map(entry => entry.commodity)).toEqual(['co2']);
+    } finally {
+        delete process.env.AM4_DATA_DIR;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+});
+
+test('Purchases: spend, average price and savings', async () => {
+    const entry = (timestamp: string, commodity: 'fuel' | 'co2', amount: number, unitPrice: number, basis: 'emergency' | 'intelligent' | 'threshold', marketAvg24h: number | null) => ({
+        timestamp, commodity, amount, unitPrice, totalCost: Math.round(amount / 1000 * unitPrice),
+        holdingBefore: 0, holdingAfter: amount, reason: '', basis, marketAvg24h, runId: null
+    });
+    const entries = [
+        entry('2025-01-12T08:00:00.000Z', 'fuel', 1000000, 500, 'intelligent', 600),   // Sunday, week 2
+        entry('2025-01-13T08:00:00.000Z', 'fuel', 3000000, 400, 'intelligent', 500),   // Monday, week 3
+        entry('2025-01-13T20:00:00.000Z', 'fuel', 1000000, 800, 'emergency', 600),
+        entry('2025-01-13T21:00:00.000Z', 'co2', 100000, 130, 'threshold', 120)
+    ];
+    const timeslots: TimeslotEntry[] = [
+        { timestamp: '2025-01-12T08:00:00.000Z', fuel: 600, co2: 0 },
+        { timestamp: '2025-01-13T08:00:00.000Z', fuel: 500, co2: 120 },
+        { timestamp: '2025-01-20T08:00:00.000Z', fuel: 900, co2: 150 }
+    ];
+
+    const daily = summarizeSpend(entries, 'day');
+    expect(daily.map(s => `${s.period} ${s.commodity}`)).toEqual(['2025-01-12 fuel', '2025-01-13 fuel', '2025-01-13 co2']);
+    expect(daily[1]).toMatchObject({ purchases: 2, amount: 4000000, totalCost: 2000000, avgPrice: 500 });
+
+    const weekly = summarizeSpend(entries, 'week');
+    expect(weekly.map(s => `${s.period} ${s.commodity}`)).toEqual(['2025-W02 fuel', '2025-W03 fuel', '2025-W03 co2']);
+
+    const since = new Date('2025-01-12T00:00:00.000Z');
+    const until = new Date('2025-01-14T00:00:00.000Z');
+    const fuel = comparePrices(entries, timeslots, 'fuel', since, until);
+    expect(fuel).toMatchObject({ purchases: 3, amount: 5000000, totalCost: 2500000, avgPaid: 500, marketAvg: 550 });
+    expect(fuel.savingsByBasis).toEqual({ intelligent: 400000, emergency: -200000, threshold: 0 });
+    expect(fuel.savings).toBe(200000);
+
+    // Slots without a CO2 price (0) are not part of the market average
+    expect(comparePrices(entries, timeslots, 'co2', since, until)).toMatchObject({ marketAvg: 120, avgPaid: 130, savings: -1000 });
+
+    const report = formatPurchaseReport(entries, timeslots, since, until);
+    expect(report).toContain('2025-W03');
+    expect(report).toContain('intelligent:   +$400,000');
+    expect(formatPurchaseReport([], timeslots, since, until)).toContain('No purchases recorded');
+});
+
+test('Purchases: spend caps reduce purchases to partial fills', async () => {
+    const limits = { maxCashShare: 0.5, minCashReserve: 0, fuelDailyLimit: 0, co2DailyLimit: 0 };
+    const request = { commodity: 'fuel' as const, amount: 10000000, unitPrice: 500, cash: 20000000, spentToday: 0 };
+
+    // $5,000,000 purchase, $10,000,000 allowed
+    expect(applySpendLimits(request, limits)).toEqual({ amount: 10000000, budget: 10000000, capReason: null });
+
+    // 50% of $6,000,000 cash → $3,000,000 → 6,000,000 L
+    expect(applySpendLimits({ ...request, cash: 6000000 }, limits)).toMatchObject({ amount: 6000000, capReason: 'max 50% of cash $6,000,000' });
+
+    // The reserve is tighter than the share
+    expect(applySpendLimits({ ...request, cash: 6000000 }, { ...limits, minCashReserve: 5000000 }))
+        .toMatchObject({ amount: 2000000, budget: 1000000, capReason: 'cash reserve $5,000,000' });
+
+    // Daily limit per commodity, the other commodity is not affected
+    const daily = { ...limits, fuelDailyLimit: 4000000 };
+    expect(applySpendLimits({ ...request, spentToday: 3000000 }, daily)).toMatchObject({ amount: 2000000, budget: 1000000 });
+    expect(applySpendLimits({ ...request, spentToday: 4500000 }, daily)).toMatchObject({ amount: 0, budget: 0 });
+    expect(applySpendLimits({ ...request, commodity: 'co2', spentToday: 4500000 }, daily).capReason).toBeNull();
+
+    // Unknown bank balance: only the daily limit applies
+    expect(applySpendLimits({ ...request, cash: null }, limits)).toMatchObject({ amount: 10000000, budget: Infinity, capReason: null });
+});
@@ -0,0 +1,177 @@
+import { test, expect } from '@playwright/test';
+import {
+    inferChartTimestamps,
+    validateChartPoints,
+    formatChartValidation,
+    reconcileObservedPrices,
+    formatReconciliation,
+    findMissingSlotRanges,
+    formatMissingSlotRanges
+} from '../../utils/18_quality.utils';
+import { STRATEGIES } from '../../utils/14_strategies.utils';
+import { loadSettings } from '../../utils/config/configLoader';
+import { PriceAnalyticsUtils } from '../../utils/05_priceAnalytics.utils';
+import { PriceArchive } from '../../utils/17_archive.utils';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Chart Validation Test
+ * Validates synthetic chart scrapes (time-only labels) against a stored history,
+ * reconciles observed with chart prices in a temporary directory and checks that
+ * the data-quality score finds missing slots and gates intelligent buying (no browser).
+ *
+ * Run with: npx playwright test tests/dev/quality.spec.ts
+ */
+
+const now = new Date('2025-03-01T00:10:00.000Z');
+
+let dataDir: string;
+
+test.beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-quality-'));
+});
+
+test.afterEach(async () => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+/**
+ * Labels of `count` consecutive slots ending at the current slot (as the game's chart shows them)
+ */
+function slotLabels(count: number): string[] {
+    const end = Math.floor(now.getTime() / 1800000) * 1800000;
+    return Array.from({ length: count }, (_, i) => new Date(end - (count - 1 - i) * 1800000).toISOString().slice(11, 19));
+}
+
+test('Quality: chart labels get a monotonic slot sequence across midnight', async () => {
+    expect(inferChartTimestamps(['23:00:00', '23:30:00', '00:00:00'], now)).toEqual([
+        '2025-02-28T23:00:00.000Z', '2025-02-28T23:30:00.000Z', '2025-03-01T00:00:00.000Z'
+    ]);
+
+    // More than 24 hours: the oldest labels belong to the day before yesterday
+    const timestamps = inferChartTimestamps(slotLabels(50), now);
+    expect(timestamps[0]).toBe('2025-02-27T23:30:00.000Z');
+    expect(timestamps[49]).toBe('2025-03-01T00:00:00.000Z');
+
+    // Newest point slightly ahead of the local clock, unparsable labels
+    expect(inferChartTimestamps(['00:00', '00:30:00'], now)).toEqual(['2025-03-01T00:00:00.000Z', '2025-03-01T00:30:00.000Z']);
+    expect(inferChartTimestamps(['25:00:00', 'n/a', '00:00:00'], now)).toEqual([null, null, '2025-03-01T00:00:00.000Z']);
+});
+
+test('Quality: implausible points are rejected and reported', async () => {
+    const prices = [500, 510, 0, 520, -5, 515, 9000, 505, 495, 500];
+    const labels = slotLabels(10);
+    labels[8] = labels[7];                                              // Same slot twice: the newer point wins
+    const { points, report } = validateChartPoints('fuel', labels.map((label, i) => ({ label, price: prices[i] })), [], now, 6, 1);
+
+    expect(points.map(point => point.price)).toEqual([500, 510, 520, 515, 495, 500]);
+    expect(report.rejected.map(point => [point.price, point.reason])).toEqual([
+        [0, 'non-positive'], [-5, 'non-positive'], [9000, 'outlier'], [505, 'duplicate-slot']
+    ]);
+    expect(report).toMatchObject({
+        received: 10,
+        accepted: 6,
+        first: '2025-02-28T19:30:00.000Z',
+        last: '2025-03-01T00:00:00.000Z',
+        missingSlots: 4,
+        score: 43
+    });
+
+    const text = formatChartValidation(report);
+    expect(text).toContain('FUEL chart quality: 43% - 6 of 10 points accepted');
+    expect(text).toContain('4 missing slot(s)');
+    expect(text).toContain('Rejected: 2 non-positive, 1 outlier, 1 duplicate-slot');
+});
+
+test('Quality: conflicts with stored prices are replaced only by clean scrapes', async () => {
+    const labels = slotLabels(6);
+    const stored = [
+        { timestamp: '2025-02-28T22:00:00.000Z', fuel: 480, co2: null },    // Conflict
+        { timestamp: '2025-02-28T22:30:00.000Z', fuel: 502, co2: null },    // Within 1%
+        { timestamp: '2025-02-28T23:00:00.000Z', fuel: null, co2: 120 }     // No stored fuel price
+    ];
+    const clean = validateChartPoints('fuel', labels.map(label => ({ label, price: 500 })), stored, now, 6, 1);
+    expect(clean.points).toHaveLength(6);
+    expect(clean.report.conflicts).toEqual([
+        { timestamp: '2025-02-28T22:00:00.000Z', stored: 480, scraped: 500, resolution: 'replaced' }
+    ]);
+    expect(clean.report.score).toBe(100);
+
+    // A gap in the sequence: the slots may be mislabelled, the stored price stays
+    const gappy = validateChartPoints('fuel', labels.filter((_, i) => i !== 3).map(label => ({ label, price: 500 })), stored, now, 6, 1);
+    expect(gappy.report.conflicts[0].resolution).toBe('kept');
+    expect(gappy.points.map(point => point.timestamp)).not.toContain('2025-02-28T22:00:00.000Z');
+    expect(gappy.report.rejected).toEqual([
+        { label: '22:00:00', timestamp: '2025-02-28T22:00:00.000Z', price: 500, reason: 'conflict' }
+    ]);
+});
+
+test('Quality: prices keep their source, observed prices are reconciled with the chart', async () => {
+    const analytics = new PriceAnalyticsUtils(new PriceArchive(path.join(dataDir, 'price-history.json'), path.join(dataDir, 'price-archive.json')));
+    const observedAt = new Date();                                      // Recent, so nothing is rolled into the archive
+    const slot = new Date(Math.floor(observedAt.getTime() / 1800000) * 1800000).toISOString();
+    const previous = new Date(new Date(slot).getTime() - 1800000).toISOString();
+
+    analytics.addPriceEntry('fuel', 510, observedAt);
+    expect(analytics.loadHistory().timeslots).toEqual([{
+        timestamp: slot,
+        fuel: 510,
+        co2: null,
+        sources: { fuel: { source: 'observed', observedAt: observedAt.toISOString() } },
+        observed: { fuel: 510 }
+    }]);
+
+    // The chart price replaces the observed one, a later observation does not replace the chart
+    analytics.addExternalPriceEntries('fuel', [{ timestamp: previous, price: 480 }, { timestamp: slot, price: 500 }], 'chart', observedAt);
+    analytics.addPriceEntry('fuel', 505, observedAt);
+    const timeslots = analytics.loadHistory().timeslots;
+    expect(timeslots.map(entry => [entry.fuel, entry.sources?.fuel?.source, entry.observed?.fuel])).toEqual([
+        [480, 'chart', undefined],
+        [500, 'chart', 505]
+    ]);
+
+    const report = reconcileObservedPrices('fuel', timeslots, undefined, 0.5);
+    expect(report).toMatchObject({ compared: 1, matching: 0, biasPercent: 1, maxDiffPercent: 1 });
+    expect(formatReconciliation(report)).toContain('observed $505, chart $500 (+1.0%)');
+    expect(reconcileObservedPrices('fuel', timeslots, undefined, 1).mismatches).toHaveLength(0);
+});
+
+test('Quality: missing slot ranges, the score gates intelligent buying', async () => {
+    // Last 24 hours at $600 without 03:00-05:30 and 12:00 UTC
+    const end = Math.floor(now.getTime() / 1800000) * 1800000;
+    const slots = Array.from({ length: 48 }, (_, i) => new Date(end - (47 - i) * 1800000));
+    const history = (keep: (time: Date) => boolean) => ({
+        timeslots: slots.filter(keep).map(time => ({ timestamp: time.toISOString(), fuel: 600, co2: null })),
+        lastUpdated: now.toISOString()
+    });
+    const gaps = history(time => !(time.getUTCHours() >= 3 && time.getUTCHours() < 6) && time.getUTCHours() * 60 + time.getUTCMinutes() !== 720);
+
+    const ranges = findMissingSlotRanges('fuel', gaps.timeslots, new Date(now.getTime() - 24 * 3600000), now);
+    expect(ranges).toEqual([
+        { start: '2025-02-28T03:00:00.000Z', end: '2025-02-28T05:30:00.000Z', slots: 6 },
+        { start: '2025-02-28T12:00:00.000Z', end: '2025-02-28T12:00:00.000Z', slots: 1 }
+    ]);
+    expect(formatMissingSlotRanges(ranges)).toBe('03:00-05:30 UTC (6 slots), 12:00 UTC');
+    expect(findMissingSlotRanges('co2', gaps.timeslots, new Date(now.getTime() - 3600000), now)).toEqual([
+        { start: '2025-02-28T23:30:00.000Z', end: '2025-02-28T23:30:00.000Z', slots: 1 }   // The running 00:00 slot is not missing yet
+    ]);
+
+    const analytics = new PriceAnalyticsUtils(new PriceArchive(path.join(dataDir, 'price-history.json'), path.join(dataDir, 'price-archive.json')));
+    const full = history(() => true);
+    const sparse = history(time => time.getTime() > end - 4 * 1800000);                  // Last 2 hours only
+    expect(analytics.checkDataQuality('fuel', { history: full, now })).toBe(99);
+    expect(analytics.checkDataQuality('fuel', { history: gaps, now })).toBe(84);
+    expect(analytics.checkDataQuality('fuel', { history: sparse, now })).toBe(47);
+
+    const decide = (prices: typeof full, price: number) =>
+        analytics.shouldBuyNow('fuel', price, 550, 10000000, 0, { history: prices, now, strategy: STRATEGIES['heuristic'] });
+    expect(decide(full, 400)).toMatchObject({ shouldBuy: true, basis: 'intelligent' });
+    const gated = decide(sparse, 500);
+    expect(gated).toMatchObject({ shouldBuy: true, basis: 'threshold' });
+    expect(gated.reason).toContain(`data quality ${gated.stats.qualityScore}/100 below 50`);
+
+    expect(loadSettings({ QUALITY_MIN_SCORE: '80' }).settings.quality.minScore).toBe(80);
+    expect(loadSettings({ BOT_PROFILE: 'conservative' }).settings.quality.minScore).toBe(80);
+});
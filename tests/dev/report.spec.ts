@@ -0,0 +1,82 @@
+import { test, expect } from '@playwright/test';
+import { buildPriceReport, renderHtmlReport, trailingBands } from '../../utils/20_report.utils';
+import { PriceAnalyticsUtils } from '../../utils/05_priceAnalytics.utils';
+import { PriceArchive } from '../../utils/17_archive.utils';
+import { PurchaseLedger } from '../../utils/12_purchases.utils';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * HTML Price Report Test
+ * Builds the report from a synthetic price history and purchase log in a
+ * temporary directory and checks the rendered page (no browser).
+ *
+ * Run with: npx playwright test tests/dev/report.spec.ts
+ */
+
+let dataDir: string;
+
+test.beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-report-'));
+});
+
+test.afterEach(async () => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('Report: trailing bands only look back within their window', async () => {
+    const start = Date.UTC(2025, 0, 15);
+    const history = [500, 400, 600, 450].map((price, i) => ({ timestamp: new Date(start + i * 12 * 3600000).toISOString(), price }));
+
+    expect(trailingBands(history.slice(2), history, 24)).toEqual([
+        { timestamp: history[2].timestamp, min: 400, avg: 500, max: 600 },      // 12h and 0h ago, 24h ago is outside
+        { timestamp: history[3].timestamp, min: 450, avg: 525, max: 600 }
+    ]);
+    expect(trailingBands(history.slice(3), history, 168)[0]).toMatchObject({ min: 400, avg: 488, max: 600 });
+});
+
+test('Report: charts, purchase markers, recommendation and data quality', async () => {
+    const archive = new PriceArchive(path.join(dataDir, 'price-history.json'), path.join(dataDir, 'price-archive.json'));
+    const analytics = new PriceAnalyticsUtils(archive);
+    const ledger = new PurchaseLedger(path.join(dataDir, 'purchase-log.json'));
+    const now = new Date(Math.floor(Date.now() / 1800000) * 1800000);
+    const slot = (hoursAgo: number) => new Date(now.getTime() - hoursAgo * 3600000).toISOString();
+
+    // Three days of fuel prices with a 6-hour gap, no CO2 prices
+    const prices = Array.from({ length: 144 }, (_, i) => ({ hoursAgo: 71.5 - i / 2, price: 500 + (i % 12) * 10 }))
+        .filter(point => point.hoursAgo < 30 || point.hoursAgo > 36)
+        .map(point => ({ timestamp: slot(point.hoursAgo), price: point.price }));
+    analytics.addExternalPriceEntries('fuel', prices);
+    ledger.record({
+        timestamp: slot(10), commodity: 'fuel', amount: 1000000, unitPrice: 500, holdingBefore: 0,
+        reason: 'Intelligent buy <below average>', basis: 'intelligent', marketAvg24h: 555
+    });
+    ledger.record({
+        timestamp: slot(200), commodity: 'fuel', amount: 1000000, unitPrice: 700, holdingBefore: 0,
+        reason: 'outside the window', basis: 'threshold', marketAvg24h: null
+    });
+
+    const report = buildPriceReport(7, analytics, ledger, now);
+    const fuel = report.commodities[0];
+    expect(fuel.prices).toHaveLength(prices.length);
+    expect(fuel.band24h).toHaveLength(prices.length);
+    expect(fuel.purchases.map(entry => entry.unitPrice)).toEqual([500]);
+    expect(fuel.comparison).toMatchObject({ purchases: 1, avgPaid: 500, savings: 55000 });
+    expect(fuel.stats).toMatchObject({ current: prices[prices.length - 1].price });
+    expect(fuel.qualityScore).toBe(analytics.checkDataQuality('fuel'));
+    expect(report.commodities[1]).toMatchObject({ commodity: 'co2', prices: [], stats: null, qualityScore: 0 });
+
+    const html = renderHtmlReport(report);
+    const fuelSection = html.slice(html.indexOf('<h2>FUEL</h2>'), html.indexOf('<h2>CO2</h2>'));
+    expect(fuelSection.match(/<polyline /g)).toHaveLength(3);            // Price line split at the gap, forecast
+    expect(fuelSection.match(/<polygon /g)).toHaveLength(5);             // 24h and 7d bands, both split, forecast interval
+    expect(fuelSection.match(/<circle /g)).toHaveLength(1);
+    expect(fuelSection).toContain('Intelligent buy &lt;below average&gt;');
+    expect(fuelSection).toContain(`<span class="badge ${fuel.stats!.recommendation}">${fuel.stats!.recommendation.toUpperCase()}</span>`);
+    expect(fuelSection).toContain(`${fuel.qualityScore}/100`);
+    const next = fuel.stats!.forecast.points[0];
+    expect(fuelSection).toContain(`$${next.price.toLocaleString('en-US')} next slot`);
+    expect(html).toContain('<h2>CO2</h2><p>No prices recorded in this period.</p>');
+    expect(html).not.toContain('<script');
+});
@@ -0,0 +1,70 @@
+import { test, expect } from '@playwright/test';
+import { SeasonalityModel } from '../../utils/16_seasonality.utils';
+import { STRATEGIES } from '../../utils/14_strategies.utils';
+import { PriceAnalyticsUtils } from '../../utils/05_priceAnalytics.utils';
+
+/**
+ * Seasonality Model Test
+ * Learns a synthetic daily price pattern and predicts upcoming slots without a browser.
+ *
+ * Run with: npx playwright test tests/dev/seasonality.spec.ts
+ */
+
+const now = new Date('2025-01-15T22:10:00.000Z');
+
+/**
+ * Every slot of the last `days` days: $500 from 00:00 to 05:30 UTC, $600 otherwise
+ */
+function dailyPattern(days: number): { timestamp: string; price: number }[] {
+    const end = Math.floor(now.getTime() / 1800000) * 1800000;
+    return Array.from({ length: days * 48 }, (_, i) => {
+        const time = new Date(end - (days * 48 - 1 - i) * 1800000);
+        return { timestamp: time.toISOString(), price: time.getUTCHours() < 6 ? 500 : 600 };
+    });
+}
+
+test('Seasonality: predicts the daily pattern with confidence', async () => {
+    const model = SeasonalityModel.fit(dailyPattern(14), now);
+    expect(model.level).toBeCloseTo(575);
+
+    const predictions = model.predict(now, 6);
+    expect(predictions.map(p => p.timestamp.slice(11, 16))).toEqual(['22:30', '23:00', '23:30', '00:00', '00:30', '01:00']);
+    expect(predictions.map(p => p.price)).toEqual([600, 600, 600, 500, 500, 500]);
+    expect(predictions[3]).toMatchObject({ low: 500, high: 500, confidence: 100, samples: 14, resolution: 'day' });
+
+    // Three weeks of data: every weekday slot has 3 samples
+    expect(SeasonalityModel.fit(dailyPattern(21), now).predict(now, 1)[0]).toMatchObject({ samples: 3, resolution: 'week' });
+
+    // Not enough samples: no prediction for the slot
+    expect(SeasonalityModel.fit(dailyPattern(2), now).predict(now, 1)[0]).toMatchObject({ confidence: 0, resolution: 'none' });
+});
+
+test('Seasonality: finds the cheaper slot within the lookahead', async () => {
+    const model = SeasonalityModel.fit(dailyPattern(14), now);
+
+    const cheaper = model.findCheaperSlot(600, now, 3, 3, 50);
+    expect(cheaper?.prediction.timestamp).toBe('2025-01-16T00:00:00.000Z');
+    expect(cheaper?.hoursUntil).toBeCloseTo(11 / 6);
+    expect(cheaper?.savingPercent).toBeCloseTo(16.7, 1);
+
+    expect(model.findCheaperSlot(600, now, 1, 3, 50)).toBeNull();      // Cheap slots are 1h50 away
+    expect(model.findCheaperSlot(510, now, 3, 3, 50)).toBeNull();      // Saving below 3%
+});
+
+test('Seasonality: shouldBuyNow waits only if the holding covers the wait', async () => {
+    const analytics = new PriceAnalyticsUtils();
+    const history = {
+        timeslots: dailyPattern(14).map(point => ({ timestamp: point.timestamp, fuel: point.price, co2: 0 })),
+        lastUpdated: now.toISOString()
+    };
+    const decide = (hoursOfCover: number | null, holding = 10000000) =>
+        analytics.shouldBuyNow('fuel', 600, 700, holding, 2000000, { history, now, strategy: STRATEGIES['threshold'], hoursOfCover });
+
+    const waiting = decide(5);
+    expect(waiting).toMatchObject({ shouldBuy: false, basis: 'threshold' });
+    expect(waiting.reason).toContain('Cheaper slot expected at 00:00 UTC ($500');
+
+    expect(decide(1).shouldBuy).toBe(true);                             // Would run out before 00:00
+    expect(decide(null).shouldBuy).toBe(true);                          // Burn rate unknown
+    expect(decide(5, 1000000).basis).toBe('emergency');
+});
@@ -0,0 +1,43 @@
+import { test, expect } from '@playwright/test';
+import { SELECTOR_DEFINITIONS, SelectorName, classifyMatches } from '../../utils/10_selectors.utils';
+
+/**
+ * Selector Registry Test
+ * Checks the registry entries and the match classification without a browser.
+ * The selectors themselves are checked against the stand-in by tests/dev/standin.spec.ts.
+ *
+ * Run with: npx playwright test tests/dev/selectors.spec.ts
+ */
+
+test('Selectors: every registry entry has usable candidates', async () => {
+    for (const [name, definition] of Object.entries(SELECTOR_DEFINITIONS)) {
+        expect(definition.candidates.length, name).toBeGreaterThan(0);
+        expect(definition.description, name).not.toBe('');
+
+        for (const candidate of definition.candidates) {
+            if (typeof candidate === 'string') {
+                expect(candidate.trim(), name).not.toBe('');
+                continue;
+            }
+            const kinds = [candidate.css, candidate.role, candidate.text, candidate.placeholder].filter(kind => kind !== undefined);
+            expect(kinds, `${name}: exactly one of css/role/text/placeholder`).toHaveLength(1);
+        }
+    }
+
+    // Names are grouped by section prefix ("map.fuel", "fleet.landedRows")
+    const names = Object.keys(SELECTOR_DEFINITIONS) as SelectorName[];
+    expect(names.every(name => /^[a-z][A-Za-z0-9]*\.[a-z][A-Za-z0-9]*$/.test(name))).toBe(true);
+});
+
+test('Selectors: matches are classified in candidate order', async () => {
+    const single = { description: 'Close icon', section: 'fuel' as const, candidates: ['#a', '#b', '#c'] };
+
+    expect(classifyMatches(single, [1, 1, 0])).toEqual({ status: 'ok', candidate: 0, count: 1 });
+    expect(classifyMatches(single, [0, 0, 1])).toEqual({ status: 'fallback', candidate: 2, count: 1 });
+    expect(classifyMatches(single, [0, 3, 1])).toEqual({ status: 'ambiguous', candidate: 1, count: 3 });
+    expect(classifyMatches(single, [0, 0, 0])).toEqual({ status: 'broken', candidate: null, count: 0 });
+
+    // Lists may match any number of elements, optional selectors may be missing
+    expect(classifyMatches({ ...single, multiple: true }, [12, 0, 0])).toEqual({ status: 'ok', candidate: 0, count: 12 });
+    expect(classifyMatches({ ...single, optional: true }, [0, 0, 0])).toEqual({ status: 'absent', candidate: null, count: 0 });
+});
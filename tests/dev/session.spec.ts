@@ -0,0 +1,71 @@
+import { test, expect } from '@playwright/test';
+import { readStorageState, validateStorageState, SessionExpiredError, StoredCookie } from '../../utils/09_session.utils';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Session State Test
+ * Reads and validates stored sessions without a browser (temporary directory).
+ * The re-login itself is covered by tests/dev/standin.spec.ts.
+ *
+ * Run with: npx playwright test tests/dev/session.spec.ts
+ */
+
+const now = Date.UTC(2025, 0, 15, 12, 0, 0);
+
+function cookie(name: string, expiresInMinutes: number | null): StoredCookie {
+    return {
+        name,
+        value: 'x',
+        domain: 'www.airlinemanager.com',
+        path: '/',
+        expires: expiresInMinutes === null ? -1 : now / 1000 + expiresInMinutes * 60,
+        httpOnly: true,
+        secure: true,
+        sameSite: 'Lax'
+    };
+}
+
+test('Session: expired cookies and cookies within the margin are dropped', async () => {
+    const state = {
+        cookies: [cookie('valid', 120), cookie('expired', -5), cookie('expiring', 5), cookie('session', null)],
+        origins: [{ origin: 'https://www.airlinemanager.com', localStorage: [{ name: 'lang', value: 'en' }] }]
+    };
+
+    const { state: validated, expired } = validateStorageState(state, 10 * 60 * 1000, now);
+
+    expect(validated.cookies.map(c => c.name)).toEqual(['valid', 'session']);
+    expect(expired.map(c => c.name)).toEqual(['expired', 'expiring']);
+    expect(validated.origins).toEqual(state.origins);
+
+    // Without a margin only the already expired cookie is dropped
+    expect(validateStorageState(state, 0, now).expired.map(c => c.name)).toEqual(['expired']);
+});
+
+test('Session: storage state file with legacy cookies.json fallback', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-session-'));
+    const statePath = path.join(dir, 'session-state.json');
+    const legacyPath = path.join(dir, 'cookies.json');
+
+    expect(readStorageState(statePath, legacyPath)).toBeNull();
+
+    // Legacy file: plain cookie array
+    fs.writeFileSync(legacyPath, JSON.stringify([cookie('legacy', 60)]));
+    expect(readStorageState(statePath, legacyPath)).toEqual({ cookies: [cookie('legacy', 60)], origins: [] });
+
+    // The storage state file takes precedence
+    fs.writeFileSync(statePath, JSON.stringify({ cookies: [cookie('state', 60)], origins: [] }));
+    expect(readStorageState(statePath, legacyPath)!.cookies.map(c => c.name)).toEqual(['state']);
+
+    // Corrupt file = nothing stored
+    fs.writeFileSync(statePath, '{ not json');
+    expect(readStorageState(statePath, legacyPath)).toBeNull();
+});
+
+test('Session: expired error names the interrupted step', async () => {
+    expect(new SessionExpiredError('maintenance').message).toBe('Session expired during maintenance');
+    expect(new SessionExpiredError('departures', 're-login limit (3) reached').message)
+        .toBe('Session expired during departures - re-login limit (3) reached');
+    expect(new SessionExpiredError()).toBeInstanceOf(Error);
+});
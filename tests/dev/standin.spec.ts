@@ -0,0 +1,228 @@
+import { test, expect, Page } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GeneralUtils } from '../../utils/00_general.utils';
+import { FuelUtils } from '../../utils/01_fuel.utils';
+import { CampaignUtils } from '../../utils/02_campaign.utils';
+import { MaintenanceUtils } from '../../utils/03_maintenance.utils';
+import { SmartFleetUtils } from '../../utils/04_fleet.utils';
+import { PriceAnalyticsUtils } from '../../utils/05_priceAnalytics.utils';
+import { HoldingLog } from '../../utils/13_consumption.utils';
+import { createBotPipeline } from '../../utils/06_pipeline.utils';
+import { SessionManager } from '../../utils/09_session.utils';
+import { SelectorDoctor } from '../../utils/10_selectors.utils';
+import { Navigator, GameSection } from '../../utils/11_navigation.utils';
+import { findMissingSlotRanges } from '../../utils/18_quality.utils';
+import { createDefaultScenario } from '../standin/scenario';
+import { BOT_CONFIG } from '../../config';
+
+/**
+ * Stand-in Smoke Test
+ * Runs every util against the local AM4 stand-in and checks that the
+ * expected game actions were triggered. Catches broken selectors offline.
+ *
+ * Run with: npm run test:standin
+ */
+
+interface StandInAction {
+    type: string;
+    details: { [key: string]: unknown };
+}
+
+const baseUrl = () => BOT_CONFIG.game.baseUrl;
+
+async function getActions(page: Page): Promise<StandInAction[]> {
+    const response = await page.request.get(new URL('__standin/actions', baseUrl()).toString());
+    return await response.json();
+}
+
+test.beforeEach(async ({ page }) => {
+    test.skip(!baseUrl().startsWith('http://127.0.0.1'), 'Requires the local stand-in (playwright.standin.config.ts)');
+    await page.request.post(new URL('__standin/reset', baseUrl()).toString());
+});
+
+test('Stand-in: fuel and CO2 purchase', async ({ page }) => {
+    const generalUtils = new GeneralUtils(page);
+    const fuelUtils = new FuelUtils(page);
+
+    await generalUtils.login(page);
+
+    await page.locator('#mapMaint > img').first().click();
+    await fuelUtils.buyFuel();
+    await page.getByRole('button', { name: ' Co2' }).click();
+    await GeneralUtils.sleep(1000);
+    await fuelUtils.buyCo2();
+
+    const purchases = (await getActions(page)).filter(a => a.type === 'purchase');
+    expect(purchases.map(p => p.details.commodity)).toEqual(['fuel', 'co2']);
+});
+
+test('Stand-in: extra chart scrape loads the chart again', async ({ page }) => {
+    const scenario = createDefaultScenario();
+    scenario.fuel.chartOnReload = scenario.fuel.chart;
+    scenario.fuel.chart = scenario.fuel.chart.map((price, i) => i >= 20 && i < 30 ? null : price);
+    await page.request.post(new URL('__standin/reset', baseUrl()).toString(), { data: scenario });
+
+    // Fresh price history, so only the chart scrapes can fill the slots
+    const dataDir = process.env.AM4_DATA_DIR;
+    process.env.AM4_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-standin-'));
+    process.env.QUALITY_RESCRAPE_BELOW_SCORE = '100';
+    process.env.QUALITY_RESCRAPE_DELAY_MS = '0';
+
+    try {
+        await SessionManager.for(page).login();
+        await Navigator.for(page).open('fuel');
+        await new FuelUtils(page).buyFuel();
+
+        const history = new PriceAnalyticsUtils().loadHistory();
+        expect(findMissingSlotRanges('fuel', history.timeslots, new Date(Date.now() - 24 * 3600000))).toEqual([]);
+        expect(await Navigator.for(page).isOn('fuel')).toBe(true);
+    } finally {
+        fs.rmSync(process.env.AM4_DATA_DIR, { recursive: true, force: true });
+        process.env.AM4_DATA_DIR = dataDir;
+        delete process.env.QUALITY_RESCRAPE_BELOW_SCORE;
+        delete process.env.QUALITY_RESCRAPE_DELAY_MS;
+    }
+});
+
+test('Stand-in: a full fuel tank is still observed for the burn rate', async ({ page }) => {
+    const scenario = createDefaultScenario();
+    scenario.fuel.holding = scenario.fuel.capacity;
+    await page.request.post(new URL('__standin/reset', baseUrl()).toString(), { data: scenario });
+
+    const dataDir = process.env.AM4_DATA_DIR;
+    process.env.AM4_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-standin-'));
+
+    try {
+        await SessionManager.for(page).login();
+        await Navigator.for(page).open('fuel');
+        await new FuelUtils(page).buyFuel();
+
+        expect(new HoldingLog().query('fuel').map(observation => observation.holding)).toEqual([scenario.fuel.capacity]);
+    } finally {
+        fs.rmSync(process.env.AM4_DATA_DIR, { recursive: true, force: true });
+        process.env.AM4_DATA_DIR = dataDir;
+    }
+    expect((await getActions(page)).filter(a => a.type === 'purchase')).toEqual([]);
+});
+
+test('Stand-in: campaigns and maintenance', async ({ page }) => {
+    const generalUtils = new GeneralUtils(page);
+    const campaignUtils = new CampaignUtils(page);
+    const maintenanceUtils = new MaintenanceUtils(page);
+
+    await generalUtils.login(page);
+
+    await page.locator('div:nth-child(5) > #mapMaint > img').click();
+    await campaignUtils.checkAndCreateEcoFriendlyCampaign();
+    await campaignUtils.checkAndCreateAirlineReputationCampaign();
+    await page.locator('#popup > .modal-dialog > .modal-content > .modal-header > div > .glyphicons').click();
+
+    await page.locator('div:nth-child(4) > #mapMaint > img').click();
+    await maintenanceUtils.checkPlanes();
+    await maintenanceUtils.repairPlanes();
+
+    const actions = await getActions(page);
+    expect(actions.filter(a => a.type === 'campaign').map(a => a.details.campaign))
+        .toEqual(['eco-friendly', 'airline-reputation']);
+    expect(actions.some(a => a.type === 'bulk-check')).toBe(true);
+    expect(actions.some(a => a.type === 'bulk-repair')).toBe(true);
+});
+
+test('Stand-in: Smart Fleet depart and scrape', async ({ page }) => {
+    test.setTimeout(120000);
+
+    const generalUtils = new GeneralUtils(page);
+    const smartFleetUtils = new SmartFleetUtils(page, { ...BOT_CONFIG.fleet, maxDeparturesOverride: 1 }, 120000);
+
+    await generalUtils.login(page);
+    await smartFleetUtils.navigateToFleetOverview();
+
+    const { maxDepartures } = await smartFleetUtils.getFleetSizeAndCalculateLimit();
+    const { departedCount, planesData } = await smartFleetUtils.processLandedPlanes(maxDepartures);
+
+    expect(departedCount).toBe(1);
+    expect(planesData.length).toBeGreaterThan(0);
+    expect(planesData[0].flightHistory.length).toBeGreaterThan(0);
+    expect((await getActions(page)).filter(a => a.type === 'depart')).toHaveLength(1);
+});
+
+test('Stand-in: re-login after the session expired mid-run', async ({ page }) => {
+    const generalUtils = new GeneralUtils(page);
+    const maintenanceUtils = new MaintenanceUtils(page);
+    const session = SessionManager.for(page);
+    process.env.SESSION_ACTION_TIMEOUT_MS = '3000';
+
+    try {
+        await generalUtils.login(page);
+        await page.request.post(new URL('__standin/expire-sessions', baseUrl()).toString());
+
+        // Opening the section lands on the landing page, the next click times out → re-login → the step runs again
+        await session.runStep('maintenance', async () => {
+            await page.locator('div:nth-child(4) > #mapMaint > img').click();
+            await maintenanceUtils.checkPlanes();
+        });
+    } finally {
+        delete process.env.SESSION_ACTION_TIMEOUT_MS;
+    }
+
+    expect(session.reloginCount).toBe(1);
+    expect(await session.isLoggedOut()).toBe(false);
+    expect((await getActions(page)).filter(a => a.type === 'bulk-check')).toHaveLength(1);
+});
+
+test('Stand-in: navigator opens every section from any state', async ({ page }) => {
+    test.setTimeout(120000);
+    const navigator = Navigator.for(page);
+    await SessionManager.for(page).login();
+
+    const sections: GameSection[] = ['fuel', 'co2', 'marketing', 'maintenance', 'route-list', 'fleet-sidebar', 'map'];
+    for (const section of sections) {
+        await navigator.open(section);
+        expect(await navigator.isOn(section), section).toBe(true);
+    }
+
+    // Fleet detail needs a selected plane
+    await navigator.ensure('fleet-sidebar');
+    await page.locator('#landedList .flight-list-sorting').first().click();
+    await navigator.open('fleet-detail');
+    expect(await navigator.isOn('fleet-detail')).toBe(true);
+
+    expect(await navigator.closePopup()).toBe(true);
+    expect(await navigator.isOn('map')).toBe(true);
+
+    await navigator.dismissOverlays();
+    await expect(page.locator('#game-ad')).toBeHidden();
+    expect(await getActions(page)).toEqual([]);
+});
+
+test('Stand-in: selector doctor finds every selector', async ({ page }) => {
+    test.setTimeout(120000);
+    await SessionManager.for(page).login();
+
+    const report = await new SelectorDoctor(page).run();
+    console.log(SelectorDoctor.formatReport(report));
+
+    // The stand-in mirrors the live markup: every selector matches its preferred candidate
+    const problems = report.checks.filter(c => c.status === 'broken' || c.status === 'ambiguous' || c.status === 'fallback');
+    expect(problems).toEqual([]);
+    // Only the landing page (logged out) cannot be opened
+    expect([...new Set(report.checks.filter(c => c.status === 'skipped').map(c => c.section))]).toEqual(['landing']);
+    expect(await getActions(page)).toEqual([]);
+});
+
+test('Stand-in: dry run confirms nothing', async ({ page }) => {
+    test.setTimeout(120000);
+    process.env.DRY_RUN = 'true';
+
+    try {
+        const pipeline = createBotPipeline(page, { totalBudgetMs: 110000 });
+        const summary = await pipeline.run();
+
+        expect(summary.failed).toEqual([]);
+        expect(await getActions(page)).toEqual([]);
+    } finally {
+        delete process.env.DRY_RUN;
+    }
+});
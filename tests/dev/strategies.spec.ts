@@ -0,0 +1,122 @@
+import { test, expect } from '@playwright/test';
+import { STRATEGIES, pricePercentile, ladderStep, StrategyContext } from '../../utils/14_strategies.utils';
+import { PriceAnalyticsUtils, PriceStatistics } from '../../utils/05_priceAnalytics.utils';
+import { forecastPrices } from '../../utils/22_forecast.utils';
+import { loadSettings } from '../../utils/config/configLoader';
+import { ConfigValidationError } from '../../utils/config/configSchema';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Buying Strategies Test
+ * Feeds synthetic price series to the built-in strategies without a browser.
+ *
+ * Run with: npx playwright test tests/dev/strategies.spec.ts
+ */
+
+const now = new Date('2025-01-15T12:00:00.000Z');
+const slotsAgo = (slots: number) => new Date(now.getTime() - slots * 1800000).toISOString();
+
+const stats: PriceStatistics = {
+    current: 500, avg24h: 600, avg7d: 600, min24h: 400, max24h: 800, min7d: 400, max7d: 800,
+    trend: 'stable', recommendation: 'wait', confidence: 100, forecast: forecastPrices([], now), qualityScore: 100
+};
+
+function context(currentPrice: number, series: number[]): StrategyContext {
+    return {
+        commodity: 'fuel',
+        currentPrice,
+        maxPrice: 550,
+        holding: 10000000,
+        stats: { ...stats, current: currentPrice },
+        prices: series.map((price, i) => ({ timestamp: slotsAgo(series.length - 1 - i), price })),
+        now
+    };
+}
+
+test('Strategies: percentile and threshold', async () => {
+    expect(pricePercentile([500, 100, 400, 200, 300], 40)).toBe(200);
+    expect(pricePercentile([500, 100, 400, 200, 300], 100)).toBe(500);
+    expect(pricePercentile([], 25)).toBe(0);
+
+    const series = Array.from({ length: 40 }, (_, i) => 400 + i * 10);      // 400 ... 790
+    expect(STRATEGIES['percentile'].decide(context(490, series))).toMatchObject({ shouldBuy: true, basis: 'intelligent' });
+    expect(STRATEGIES['percentile'].decide(context(500, series))).toMatchObject({ shouldBuy: false, basis: 'intelligent' });
+
+    // Not enough history: fixed threshold
+    expect(STRATEGIES['percentile'].decide(context(500, series.slice(0, 3)))).toMatchObject({ shouldBuy: true, basis: 'threshold' });
+    expect(STRATEGIES['threshold'].decide(context(560, series))).toMatchObject({ shouldBuy: false, basis: 'threshold' });
+});
+
+test('Strategies: moving-average crossover buys when the dip ends', async () => {
+    const dip = [...Array(30).fill(600), ...Array(12).fill(400), 480, 520, 560];
+    expect(STRATEGIES['ma-crossover'].decide(context(520, dip.slice(0, -1))).reason).toContain('Waiting for the dip to end');
+
+    // 4-slot MA 535 crosses above the 24-slot MA 489, price still below the 7d average
+    const decision = STRATEGIES['ma-crossover'].decide(context(580, [...dip, 580]));
+    expect(decision).toMatchObject({ shouldBuy: true, basis: 'intelligent' });
+    expect(decision.reason).toContain('MA crossover buy');
+});
+
+test('Strategies: selected per commodity and validated', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-strategies-'));
+    process.env.AM4_DATA_DIR = dataDir;
+
+    try {
+        const analytics = new PriceAnalyticsUtils();
+        expect(analytics.shouldBuyNow('fuel', 500, 550, 10000000, 2000000)).toMatchObject({ shouldBuy: true, strategy: 'heuristic', basis: 'threshold' });
+
+        process.env.FUEL_STRATEGY = 'threshold';
+        expect(analytics.shouldBuyNow('fuel', 600, 550, 10000000, 2000000)).toMatchObject({ shouldBuy: false, strategy: 'threshold' });
+        expect(analytics.shouldBuyNow('fuel', 600, 550, 1000000, 2000000)).toMatchObject({ shouldBuy: true, basis: 'emergency' });
+        expect(analytics.shouldBuyNow('co2', 100, 140, 10000000, 2000000).strategy).toBe('heuristic');
+    } finally {
+        delete process.env.FUEL_STRATEGY;
+        delete process.env.AM4_DATA_DIR;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+
+    const issues = (env: NodeJS.ProcessEnv) => {
+        try {
+            loadSettings(env);
+        } catch (error) {
+            if (error instanceof ConfigValidationError) return error.issues;
+            throw error;
+        }
+        return [];
+    };
+    expect(issues({ CO2_STRATEGY: 'cheapest' })).toEqual([
+        'strategies.co2 must be one of heuristic, threshold, percentile, ma-crossover, time-of-day, got "cheapest" - set by CO2_STRATEGY'
+    ]);
+    expect(issues({ MA_SHORT_SLOTS: '30' })).toEqual([
+        'strategies.maCrossover.shortSlots (30) must be below strategies.maCrossover.longSlots (24)'
+    ]);
+});
+
+test('Strategies: purchase ladder buys a share of the free capacity by percentile', async () => {
+    const ladder = { enabled: true, windowHours: 24, tiers: ['50:0.25', '10:1', '25:0.5'] };
+    const series = context(0, Array.from({ length: 40 }, (_, i) => 400 + i * 10)).prices;      // 400 ... 790
+
+    expect(ladderStep(430, series, now, ladder)).toMatchObject({ fraction: 1, percentile: 10, limit: 430 });
+    expect(ladderStep(450, series, now, ladder)).toMatchObject({ fraction: 0.5, percentile: 25, limit: 490 });
+    expect(ladderStep(590, series, now, ladder)).toMatchObject({ fraction: 0.25, percentile: 50, limit: 590 });
+    expect(ladderStep(600, series, now, ladder)).toMatchObject({ fraction: 0, percentile: null, limit: 590 });
+
+    // Only prices within the window count, too few of them fill the tank
+    expect(ladderStep(600, series, now, { ...ladder, windowHours: 6 })).toMatchObject({ fraction: 1, percentile: 10, limit: 680 });
+    expect(ladderStep(600, series.slice(0, 5), now, ladder)).toMatchObject({ fraction: 1, percentile: null });
+
+    const issues = (env: NodeJS.ProcessEnv) => {
+        try {
+            loadSettings(env);
+        } catch (error) {
+            if (error instanceof ConfigValidationError) return error.issues;
+            throw error;
+        }
+        return [];
+    };
+    expect(issues({ LADDER: 'true', LADDER_TIERS: '10:1, 50:0.25' })).toEqual([]);
+    expect(issues({ LADDER_TIERS: '10:1,half' })).toEqual(['ladder.tiers: "half" is not a "<percentile 1-100>:<fraction 0-1>" tier']);
+    expect(issues({ LADDER_TIERS: '10:0.2,50:0.5' })).toEqual(['ladder.tiers must not buy more at a higher percentile, got 10:0.2, 50:0.5']);
+});
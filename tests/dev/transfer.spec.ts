@@ -0,0 +1,92 @@
+import { test, expect } from '@playwright/test';
+import { exportPrices, parsePriceImport, planPriceImport, applyPriceImport, formatImportPlan } from '../../utils/19_transfer.utils';
+import { PriceAnalyticsUtils } from '../../utils/05_priceAnalytics.utils';
+import { PriceArchive } from '../../utils/17_archive.utils';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Price Import/Export Test
+ * Parses synthetic CSV, NDJSON and channel dumps and merges them into a price history
+ * in a temporary directory (no browser).
+ *
+ * Run with: npx playwright test tests/dev/transfer.spec.ts
+ */
+
+let dataDir: string;
+
+test.beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'am4-transfer-'));
+});
+
+test.afterEach(async () => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('Transfer: text dumps are read with the default patterns', async () => {
+    const parsed = parsePriceImport([
+        '[15.01.2025 14:05] AM4 price alert',
+        'Fuel: $450 | CO2: $115',
+        '[15.01.25, 14:31] Fuel: $1,250',
+        'good morning everyone',
+        '2025-01-15 16:00 CO2 $0'
+    ].join('\n'), 'text');
+
+    expect(parsed.points.fuel).toEqual([
+        { timestamp: '2025-01-15T14:00:00.000Z', price: 450 },
+        { timestamp: '2025-01-15T14:30:00.000Z', price: 1250 }
+    ]);
+    expect(parsed.points.co2).toEqual([{ timestamp: '2025-01-15T14:00:00.000Z', price: 115 }]);
+    expect(parsed.skipped).toEqual([]);
+
+    // Prices before the first timestamp cannot be placed
+    expect(parsePriceImport('Fuel: $450\n2025-01-15T14:00Z Fuel: $460', 'text').skipped)
+        .toEqual([{ line: 1, reason: 'no valid timestamp' }]);
+});
+
+test('Transfer: CSV and NDJSON with column mapping, export round trip', async () => {
+    const mapping = {
+        timestampColumn: 'Time', fuelColumn: 'Fuel Price', co2Column: 'co2',
+        timestampPattern: '', fuelPattern: '', co2Pattern: ''
+    };
+    const csv = parsePriceImport('Time;Fuel Price\n1736949600;"$500"\nyesterday;510\n2025-01-15T14:10:00Z;-1\n', 'csv', mapping);
+    expect(csv.points.fuel).toEqual([{ timestamp: '2025-01-15T14:00:00.000Z', price: 500 }]);
+    expect(csv.skipped).toEqual([{ line: 3, reason: 'no valid timestamp' }, { line: 4, reason: 'no valid price' }]);
+    expect(() => parsePriceImport('date,price\n', 'csv', mapping)).toThrow('CSV header needs a "Time" column');
+
+    const timeslots = [
+        { timestamp: '2025-01-15T14:00:00.000Z', fuel: 500, co2: null, sources: { fuel: { source: 'chart' as const, observedAt: '2025-01-15T14:10:00.000Z' } } },
+        { timestamp: '2025-01-15T14:30:00.000Z', fuel: null, co2: 120 },
+        { timestamp: '2025-01-16T00:00:00.000Z', fuel: 520, co2: 125 }
+    ];
+    const until = new Date('2025-01-15T23:59:59.000Z');
+    expect(exportPrices(timeslots, { format: 'csv', commodities: ['fuel'], until }))
+        .toBe('timestamp,fuel,fuel_source\n2025-01-15T14:00:00.000Z,500,chart\n');
+
+    const ndjson = exportPrices(timeslots, { format: 'ndjson', commodities: ['fuel', 'co2'] });
+    expect(ndjson.split('\n')[1]).toBe('{"timestamp":"2025-01-15T14:30:00.000Z","fuel":null,"co2":120,"sources":{}}');
+    const reimported = parsePriceImport(ndjson, 'ndjson');
+    expect(reimported.points.fuel.map(point => point.price)).toEqual([500, 520]);
+    expect(reimported.points.co2.map(point => point.price)).toEqual([120, 125]);
+});
+
+test('Transfer: imports fill missing slots, keep differing prices and skip archived periods', async () => {
+    const archive = new PriceArchive(path.join(dataDir, 'price-history.json'), path.join(dataDir, 'price-archive.json'));
+    const analytics = new PriceAnalyticsUtils(archive);
+    const slot = (hoursAgo: number) => new Date(Math.floor(Date.now() / 3600000) * 3600000 - hoursAgo * 3600000).toISOString();
+    analytics.addExternalPriceEntries('fuel', [{ timestamp: slot(3), price: 500 }, { timestamp: slot(2), price: 510 }]);
+    const rollups = { hourly: [{ timestamp: slot(30 * 24), fuel: { min: 400, avg: 450, max: 500, count: 2 }, co2: null }], daily: [], lastRollup: null };
+
+    const parsed = parsePriceImport([slot(30 * 24), slot(3), slot(2), slot(1)].map((time, i) => `${time} Fuel $${[450, 500, 515, 530][i]}`).join('\n'), 'text');
+    const plan = planPriceImport(parsed, analytics.loadHistory().timeslots, rollups, false);
+    expect(plan.commodities[0]).toMatchObject({ commodity: 'fuel', added: 1, unchanged: 1, replaced: 0, kept: 1, archived: 1 });
+    expect(formatImportPlan(plan)).toContain('1 new, 0 replaced, 1 kept (stored price differs), 1 unchanged, 1 already archived');
+
+    expect(planPriceImport(parsed, analytics.loadHistory().timeslots, rollups, true).commodities[0].replaced).toBe(1);
+
+    expect(applyPriceImport(plan, analytics)).toBe(1);
+    const imported = analytics.loadHistory().timeslots.find(entry => entry.timestamp === slot(1));
+    expect(imported).toMatchObject({ fuel: 530, co2: null, sources: { fuel: { source: 'import' } } });
+    expect(analytics.loadHistory().timeslots.find(entry => entry.timestamp === slot(2))?.fuel).toBe(510);
+});
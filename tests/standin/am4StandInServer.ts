@@ -0,0 +1,176 @@
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { StandInScenario, createDefaultScenario } from './scenario';
+
+/**
+ * Action performed in the stand-in game (purchase, campaign, repair, ...)
+ * Reported by the game page so tests can assert what the bot actually clicked.
+ */
+export interface StandInAction {
+    type: string;
+    details: { [key: string]: unknown };
+    timestamp: string;
+}
+
+/**
+ * Local AM4 Stand-in Server
+ *
+ * Serves a minimal copy of the game DOM the utils rely on:
+ * - Landing page with "PLAY FREE NOW" → "Log in" → #lEmail/#lPass login flow
+ * - Game page with the #mapMaint popups (fuel/CO2 with Highcharts, maintenance, marketing)
+ * - Fleet sidebar (#landedList/#inflightList/...) with #detailsAction and #flight-history
+ * - Route list (div[id^="routeMainList"]) used by the full plane scan
+ *
+ * Charts are requested by the page every time a market is opened, like the
+ * game loads them with the popup:
+ *   GET  /__standin/chart/:type      → Chart prices of "fuel" or "co2" (scenario chart, chartOnReload after the first load)
+ *
+ * Control endpoints (used by tests):
+ *   GET  /__standin/actions          → StandInAction[] reported by the page
+ *   POST /__standin/reset            → Clear actions and sessions, restore default scenario (or the StandInScenario posted as JSON)
+ *   POST /__standin/expire-sessions  → Invalidate all sessions (forces re-login)
+ *
+ * Usage:
+ *   const server = new AM4StandInServer();
+ *   const baseUrl = await server.start();
+ *   ...
+ *   await server.stop();
+ */
+export class AM4StandInServer {
+    scenario: StandInScenario;
+    actions: StandInAction[] = [];
+    private server: http.Server | null = null;
+    private sessions: Set<string> = new Set();
+    private chartLoads: { fuel: number; co2: number } = { fuel: 0, co2: 0 };
+    private pagesDir: string = path.join(__dirname, 'pages');
+    private sessionCookie: string = 'am4_standin_session';
+
+    constructor(scenario: StandInScenario = createDefaultScenario()) {
+        this.scenario = scenario;
+    }
+
+    /**
+     * Start listening on the given port (0 = random free port)
+     * @returns Base URL of the stand-in (e.g. "http://127.0.0.1:51234/")
+     */
+    public async start(port: number = 0): Promise<string> {
+        this.server = http.createServer((req, res) => {
+            this.handle(req, res).catch(error => {
+                console.error('❌ Stand-in request failed:', error);
+                res.statusCode = 500;
+                res.end(String(error));
+            });
+        });
+
+        await new Promise<void>(resolve => this.server!.listen(port, '127.0.0.1', () => resolve()));
+        const address = this.server.address() as AddressInfo;
+        return `http://127.0.0.1:${address.port}/`;
+    }
+
+    public async stop(): Promise<void> {
+        if (!this.server) return;
+        await new Promise<void>(resolve => this.server!.close(() => resolve()));
+        this.server = null;
+    }
+
+    public reset(scenario: StandInScenario = createDefaultScenario()): void {
+        this.scenario = scenario;
+        this.actions = [];
+        this.sessions.clear();
+        this.chartLoads = { fuel: 0, co2: 0 };
+    }
+
+    public expireSessions(): void {
+        this.sessions.clear();
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const url = new URL(req.url || '/', 'http://127.0.0.1');
+
+        if (req.method === 'GET' && url.pathname === '/') {
+            const page = this.isLoggedIn(req) ? this.renderGame() : this.readPage('landing.html');
+            return this.send(res, 200, page, 'text/html; charset=utf-8');
+        }
+
+        if (req.method === 'POST' && url.pathname === '/login') {
+            const sessionId = Math.random().toString(36).slice(2);
+            this.sessions.add(sessionId);
+            res.setHeader('Set-Cookie', `${this.sessionCookie}=${sessionId}; Path=/; Max-Age=86400`);
+            return this.send(res, 200, JSON.stringify({ ok: true }), 'application/json');
+        }
+
+        if (req.method === 'GET' && url.pathname === '/__standin/session') {
+            return this.send(res, 200, JSON.stringify({ loggedIn: this.isLoggedIn(req) }), 'application/json');
+        }
+
+        if (req.method === 'POST' && url.pathname === '/__standin/action') {
+            const body = await this.readBody(req);
+            const action = JSON.parse(body || '{}');
+            this.actions.push({
+                type: String(action.type || 'unknown'),
+                details: action.details || {},
+                timestamp: new Date().toISOString()
+            });
+            return this.send(res, 204, '', 'text/plain');
+        }
+
+        const chartMatch = url.pathname.match(/^\/__standin\/chart\/(fuel|co2)$/);
+        if (req.method === 'GET' && chartMatch) {
+            const type = chartMatch[1] as 'fuel' | 'co2';
+            const market = this.scenario[type];
+            const chart = this.chartLoads[type]++ > 0 && market.chartOnReload ? market.chartOnReload : market.chart;
+            return this.send(res, 200, JSON.stringify(chart), 'application/json');
+        }
+
+        if (req.method === 'GET' && url.pathname === '/__standin/actions') {
+            return this.send(res, 200, JSON.stringify(this.actions), 'application/json');
+        }
+
+        if (req.method === 'POST' && url.pathname === '/__standin/reset') {
+            const body = await this.readBody(req);
+            this.reset(body ? JSON.parse(body) as StandInScenario : createDefaultScenario());
+            return this.send(res, 204, '', 'text/plain');
+        }
+
+        if (req.method === 'POST' && url.pathname === '/__standin/expire-sessions') {
+            this.expireSessions();
+            return this.send(res, 204, '', 'text/plain');
+        }
+
+        return this.send(res, 404, 'Not found', 'text/plain');
+    }
+
+    private isLoggedIn(req: http.IncomingMessage): boolean {
+        const cookies = (req.headers.cookie || '').split(';').map(c => c.trim());
+        const session = cookies.find(c => c.startsWith(`${this.sessionCookie}=`));
+        return !!session && this.sessions.has(session.split('=')[1]);
+    }
+
+    private renderGame(): string {
+        // Escape "<" so the JSON can never close the surrounding <script> tag
+        const scenarioJson = JSON.stringify(this.scenario).replace(/</g, '\\u003c');
+        return this.readPage('game.html').replace('/*__SCENARIO__*/null', scenarioJson);
+    }
+
+    private readPage(name: string): string {
+        return fs.readFileSync(path.join(this.pagesDir, name), 'utf8');
+    }
+
+    private readBody(req: http.IncomingMessage): Promise<string> {
+        return new Promise((resolve, reject) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => resolve(body));
+            req.on('error', reject);
+        });
+    }
+
+    private send(res: http.ServerResponse, status: number, body: string, contentType: string): void {
+        res.statusCode = status;
+        res.setHeader('Content-Type', contentType);
+        res.setHeader('Cache-Control', 'no-store');
+        res.end(body);
+    }
+}
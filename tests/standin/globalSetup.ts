@@ -0,0 +1,32 @@
+import * as path from 'path';
+import { AM4StandInServer } from './am4StandInServer';
+
+/**
+ * Playwright global setup for offline runs (see playwright.standin.config.ts)
+ *
+ * Starts the local AM4 stand-in and points the bot at it:
+ * - AM4_BASE_URL → stand-in URL (GeneralUtils.login navigates there)
+ * - AM4_DATA_DIR → test-results/standin-data (real data/*.json files stay untouched)
+ * - EMAIL/PASSWORD → dummy credentials if none are configured
+ *
+ * Environment variables set here are inherited by the test workers.
+ * The returned function is used as global teardown.
+ */
+export default async function globalSetup(): Promise<() => Promise<void>> {
+    const server = new AM4StandInServer();
+    const port = parseInt(process.env.AM4_STANDIN_PORT || '0');
+    const baseUrl = await server.start(port);
+
+    process.env.AM4_BASE_URL = baseUrl;
+    process.env.AM4_DATA_DIR = process.env.AM4_DATA_DIR || path.join(process.cwd(), 'test-results', 'standin-data');
+    process.env.EMAIL = process.env.EMAIL || 'standin@example.com';
+    process.env.PASSWORD = process.env.PASSWORD || 'standin';
+
+    console.log(`🧪 AM4 stand-in running at ${baseUrl}`);
+    console.log(`   Data directory: ${process.env.AM4_DATA_DIR}`);
+
+    return async () => {
+        await server.stop();
+        console.log('🧪 AM4 stand-in stopped');
+    };
+}
@@ -0,0 +1,80 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Request received by the notification sink
+ */
+export interface ReceivedNotification {
+    path: string;
+    body: unknown;                  // Parsed JSON, raw text if the body is not JSON
+}
+
+/**
+ * Field of a received JSON body by dotted path (e.g. "values.departures")
+ * @returns undefined for raw text bodies and missing fields
+ */
+export function bodyField(notification: ReceivedNotification, fieldPath: string): unknown {
+    return fieldPath.split('.').reduce<unknown>((node, key) =>
+        typeof node === 'object' && node !== null ? (node as { [key: string]: unknown })[key] : undefined, notification.body);
+}
+
+/**
+ * Local Notification Sink
+ *
+ * Stand-in for the Telegram Bot API and notification webhooks: accepts every
+ * JSON POST, remembers it and answers like Telegram ({ ok: true }).
+ * Requests to a path in failPaths are answered with HTTP 500.
+ *
+ * Usage:
+ *   const sink = new NotificationSink();
+ *   const baseUrl = await sink.start();          // TELEGRAM_API_URL / NOTIFY_WEBHOOK_URL
+ *   ...
+ *   expect(bodyField(sink.received[0], 'text')).toContain('Emergency');
+ *   await sink.stop();
+ */
+export class NotificationSink {
+    received: ReceivedNotification[] = [];
+    failPaths: Set<string> = new Set();
+    private server: http.Server | null = null;
+
+    /**
+     * Start listening on a random free port
+     * @returns Base URL of the sink (e.g. "http://127.0.0.1:51234")
+     */
+    public async start(): Promise<string> {
+        this.server = http.createServer((req, res) => {
+            const chunks: Buffer[] = [];
+            req.on('data', chunk => chunks.push(chunk));
+            req.on('end', () => {
+                const path = req.url || '/';
+                const text = Buffer.concat(chunks).toString('utf-8');
+                let body: unknown = text;
+                try {
+                    body = JSON.parse(text);
+                } catch {
+                    // Keep raw text
+                }
+
+                res.setHeader('Content-Type', 'application/json');
+                if (this.failPaths.has(path)) {
+                    res.statusCode = 500;
+                    res.end(JSON.stringify({ ok: false, description: 'Internal Server Error' }));
+                    return;
+                }
+
+                this.received.push({ path, body });
+                res.end(JSON.stringify({ ok: true }));
+            });
+        });
+
+        await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', () => resolve()));
+        const address = this.server.address() as AddressInfo;
+        return `http://127.0.0.1:${address.port}`;
+    }
+
+    public async stop(): Promise<void> {
+        if (!this.server) return;
+        await new Promise<void>(resolve => this.server!.close(() => resolve()));
+        this.server = null;
+    }
+}
@@ -0,0 +1,157 @@
+/**
+ * Stand-in Scenario
+ * Describes the game state the local AM4 stand-in serves.
+ *
+ * The scenario is injected into the game page as JSON, all clicks the bots
+ * perform mutate a client-side copy of it. Reloading the page resets the state
+ * to the scenario served by the server.
+ */
+
+/**
+ * Commodity market (fuel or CO2) as shown in the fuel popup
+ */
+export interface StandInMarket {
+    price: number;                  // Value shown in "Total price$"
+    holding: number;                // #holding
+    capacity: number;               // Total tank size (#remCapacity = capacity - holding)
+    chart: (number | null)[];       // Chart prices, oldest first, one per 30-minute slot ending at "now" (null = no point)
+    chartOnReload?: (number | null)[]; // Chart served from the second load of the market on (default: chart)
+}
+
+/**
+ * Flight history row shown in #flight-history
+ */
+export interface StandInFlight {
+    timeAgo: string;                // e.g. "3 hours ago"
+    route: string;                  // e.g. "FRA-JFK"
+    routeName: string;              // e.g. "L-0008"
+    quotas: number;
+    economy: number;
+    business: number;
+    first: number;
+    cargoLbs: number;
+    revenue: number;
+}
+
+/**
+ * Aircraft in the fleet sidebar / route list
+ */
+export interface StandInPlane {
+    fleetId: string;
+    registration: string;
+    status: 'landed' | 'inflight' | 'parked' | 'pending';
+    aircraftType: string;
+    route: string;
+    delivered: string;
+    hoursToCheck: number;
+    rangeKm: number;
+    flightHours: number;
+    flightCycles: number;
+    minRunwayFt: number;
+    wearPercent: number;
+    progressPercent: number;        // Inflight only: flight progress
+    remainingTime: string;          // Inflight only: "HH:MM:SS" until landing
+    flights: StandInFlight[];       // Newest first
+}
+
+/**
+ * Complete stand-in scenario
+ */
+export interface StandInScenario {
+    cash: number;                   // Bank balance in #headerAccount (purchases are deducted)
+    fuel: StandInMarket;
+    co2: StandInMarket;
+    campaigns: {
+        ecoFriendlyActive: boolean;
+        airlineReputationActive: boolean;
+    };
+    maintenance: {
+        wornPlanes: number;         // Planes listed for bulk repair at 60%
+        dangerChecks: number;       // Planes with .text-danger check hours
+    };
+    planes: StandInPlane[];
+}
+
+/**
+ * Generate a chart series of 48 half-hour slots (24h) oscillating around a base price
+ */
+function chartAround(base: number, amplitude: number): number[] {
+    const points: number[] = [];
+    for (let i = 0; i < 48; i++) {
+        points.push(Math.round(base + amplitude * Math.sin(i / 4)));
+    }
+    return points;
+}
+
+function flightsFor(route: string, routeName: string): StandInFlight[] {
+    return [
+        { timeAgo: '3 hours ago', route, routeName, quotas: 49934, economy: 120, business: 20, first: 6, cargoLbs: 52095, revenue: 105176 },
+        { timeAgo: '9 hours ago', route, routeName, quotas: 49120, economy: 118, business: 19, first: 5, cargoLbs: 51020, revenue: 101980 },
+        { timeAgo: '2 days ago', route, routeName, quotas: 48870, economy: 110, business: 18, first: 4, cargoLbs: 49870, revenue: 98450 }
+    ];
+}
+
+function plane(
+    fleetId: string,
+    registration: string,
+    status: StandInPlane['status'],
+    route: string,
+    overrides: Partial<StandInPlane> = {}
+): StandInPlane {
+    return {
+        fleetId,
+        registration,
+        status,
+        aircraftType: 'A320-200',
+        route,
+        delivered: '6 months ago',
+        hoursToCheck: 50,
+        rangeKm: 6100,
+        flightHours: 3625,
+        flightCycles: 719,
+        minRunwayFt: 6900,
+        wearPercent: 12.5,
+        progressPercent: status === 'inflight' ? 32.07 : 0,
+        remainingTime: status === 'inflight' ? '00:59:27' : '00:00:00',
+        flights: flightsFor(route, `L-${fleetId.slice(-4)}`),
+        ...overrides
+    };
+}
+
+/**
+ * Default scenario: cheap fuel and CO2 with plenty of free capacity, no active
+ * campaigns, planes to repair and check, and a small mixed fleet
+ */
+export function createDefaultScenario(): StandInScenario {
+    return {
+        cash: 50000000,
+        fuel: {
+            price: 480,
+            holding: 5000000,
+            capacity: 12000000,
+            chart: chartAround(520, 60)
+        },
+        co2: {
+            price: 110,
+            holding: 2500000,
+            capacity: 6000000,
+            chart: chartAround(125, 15)
+        },
+        campaigns: {
+            ecoFriendlyActive: false,
+            airlineReputationActive: false
+        },
+        maintenance: {
+            wornPlanes: 2,
+            dangerChecks: 2
+        },
+        planes: [
+            plane('105960001', 'LU-001', 'landed', 'FRA-JFK'),
+            plane('105960002', 'LU-002', 'landed', 'FRA-LHR', { wearPercent: 31.2 }),
+            plane('105960003', 'LU-003', 'landed', 'MUC-CDG'),
+            plane('105960004', 'LU-004', 'inflight', 'ELQ-FRA', { progressPercent: 45.5, remainingTime: '02:10:00' }),
+            plane('105960005', 'LU-005', 'inflight', 'DXB-SIN'),
+            plane('105960006', 'LU-006', 'parked', 'HAM-VIE')
+        ]
+    };
+}
@@ -1,27 +1,42 @@
 import { Page } from "@playwright/test";
 import { PriceAnalyticsUtils } from "./05_priceAnalytics.utils";
 import { BOT_CONFIG } from "../config";
-
-/**
- * Chart Data Point
- */
-interface ChartDataPoint {
-  timestamp: string; // ISO string in UTC
-  price: number;
-}
+import { RunJournal } from "./07_journal.utils";
+import { Selectors } from "./10_selectors.utils";
+import { Navigator } from "./11_navigation.utils";
+import { PurchaseLedger, SpendDecision, applySpendLimits } from "./12_purchases.utils";
+import { ConsumptionForecaster } from "./13_consumption.utils";
+import {
+    RawChartPoint,
+    findMissingSlotRanges,
+    formatChartValidation,
+    formatMissingSlotRanges,
+    formatReconciliation,
+    reconcileObservedPrices,
+    validateChartPoints
+} from "./18_quality.utils";
+import { PriceAlerts } from "./21_alerts.utils";
+
+const CHART_SPAN_MS = 24 * 3600000;         // The purchase charts show the last 24 hours
 
 export class FuelUtils {
     maxFuelPrice : number;
     maxCo2Price : number;
     page : Page;
     private priceAnalytics: PriceAnalyticsUtils;
-    private chartsScraped: boolean = false; // Flag to track if charts were already scraped
+    private purchaseLedger: PurchaseLedger;
+    private consumption: ConsumptionForecaster;
+    private priceAlerts: PriceAlerts;
+    private chartScrapes = { fuel: 0, co2: 0 }; // Chart scrapes per commodity in this run
 
     constructor(page : Page) {
         this.maxFuelPrice = BOT_CONFIG.fuel.maxFuelPrice;
         this.maxCo2Price = BOT_CONFIG.fuel.maxCo2Price;
         this.page = page;
         this.priceAnalytics = new PriceAnalyticsUtils();
+        this.purchaseLedger = new PurchaseLedger();
+        this.consumption = new ConsumptionForecaster(this.purchaseLedger);
+        this.priceAlerts = new PriceAlerts();
 
         console.log("Max Fuel Price: " + this.maxFuelPrice);
         console.log("Max Co2 Price: " + this.maxCo2Price);
@@ -31,52 +46,52 @@ export class FuelUtils {
         console.log('🔄 Starting Fuel purchase analysis...')
 
         const getCurrentFuelPrice = async () => {
-            let fuelText = await this.page.getByText('Total price$').locator('b > span').innerText();
+            let fuelText = await Selectors.locate(this.page, 'fuel.price').innerText();
             fuelText = fuelText.replaceAll(',', '');
 
             return parseInt(fuelText);
         }
 
         const getCurrentHolding = async () => {
-            let holdingText = await this.page.locator('#holding').innerText();
+            let holdingText = await Selectors.locate(this.page, 'fuel.holding').innerText();
             holdingText = holdingText.replaceAll(',', '');
 
             return parseInt(holdingText);
         }
 
         const getEmptyFuel = async () => {
-            const emptyText = (await this.page.locator('#remCapacity').innerText()).replaceAll(',', '')
+            const emptyText = (await Selectors.locate(this.page, 'fuel.capacity').innerText()).replaceAll(',', '')
 
             return parseInt(emptyText);
         }
 
         try {
             const emptyFuel = await getEmptyFuel();
+            const curHolding = await getCurrentHolding();
+
+            // Holding sample for the burn rate - also on runs with a full tank
+            this.consumption.observe('fuel', curHolding);
+
             if(emptyFuel === 0) {
                 console.log('⏸️ Fuel storage is full, skipping purchase');
+                RunJournal.record({ type: 'skip', scope: 'fuel-purchase', reason: 'Fuel storage is full' });
                 return;
             }
 
             const curFuelPrice = await getCurrentFuelPrice();
-            const curHolding = await getCurrentHolding();
 
             console.log(`📊 Current Fuel Price: $${curFuelPrice.toLocaleString()}`);
+            this.priceAnalytics.addPriceEntry('fuel', curFuelPrice);
             console.log(`📦 Current Holding: ${curHolding.toLocaleString()} L`);
             console.log(`🔓 Available Capacity: ${emptyFuel.toLocaleString()} L`);
 
-            // Scrape Fuel chart (while popup is open!)
-            if (!this.chartsScraped) {
-                try {
-                    const fuelChartData = await this.scrapeFuelChart();
+            // Emergency threshold and amount from the burn rate (configured constants until it is known)
+            const forecast = this.consumption.forecast('fuel', curHolding);
+            const { emergencyHolding: fuelEmergencyHolding, emergencyAmount: fuelEmergencyAmount } = forecast;
+            console.log(ConsumptionForecaster.describe(forecast));
 
-                    if (fuelChartData.length > 0) {
-                        console.log(`📊 Scraped ${fuelChartData.length} fuel price points from chart`);
-                        this.priceAnalytics.addExternalPriceEntries('fuel', fuelChartData);
-                    }
-                } catch (error) {
-                    console.error('❌ Failed to scrape fuel chart:', error);
-                }
-            }
+            // Scrape Fuel chart (while popup is open!)
+            await this.scrapeChart('fuel');
 
             // Use intelligent price analysis
             const analysis = this.priceAnalytics.shouldBuyNow(
@@ -84,7 +99,8 @@ export class FuelUtils {
                 curFuelPrice,
                 this.maxFuelPrice,
                 curHolding,
-                2000000 // Emergency threshold
+                fuelEmergencyHolding,
+                { hoursOfCover: forecast.hoursOfCover }
             );
 
             console.log(`\n${analysis.reason}`);
@@ -94,25 +110,80 @@ export class FuelUtils {
                 // Determine purchase amount
                 let purchaseAmount: string;
 
-                if (curHolding < 2000000) {
-                    // Emergency: buy at least 2M
-                    purchaseAmount = '2000000';
-                    console.log('🚨 Emergency purchase: Buying 2,000,000 L');
+                if (curHolding < fuelEmergencyHolding) {
+                    // Emergency: buy the emergency amount (tops up to the target cover)
+                    purchaseAmount = Math.min(fuelEmergencyAmount, emptyFuel).toString();
+                    console.log(`🚨 Emergency purchase: Buying ${parseInt(purchaseAmount).toLocaleString()} L`);
+                } else if (BOT_CONFIG.ladder.enabled) {
+                    // Laddered purchase: share of the free capacity by how cheap the price is
+                    const step = this.priceAnalytics.getLadderStep('fuel', curFuelPrice);
+                    console.log(step.reason);
+                    if (step.fraction <= 0) {
+                        console.log('⏸️ Skipping fuel purchase - price above the purchase ladder');
+                        RunJournal.record({ type: 'skip', scope: 'fuel-purchase', reason: step.reason });
+                        console.log(this.priceAnalytics.generatePriceReport('fuel'));
+                        return;
+                    }
+                    purchaseAmount = Math.ceil(emptyFuel * step.fraction).toString();
+                    console.log(`✅ Laddered purchase: Buying ${parseInt(purchaseAmount).toLocaleString()} of ${emptyFuel.toLocaleString()} L free`);
                 } else {
                     // Normal purchase: fill capacity
                     purchaseAmount = emptyFuel.toString();
                     console.log(`✅ Regular purchase: Buying ${emptyFuel.toLocaleString()} L`);
                 }
 
-                await this.page.getByPlaceholder('Amount to purchase').click();
-                await this.page.getByPlaceholder('Amount to purchase').press('Control+a');
-                await this.page.getByPlaceholder('Amount to purchase').fill(purchaseAmount);
-                await this.page.getByRole('button', { name: ' Purchase' }).click();
+                // Spend caps: partial fill if the purchase exceeds the cash or daily budget
+                const requestedAmount = parseInt(purchaseAmount);
+                const spend = await this.applySpendLimits('fuel', requestedAmount, curFuelPrice);
+                if (spend.amount <= 0) {
+                    console.log(`⏸️ Skipping Fuel purchase - no budget left (${spend.capReason})`);
+                    RunJournal.record({ type: 'skip', scope: 'fuel-purchase', reason: `Spend cap: ${spend.capReason}` });
+                    console.log(this.priceAnalytics.generatePriceReport('fuel'));
+                    return;
+                }
+                if (spend.capReason) {
+                    purchaseAmount = spend.amount.toString();
+                    console.log(`✂️ Partial fill: ${spend.amount.toLocaleString()} of ${requestedAmount.toLocaleString()} L (${spend.capReason})`);
+                }
 
-                console.log(`✅ Fuel purchased successfully! Amount: ${parseInt(purchaseAmount).toLocaleString()} L at $${curFuelPrice}/L`);
-                // TODO: Add to purchase log (not price history!)
+                await Selectors.locate(this.page, 'fuel.amount').click();
+                await Selectors.locate(this.page, 'fuel.amount').press('Control+a');
+                await Selectors.locate(this.page, 'fuel.amount').fill(purchaseAmount);
+
+                const dryRun = BOT_CONFIG.mode.dryRun;
+                if (dryRun) {
+                    console.log(`🧪 DRY RUN: Would buy ${parseInt(purchaseAmount).toLocaleString()} L at $${curFuelPrice}/L - not clicking Purchase`);
+                } else {
+                    await Selectors.locate(this.page, 'fuel.purchase').click();
+                    console.log(`✅ Fuel purchased successfully! Amount: ${parseInt(purchaseAmount).toLocaleString()} L at $${curFuelPrice}/L`);
+                }
+
+                RunJournal.record({
+                    type: 'purchase',
+                    commodity: 'fuel',
+                    amount: parseInt(purchaseAmount),
+                    price: curFuelPrice,
+                    holdingBefore: curHolding,
+                    emergency: curHolding < fuelEmergencyHolding,
+                    reason: analysis.reason,
+                    ...(spend.capReason ? { requestedAmount, capReason: spend.capReason } : {}),
+                    dryRun
+                });
+                if (!dryRun) {
+                    this.purchaseLedger.record({
+                        commodity: 'fuel',
+                        amount: parseInt(purchaseAmount),
+                        unitPrice: curFuelPrice,
+                        holdingBefore: curHolding,
+                        reason: analysis.reason,
+                        basis: analysis.basis,
+                        marketAvg24h: analysis.stats.avg24h > 0 ? analysis.stats.avg24h : null,
+                        ...(spend.capReason ? { requestedAmount, capReason: spend.capReason } : {})
+                    });
+                }
             } else {
                 console.log('⏸️ Skipping fuel purchase - waiting for better price');
+                RunJournal.record({ type: 'skip', scope: 'fuel-purchase', reason: analysis.reason });
             }
 
             // Print detailed price report
@@ -120,6 +191,7 @@ export class FuelUtils {
 
         } catch (error) {
             console.error('❌ Error during fuel purchase:', error);
+            RunJournal.recordError('fuel-purchase', error);
             throw new Error(`Fuel purchase failed: ${error}`);
         }
     }
@@ -128,21 +200,21 @@ export class FuelUtils {
         console.log('🔄 Starting CO2 purchase analysis...')
 
         const getCurrentCo2Price = async () => {
-            let co2Text = await this.page.getByText('Total price$').locator('b > span').innerText();
+            let co2Text = await Selectors.locate(this.page, 'fuel.price').innerText();
             co2Text = co2Text.replaceAll(',', '');
 
             return parseInt(co2Text);
         }
 
         const getCurrentHolding = async () => {
-            let holdingText = await this.page.locator('#holding').innerText();
+            let holdingText = await Selectors.locate(this.page, 'fuel.holding').innerText();
             holdingText = holdingText.replaceAll(',', '');
 
             return parseInt(holdingText);
         }
 
         const getEmptyCO2 = async () => {
-            const emptyText = (await this.page.locator('#remCapacity').innerText()).replaceAll(',', '')
+            const emptyText = (await Selectors.locate(this.page, 'fuel.capacity').innerText()).replaceAll(',', '')
 
             return parseInt(emptyText);
         }
@@ -153,28 +225,23 @@ export class FuelUtils {
             const curHolding = await getCurrentHolding();
 
             console.log(`📊 Current CO2 Price: $${curCo2Price.toLocaleString()}`);
+            this.priceAnalytics.addPriceEntry('co2', curCo2Price);
             console.log(`📦 Current Holding: ${curHolding.toLocaleString()} kg`);
             console.log(`🔓 Available Capacity: ${emptyCo2.toLocaleString()} kg`);
 
-            // Scrape CO2 chart (while popup is open!)
-            if (!this.chartsScraped) {
-                try {
-                    const co2ChartData = await this.scrapeCO2Chart();
-
-                    if (co2ChartData.length > 0) {
-                        console.log(`📊 Scraped ${co2ChartData.length} CO2 price points from chart`);
-                        this.priceAnalytics.addExternalPriceEntries('co2', co2ChartData);
-                    }
+            // Emergency threshold and amount from the burn rate (configured constants until it is known)
+            this.consumption.observe('co2', curHolding);
+            const forecast = this.consumption.forecast('co2', curHolding);
+            const { emergencyHolding: co2EmergencyHolding, emergencyAmount: co2EmergencyAmount } = forecast;
+            console.log(ConsumptionForecaster.describe(forecast));
 
-                    this.chartsScraped = true;
-                } catch (error) {
-                    console.error('❌ Failed to scrape CO2 chart:', error);
-                }
-            }
+            // Scrape CO2 chart (while popup is open!)
+            await this.scrapeChart('co2');
 
             // Check if storage is full AFTER scraping chart
             if(emptyCo2 === 0) {
                 console.log('⏸️ CO2 storage is full, skipping purchase');
+                RunJournal.record({ type: 'skip', scope: 'co2-purchase', reason: 'CO2 storage is full' });
                 return;
             }
 
@@ -184,7 +251,8 @@ export class FuelUtils {
                 curCo2Price,
                 this.maxCo2Price,
                 curHolding,
-                1000000 // Emergency threshold
+                co2EmergencyHolding,
+                { hoursOfCover: forecast.hoursOfCover }
             );
 
             console.log(`\n${analysis.reason}`);
@@ -194,25 +262,80 @@ export class FuelUtils {
                 // Determine purchase amount
                 let purchaseAmount: string;
 
-                if (curHolding < 1000000) {
-                    // Emergency: buy at least 1M
-                    purchaseAmount = '1000000';
-                    console.log('🚨 Emergency purchase: Buying 1,000,000 kg');
+                if (curHolding < co2EmergencyHolding) {
+                    // Emergency: buy the emergency amount (tops up to the target cover)
+                    purchaseAmount = Math.min(co2EmergencyAmount, emptyCo2).toString();
+                    console.log(`🚨 Emergency purchase: Buying ${parseInt(purchaseAmount).toLocaleString()} kg`);
+                } else if (BOT_CONFIG.ladder.enabled) {
+                    // Laddered purchase: share of the free capacity by how cheap the price is
+                    const step = this.priceAnalytics.getLadderStep('co2', curCo2Price);
+                    console.log(step.reason);
+                    if (step.fraction <= 0) {
+                        console.log('⏸️ Skipping CO2 purchase - price above the purchase ladder');
+                        RunJournal.record({ type: 'skip', scope: 'co2-purchase', reason: step.reason });
+                        console.log(this.priceAnalytics.generatePriceReport('co2'));
+                        return;
+                    }
+                    purchaseAmount = Math.ceil(emptyCo2 * step.fraction).toString();
+                    console.log(`✅ Laddered purchase: Buying ${parseInt(purchaseAmount).toLocaleString()} of ${emptyCo2.toLocaleString()} kg free`);
                 } else {
                     // Normal purchase: fill capacity
                     purchaseAmount = emptyCo2.toString();
                     console.log(`✅ Regular purchase: Buying ${emptyCo2.toLocaleString()} kg`);
                 }
 
-                await this.page.getByPlaceholder('Amount to purchase').click();
-                await this.page.getByPlaceholder('Amount to purchase').press('Control+a');
-                await this.page.getByPlaceholder('Amount to purchase').fill(purchaseAmount);
-                await this.page.getByRole('button', { name: ' Purchase' }).click();
+                // Spend caps: partial fill if the purchase exceeds the cash or daily budget
+                const requestedAmount = parseInt(purchaseAmount);
+                const spend = await this.applySpendLimits('co2', requestedAmount, curCo2Price);
+                if (spend.amount <= 0) {
+                    console.log(`⏸️ Skipping CO2 purchase - no budget left (${spend.capReason})`);
+                    RunJournal.record({ type: 'skip', scope: 'co2-purchase', reason: `Spend cap: ${spend.capReason}` });
+                    console.log(this.priceAnalytics.generatePriceReport('co2'));
+                    return;
+                }
+                if (spend.capReason) {
+                    purchaseAmount = spend.amount.toString();
+                    console.log(`✂️ Partial fill: ${spend.amount.toLocaleString()} of ${requestedAmount.toLocaleString()} kg (${spend.capReason})`);
+                }
+
+                await Selectors.locate(this.page, 'fuel.amount').click();
+                await Selectors.locate(this.page, 'fuel.amount').press('Control+a');
+                await Selectors.locate(this.page, 'fuel.amount').fill(purchaseAmount);
 
-                console.log(`✅ CO2 purchased successfully! Amount: ${parseInt(purchaseAmount).toLocaleString()} kg at $${curCo2Price}/kg`);
-                // TODO: Add to purchase log (not price history!)
+                const dryRun = BOT_CONFIG.mode.dryRun;
+                if (dryRun) {
+                    console.log(`🧪 DRY RUN: Would buy ${parseInt(purchaseAmount).toLocaleString()} kg at $${curCo2Price}/kg - not clicking Purchase`);
+                } else {
+                    await Selectors.locate(this.page, 'fuel.purchase').click();
+                    console.log(`✅ CO2 purchased successfully! Amount: ${parseInt(purchaseAmount).toLocaleString()} kg at $${curCo2Price}/kg`);
+                }
+
+                RunJournal.record({
+                    type: 'purchase',
+                    commodity: 'co2',
+                    amount: parseInt(purchaseAmount),
+                    price: curCo2Price,
+                    holdingBefore: curHolding,
+                    emergency: curHolding < co2EmergencyHolding,
+                    reason: analysis.reason,
+                    ...(spend.capReason ? { requestedAmount, capReason: spend.capReason } : {}),
+                    dryRun
+                });
+                if (!dryRun) {
+                    this.purchaseLedger.record({
+                        commodity: 'co2',
+                        amount: parseInt(purchaseAmount),
+                        unitPrice: curCo2Price,
+                        holdingBefore: curHolding,
+                        reason: analysis.reason,
+                        basis: analysis.basis,
+                        marketAvg24h: analysis.stats.avg24h > 0 ? analysis.stats.avg24h : null,
+                        ...(spend.capReason ? { requestedAmount, capReason: spend.capReason } : {})
+                    });
+                }
             } else {
                 console.log('⏸️ Skipping CO2 purchase - waiting for better price');
+                RunJournal.record({ type: 'skip', scope: 'co2-purchase', reason: analysis.reason });
             }
 
             // Print detailed price report
@@ -220,57 +343,134 @@ export class FuelUtils {
 
         } catch (error) {
             console.error('❌ Error during CO2 purchase:', error);
+            RunJournal.recordError('co2-purchase', error);
             throw new Error(`CO2 purchase failed: ${error}`);
         }
     }
 
+    /**
+     * Read the airline's bank balance from the header
+     * @returns Cash in $ (null if it could not be read)
+     */
+    public async getCashBalance(): Promise<number | null> {
+        try {
+            const cashText = await Selectors.locate(this.page, 'map.cash').innerText({ timeout: 5000 });
+            const cash = parseInt(cashText.replace(/[^0-9-]/g, ''));
+            return Number.isNaN(cash) ? null : cash;
+        } catch (error) {
+            console.log('⚠️  Could not read bank balance:', (error as Error).message.split('\n')[0]);
+            return null;
+        }
+    }
+
+    /**
+     * Reduce a purchase to the spend caps (BOT_CONFIG.spending)
+     * Without a readable bank balance only the daily limit applies.
+     */
+    private async applySpendLimits(commodity: 'fuel' | 'co2', amount: number, unitPrice: number): Promise<SpendDecision> {
+        const cash = await this.getCashBalance();
+        if (cash !== null) {
+            console.log(`💰 Bank balance: $${cash.toLocaleString()}`);
+        }
+
+        return applySpendLimits(
+            { commodity, amount, unitPrice, cash, spentToday: this.purchaseLedger.spentToday(commodity) },
+            BOT_CONFIG.spending
+        );
+    }
 
     // ==================== CHART SCRAPING METHODS ====================
 
     /**
-     * Normalize timestamp to 30-minute UTC timeslot
-     * Returns ISO string rounded to nearest 30min (e.g., 14:00 or 14:30)
-     * Uses UTC time (AM4 standard)
+     * Scrape the chart of a commodity (its purchase popup must be open)
+     * The first call of a run always scrapes. While the data-quality score stays
+     * below quality.rescrapeBelowScore and slots of the last 24 hours (the span
+     * of the chart) are missing, the section is opened again after
+     * quality.rescrapeDelayMs and its freshly loaded chart scraped - at most
+     * quality.maxExtraScrapes times per run and only as long as a scrape fills
+     * missing slots. The commodity's section is open again afterwards.
      */
-    private getTimeslot(timestamp: Date): string {
-        const utcMinutes = timestamp.getUTCMinutes();
-        const roundedMinutes = utcMinutes < 30 ? 0 : 30;
-        const slotTime = new Date(timestamp);
-        slotTime.setUTCMinutes(roundedMinutes, 0, 0);
-        return slotTime.toISOString();
+    private async scrapeChart(commodity: 'fuel' | 'co2'): Promise<void> {
+        const { rescrapeBelowScore, maxExtraScrapes, rescrapeDelayMs } = BOT_CONFIG.quality;
+        const scrape = async () => {
+            const points = commodity === 'fuel' ? await this.scrapeFuelChart() : await this.scrapeCO2Chart();
+            this.chartScrapes[commodity]++;
+            this.addChartPrices(commodity, points);
+        };
+        const missing = () => findMissingSlotRanges(commodity, this.priceAnalytics.loadHistory().timeslots, new Date(Date.now() - CHART_SPAN_MS));
+        const countSlots = (ranges: { slots: number }[]) => ranges.reduce((sum, range) => sum + range.slots, 0);
+
+        try {
+            if (this.chartScrapes[commodity] === 0) {
+                await scrape();
+            }
+
+            let ranges = missing();
+            while (ranges.length > 0 && this.chartScrapes[commodity] - 1 < maxExtraScrapes) {
+                const score = this.priceAnalytics.checkDataQuality(commodity);
+                if (score >= rescrapeBelowScore) break;
+
+                const slots = countSlots(ranges);
+                console.log(`🩹 ${commodity.toUpperCase()} data quality ${score}/100 (below ${rescrapeBelowScore}), ${slots} slot(s) of the last 24h missing: ` +
+                    `${formatMissingSlotRanges(ranges)} - scraping the chart again (${this.chartScrapes[commodity]}/${maxExtraScrapes})`);
+                await this.page.waitForTimeout(rescrapeDelayMs);
+                // The open chart never changes - reopening the section loads it from the game again
+                await Navigator.for(this.page).open(commodity);
+                await scrape();
+
+                ranges = missing();
+                if (countSlots(ranges) >= slots) {
+                    console.log(`⏸️ Extra ${commodity} chart scrape filled no missing slots, not scraping again`);
+                    break;
+                }
+            }
+        } catch (error) {
+            console.error(`❌ Failed to scrape ${commodity === 'fuel' ? 'fuel' : 'CO2'} chart:`, error);
+            RunJournal.recordError(`${commodity}-chart-scrape`, error);
+        }
     }
 
     /**
-     * Parse time label from chart (e.g., "13:00:00") to full UTC timestamp
-     *
-     * WICHTIG: Die Chart-Labels zeigen nur Uhrzeit, kein Datum!
-     * Wir müssen das Datum basierend auf der aktuellen Zeit ableiten.
-     *
-     * @param timeLabel Format: "HH:MM:SS" (z.B. "13:00:00")
-     * @returns ISO timestamp string in UTC
+     * Validate scraped chart points and add the plausible ones to the price history
+     * Logs the data-quality report of the scrape and compares the chart with the
+     * live prices observed during the last 24 hours (see 18_quality.utils.ts),
+     * then checks the price alert rules (see 21_alerts.utils.ts).
      */
-    private parseChartTimeLabel(timeLabel: string): string {
-        const [hours, minutes] = timeLabel.split(':').map(Number);
-
-        const now = new Date();
-        const chartTime = new Date();
-        chartTime.setUTCHours(hours, minutes, 0, 0);
+    private addChartPrices(commodity: 'fuel' | 'co2', rawPoints: RawChartPoint[]): void {
+        const { points, report } = validateChartPoints(commodity, rawPoints, this.priceAnalytics.loadHistory().timeslots);
+        console.log(formatChartValidation(report));
 
-        // Wenn die Chart-Zeit in der Zukunft liegt, ist es vom Vortag
-        if (chartTime.getTime() > now.getTime()) {
-            chartTime.setUTCDate(chartTime.getUTCDate() - 1);
+        if (points.length > 0) {
+            this.priceAnalytics.addExternalPriceEntries(commodity, points);
+        }
+        RunJournal.record({
+            type: 'scrape',
+            target: commodity === 'fuel' ? 'fuel-chart' : 'co2-chart',
+            count: points.length,
+            rejected: report.rejected.length,
+            quality: report.score,
+            attempt: this.chartScrapes[commodity]
+        });
+
+        const reconciliation = reconcileObservedPrices(commodity, this.priceAnalytics.loadHistory().timeslots, new Date(Date.now() - 24 * 3600000));
+        if (reconciliation.compared > 0) {
+            console.log(formatReconciliation(reconciliation));
         }
 
-        return this.getTimeslot(chartTime);
+        // Alert rules (alerts.rules) on the newest price
+        this.priceAlerts.check(commodity, this.priceAnalytics.loadHistory().timeslots);
     }
 
     /**
      * Extract Highcharts data from page
      *
+     * Die Labels zeigen nur die Uhrzeit - das Datum wird erst bei der
+     * Validierung abgeleitet (inferChartTimestamps).
+     *
      * @param chartId ID des Chart-Elements (z.B. "co2Chart" oder "fuelChart")
-     * @returns Array von ChartDataPoints
+     * @returns Array von RawChartPoints
      */
-    private async extractHighchartsData(chartId: string): Promise<ChartDataPoint[]> {
+    private async extractHighchartsData(chartId: string): Promise<RawChartPoint[]> {
         const chartData = await this.page.evaluate((id) => {
             // Finde das Chart-Element
             const chartElement = document.getElementById(id);
@@ -328,13 +528,10 @@ export class FuelUtils {
             return [];
         }
 
-        // Konvertiere zu ChartDataPoints mit vollständigen Timestamps
-        const dataPoints: ChartDataPoint[] = chartData.data.map(item => ({
-            timestamp: this.parseChartTimeLabel(item.time),
+        return chartData.data.map(item => ({
+            label: item.time,
             price: item.price
         }));
-
-        return dataPoints;
     }
 
     /**
@@ -342,14 +539,14 @@ export class FuelUtils {
      *
      * Extrahiert Daten direkt aus der Highcharts-Instanz
      *
-     * @returns Array von ChartDataPoints
+     * @returns Array von RawChartPoints (noch nicht validiert)
      */
-    async scrapeCO2Chart(): Promise<ChartDataPoint[]> {
+    async scrapeCO2Chart(): Promise<RawChartPoint[]> {
         console.log('📊 Scraping CO2 chart data...');
 
         try {
             // Warte bis Chart geladen ist
-            await this.page.waitForSelector('#co2Chart[data-highcharts-chart]', { timeout: 10000 });
+            await Selectors.locate(this.page, 'co2.chart').waitFor({ timeout: BOT_CONFIG.scraping.elementTimeoutMs });
 
             const data = await this.extractHighchartsData('co2Chart');
             console.log(`✅ Extracted ${data.length} CO2 data points from chart`);
@@ -367,14 +564,14 @@ export class FuelUtils {
      *
      * WICHTIG: Setzt voraus, dass wir bereits auf der Fuel Market Seite sind!
      *
-     * @returns Array von ChartDataPoints
+     * @returns Array von RawChartPoints (noch nicht validiert)
      */
-    async scrapeFuelChart(): Promise<ChartDataPoint[]> {
+    async scrapeFuelChart(): Promise<RawChartPoint[]> {
         console.log('⛽ Scraping Fuel chart data...');
 
         try {
             // Chart sollte bereits geladen sein (Navigation erfolgt vorher)
-            await this.page.waitForSelector('#fuelChart[data-highcharts-chart]', { timeout: 10000 });
+            await Selectors.locate(this.page, 'fuel.chart').waitFor({ timeout: BOT_CONFIG.scraping.elementTimeoutMs });
 
             const data = await this.extractHighchartsData('fuelChart');
             console.log(`✅ Extracted ${data.length} Fuel data points from chart`);
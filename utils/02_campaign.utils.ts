@@ -1,32 +1,58 @@
-import { Page } from "@playwright/test";
+import { Page, Locator } from "@playwright/test";
 import { GeneralUtils } from "./00_general.utils";
+import { RunJournal } from "./07_journal.utils";
+import { SessionManager } from "./09_session.utils";
+import { Selectors } from "./10_selectors.utils";
+import { Navigator } from "./11_navigation.utils";
+import { BOT_CONFIG } from "../config";
 
 export class CampaignUtils {
     page : Page;
 
     constructor(page : Page) {
         this.page = page;
-    }    
-    
+    }
+
+    /**
+     * Click the confirming "$" button of a campaign and record it
+     * In dry-run mode the click is skipped and only the intended campaign is recorded.
+     */
+    private async confirmCampaign(button: Locator, campaign: 'eco-friendly' | 'airline-reputation', option: string | null) {
+        const dryRun = BOT_CONFIG.mode.dryRun;
+        if (dryRun) {
+            console.log(`🧪 DRY RUN: Would start ${campaign} campaign${option ? ` (${option})` : ''} - not clicking $`);
+        } else {
+            await button.click();
+        }
+        RunJournal.record({ type: 'campaign', campaign, option, dryRun });
+    }
+
     public async checkAndCreateEcoFriendlyCampaign() {
-        console.log('Checking and Creating Eco-Friendly Campaign if needed...')
+        if (!BOT_CONFIG.campaigns.ecoFriendly) {
+            console.log('⏭️  Eco-Friendly Campaign disabled in config, skipping');
+            RunJournal.record({ type: 'skip', scope: 'eco-friendly-campaign', reason: 'Disabled in config (campaigns.ecoFriendly)' });
+            return;
+        }
 
-        await this.page.getByRole('button', { name: ' Marketing' }).click();
+        console.log('Checking and Creating Eco-Friendly Campaign if needed...')
 
-        await GeneralUtils.sleep(1000);
+        await Navigator.for(this.page).ensure('marketing');
 
         // First check if there's already an active eco-friendly campaign
-        const isActiveEcoFriendlyCampaign = await this.page.getByRole('cell', { name: ' Eco friendly' }).isVisible();
+        const isActiveEcoFriendlyCampaign = await Selectors.locate(this.page, 'marketing.activeEco').isVisible();
         
         if(isActiveEcoFriendlyCampaign) {
             console.log('Eco-Friendly Campaign is already active, no need to create a new one.');
+            RunJournal.record({ type: 'skip', scope: 'eco-friendly-campaign', reason: 'Campaign already active' });
         } else {
             // If no active campaign, create a new one
-            await this.page.getByRole('button', { name: ' New campaign' }).click();
-            await this.page.getByRole('cell', { name: 'Eco-friendly Increases' }).click();
-            await this.page.getByRole('button', { name: '$' }).click();
+            await Selectors.locate(this.page, 'marketing.newCampaign').click();
+            await Selectors.locate(this.page, 'marketing.ecoType').click();
+            await this.confirmCampaign(Selectors.locate(this.page, 'marketing.ecoConfirm'), 'eco-friendly', null);
 
-            console.log("Eco-Friendly Campaign created successfully!");
+            if (!BOT_CONFIG.mode.dryRun) {
+                console.log("Eco-Friendly Campaign created successfully!");
+            }
         }
 
         console.log('Eco-Friendly Campaign check completed!');
@@ -36,14 +62,17 @@ export class CampaignUtils {
      * after the eco-friendly campaign check.
      */
     public async checkAndCreateAirlineReputationCampaign() {
+        const { airlineReputation, reputationCampaign, reputationHours } = BOT_CONFIG.campaigns;
+        if (!airlineReputation) {
+            console.log('⏭️  Airline Reputation Campaign disabled in config, skipping');
+            RunJournal.record({ type: 'skip', scope: 'airline-reputation-campaign', reason: 'Disabled in config (campaigns.airlineReputation)' });
+            return;
+        }
+
         console.log('Checking and Creating Airline Reputation Campaign if needed...');
         
-        // Ensure we are on the Marketing tab
-        const isMarketingTabVisible = await this.page.getByRole('button', { name: ' Marketing' }).isVisible();
-        if (isMarketingTabVisible) {
-            await this.page.getByRole('button', { name: ' Marketing' }).click();
-            await GeneralUtils.sleep(1500);
-        }
+        // Reload the Marketing tab (lists a campaign started just before)
+        await Navigator.for(this.page).open('marketing');
         
         // Check for active campaigns
         console.log('Looking for active Airline Reputation campaign...');
@@ -69,28 +98,29 @@ export class CampaignUtils {
         
         if(hasActiveAirlineReputationCampaign) {
             console.log('Airline Reputation Campaign is already active, no need to create a new one.');
+            RunJournal.record({ type: 'skip', scope: 'airline-reputation-campaign', reason: 'Campaign already active' });
         } else {
             console.log('No active Airline Reputation Campaign found. Creating a new one...');
             try {
                 // First click on the "New campaign" button to open the campaign selection menu
                 console.log('Clicking on New Campaign button...');
-                await this.page.getByRole('button', { name: ' New campaign' }).click();
+                await Selectors.locate(this.page, 'marketing.newCampaign').click();
                 await GeneralUtils.sleep(2000);
                 
                 // Select the "Increase airline reputation" option
                 console.log('Selecting Airline Reputation campaign type...');
                 // Use cell role with exact text to select the campaign type
-                await this.page.getByRole('cell', { name: 'Increase airline reputation' }).click();
+                await Selectors.locate(this.page, 'marketing.reputationType').click();
                 await GeneralUtils.sleep(2000);
                 
                 // Handle the dropdown for selecting campaign duration if it appears
                 console.log('Checking for hours dropdown...');
                 try {
-                    const selectElement = await this.page.locator('select');
+                    const selectElement = Selectors.locate(this.page, 'marketing.duration');
                     const isDropdownVisible = await selectElement.isVisible();
                       if (isDropdownVisible) {
-                        console.log('Hours dropdown found. Setting to 24 Hours...');
-                        await selectElement.selectOption('24 Hours');
+                        console.log(`Hours dropdown found. Setting to ${reputationHours} Hours...`);
+                        await selectElement.selectOption(`${reputationHours} Hours`);
                         await GeneralUtils.sleep(1500);
                     } else {
                         console.log('No hours dropdown visible, continuing...');
@@ -99,36 +129,37 @@ export class CampaignUtils {
                     console.log('Error with hours dropdown:', (error as Error).message);
                 }
                 
-                // Directly target Campaign 4 row and the button within it
-                console.log('Looking for Campaign 4 row...');
+                // Directly target the configured campaign row (default: Campaign 4) and the button within it
+                const campaignName = `Campaign ${reputationCampaign}`;
+                console.log(`Looking for ${campaignName} row...`);
                 try {
-                    // Method 1: Try to find Campaign 4 row by its content
-                    const campaign4Row = await this.page.getByRole('row', { name: /Campaign 4.*25.*35.*\$/ });
-                    const isCampaign4Visible = await campaign4Row.isVisible();
+                    // Method 1: Try to find the campaign row by its content
+                    const campaignRow = await this.page.getByRole('row', { name: new RegExp(`${campaignName}\\D.*\\$`) });
+                    const isCampaignRowVisible = await campaignRow.isVisible();
                     
-                    if (isCampaign4Visible) {
-                        console.log('Campaign 4 row found. Clicking on it...');
-                        await campaign4Row.click();
+                    if (isCampaignRowVisible) {
+                        console.log(`${campaignName} row found. Clicking on it...`);
+                        await campaignRow.click();
                         await GeneralUtils.sleep(1000);
                         
                         // Now find the red button with $ inside this row
-                        console.log('Looking for the $ button in Campaign 4 row...');
-                        const dollarButton = await campaign4Row.getByRole('button', { name: /\$/ });
+                        console.log(`Looking for the $ button in ${campaignName} row...`);
+                        const dollarButton = await campaignRow.getByRole('button', { name: /\$/ });
                         
                         if (await dollarButton.isVisible()) {
-                            console.log('Found $ button, clicking to purchase Campaign 4...');
-                            await dollarButton.click();
+                            console.log(`Found $ button, clicking to purchase ${campaignName}...`);
+                            await this.confirmCampaign(dollarButton, 'airline-reputation', `${campaignName}, ${reputationHours} Hours`);
                             await GeneralUtils.sleep(2000);
-                            console.log('Successfully clicked on Campaign 4 purchase button');
+                            console.log(`Successfully clicked on ${campaignName} purchase button`);
                         } else {
-                            // Fallback to finding all $ buttons and clicking the last one (highest priced)
-                            console.log('$ button not found in Campaign 4 row, trying alternative approach...');
-                            const allDollarButtons = await this.page.getByRole('button', { name: /\$/ }).all();
+                            // Fallback: the campaign buttons are the last four $ buttons, ordered by campaign number
+                            console.log(`$ button not found in ${campaignName} row, trying alternative approach...`);
+                            const allDollarButtons = await Selectors.locate(this.page, 'marketing.priceButtons').all();
                             
                             if (allDollarButtons.length > 0) {
-                                const lastButton = allDollarButtons[allDollarButtons.length - 1];
-                                console.log(`Found ${allDollarButtons.length} $ buttons. Clicking the last one...`);
-                                await lastButton.click();
+                                const buttonIndex = Math.max(0, allDollarButtons.length - 1 - (4 - reputationCampaign));
+                                console.log(`Found ${allDollarButtons.length} $ buttons. Clicking button ${buttonIndex + 1}...`);
+                                await this.confirmCampaign(allDollarButtons[buttonIndex], 'airline-reputation', `${campaignName} (by $ button position), ${reputationHours} Hours`);
                                 await GeneralUtils.sleep(2000);
                                 console.log('Successfully clicked on $ button (alternative method)');
                             } else {
@@ -136,24 +167,25 @@ export class CampaignUtils {
                             }
                         }
                     } else {
-                        // Fallback: If we can't find Campaign 4 row specifically,
-                        // try to find all rows with "CAMPAIGN" and use the last one (highest index)
-                        console.log('Campaign 4 row not found directly. Using alternative method...');
-                        const allCampaignRows = await this.page.locator('tr:has-text("CAMPAIGN")').all();
+                        // Fallback: If we can't find the campaign row specifically,
+                        // try to find all rows with "CAMPAIGN" and use the one at the campaign's position
+                        console.log(`${campaignName} row not found directly. Using alternative method...`);
+                        const allCampaignRows = await Selectors.locate(this.page, 'marketing.campaignRows').all();
                         
                         if (allCampaignRows.length > 0) {
-                            // Get the last row (should be Campaign 4 if there are 4 options)
-                            const lastCampaignRow = allCampaignRows[allCampaignRows.length - 1];
-                            console.log(`Found ${allCampaignRows.length} campaign rows. Selecting the last one...`);
-                            await lastCampaignRow.click();
+                            // Rows are ordered by campaign number (the last row is Campaign 4 if there are 4 options)
+                            const rowNumber = Math.min(reputationCampaign, allCampaignRows.length);
+                            console.log(`Found ${allCampaignRows.length} campaign rows. Selecting row ${rowNumber}...`);
+                            await allCampaignRows[rowNumber - 1].click();
                             await GeneralUtils.sleep(1000);
                             
-                            // Find all $ buttons and click the last one
-                            const allButtons = await this.page.getByRole('button', { name: /\$/ }).all();
+                            // Find all $ buttons and click the one matching the row (last one for the last row)
+                            const allButtons = await Selectors.locate(this.page, 'marketing.priceButtons').all();
                             if (allButtons.length > 0) {
-                                await allButtons[allButtons.length - 1].click();
+                                const buttonIndex = Math.max(0, allButtons.length - 1 - (allCampaignRows.length - rowNumber));
+                                await this.confirmCampaign(allButtons[buttonIndex], 'airline-reputation', `Campaign ${rowNumber} (row position), ${reputationHours} Hours`);
                                 await GeneralUtils.sleep(2000);
-                                console.log('Clicked the highest priced button');
+                                console.log(`Clicked the $ button of campaign row ${rowNumber}`);
                             } else {
                                 console.log('ERROR: No $ buttons found after selecting campaign row');
                             }
@@ -162,12 +194,17 @@ export class CampaignUtils {
                         }
                     }
                 } catch (error) {
-                    console.log('Error selecting Campaign 4:', (error as Error).message);
+                    await SessionManager.throwIfLoggedOut(this.page, 'airline-reputation-campaign');
+                    console.log(`Error selecting ${campaignName}:`, (error as Error).message);
+                    RunJournal.recordError('airline-reputation-campaign', error);
                 }
                 
                 console.log('Airline Reputation Campaign creation attempt completed');
             } catch (error) {
+                // A lost session is handled by the caller (re-login + retry)
+                await SessionManager.throwIfLoggedOut(this.page, 'airline-reputation-campaign');
                 console.log('Error creating Airline Reputation campaign:', (error as Error).message);
+                RunJournal.recordError('airline-reputation-campaign', error);
             }
         }
         
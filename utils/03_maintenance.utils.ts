@@ -1,5 +1,8 @@
 import { Page } from "@playwright/test";
 import { GeneralUtils } from "./00_general.utils";
+import { RunJournal } from "./07_journal.utils";
+import { Selectors } from "./10_selectors.utils";
+import { BOT_CONFIG } from "../config";
 
 export class MaintenanceUtils {
     page : Page;
@@ -9,44 +12,66 @@ export class MaintenanceUtils {
     }
 
     public async repairPlanes() {
+        const { bulkRepair, repairWearPercent } = BOT_CONFIG.maintenance;
+        if (!bulkRepair) {
+            console.log('⏭️  Bulk repair disabled in config, skipping');
+            RunJournal.record({ type: 'skip', scope: 'bulk-repair', reason: 'Disabled in config (maintenance.bulkRepair)' });
+            return;
+        }
+
         console.log('Starting repairPlanes method...');
-        await this.page.getByRole('button', { name: ' Plan' }).click();
+        await Selectors.locate(this.page, 'maintenance.planTab').click();
         console.log('Clicked on Plan button.');
-        await this.page.getByRole('button', { name: ' Bulk repair' }).click();
+        await Selectors.locate(this.page, 'maintenance.bulkRepair').click();
         console.log('Clicked on Bulk repair button.');
-        await this.page.locator('#repairPct').selectOption('60');
-        console.log('Selected repair percentage to 60%.');
+        await Selectors.locate(this.page, 'maintenance.repairPercent').selectOption(String(repairWearPercent));
+        console.log(`Selected repair percentage to ${repairWearPercent}%.`);
         await GeneralUtils.sleep(1000);
-        const noPlaneExists = await this.page.getByText('There are no aircraft worn to').isVisible();
+        const noPlaneExists = await Selectors.locate(this.page, 'maintenance.noWornAircraft').isVisible();
         if(!noPlaneExists) {
-            console.log('Planes found for repair. Proceeding with bulk repair.');
-            await this.page.getByRole('button', { name: 'Plan bulk repair' }).click();
+            const dryRun = BOT_CONFIG.mode.dryRun;
+            if (dryRun) {
+                console.log(`🧪 DRY RUN: Would plan bulk repair (wear ${repairWearPercent}%) - not clicking Plan bulk repair`);
+            } else {
+                console.log('Planes found for repair. Proceeding with bulk repair.');
+                await Selectors.locate(this.page, 'maintenance.planBulkRepair').click();
+            }
+            RunJournal.record({ type: 'maintenance', action: 'repair', planes: null, wearThreshold: repairWearPercent, dryRun });
         } else {
             console.log('No planes require repair.');
+            RunJournal.record({ type: 'skip', scope: 'bulk-repair', reason: `No aircraft worn to ${repairWearPercent}%` });
         }
         console.log('Completed repairPlanes method.');
     }
 
     public async checkPlanes() {
+        if (!BOT_CONFIG.maintenance.bulkCheck) {
+            console.log('⏭️  Bulk check disabled in config, skipping');
+            RunJournal.record({ type: 'skip', scope: 'bulk-check', reason: 'Disabled in config (maintenance.bulkCheck)' });
+            return;
+        }
+
         console.log('Starting checkPlanes method...');
-        await this.page.getByRole('button', { name: ' Plan' }).click();
+        await Selectors.locate(this.page, 'maintenance.planTab').click();
         console.log('Clicked on Plan button.');
-        await this.page.getByRole('button', { name: ' Bulk check' }).click();
+        await Selectors.locate(this.page, 'maintenance.bulkCheck').click();
         console.log('Clicked on Bulk check button.');
 
         await GeneralUtils.sleep(2000);
         let clicked = false;
+        let clickedCount = 0;
 
-        const dangerChecksExits = await this.page.locator('.bg-white > .text-danger').first().isVisible();
+        const dangerChecksExits = await Selectors.locate(this.page, 'maintenance.dueChecks').first().isVisible();
         if(dangerChecksExits) {
             console.log('Danger checks exist. Clicking on planes with danger text.');
-            const allCheckHoursDanger = await this.page.locator('.bg-white > .text-danger');
+            const allCheckHoursDanger = await Selectors.locate(this.page, 'maintenance.dueChecks');
             let count = await allCheckHoursDanger.count();        
             for(let i = 0; i < count; i++) {
                 const element = await allCheckHoursDanger.first();
 
                 await element.click();
                 clicked = true;
+                clickedCount++;
 
                 console.log(`Clicked on danger check element ${i + 1} of ${count}.`);
                 await GeneralUtils.sleep(500);
@@ -56,8 +81,16 @@ export class MaintenanceUtils {
         }
 
         if(clicked) {
-            console.log('Planning bulk check for clicked planes.');
-            await this.page.getByRole('button', { name: 'Plan bulk check' }).click();
+            const dryRun = BOT_CONFIG.mode.dryRun;
+            if (dryRun) {
+                console.log(`🧪 DRY RUN: Would plan bulk check for ${clickedCount} planes - not clicking Plan bulk check`);
+            } else {
+                console.log('Planning bulk check for clicked planes.');
+                await Selectors.locate(this.page, 'maintenance.planBulkCheck').click();
+            }
+            RunJournal.record({ type: 'maintenance', action: 'check', planes: clickedCount, wearThreshold: null, dryRun });
+        } else {
+            RunJournal.record({ type: 'skip', scope: 'bulk-check', reason: 'No planes with danger check hours' });
         }
         console.log('Completed checkPlanes method.');
     }
@@ -1,13 +1,44 @@
-import * as fs from 'fs';
-import * as path from 'path';
+import { BOT_CONFIG } from '../config';
+import { BuyingStrategy, LadderStep, ladderStep, PricePoint, STRATEGIES, strategyFor, StrategyName } from './14_strategies.utils';
+import { SeasonalityModel, SlotPrediction } from './16_seasonality.utils';
+import { ArchivePoint, PriceArchive, PriceQuery } from './17_archive.utils';
+import { forecastPrices, PriceForecast, PriceTrend } from './22_forecast.utils';
+
+/**
+ * Where a stored price came from
+ * - chart:     Highcharts price chart of the fuel/CO2 market
+ * - observed:  live "Total price" on the purchase screen
+ * - import:    imported price data
+ * - migration: stored before sources were recorded (or converted from the old format)
+ */
+export type PriceSource = 'chart' | 'observed' | 'import' | 'migration';
+
+/**
+ * Source of a stored price and when it was read
+ */
+export interface PriceProvenance {
+  source: PriceSource;
+  observedAt: string;                     // ISO-8601
+}
 
 /**
  * Interface for a single timeslot entry containing both fuel and CO2 prices
  */
 export interface TimeslotEntry {
   timestamp: string;
-  fuel: number;
-  co2: number;
+  fuel: number | null;                    // null = no price for the slot
+  co2: number | null;
+  sources?: { fuel?: PriceProvenance; co2?: PriceProvenance };
+  observed?: { fuel?: number; co2?: number };   // Live purchase-screen price seen during the slot
+}
+
+/**
+ * Price of a commodity in a timeslot (null = missing)
+ * Also treats 0 as missing, the marker of price histories written before null was used.
+ */
+export function priceOf(entry: TimeslotEntry, type: 'fuel' | 'co2'): number | null {
+  const price = entry[type];
+  return price !== null && price !== undefined && price > 0 ? price : null;
 }
 
 /**
@@ -21,11 +52,21 @@ export interface PriceStatistics {
   max24h: number;
   min7d: number;
   max7d: number;
-  trend: 'rising' | 'falling' | 'stable';
+  trend: PriceTrend;
   recommendation: 'buy' | 'wait' | 'emergency';
-  confidence: number;
+  confidence: number;                     // Forecast confidence (0-100)
+  forecast: PriceForecast;
+  qualityScore: number;                   // checkDataQuality() 0-100
 }
 
+/**
+ * What a buy decision was based on
+ * - emergency:   holding below the emergency threshold
+ * - intelligent: price statistics (data-quality score of at least quality.minScore)
+ * - threshold:   simple MAX_FUEL_PRICE / MAX_CO2_PRICE comparison (not enough history)
+ */
+export type BuyBasis = 'emergency' | 'intelligent' | 'threshold';
+
 /**
  * Interface for the complete price history structure
  */
@@ -34,113 +75,50 @@ export interface PriceHistory {
   lastUpdated: string;
 }
 
+/**
+ * Optional inputs of the analysis, e.g. to replay an earlier point in time (backtesting)
+ * Defaults: the saved price history, the current time and the configured strategy.
+ */
+export interface AnalysisOptions {
+  history?: PriceHistory;                 // Prices known at `now`
+  now?: Date;
+  strategy?: BuyingStrategy;              // shouldBuyNow() only
+  hoursOfCover?: number | null;           // shouldBuyNow() only, unknown = never wait for a cheaper slot
+}
+
 /**
  * Utility class for intelligent price analysis and tracking
  * Implements historical price tracking and statistical analysis for optimal buying decisions
  */
 export class PriceAnalyticsUtils {
-  private historyFilePath: string;
-  private maxHistoryEntries: number;
+  private archive: PriceArchive;
 
-  constructor(maxHistoryEntries: number = 200) {
-    this.historyFilePath = path.join(process.cwd(), 'data', 'price-history.json');
-    this.maxHistoryEntries = maxHistoryEntries;
+  constructor(archive: PriceArchive = new PriceArchive()) {
+    this.archive = archive;
   }
 
   /**
-   * Load price history from JSON file
+   * Load the full-resolution price history (cached, see PriceArchive)
    * Creates new file with empty structure if it doesn't exist
    * Handles migration from old format (separate fuel/co2 arrays) to new format (unified timeslots)
    */
   public loadHistory(): PriceHistory {
-    try {
-      if (fs.existsSync(this.historyFilePath)) {
-        const data = fs.readFileSync(this.historyFilePath, 'utf8');
-        const parsed = JSON.parse(data);
-
-        // Check if old format (separate fuel/co2 arrays)
-        if (parsed.fuel || parsed.co2) {
-          console.log('📦 Migrating old price history format to new unified structure...');
-          const timeslotsMap = new Map<string, TimeslotEntry>();
-
-          // Merge fuel entries
-          if (parsed.fuel && Array.isArray(parsed.fuel)) {
-            for (const entry of parsed.fuel) {
-              timeslotsMap.set(entry.timestamp, {
-                timestamp: entry.timestamp,
-                fuel: entry.price,
-                co2: 0
-              });
-            }
-          }
-
-          // Merge co2 entries
-          if (parsed.co2 && Array.isArray(parsed.co2)) {
-            for (const entry of parsed.co2) {
-              const existing = timeslotsMap.get(entry.timestamp);
-              if (existing) {
-                existing.co2 = entry.price;
-              } else {
-                timeslotsMap.set(entry.timestamp, {
-                  timestamp: entry.timestamp,
-                  fuel: 0,
-                  co2: entry.price
-                });
-              }
-            }
-          }
-
-          // Convert map to sorted array
-          const timeslots = Array.from(timeslotsMap.values()).sort((a, b) =>
-            new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-          );
-
-          const migratedHistory: PriceHistory = {
-            timeslots,
-            lastUpdated: new Date().toISOString()
-          };
-
-          // Save migrated format
-          this.saveHistory(migratedHistory);
-          console.log(`✅ Migration complete: ${timeslots.length} timeslot entries`);
-          return migratedHistory;
-        }
-
-        // New format - just use as is
-        const history = parsed as PriceHistory;
-        console.log(`📊 Loaded price history: ${history.timeslots.length} timeslot entries`);
-        return history;
-      }
-    } catch (error) {
-      console.error('❌ Error loading price history:', error);
-    }
-
-    // Return empty structure if file doesn't exist or error occurred
-    console.log('📝 Creating new price history file');
-    const emptyHistory: PriceHistory = {
-      timeslots: [],
-      lastUpdated: new Date().toISOString()
-    };
-    this.saveHistory(emptyHistory);
-    return emptyHistory;
+    return this.archive.loadRecent();
   }
 
   /**
    * Save price history to JSON file
+   * Slots older than storage.priceFullResolutionDays are rolled into the archive.
    */
   public saveHistory(history: PriceHistory): void {
-    try {
-      history.lastUpdated = new Date().toISOString();
-      fs.writeFileSync(
-        this.historyFilePath,
-        JSON.stringify(history, null, 2),
-        'utf8'
-      );
-      console.log('💾 Price history saved successfully');
-    } catch (error) {
-      console.error('❌ Error saving price history:', error);
-      throw new Error(`Failed to save price history: ${error}`);
-    }
+    this.archive.save(history);
+  }
+
+  /**
+   * Prices by time range and resolution, including the hourly/daily archive
+   */
+  public queryPrices(query: PriceQuery): ArchivePoint[] {
+    return this.archive.query(query);
   }
 
   /**
@@ -157,45 +135,44 @@ export class PriceAnalyticsUtils {
   }
 
   /**
-   * Add a new price entry to history
-   * Automatically trims old entries if exceeding maxHistoryEntries
-   * Deduplicates: Only 1 entry per 30-minute timeslot
+   * Record the live purchase-screen price for the current timeslot
+   * Kept next to the chart price of the slot (see reconcileObservedPrices); it is
+   * only used as the slot price while the chart has not provided one.
    */
   public addPriceEntry(
     type: 'fuel' | 'co2',
-    price: number
+    price: number,
+    now: Date = new Date()
   ): void {
     const history = this.loadHistory();
-    const now = new Date();
     const currentSlot = this.getTimeslot(now);
+    const provenance: PriceProvenance = { source: 'observed', observedAt: now.toISOString() };
 
     // Check if entry for this timeslot already exists
-    const existingIndex = history.timeslots.findIndex(e =>
+    const existing = history.timeslots.find(e =>
       this.getTimeslot(new Date(e.timestamp)) === currentSlot
     );
 
-    if (existingIndex >= 0) {
-      // Update existing timeslot entry with new price
-      if (type === 'fuel') {
-        history.timeslots[existingIndex].fuel = price;
-      } else {
-        history.timeslots[existingIndex].co2 = price;
+    if (existing) {
+      existing.observed = { ...existing.observed, [type]: price };
+      if (priceOf(existing, type) === null || existing.sources?.[type]?.source === 'observed') {
+        existing[type] = price;
+        existing.sources = { ...existing.sources, [type]: provenance };
       }
-      console.log(`🔄 Updated ${type} price for timeslot ${currentSlot}: $${price}`);
+      console.log(`🔄 Observed ${type} price for timeslot ${currentSlot}: $${price}`);
     } else {
       // Create new timeslot entry
-      const newEntry: TimeslotEntry = {
+      history.timeslots.push({
         timestamp: currentSlot,
-        fuel: type === 'fuel' ? price : 0,
-        co2: type === 'co2' ? price : 0
-      };
-      history.timeslots.push(newEntry);
-      console.log(`✅ Added ${type} price entry for timeslot ${currentSlot}: $${price}`);
-    }
-
-    // Keep only the last maxHistoryEntries
-    if (history.timeslots.length > this.maxHistoryEntries) {
-      history.timeslots = history.timeslots.slice(-this.maxHistoryEntries);
+        fuel: type === 'fuel' ? price : null,
+        co2: type === 'co2' ? price : null,
+        sources: { [type]: provenance },
+        observed: { [type]: price }
+      });
+      history.timeslots.sort((a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      );
+      console.log(`✅ Added observed ${type} price for timeslot ${currentSlot}: $${price}`);
     }
 
     this.saveHistory(history);
@@ -208,14 +185,13 @@ export class PriceAnalyticsUtils {
    * - Timespan (25 pts): Oldest point ≥24h ago
    * - Gap-free (30 pts): Largest gap in 24h <3h
    * - Day coverage (25 pts): All 4 quarters covered
+   * Intelligent buying needs quality.minScore (see shouldBuyNow()).
    */
-  public checkDataQuality(type: 'fuel' | 'co2'): number {
-    const history = this.loadHistory();
+  public checkDataQuality(type: 'fuel' | 'co2', options: AnalysisOptions = {}): number {
+    const history = options.history ?? this.loadHistory();
 
-    // Filter timeslots that have the requested price type (fuel or co2 > 0)
-    const entries = history.timeslots.filter(e =>
-      type === 'fuel' ? e.fuel > 0 : e.co2 > 0
-    );
+    // Filter timeslots that have a price of the requested type
+    const entries = history.timeslots.filter(e => priceOf(e, type) !== null);
 
     if (entries.length === 0) return 0;
 
@@ -231,7 +207,7 @@ export class PriceAnalyticsUtils {
     // 2. Timespan (25 points)
     const timestamps = entries.map(e => new Date(e.timestamp).getTime());
     const oldest = Math.min(...timestamps);
-    const now = Date.now();
+    const now = (options.now ?? new Date()).getTime();
     const ageHours = (now - oldest) / (1000 * 60 * 60);
 
     if (ageHours >= 24) {
@@ -285,52 +261,49 @@ export class PriceAnalyticsUtils {
     const history = this.loadHistory();
     // Return timeslots that have valid price data for the specified type
     return history.timeslots
-      .filter(e => type === 'fuel' ? e.fuel > 0 : e.co2 > 0)
+      .filter(e => priceOf(e, type) !== null)
       .map(e => ({ timestamp: e.timestamp }));
   }
 
   /**
-   * Add price entries from external source (e.g., Telegram)
+   * Add price entries from external source (e.g., chart scrape or import)
    * Merges fuel and CO2 prices into existing timeslot entries or creates new ones
+   * and records their source.
    */
   public addExternalPriceEntries(
     type: 'fuel' | 'co2',
     entries: Array<{
       timestamp: string;
       price: number;
-    }>
+    }>,
+    source: PriceSource = 'chart',
+    observedAt: Date = new Date()
   ): void {
     const history = this.loadHistory();
+    const provenance: PriceProvenance = { source, observedAt: observedAt.toISOString() };
 
     let addedCount = 0;
     let updatedCount = 0;
 
     for (const entry of entries) {
       // Find existing timeslot entry
-      const existingIndex = history.timeslots.findIndex(e => e.timestamp === entry.timestamp);
+      const existing = history.timeslots.find(e => e.timestamp === entry.timestamp);
 
-      if (existingIndex >= 0) {
+      if (existing) {
         // Update existing timeslot
-        const existing = history.timeslots[existingIndex];
-        const hadPrice = type === 'fuel' ? existing.fuel > 0 : existing.co2 > 0;
-
-        if (type === 'fuel') {
-          history.timeslots[existingIndex].fuel = entry.price;
-        } else {
-          history.timeslots[existingIndex].co2 = entry.price;
-        }
-
-        if (!hadPrice) {
+        if (priceOf(existing, type) === null) {
           updatedCount++;
         }
+        existing[type] = entry.price;
+        existing.sources = { ...existing.sources, [type]: provenance };
       } else {
         // Create new timeslot entry
-        const newEntry: TimeslotEntry = {
+        history.timeslots.push({
           timestamp: entry.timestamp,
-          fuel: type === 'fuel' ? entry.price : 0,
-          co2: type === 'co2' ? entry.price : 0
-        };
-        history.timeslots.push(newEntry);
+          fuel: type === 'fuel' ? entry.price : null,
+          co2: type === 'co2' ? entry.price : null,
+          sources: { [type]: provenance }
+        });
         addedCount++;
       }
     }
@@ -340,15 +313,10 @@ export class PriceAnalyticsUtils {
       new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
     );
 
-    // Trim to max entries
-    if (history.timeslots.length > this.maxHistoryEntries) {
-      history.timeslots = history.timeslots.slice(-this.maxHistoryEntries);
-    }
-
     this.saveHistory(history);
 
     if (addedCount > 0 || updatedCount > 0) {
-      console.log(`✅ Added ${addedCount} new timeslots, updated ${updatedCount} existing timeslots with ${type} prices`);
+      console.log(`✅ Added ${addedCount} new timeslots, updated ${updatedCount} existing timeslots with ${type} prices (${source})`);
     }
   }
 
@@ -358,14 +326,15 @@ export class PriceAnalyticsUtils {
   private calculateStats(
     type: 'fuel' | 'co2',
     entries: TimeslotEntry[],
-    hoursBack: number
+    hoursBack: number,
+    now: Date
   ): {
     avg: number;
     min: number;
     max: number;
     count: number;
   } {
-    const cutoffTime = new Date();
+    const cutoffTime = new Date(now);
     cutoffTime.setHours(cutoffTime.getHours() - hoursBack);
 
     const recentEntries = entries.filter(entry =>
@@ -376,7 +345,7 @@ export class PriceAnalyticsUtils {
       return { avg: 0, min: 0, max: 0, count: 0 };
     }
 
-    const prices = recentEntries.map(e => type === 'fuel' ? e.fuel : e.co2).filter(p => p > 0);
+    const prices = recentEntries.map(e => priceOf(e, type)).filter((p): p is number => p !== null);
 
     if (prices.length === 0) {
       return { avg: 0, min: 0, max: 0, count: 0 };
@@ -392,54 +361,27 @@ export class PriceAnalyticsUtils {
     };
   }
 
-  /**
-   * Detect price trend based on recent history
-   */
-  private detectTrend(type: 'fuel' | 'co2', entries: TimeslotEntry[]): 'rising' | 'falling' | 'stable' {
-    // Filter entries that have valid prices for the specified type
-    const validEntries = entries.filter(e => type === 'fuel' ? e.fuel > 0 : e.co2 > 0);
-
-    if (validEntries.length < 10) {
-      return 'stable';
-    }
-
-    // Compare average of last 5 entries vs previous 5 entries
-    const recent = validEntries.slice(-5).map(e => type === 'fuel' ? e.fuel : e.co2);
-    const previous = validEntries.slice(-10, -5).map(e => type === 'fuel' ? e.fuel : e.co2);
-
-    const recentAvg = recent.reduce((a, b) => a + b, 0) / recent.length;
-    const previousAvg = previous.reduce((a, b) => a + b, 0) / previous.length;
-
-    const changePercent = ((recentAvg - previousAvg) / previousAvg) * 100;
-
-    if (changePercent > 5) return 'rising';
-    if (changePercent < -5) return 'falling';
-    return 'stable';
-  }
-
   /**
    * Get comprehensive price statistics and recommendation
+   * Trend and confidence come from the price forecast (see forecastPrices()).
    */
-  public getStatistics(type: 'fuel' | 'co2', currentPrice: number): PriceStatistics {
-    const history = this.loadHistory();
-
-    const stats24h = this.calculateStats(type, history.timeslots, 24);
-    const stats7d = this.calculateStats(type, history.timeslots, 168); // 7 days = 168 hours
-    const trend = this.detectTrend(type, history.timeslots);
+  public getStatistics(type: 'fuel' | 'co2', currentPrice: number, options: AnalysisOptions = {}): PriceStatistics {
+    const history = options.history ?? this.loadHistory();
+    const now = options.now ?? new Date();
 
-    // Calculate confidence based on data availability
-    let confidence = 0;
-    if (stats24h.count >= 20) confidence += 0.5; // At least ~10 hours of data
-    if (stats7d.count >= 100) confidence += 0.3; // At least ~2 days of data
-    if (trend !== 'stable') confidence += 0.2; // Clear trend detected
+    const stats24h = this.calculateStats(type, history.timeslots, 24, now);
+    const stats7d = this.calculateStats(type, history.timeslots, 168, now); // 7 days = 168 hours
+    const forecast = forecastPrices(this.pricePoints(type, history), now);
+    const { trend } = forecast;
+    const config = BOT_CONFIG.fuel;
 
     // Determine recommendation
     let recommendation: 'buy' | 'wait' | 'emergency' = 'wait';
 
-    if (stats24h.count >= 10) {
+    if (stats24h.count >= config.minSlotsForRecommendation) {
       // Intelligent recommendation based on 24h average
-      const buyThreshold = stats24h.avg * 0.85; // Buy if price is 15% below average
-      const emergencyThreshold = stats24h.avg * 1.5; // Emergency if price is 50% above average
+      const buyThreshold = stats24h.avg * config.buyBelowAverage; // Default 0.85 = 15% below average
+      const emergencyThreshold = stats24h.avg * config.emergencyAboveAverage; // Default 1.5 = 50% above average
 
       if (currentPrice <= buyThreshold) {
         recommendation = 'buy';
@@ -463,66 +405,110 @@ export class PriceAnalyticsUtils {
       max7d: stats7d.max,
       trend,
       recommendation,
-      confidence: Math.round(confidence * 100)
+      confidence: forecast.confidence,
+      forecast,
+      qualityScore: this.checkDataQuality(type, { history, now })
     };
   }
 
   /**
-   * Determine if purchase should be made based on intelligent analysis
+   * Determine if purchase should be made
+   * Emergency purchases (low holding) come first, otherwise the buying strategy
+   * configured for the commodity (strategies.fuel / strategies.co2) decides.
+   * Below quality.minScore its intelligent decisions fall back to the fixed threshold.
    */
   public shouldBuyNow(
     type: 'fuel' | 'co2',
     currentPrice: number,
     maxPrice: number,
     holding: number,
-    emergencyThreshold: number
+    emergencyThreshold: number,
+    options: AnalysisOptions = {}
   ): {
     shouldBuy: boolean;
     reason: string;
+    basis: BuyBasis;
+    strategy: StrategyName;
     stats: PriceStatistics;
   } {
-    const stats = this.getStatistics(type, currentPrice);
+    const history = options.history ?? this.loadHistory();
+    const stats = this.getStatistics(type, currentPrice, { history, now: options.now });
+    const { emergencyMaxPriceFactor } = BOT_CONFIG.fuel;
+    const strategy = options.strategy ?? strategyFor(type);
 
     // Emergency purchase if holding is critically low
-    if (holding < emergencyThreshold && currentPrice < maxPrice * 2) {
+    if (holding < emergencyThreshold && currentPrice < maxPrice * emergencyMaxPriceFactor) {
       return {
         shouldBuy: true,
         reason: `🚨 Emergency purchase (holding: ${holding.toLocaleString()}, price acceptable)`,
+        basis: 'emergency',
+        strategy: strategy.name,
         stats
       };
     }
 
-    // Use intelligent recommendation if we have enough data
-    if (stats.confidence >= 50) {
-      if (stats.recommendation === 'buy') {
-        return {
-          shouldBuy: true,
-          reason: `🎯 Intelligent buy (price: $${currentPrice}, 24h avg: $${stats.avg24h}, trend: ${stats.trend})`,
-          stats
-        };
-      } else {
+    const now = options.now ?? new Date();
+    const prices = this.pricePoints(type, history);
+
+    const context = {
+      commodity: type,
+      currentPrice,
+      maxPrice,
+      holding,
+      stats,
+      prices,
+      now
+    };
+    let decision = strategy.decide(context);
+
+    // Intelligent decisions need enough price data, below quality.minScore the fixed threshold decides
+    const { minScore } = BOT_CONFIG.quality;
+    if (decision.basis === 'intelligent' && stats.qualityScore < minScore) {
+      const fallback = STRATEGIES['threshold'].decide(context);
+      decision = { ...fallback, reason: `${fallback.reason} - data quality ${stats.qualityScore}/100 below ${minScore}` };
+    }
+
+    // Wait if a cheaper slot is expected soon and the holding lasts until then
+    const { hoursOfCover } = options;
+    if (decision.shouldBuy && BOT_CONFIG.seasonality.enabled && hoursOfCover !== undefined && hoursOfCover !== null) {
+      const cheaper = SeasonalityModel.fit(prices, now).findCheaperSlot(currentPrice, now);
+      if (cheaper && hoursOfCover >= cheaper.hoursUntil) {
+        const slot = cheaper.prediction.timestamp.slice(11, 16);
         return {
           shouldBuy: false,
-          reason: `⏸️ Waiting for better price (current: $${currentPrice}, 24h avg: $${stats.avg24h}, trend: ${stats.trend})`,
+          reason: `⏳ Cheaper slot expected at ${slot} UTC ($${cheaper.prediction.price}, -${cheaper.savingPercent.toFixed(1)}%, ` +
+            `confidence ${cheaper.prediction.confidence}%) - holding covers ${hoursOfCover.toFixed(1)}h`,
+          basis: decision.basis,
+          strategy: strategy.name,
           stats
         };
       }
     }
+    return { ...decision, strategy: strategy.name, stats };
+  }
 
-    // Fallback to simple logic if not enough historical data
-    if (currentPrice < maxPrice) {
-      return {
-        shouldBuy: true,
-        reason: `✅ Price below max threshold ($${currentPrice} < $${maxPrice})`,
-        stats
-      };
-    }
+  /**
+   * Predict the prices of the next `count` timeslots (seasonality model)
+   */
+  public predictPrices(type: 'fuel' | 'co2', count: number, options: AnalysisOptions = {}): SlotPrediction[] {
+    const history = options.history ?? this.loadHistory();
+    const now = options.now ?? new Date();
+    return SeasonalityModel.fit(this.pricePoints(type, history), now).predict(now, count);
+  }
 
-    return {
-      shouldBuy: false,
-      reason: `⏸️ Price too high ($${currentPrice} >= $${maxPrice})`,
-      stats
-    };
+  /**
+   * Share of the free capacity a regular purchase buys at the current price (purchase ladder)
+   */
+  public getLadderStep(type: 'fuel' | 'co2', currentPrice: number, options: AnalysisOptions = {}): LadderStep {
+    const history = options.history ?? this.loadHistory();
+    return ladderStep(currentPrice, this.pricePoints(type, history), options.now ?? new Date());
+  }
+
+  private pricePoints(type: 'fuel' | 'co2', history: PriceHistory): PricePoint[] {
+    return history.timeslots.flatMap(entry => {
+      const price = priceOf(entry, type);
+      return price !== null ? [{ timestamp: entry.timestamp, price }] : [];
+    });
   }
 
   /**
@@ -532,17 +518,23 @@ export class PriceAnalyticsUtils {
     const history = this.loadHistory();
 
     // Filter timeslots with valid price for the requested type
-    const entries = history.timeslots.filter(e =>
-      type === 'fuel' ? e.fuel > 0 : e.co2 > 0
-    );
+    const entries = history.timeslots.filter(e => priceOf(e, type) !== null);
 
     if (entries.length === 0) {
       return `📊 No price history available for ${type.toUpperCase()}`;
     }
 
     const lastEntry = entries[entries.length - 1];
-    const lastPrice = type === 'fuel' ? lastEntry.fuel : lastEntry.co2;
+    const lastPrice = priceOf(lastEntry, type)!;
     const stats = this.getStatistics(type, lastPrice);
+    const { forecast } = stats;
+    const range = (point: { price: number; low: number; high: number }) =>
+      `$${point.price.toLocaleString()} ($${point.low.toLocaleString()} - $${point.high.toLocaleString()})`;
+    const forecastLines = forecast.points.length > 0
+      ? `Forecast ${forecast.points[0].timestamp.slice(11, 16)}:    ${range(forecast.points[0])}
+Forecast ${forecast.points[forecast.points.length - 1].timestamp.slice(11, 16)}:    ${range(forecast.points[forecast.points.length - 1])} (${forecast.intervalPercent}% interval)
+Forecast Error:    ${forecast.errorPercent}% over ${forecast.evaluated} slots`
+      : 'Forecast:          not enough prices';
 
     const report = `
 📊 ${type.toUpperCase()} PRICE REPORT
@@ -554,6 +546,7 @@ Current Price:     $${stats.current.toLocaleString()}
 Trend:             ${stats.trend.toUpperCase()} ${stats.trend === 'rising' ? '📈' : stats.trend === 'falling' ? '📉' : '➡️'}
 Recommendation:    ${stats.recommendation.toUpperCase()} ${stats.recommendation === 'buy' ? '🟢' : stats.recommendation === 'emergency' ? '🔴' : '🟡'}
 Confidence:        ${stats.confidence}%
+${forecastLines}
 Data Points:       ${entries.length} entries
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`;
 
@@ -0,0 +1,15 @@
+/**
+ * Pipeline Utils - Central Facade for the Task Pipeline
+ *
+ * Runs the bot operations (00-05) as independent tasks with per-task
+ * timeout, retry policy, dependencies and skip conditions.
+ * Implementation details are organized in the ./pipeline/ subdirectory.
+ *
+ * Usage:
+ *   import { createBotPipeline, TaskPipeline } from '../utils/06_pipeline.utils';
+ */
+
+export { createBotPipeline, closePopupIfOpen, BOT_TASK_NAMES } from './pipeline/botTasks';
+export type { BotTaskName, BotPipelineOptions } from './pipeline/botTasks';
+
+export * from './pipeline/taskPipeline';
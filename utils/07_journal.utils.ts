@@ -0,0 +1,18 @@
+/**
+ * Journal Utils - Central Facade for the Run Journal
+ *
+ * Every run writes a journal file to data/runs/<runId>.json containing a
+ * typed event for each decision and side effect (purchases, campaigns,
+ * maintenance, departures, scrapes, skips, errors).
+ * Implementation details are organized in the ./journal/ subdirectory.
+ *
+ * Usage:
+ *   import { RunJournal, RunJournalReader } from '../utils/07_journal.utils';
+ */
+
+export { RunJournal } from './journal/runJournal';
+export type { JournalListener } from './journal/runJournal';
+export { RunJournalReader } from './journal/runJournalReader';
+export type { JournalQuery, JournalEventWithRun } from './journal/runJournalReader';
+
+export * from './journal/journalTypes';
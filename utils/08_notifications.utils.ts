@@ -0,0 +1,18 @@
+/**
+ * Notification Utils - Central Facade for Notifications
+ *
+ * Sends a summary after every run and alerts for emergency purchases,
+ * login failures, task timeouts and price alerts through Telegram and/or a generic
+ * HTTP webhook (see BOT_CONFIG.notifications).
+ * Implementation details are organized in the ./notifications/ subdirectory.
+ *
+ * Usage:
+ *   import { Notifier } from '../utils/08_notifications.utils';
+ */
+
+export { Notifier } from './notifications/notifier';
+export type { NotifierOptions } from './notifications/notifier';
+export { TelegramTransport, WebhookTransport } from './notifications/transports';
+export { DEFAULT_TEMPLATES, renderTemplate, buildSummaryValues } from './notifications/templates';
+
+export * from './notifications/notificationTypes';
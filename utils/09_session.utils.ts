@@ -0,0 +1,15 @@
+/**
+ * Session Utils - Central Facade for the Game Session
+ *
+ * Restores the stored Playwright storage state (data/session-state.json),
+ * validates cookie expiry, detects a logged-out page from any util and
+ * logs in again mid-run, retrying the interrupted step.
+ * Implementation details are organized in the ./session/ subdirectory.
+ *
+ * Usage:
+ *   import { SessionManager } from '../utils/09_session.utils';
+ */
+
+export { SessionManager, SessionExpiredError } from './session/sessionManager';
+export { readStorageState, validateStorageState, applyStorageState, writeStorageState } from './session/sessionState';
+export type { StorageState, StoredCookie, ValidatedState } from './session/sessionState';
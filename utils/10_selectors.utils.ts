@@ -0,0 +1,18 @@
+/**
+ * Selector Utils - Central Facade for the Selector Registry
+ *
+ * Names every page-level selector of the game with ordered fallbacks and
+ * checks them against the live game (selector doctor).
+ * Implementation details are organized in the ./selectors/ subdirectory.
+ *
+ * Usage:
+ *   import { Selectors } from '../utils/10_selectors.utils';
+ *   await Selectors.locate(page, 'map.fuel').click();
+ */
+
+export { SELECTORS, SELECTOR_DEFINITIONS } from './selectors/selectorRegistry';
+export type { SelectorName } from './selectors/selectorRegistry';
+export { Selectors, classifyMatches } from './selectors/selectors';
+export { SelectorDoctor } from './selectors/selectorDoctor';
+export type { SelectorDoctorReport } from './selectors/selectorDoctor';
+export type { SelectorCandidate, SelectorDefinition, SelectorSection, SelectorStatus, SelectorCheck } from './selectors/selectorTypes';
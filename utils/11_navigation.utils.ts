@@ -0,0 +1,15 @@
+/**
+ * Navigation Utils - Central Facade for Game Navigation
+ *
+ * Opens named game sections (fuel, co2, marketing, maintenance, fleet sidebar,
+ * route list, fleet detail), waits until they have loaded, closes the popup
+ * reliably and recovers from overlays like the video ad.
+ * Implementation details are organized in the ./navigation/ subdirectory.
+ *
+ * Usage:
+ *   import { Navigator } from '../utils/11_navigation.utils';
+ *   await Navigator.for(page).open('fuel');
+ */
+
+export { Navigator, NavigationError } from './navigation/navigator';
+export type { GameSection } from './navigation/navigator';
@@ -0,0 +1,19 @@
+/**
+ * Purchase Utils - Central Facade for the Purchase Ledger
+ *
+ * Every confirmed fuel and CO2 purchase is appended to data/purchase-log.json
+ * (amount, unit price, total, holdings, shouldBuyNow reason) and reported as
+ * daily/weekly spend, average price paid vs. market and strategy savings.
+ * Spend caps (share of cash, cash reserve, daily limit) reduce purchases to partial fills.
+ * Implementation details are organized in the ./purchases/ subdirectory.
+ *
+ * Usage:
+ *   import { PurchaseLedger, formatPurchaseReport } from '../utils/12_purchases.utils';
+ */
+
+export { PurchaseLedger } from './purchases/purchaseLedger';
+export { summarizeSpend, comparePrices, formatPurchaseReport } from './purchases/purchaseReport';
+export { applySpendLimits } from './purchases/spendLimits';
+export type { SpendRequest, SpendDecision } from './purchases/spendLimits';
+export { PRICE_UNIT } from './purchases/purchaseTypes';
+export type { PurchaseEntry, PurchaseInput, PurchaseLog, PurchaseQuery, SpendPeriod, PriceComparison } from './purchases/purchaseTypes';
@@ -0,0 +1,16 @@
+/**
+ * Consumption Utils - Central Facade for Consumption Forecasting
+ *
+ * Estimates the hourly fuel and CO2 burn rate from holding deltas between runs
+ * (corrected for our own purchases) and the Smart Fleet flight history, and
+ * derives hours of cover, emergency thresholds and emergency amounts from it.
+ * Implementation details are organized in the ./consumption/ subdirectory.
+ *
+ * Usage:
+ *   import { ConsumptionForecaster } from '../utils/13_consumption.utils';
+ *   const forecast = new ConsumptionForecaster().forecast('fuel', holding);
+ */
+
+export { ConsumptionForecaster, estimateFromHoldings, estimateFromFlights } from './consumption/consumptionForecast';
+export { HoldingLog, HOLDING_RETENTION_HOURS } from './consumption/holdingLog';
+export type { HoldingObservation, HoldingLogFile, BurnRateSource, BurnRateEstimate, ConsumptionForecast } from './consumption/consumptionTypes';
@@ -0,0 +1,19 @@
+/**
+ * Strategies Utils - Central Facade for Buying Strategies
+ *
+ * Pluggable buying strategies (heuristic, fixed threshold, rolling percentile,
+ * moving-average crossover, time-of-day) selected per commodity via
+ * strategies.fuel / strategies.co2. PriceAnalyticsUtils.shouldBuyNow() asks
+ * the configured strategy after its emergency check. The purchase ladder sizes
+ * regular purchases by the price's percentile within the recent prices.
+ * Implementation details are organized in the ./strategies/ subdirectory.
+ *
+ * Usage:
+ *   import { strategyFor } from '../utils/14_strategies.utils';
+ *   const decision = strategyFor('fuel').decide(context);
+ *   const step = ladderStep(context.currentPrice, context.prices, context.now);
+ */
+
+export { STRATEGIES, strategyFor, pricePercentile } from './strategies/builtinStrategies';
+export { ladderStep } from './strategies/purchaseLadder';
+export type { StrategyName, PricePoint, StrategyContext, StrategyDecision, BuyingStrategy, LadderStep } from './strategies/strategyTypes';
@@ -0,0 +1,17 @@
+/**
+ * Backtest Utils - Central Facade for Strategy Backtesting
+ *
+ * Replays data/price-history.json (or an imported CSV) slot by slot through a
+ * buying strategy with simulated consumption and tank capacity, and compares
+ * cost, average price paid, stockouts and cash tied up against the baseline
+ * "buy under MAX_FUEL_PRICE / MAX_CO2_PRICE".
+ * Implementation details are organized in the ./backtest/ subdirectory.
+ *
+ * Usage:
+ *   import { runBacktest } from '../utils/15_backtest.utils';
+ *   const result = runBacktest(timeslots, scenario, STRATEGIES['percentile']);
+ */
+
+export { runBacktest, formatBacktestReport, BASELINE_STRATEGY } from './backtest/backtester';
+export { parsePriceCsv, loadPriceCsv } from './backtest/priceSeries';
+export type { BacktestScenario, BacktestResult, StockoutEvent } from './backtest/backtestTypes';
@@ -0,0 +1,16 @@
+/**
+ * Seasonality Utils - Central Facade for the Per-Timeslot Price Model
+ *
+ * Learns the price distribution of every 30-minute UTC slot of the day (and of
+ * the week when the history supports it) and predicts the upcoming slots with
+ * a confidence. PriceAnalyticsUtils.shouldBuyNow() uses it to wait for a
+ * cheaper slot within the lookahead when the holding covers the wait.
+ * Implementation details are organized in the ./seasonality/ subdirectory.
+ *
+ * Usage:
+ *   import { SeasonalityModel } from '../utils/16_seasonality.utils';
+ *   const predictions = SeasonalityModel.fit(prices).predict(new Date(), 6);
+ */
+
+export { SeasonalityModel } from './seasonality/seasonalityModel';
+export type { SeasonalResolution, SlotProfile, SlotPrediction, CheaperSlot } from './seasonality/seasonalityTypes';
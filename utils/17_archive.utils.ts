@@ -0,0 +1,16 @@
+/**
+ * Archive Utils - Central Facade for the Long-Term Price Archive
+ *
+ * Keeps recent prices at full 30-minute resolution (data/price-history.json)
+ * and rolls older slots into hourly and daily min/avg/max aggregates
+ * (data/price-archive.json) instead of capping the history. Reads are cached
+ * until the files change; prices can be queried by range and resolution.
+ * Implementation details are organized in the ./archive/ subdirectory.
+ *
+ * Usage:
+ *   import { PriceArchive } from '../utils/17_archive.utils';
+ *   const hourly = new PriceArchive().query({ commodity: 'fuel', since, resolution: 'hour' });
+ */
+
+export { PriceArchive } from './archive/priceArchive';
+export type { PriceResolution, PriceAggregate, RollupEntry, PriceRollups, PriceQuery, ArchivePoint } from './archive/archiveTypes';
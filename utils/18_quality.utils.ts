@@ -0,0 +1,33 @@
+/**
+ * Quality Utils - Central Facade for Price Data Quality Checks
+ *
+ * Validates scraped chart prices before they reach the price history: infers
+ * the dates of the time-only chart labels as a monotonic slot sequence, rejects
+ * zero/negative prices, duplicate slots and outliers, counts missing slots and
+ * reconciles conflicts with stored prices. Every scrape gets a data-quality
+ * report with a 0-100 score. Live purchase-screen prices are compared with the
+ * chart prices of the same slots to surface systematic scraping errors. Missing
+ * slot ranges tell FuelUtils when scraping a chart again can fill gaps.
+ * Implementation details are organized in the ./quality/ subdirectory.
+ *
+ * Usage:
+ *   import { validateChartPoints, formatChartValidation } from '../utils/18_quality.utils';
+ *   const { points, report } = validateChartPoints('fuel', rawPoints, history.timeslots);
+ *   console.log(formatChartValidation(report));
+ */
+
+export { inferChartTimestamps, validateChartPoints, formatChartValidation } from './quality/chartValidator';
+export { reconcileObservedPrices, formatReconciliation } from './quality/priceReconciliation';
+export { findMissingSlotRanges, formatMissingSlotRanges } from './quality/slotCoverage';
+export type {
+    RawChartPoint,
+    ChartPricePoint,
+    RejectionReason,
+    RejectedPoint,
+    PriceConflict,
+    ChartValidationReport,
+    ChartValidationResult,
+    PriceMismatch,
+    ReconciliationReport,
+    MissingSlotRange
+} from './quality/qualityTypes';
@@ -0,0 +1,37 @@
+/**
+ * Transfer Utils - Central Facade for Price History Import and Export
+ *
+ * Exports the full-resolution price history as CSV or NDJSON (time range and
+ * commodity filters) and imports prices from CSV, NDJSON or a plain-text dump
+ * of a price announcement channel. Column names and regexes come from
+ * BOT_CONFIG.priceImport; imports are previewed as a plan and merged into the
+ * 30-minute slots like chart scrapes (source 'import').
+ * Implementation details are organized in the ./transfer/ subdirectory.
+ *
+ * Usage:
+ *   import { exportPrices, loadPriceImport, planPriceImport, applyPriceImport } from '../utils/19_transfer.utils';
+ *   const csv = exportPrices(history.timeslots, { format: 'csv', commodities: ['fuel'], since });
+ *   const plan = planPriceImport(loadPriceImport('prices.txt'), history.timeslots, archive.loadRollups());
+ *   applyPriceImport(plan);
+ */
+
+export { exportPrices } from './transfer/priceExport';
+export {
+    parseImportTimestamp,
+    detectImportFormat,
+    parsePriceImport,
+    loadPriceImport,
+    planPriceImport,
+    applyPriceImport,
+    formatImportPlan
+} from './transfer/priceImport';
+export type {
+    ExportFormat,
+    ImportFormat,
+    ExportOptions,
+    ImportMapping,
+    SkippedLine,
+    ParsedImport,
+    CommodityImportPlan,
+    ImportPlan
+} from './transfer/transferTypes';
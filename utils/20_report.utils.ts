@@ -0,0 +1,17 @@
+/**
+ * Report Utils - Central Facade for the HTML Price Report
+ *
+ * Renders a self-contained HTML page with inline SVG charts of the fuel and CO2
+ * prices, their trailing 24h/7d ranges and a marker for every logged purchase,
+ * next to the current recommendation, prices paid vs. market and the
+ * data-quality score. CI uploads it as the `price-report` artifact.
+ * Implementation details are organized in the ./report/ subdirectory.
+ *
+ * Usage:
+ *   import { buildPriceReport, renderHtmlReport } from '../utils/20_report.utils';
+ *   fs.writeFileSync('price-report.html', renderHtmlReport(buildPriceReport(7)));
+ */
+
+export { buildPriceReport, trailingBands } from './report/priceReport';
+export { renderHtmlReport, renderPriceChart } from './report/htmlReport';
+export type { PriceBand, CommodityReport, PriceReport } from './report/reportTypes';
@@ -0,0 +1,17 @@
+/**
+ * Alerts Utils - Central Facade for Price Alerts
+ *
+ * Rules from alerts.rules ("fuel below 400", "co2 low 7d", "any bottom 5% 28d")
+ * are checked against the newest price after every chart scrape. Matches are
+ * logged and recorded as `price-alert` journal events, which the Notifier sends
+ * like any other alert; each rule alerts once per timeslot.
+ * Implementation details are organized in the ./alerts/ subdirectory.
+ *
+ * Usage:
+ *   import { PriceAlerts } from '../utils/21_alerts.utils';
+ *   new PriceAlerts().check('fuel', priceAnalytics.loadHistory().timeslots);
+ */
+
+export { PriceAlerts, ALERT_RETENTION_HOURS } from './alerts/priceAlerts';
+export { evaluateAlertRules } from './alerts/alertRules';
+export type { PriceAlert, SentAlert, AlertLog } from './alerts/alertTypes';
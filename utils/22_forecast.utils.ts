@@ -0,0 +1,18 @@
+/**
+ * Forecast Utils - Central Facade for the Price Forecaster
+ *
+ * Forecasts the next slots of a commodity with damped-trend exponential
+ * smoothing over the 30-minute slot series (daily slot pattern removed when the
+ * window shows one), with prediction intervals from the one-step
+ * errors. The mean error on recent slots sets the confidence and the forecast
+ * slope the trend of PriceAnalyticsUtils.getStatistics().
+ * Implementation details are organized in the ./forecast/ subdirectory.
+ *
+ * Usage:
+ *   import { forecastPrices } from '../utils/22_forecast.utils';
+ *   const forecast = forecastPrices(prices, new Date());
+ *   console.log(forecast.points[0], forecast.confidence);
+ */
+
+export { forecastPrices } from './forecast/priceForecaster';
+export type { PriceTrend, ForecastPoint, SmoothingParameters, PriceForecast } from './forecast/forecastTypes';
@@ -0,0 +1,66 @@
+import { BOT_CONFIG } from '../../config';
+import type { Commodity } from '../07_journal.utils';
+import { PricePoint, pricePercentile } from '../14_strategies.utils';
+import type { AlertRule } from '../config/configSchema';
+import { PriceAlert } from './alertTypes';
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Prices in [from, until)
+ */
+function pricesBetween(prices: PricePoint[], from: number, until: number): number[] {
+    return prices
+        .filter(entry => {
+            const time = new Date(entry.timestamp).getTime();
+            return time >= from && time < until;
+        })
+        .map(entry => entry.price);
+}
+
+/**
+ * Check one rule against a price
+ * @param prices Price history of the commodity up to and including `point`, oldest first
+ * @returns Alert message, or null if the rule does not match (or the history is too short to tell)
+ */
+function matchRule(rule: AlertRule, point: PricePoint, prices: PricePoint[]): string | null {
+    const time = new Date(point.timestamp).getTime();
+    const { minSlotsForRecommendation } = BOT_CONFIG.fuel;
+
+    if (rule.kind === 'below') {
+        return point.price < rule.price ? `$${point.price} is below $${rule.price}` : null;
+    }
+
+    if (rule.kind === 'low') {
+        // The history has to reach back the whole window, otherwise every price is a "new low"
+        const start = time - rule.days * DAY_MS;
+        if (prices.length === 0 || new Date(prices[0].timestamp).getTime() > start + HOUR_MS) return null;
+        const previous = pricesBetween(prices, start, time);
+        if (previous.length < minSlotsForRecommendation) return null;
+        const low = Math.min(...previous);
+        return point.price < low ? `$${point.price} is a new ${rule.days}-day low (previous low $${low})` : null;
+    }
+
+    const window = pricesBetween(prices, rule.days !== null ? time - rule.days * DAY_MS : -Infinity, time + 1);
+    if (window.length < minSlotsForRecommendation) return null;
+    const limit = pricePercentile(window, rule.percent);
+    const period = rule.days !== null ? `the last ${rule.days} day(s)` : `the price history (${window.length} slots)`;
+    return point.price <= limit ? `$${point.price} is in the bottom ${rule.percent}% of ${period} (P${rule.percent} $${limit})` : null;
+}
+
+/**
+ * Rules of a commodity that match a price
+ * @param prices Price history of the commodity, oldest first (later prices are ignored)
+ */
+export function evaluateAlertRules(commodity: Commodity, point: PricePoint, prices: PricePoint[], rules: AlertRule[]): PriceAlert[] {
+    const time = new Date(point.timestamp).getTime();
+    const known = prices.filter(entry => new Date(entry.timestamp).getTime() <= time);
+
+    return rules
+        .filter(rule => rule.commodity === 'any' || rule.commodity === commodity)
+        .flatMap(rule => {
+            const message = matchRule(rule, point, known);
+            return message ? [{ rule: rule.text, commodity, slot: point.timestamp, price: point.price, message }] : [];
+        });
+}
@@ -0,0 +1,32 @@
+// TypeScript interfaces for Price Alerts
+
+import type { Commodity } from '../07_journal.utils';
+
+/**
+ * Alert rule that matched a price
+ */
+export interface PriceAlert {
+    rule: string;                           // Rule as configured (alerts.rules)
+    commodity: Commodity;
+    slot: string;                           // Timeslot of the price (ISO-8601)
+    price: number;
+    message: string;                        // e.g. "$380 is a new 7-day low (previous low $395)"
+}
+
+/**
+ * Alert that was sent, kept to not send it again for the same slot
+ */
+export interface SentAlert {
+    rule: string;
+    commodity: Commodity;
+    slot: string;
+    sentAt: string;                         // ISO-8601
+}
+
+/**
+ * Structure of data/price-alerts.json
+ */
+export interface AlertLog {
+    sent: SentAlert[];
+    lastUpdated: string;
+}
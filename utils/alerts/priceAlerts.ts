@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BOT_CONFIG } from '../../config';
+import { GeneralUtils } from '../00_general.utils';
+import { TimeslotEntry, priceOf } from '../05_priceAnalytics.utils';
+import { Commodity, RunJournal } from '../07_journal.utils';
+import { parseAlertRule } from '../config/configSchema';
+import { evaluateAlertRules } from './alertRules';
+import { AlertLog, PriceAlert } from './alertTypes';
+
+/**
+ * Sent alerts older than this are forgotten (their slots are never checked again)
+ */
+export const ALERT_RETENTION_HOURS = 48;
+
+/**
+ * Price Alerts
+ * Checks the newest price of a commodity against alerts.rules after every chart
+ * scrape. A matching rule is logged and recorded as `price-alert` journal event
+ * (the Notifier sends it if the event is enabled) - once per rule and slot, the
+ * slots already alerted are kept in data/price-alerts.json.
+ *
+ * Usage:
+ *   const alerts = new PriceAlerts();
+ *   alerts.check('fuel', priceAnalytics.loadHistory().timeslots);
+ */
+export class PriceAlerts {
+    private filePath: string;
+
+    constructor(filePath: string = GeneralUtils.dataPath('price-alerts.json')) {
+        this.filePath = filePath;
+    }
+
+    /**
+     * Load the sent alerts (empty if the file does not exist or is unreadable)
+     */
+    public load(): AlertLog {
+        try {
+            if (fs.existsSync(this.filePath)) {
+                const log = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as AlertLog;
+                if (Array.isArray(log.sent)) {
+                    return log;
+                }
+                console.log('⚠️  Price alert log has an unexpected format - starting a new one');
+            }
+        } catch (error) {
+            console.error('❌ Error loading price alert log:', error);
+        }
+        return { sent: [], lastUpdated: new Date().toISOString() };
+    }
+
+    /**
+     * Evaluate the rules for the newest price of a commodity and raise new alerts
+     * @param timeslots Price history (loadHistory().timeslots)
+     * @returns Alerts raised now (without the ones already sent for the slot)
+     */
+    public check(commodity: Commodity, timeslots: TimeslotEntry[], now: Date = new Date()): PriceAlert[] {
+        const rules = BOT_CONFIG.alerts.rules.map(parseAlertRule);
+        const prices = timeslots.flatMap(entry => {
+            const price = priceOf(entry, commodity);
+            return price !== null ? [{ timestamp: entry.timestamp, price }] : [];
+        });
+        const latest = prices[prices.length - 1];
+        if (rules.length === 0 || !latest) return [];
+
+        const log = this.load();
+        const sent = new Set(log.sent.map(alert => `${alert.rule}|${alert.commodity}|${alert.slot}`));
+        const alerts = evaluateAlertRules(commodity, latest, prices, rules)
+            .filter(alert => !sent.has(`${alert.rule}|${alert.commodity}|${alert.slot}`));
+
+        for (const alert of alerts) {
+            console.log(`📣 ${commodity.toUpperCase()} price alert: ${alert.message} (rule "${alert.rule}")`);
+            RunJournal.record({ type: 'price-alert', ...alert });
+        }
+        if (alerts.length > 0) {
+            this.save(log, alerts, now);
+        }
+        return alerts;
+    }
+
+    /**
+     * Add sent alerts and drop the ones beyond the retention
+     * Errors are logged, never thrown - at worst an alert is sent twice.
+     */
+    private save(log: AlertLog, alerts: PriceAlert[], now: Date): void {
+        try {
+            const cutoff = now.getTime() - ALERT_RETENTION_HOURS * 3600000;
+            log.sent = log.sent.filter(alert => new Date(alert.slot).getTime() >= cutoff);
+            log.sent.push(...alerts.map(alert => ({ rule: alert.rule, commodity: alert.commodity, slot: alert.slot, sentAt: now.toISOString() })));
+            log.lastUpdated = now.toISOString();
+
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            fs.writeFileSync(this.filePath, JSON.stringify(log, null, 2), 'utf-8');
+        } catch (error) {
+            console.error('❌ Error saving price alert log:', error);
+        }
+    }
+}
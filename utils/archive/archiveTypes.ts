@@ -0,0 +1,58 @@
+// TypeScript interfaces for the Price Archive
+
+import type { Commodity } from '../07_journal.utils';
+
+/**
+ * Resolution of archived prices (finest first)
+ * - slot: 30-minute timeslot as scraped (recent data only)
+ * - hour: hourly rollup of older slots
+ * - day:  daily rollup of older hours (kept indefinitely)
+ */
+export type PriceResolution = 'slot' | 'hour' | 'day';
+
+/**
+ * Min/avg/max of the prices in a period
+ */
+export interface PriceAggregate {
+    min: number;
+    avg: number;
+    max: number;
+    count: number;                          // Slots in the period
+}
+
+/**
+ * Rolled-up period (null = no price of that commodity in the period)
+ */
+export interface RollupEntry {
+    timestamp: string;                      // ISO-8601 start of the hour/day (UTC)
+    fuel: PriceAggregate | null;
+    co2: PriceAggregate | null;
+}
+
+/**
+ * data/price-archive.json
+ */
+export interface PriceRollups {
+    hourly: RollupEntry[];
+    daily: RollupEntry[];
+    lastRollup: string | null;
+}
+
+/**
+ * Filter for PriceArchive.query()
+ * Periods that are only archived at a coarser resolution keep that resolution.
+ */
+export interface PriceQuery {
+    commodity: Commodity;
+    since?: Date;
+    until?: Date;
+    resolution?: PriceResolution;           // Default: slot
+}
+
+/**
+ * One period of a query result
+ */
+export interface ArchivePoint extends PriceAggregate {
+    timestamp: string;                      // ISO-8601 start of the period (UTC)
+    resolution: PriceResolution;
+}
@@ -0,0 +1,344 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BOT_CONFIG } from '../../config';
+import { GeneralUtils } from '../00_general.utils';
+import type { PriceHistory, PriceProvenance, TimeslotEntry } from '../05_priceAnalytics.utils';
+import type { Commodity } from '../07_journal.utils';
+import { ArchivePoint, PriceAggregate, PriceQuery, PriceResolution, PriceRollups, RollupEntry } from './archiveTypes';
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+const RESOLUTION_RANK: Record<PriceResolution, number> = { slot: 0, hour: 1, day: 2 };
+const COMMODITIES: Commodity[] = ['fuel', 'co2'];
+
+/**
+ * Parsed files by path, reused while the file on disk is unchanged (mtime + size)
+ * Callers always get a copy - changes they do not manage to save never leak
+ * into the next read.
+ */
+const fileCache = new Map<string, { mtimeMs: number; size: number; value: unknown }>();
+
+function readCached<T>(filePath: string, parse: (content: string) => T): T | null {
+    if (!fs.existsSync(filePath)) return null;
+    const stat = fs.statSync(filePath);
+    const cached = fileCache.get(filePath);
+    if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+        return structuredClone(cached.value) as T;
+    }
+    const value = parse(fs.readFileSync(filePath, 'utf8'));
+    fileCache.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size, value });
+    return structuredClone(value);
+}
+
+function writeCached(filePath: string, value: unknown): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(value, null, 2), 'utf8');
+    const stat = fs.statSync(filePath);
+    fileCache.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size, value: structuredClone(value) });
+}
+
+/**
+ * Move an unreadable file aside (<name>.unreadable-<time>.json) so it is never overwritten
+ * @returns Path of the moved file
+ */
+function moveAside(filePath: string): string {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backup = path.join(path.dirname(filePath), `${path.basename(filePath, '.json')}.unreadable-${stamp}.json`);
+    fs.renameSync(filePath, backup);
+    fileCache.delete(filePath);
+    return backup;
+}
+
+function periodStart(timestamp: string, resolution: PriceResolution): string {
+    const time = new Date(timestamp).getTime();
+    if (resolution === 'hour') return new Date(Math.floor(time / HOUR_MS) * HOUR_MS).toISOString();
+    if (resolution === 'day') return new Date(Math.floor(time / DAY_MS) * DAY_MS).toISOString();
+    return new Date(timestamp).toISOString();
+}
+
+function aggregate(prices: (number | null)[]): PriceAggregate | null {
+    const valid = prices.filter((price): price is number => price !== null && price > 0);
+    if (valid.length === 0) return null;
+    return {
+        min: Math.min(...valid),
+        avg: Math.round(valid.reduce((sum, price) => sum + price, 0) / valid.length),
+        max: Math.max(...valid),
+        count: valid.length
+    };
+}
+
+function mergeAggregates(a: PriceAggregate | null, b: PriceAggregate | null): PriceAggregate | null {
+    if (!a) return b;
+    if (!b) return a;
+    const count = a.count + b.count;
+    return {
+        min: Math.min(a.min, b.min),
+        avg: Math.round((a.avg * a.count + b.avg * b.count) / count),
+        max: Math.max(a.max, b.max),
+        count
+    };
+}
+
+/**
+ * Merge rollups into a list of periods (same timestamp = same period), oldest first
+ */
+function mergeInto(target: RollupEntry[], additions: RollupEntry[]): RollupEntry[] {
+    const byTime = new Map(target.map(entry => [entry.timestamp, entry]));
+    for (const entry of additions) {
+        const existing = byTime.get(entry.timestamp);
+        byTime.set(entry.timestamp, existing
+            ? { timestamp: entry.timestamp, fuel: mergeAggregates(existing.fuel, entry.fuel), co2: mergeAggregates(existing.co2, entry.co2) }
+            : entry);
+    }
+    return [...byTime.values()].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Convert the old format (separate fuel/co2 arrays) to unified timeslots
+ */
+function migrateOldFormat(parsed: { fuel?: { timestamp: string; price: number }[]; co2?: { timestamp: string; price: number }[] }): PriceHistory {
+    const timeslotsMap = new Map<string, TimeslotEntry>();
+
+    for (const entry of parsed.fuel ?? []) {
+        timeslotsMap.set(entry.timestamp, { timestamp: entry.timestamp, fuel: entry.price, co2: null });
+    }
+    for (const entry of parsed.co2 ?? []) {
+        const existing = timeslotsMap.get(entry.timestamp);
+        if (existing) {
+            existing.co2 = entry.price;
+        } else {
+            timeslotsMap.set(entry.timestamp, { timestamp: entry.timestamp, fuel: null, co2: entry.price });
+        }
+    }
+
+    const timeslots = Array.from(timeslotsMap.values()).sort((a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+    return addMigrationSources({ timeslots, lastUpdated: new Date().toISOString() });
+}
+
+/**
+ * Mark missing prices as null (older histories used 0) and record prices
+ * without a source as 'migration', observed at the last update of the file
+ */
+function addMigrationSources(history: PriceHistory): PriceHistory {
+    const provenance: PriceProvenance = { source: 'migration', observedAt: history.lastUpdated };
+    for (const entry of history.timeslots) {
+        for (const commodity of COMMODITIES) {
+            const price = entry[commodity];
+            if (price === null || price === undefined || price <= 0) {
+                entry[commodity] = null;
+            } else if (!entry.sources?.[commodity]) {
+                entry.sources = { ...entry.sources, [commodity]: provenance };
+            }
+        }
+    }
+    return history;
+}
+
+/**
+ * Price Archive
+ * Keeps full-resolution 30-minute slots for `storage.priceFullResolutionDays`
+ * in data/price-history.json and rolls older slots into hourly min/avg/max
+ * aggregates, hours older than `storage.priceHourlyDays` into daily ones
+ * (data/price-archive.json, kept indefinitely). Both files are read once and
+ * reused until they change on disk; callers that modify a loaded history must
+ * save it.
+ *
+ * Usage:
+ *   const archive = new PriceArchive();
+ *   const history = archive.loadRecent();
+ *   archive.save(history);
+ *   const daily = archive.query({ commodity: 'fuel', since, resolution: 'day' });
+ */
+export class PriceArchive {
+    private historyPath: string;
+    private rollupsPath: string;
+
+    constructor(
+        historyPath: string = GeneralUtils.dataPath('price-history.json'),
+        rollupsPath: string = GeneralUtils.dataPath('price-archive.json')
+    ) {
+        this.historyPath = historyPath;
+        this.rollupsPath = rollupsPath;
+    }
+
+    /**
+     * Full-resolution timeslots, oldest first
+     * Creates an empty file if there is none and moves an unreadable one aside
+     * (price-history.unreadable-<time>.json). Migrates the old format (separate
+     * fuel/co2 arrays) on first read and saves it; prices stored without a
+     * source are recorded as 'migration'.
+     * @throws Error if an unreadable file cannot be moved aside
+     */
+    public loadRecent(): PriceHistory {
+        let history: PriceHistory | null = null;
+        let converted = false;
+        try {
+            history = readCached(this.historyPath, content => {
+                const parsed = JSON.parse(content);
+                if (parsed.fuel || parsed.co2) {
+                    console.log('📦 Migrating old price history format to new unified structure...');
+                    const migrated = migrateOldFormat(parsed);
+                    console.log(`✅ Migration complete: ${migrated.timeslots.length} timeslot entries`);
+                    converted = true;
+                    return migrated;
+                }
+                console.log(`📊 Loaded price history: ${(parsed as PriceHistory).timeslots.length} timeslot entries`);
+                return addMigrationSources(parsed as PriceHistory);
+            });
+        } catch (error) {
+            console.error('❌ Error loading price history:', error);
+            console.log(`⚠️  Unreadable price history moved to ${moveAside(this.historyPath)}`);
+        }
+
+        if (history) {
+            // Saved once, so the next read neither migrates nor stamps the prices again
+            if (converted) {
+                this.save(history);
+            }
+            return history;
+        }
+
+        console.log('📝 Creating new price history file');
+        const emptyHistory: PriceHistory = { timeslots: [], lastUpdated: new Date().toISOString() };
+        this.save(emptyHistory);
+        return emptyHistory;
+    }
+
+    /**
+     * Hourly and daily rollups (empty if the file is missing or unreadable)
+     */
+    public loadRollups(): PriceRollups {
+        return this.readRollups() ?? { hourly: [], daily: [], lastRollup: null };
+    }
+
+    /**
+     * @returns The rollups (empty without a file), null if the file is unreadable
+     */
+    private readRollups(): PriceRollups | null {
+        if (!fs.existsSync(this.rollupsPath)) {
+            return { hourly: [], daily: [], lastRollup: null };
+        }
+        try {
+            const rollups = readCached(this.rollupsPath, content => JSON.parse(content) as PriceRollups);
+            if (Array.isArray(rollups?.hourly) && Array.isArray(rollups?.daily)) {
+                return rollups;
+            }
+            console.log('⚠️  Price archive has an unexpected format');
+        } catch (error) {
+            console.error('❌ Error loading price archive:', error);
+        }
+        return null;
+    }
+
+    /**
+     * Save the recent timeslots, rolling slots and hours past their retention up
+     * @throws Error if a file cannot be written
+     */
+    public save(history: PriceHistory, now: Date = new Date()): void {
+        const { priceFullResolutionDays, priceHourlyDays } = BOT_CONFIG.storage;
+        const slotCutoff = Math.floor((now.getTime() - priceFullResolutionDays * DAY_MS) / HOUR_MS) * HOUR_MS;
+        const hourCutoff = Math.floor((now.getTime() - priceHourlyDays * DAY_MS) / DAY_MS) * DAY_MS;
+
+        try {
+            const expiredSlots = history.timeslots.filter(entry => new Date(entry.timestamp).getTime() < slotCutoff);
+            history.timeslots = history.timeslots.filter(entry => new Date(entry.timestamp).getTime() >= slotCutoff);
+            history.lastUpdated = now.toISOString();
+
+            let rollups = this.readRollups();
+            if (rollups === null) {
+                console.log(`⚠️  Unreadable price archive moved to ${moveAside(this.rollupsPath)} - starting a new one`);
+                rollups = this.loadRollups();
+            }
+            const hourly = mergeInto(rollups.hourly, PriceArchive.rollUp(expiredSlots, 'hour'));
+            const expiredHours = hourly.filter(entry => new Date(entry.timestamp).getTime() < hourCutoff);
+
+            if (expiredSlots.length > 0 || expiredHours.length > 0) {
+                writeCached(this.rollupsPath, {
+                    hourly: hourly.filter(entry => new Date(entry.timestamp).getTime() >= hourCutoff),
+                    daily: mergeInto(rollups.daily, PriceArchive.rollUpPeriods(expiredHours, 'day')),
+                    lastRollup: now.toISOString()
+                } as PriceRollups);
+                console.log(`📦 Archived ${expiredSlots.length} timeslot(s) into hourly, ${expiredHours.length} hour(s) into daily rollups`);
+            }
+
+            writeCached(this.historyPath, history);
+            console.log('💾 Price history saved successfully');
+        } catch (error) {
+            console.error('❌ Error saving price history:', error);
+            throw new Error(`Failed to save price history: ${error}`);
+        }
+    }
+
+    /**
+     * Prices of a commodity by time range and resolution, oldest first
+     * Finer data is aggregated up to the requested resolution, periods that are
+     * only archived at a coarser resolution are returned at that resolution.
+     */
+    public query(query: PriceQuery): ArchivePoint[] {
+        const { commodity, since, until } = query;
+        const resolution = query.resolution ?? 'slot';
+        const rollups = this.loadRollups();
+
+        const sources: { timestamp: string; resolution: PriceResolution; aggregate: PriceAggregate | null }[] = [
+            ...rollups.daily.map(entry => ({ timestamp: entry.timestamp, resolution: 'day' as const, aggregate: entry[commodity] })),
+            ...rollups.hourly.map(entry => ({ timestamp: entry.timestamp, resolution: 'hour' as const, aggregate: entry[commodity] })),
+            ...this.loadRecent().timeslots.map(entry => ({ timestamp: entry.timestamp, resolution: 'slot' as const, aggregate: aggregate([entry[commodity]]) }))
+        ];
+
+        const periods = new Map<string, ArchivePoint>();
+        for (const source of sources) {
+            if (!source.aggregate) continue;
+            const target = RESOLUTION_RANK[source.resolution] > RESOLUTION_RANK[resolution] ? source.resolution : resolution;
+            const timestamp = periodStart(source.timestamp, target);
+            const time = new Date(timestamp).getTime();
+            if ((since && time < since.getTime()) || (until && time > until.getTime())) continue;
+
+            const key = `${target}|${timestamp}`;
+            const existing = periods.get(key);
+            const merged = mergeAggregates(existing ?? null, source.aggregate)!;
+            periods.set(key, { timestamp, resolution: target, ...merged });
+        }
+
+        return [...periods.values()].sort((a, b) =>
+            a.timestamp.localeCompare(b.timestamp) || RESOLUTION_RANK[b.resolution] - RESOLUTION_RANK[a.resolution]
+        );
+    }
+
+    /**
+     * Aggregate timeslots into periods
+     */
+    public static rollUp(timeslots: TimeslotEntry[], resolution: 'hour' | 'day'): RollupEntry[] {
+        const groups = new Map<string, TimeslotEntry[]>();
+        for (const entry of timeslots) {
+            const key = periodStart(entry.timestamp, resolution);
+            groups.set(key, [...(groups.get(key) ?? []), entry]);
+        }
+        return [...groups.entries()].map(([timestamp, entries]) => ({
+            timestamp,
+            fuel: aggregate(entries.map(entry => entry.fuel)),
+            co2: aggregate(entries.map(entry => entry.co2))
+        }));
+    }
+
+    /**
+     * Aggregate rollups into coarser periods
+     */
+    public static rollUpPeriods(entries: RollupEntry[], resolution: 'hour' | 'day'): RollupEntry[] {
+        return mergeInto([], entries.map(entry => ({ ...entry, timestamp: periodStart(entry.timestamp, resolution) })));
+    }
+
+    /**
+     * Commodity coverage of the archive, e.g. for reports
+     */
+    public describe(commodity: Commodity): string {
+        const recent = this.loadRecent().timeslots.filter(entry => aggregate([entry[commodity]]) !== null);
+        const rollups = this.loadRollups();
+        const hourly = rollups.hourly.filter(entry => entry[commodity]);
+        const daily = rollups.daily.filter(entry => entry[commodity]);
+        const oldest = daily[0]?.timestamp ?? hourly[0]?.timestamp ?? recent[0]?.timestamp;
+        return `📦 ${commodity.toUpperCase()} archive: ${recent.length} slots, ${hourly.length} hourly, ${daily.length} daily rollups` +
+            (oldest ? ` (since ${oldest.slice(0, 10)})` : '');
+    }
+}
@@ -0,0 +1,45 @@
+// TypeScript interfaces for Backtesting
+
+import type { Commodity } from '../07_journal.utils';
+import type { StrategyName } from '../14_strategies.utils';
+
+/**
+ * Simulated tank and consumption of one commodity
+ */
+export interface BacktestScenario {
+    commodity: Commodity;
+    capacity: number;                       // Tank capacity (L / kg)
+    initialHolding: number;
+    burnPerHour: number;                    // Constant consumption per hour
+    maxPrice: number;                       // MAX_FUEL_PRICE / MAX_CO2_PRICE
+}
+
+/**
+ * Period in which the simulated tank ran empty
+ */
+export interface StockoutEvent {
+    start: string;                          // ISO-8601, estimated from the burn rate
+    end: string;                            // Timeslot of the next purchase (or the end of the series)
+    shortfall: number;                      // Consumption that could not be served
+}
+
+/**
+ * Outcome of one strategy over the replayed price series
+ */
+export interface BacktestResult {
+    strategy: StrategyName;
+    slots: number;                          // Replayed timeslots
+    hours: number;                          // Time span of the series
+    purchases: number;
+    emergencyPurchases: number;
+    bought: number;
+    totalCost: number;
+    avgPricePaid: number;                   // Per 1,000 units (0 = nothing bought)
+    consumed: number;
+    consumedCost: number;                   // Value of the consumed units at their purchase price
+    endingHolding: number;
+    stockouts: StockoutEvent[];
+    stockoutHours: number;
+    avgCashTiedUp: number;                  // Time-weighted value of the holding at its purchase price
+    maxCashTiedUp: number;
+}
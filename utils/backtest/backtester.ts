@@ -0,0 +1,198 @@
+import { BOT_CONFIG } from '../../config';
+import { PriceAnalyticsUtils, TimeslotEntry, priceOf } from '../05_priceAnalytics.utils';
+import { PRICE_UNIT } from '../12_purchases.utils';
+import { BuyingStrategy, StrategyName } from '../14_strategies.utils';
+import { BacktestResult, BacktestScenario, StockoutEvent } from './backtestTypes';
+
+const HOUR_MS = 3600000;
+
+/**
+ * Longest window any statistic or strategy looks back (percentile / ladder window max)
+ * Older slots are not passed to shouldBuyNow() to keep long replays fast.
+ */
+const LOOKBACK_HOURS = 336;
+
+/**
+ * Baseline every backtest is compared against
+ */
+export const BASELINE_STRATEGY: StrategyName = 'threshold';
+
+/**
+ * Emergency threshold and amount like the live run: derived from the coverage
+ * window when the burn rate is known, otherwise the configured constants
+ */
+function emergencyLimits(scenario: BacktestScenario, holding: number): { threshold: number; amount: number } {
+    const { emergencyCoverHours, targetCoverHours } = BOT_CONFIG.consumption;
+    if (scenario.burnPerHour > 0) {
+        return {
+            threshold: scenario.burnPerHour * emergencyCoverHours,
+            amount: Math.max(0, Math.round(scenario.burnPerHour * targetCoverHours - holding))
+        };
+    }
+    const fuel = BOT_CONFIG.fuel;
+    return scenario.commodity === 'fuel'
+        ? { threshold: fuel.fuelEmergencyHolding, amount: fuel.fuelEmergencyAmount }
+        : { threshold: fuel.co2EmergencyHolding, amount: fuel.co2EmergencyAmount };
+}
+
+/**
+ * Replay a price series slot by slot through a buying strategy
+ * Between two slots the tank loses `burnPerHour`; at every slot
+ * PriceAnalyticsUtils.shouldBuyNow() decides with the prices known up to that
+ * slot (including waiting for a cheaper predicted slot), and a purchase fills
+ * the tank (emergency purchases buy the emergency amount, with ladder.enabled
+ * regular purchases the ladder's share) - the same amounts FuelUtils buys.
+ * Spend caps are not simulated.
+ * @param timeslots Price history, oldest first (slots without a price for the commodity are skipped)
+ */
+export function runBacktest(
+    timeslots: TimeslotEntry[],
+    scenario: BacktestScenario,
+    strategy: BuyingStrategy,
+    analytics: PriceAnalyticsUtils = new PriceAnalyticsUtils()
+): BacktestResult {
+    const { commodity, capacity, burnPerHour, maxPrice } = scenario;
+    const slots = timeslots.filter(entry => priceOf(entry, commodity) !== null);
+    const prices = slots.map(entry => priceOf(entry, commodity) ?? 0);
+
+    let holding = Math.min(scenario.initialHolding, capacity);
+    let value = slots.length > 0 ? holding / PRICE_UNIT * prices[0] : 0;
+    let purchases = 0;
+    let emergencyPurchases = 0;
+    let bought = 0;
+    let totalCost = 0;
+    let consumed = 0;
+    let consumedCost = 0;
+    let valueHours = 0;
+    let maxValue = value;
+    let stockout: StockoutEvent | null = null;
+    const stockouts: StockoutEvent[] = [];
+    let windowStart = 0;
+
+    for (let i = 0; i < slots.length; i++) {
+        const time = new Date(slots[i].timestamp);
+        const price = prices[i];
+
+        // Consumption since the previous slot
+        if (i > 0) {
+            const previous = new Date(slots[i - 1].timestamp).getTime();
+            const hours = (time.getTime() - previous) / HOUR_MS;
+            const demand = burnPerHour * hours;
+            const served = Math.min(holding, demand);
+
+            if (demand > holding) {
+                if (!stockout) {
+                    const emptyAt = previous + (burnPerHour > 0 ? holding / burnPerHour * HOUR_MS : 0);
+                    stockout = { start: new Date(emptyAt).toISOString(), end: slots[i].timestamp, shortfall: 0 };
+                    stockouts.push(stockout);
+                }
+                stockout.shortfall += demand - holding;
+                stockout.end = slots[i].timestamp;
+            }
+
+            const servedValue = holding > 0 ? value * served / holding : 0;
+            valueHours += (value - servedValue / 2) * hours;
+            holding -= served;
+            value -= servedValue;
+            consumed += served;
+            consumedCost += servedValue;
+        }
+
+        // Buying decision with the prices known at this slot
+        while (new Date(slots[windowStart].timestamp).getTime() < time.getTime() - LOOKBACK_HOURS * HOUR_MS) {
+            windowStart++;
+        }
+        const empty = capacity - holding;
+        if (empty <= 0) continue;
+
+        const emergency = emergencyLimits(scenario, holding);
+        const history = { timeslots: slots.slice(windowStart, i + 1), lastUpdated: slots[i].timestamp };
+        const hoursOfCover = burnPerHour > 0 ? holding / burnPerHour : null;
+        const decision = analytics.shouldBuyNow(commodity, price, maxPrice, holding, emergency.threshold, { history, now: time, strategy, hoursOfCover });
+        if (!decision.shouldBuy) continue;
+
+        const amount = decision.basis === 'emergency'
+            ? Math.min(emergency.amount, empty)
+            : BOT_CONFIG.ladder.enabled
+                ? Math.ceil(empty * analytics.getLadderStep(commodity, price, { history, now: time }).fraction)
+                : empty;
+        if (amount <= 0) continue;
+
+        const cost = amount / PRICE_UNIT * price;
+        purchases++;
+        if (decision.basis === 'emergency') emergencyPurchases++;
+        bought += amount;
+        totalCost += cost;
+        holding += amount;
+        value += cost;
+        maxValue = Math.max(maxValue, value);
+        stockout = null;
+    }
+
+    const hours = slots.length > 1
+        ? (new Date(slots[slots.length - 1].timestamp).getTime() - new Date(slots[0].timestamp).getTime()) / HOUR_MS
+        : 0;
+    const stockoutHours = stockouts.reduce((sum, event) => sum + (new Date(event.end).getTime() - new Date(event.start).getTime()) / HOUR_MS, 0);
+
+    return {
+        strategy: strategy.name,
+        slots: slots.length,
+        hours,
+        purchases,
+        emergencyPurchases,
+        bought,
+        totalCost: Math.round(totalCost),
+        avgPricePaid: bought > 0 ? Math.round(totalCost / bought * PRICE_UNIT) : 0,
+        consumed: Math.round(consumed),
+        consumedCost: Math.round(consumedCost),
+        endingHolding: Math.round(holding),
+        stockouts,
+        stockoutHours,
+        avgCashTiedUp: hours > 0 ? Math.round(valueHours / hours) : Math.round(value),
+        maxCashTiedUp: Math.round(maxValue)
+    };
+}
+
+/**
+ * Result table of several strategies, compared against the baseline
+ * Cost per 1,000 consumed units is the fair comparison: strategies end with
+ * different holdings, consumption is the same for all of them.
+ */
+export function formatBacktestReport(scenario: BacktestScenario, results: BacktestResult[], timeslots: TimeslotEntry[]): string {
+    const unit = scenario.commodity === 'fuel' ? 'L' : 'kg';
+    const slots = timeslots.filter(entry => priceOf(entry, scenario.commodity) !== null);
+    const range = slots.length > 0 ? `${slots[0].timestamp} → ${slots[slots.length - 1].timestamp}` : 'no prices';
+    const baseline = results.find(result => result.strategy === BASELINE_STRATEGY) ?? null;
+    const perConsumed = (result: BacktestResult) => result.consumed > 0 ? result.consumedCost / result.consumed * PRICE_UNIT : 0;
+
+    const lines = [
+        `\n🧪 ${scenario.commodity.toUpperCase()} BACKTEST (${range})`,
+        '━'.repeat(40),
+        `Capacity ${scenario.capacity.toLocaleString()} ${unit}, start ${scenario.initialHolding.toLocaleString()} ${unit}, ` +
+            `burn ${Math.round(scenario.burnPerHour).toLocaleString()} ${unit}/h, max price $${scenario.maxPrice}`
+    ];
+    if (slots.length === 0) {
+        lines.push('No prices to replay');
+        return lines.join('\n');
+    }
+
+    for (const result of results) {
+        const isBaseline = result === baseline;
+        lines.push('');
+        lines.push(`${isBaseline ? '📏' : '🎯'} ${result.strategy}${isBaseline ? ' (baseline)' : ''}`);
+        lines.push(`   Purchases:       ${result.purchases} (${result.emergencyPurchases} emergency), ${result.bought.toLocaleString()} ${unit}`);
+        lines.push(`   Total cost:      $${result.totalCost.toLocaleString()} (avg price paid $${result.avgPricePaid.toLocaleString()})`);
+        lines.push(`   Consumed:        ${result.consumed.toLocaleString()} ${unit} at $${Math.round(perConsumed(result)).toLocaleString()} per 1,000`);
+        lines.push(`   Stockouts:       ${result.stockouts.length} (${result.stockoutHours.toFixed(1)}h empty)`);
+        lines.push(`   Cash tied up:    $${result.avgCashTiedUp.toLocaleString()} avg, $${result.maxCashTiedUp.toLocaleString()} max`);
+        lines.push(`   Ending holding:  ${result.endingHolding.toLocaleString()} ${unit}`);
+
+        if (baseline && !isBaseline && perConsumed(baseline) > 0) {
+            const change = (perConsumed(result) - perConsumed(baseline)) / perConsumed(baseline) * 100;
+            const stockouts = result.stockouts.length - baseline.stockouts.length;
+            lines.push(`   vs. baseline:    ${change <= 0 ? '💰' : '💸'} ${change > 0 ? '+' : ''}${change.toFixed(1)}% cost per consumed unit, ` +
+                `${stockouts > 0 ? '+' : ''}${stockouts} stockouts`);
+        }
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import type { TimeslotEntry } from '../05_priceAnalytics.utils';
+
+/**
+ * Round a timestamp down to its 30-minute timeslot (UTC)
+ */
+function toTimeslot(time: Date): string {
+    const slot = new Date(time);
+    slot.setUTCMinutes(slot.getUTCMinutes() < 30 ? 0 : 30, 0, 0);
+    return slot.toISOString();
+}
+
+/**
+ * Parse a price CSV into timeslots, oldest first
+ * The first line is the header with a `timestamp` column and a `fuel` and/or
+ * `co2` column (comma or semicolon separated, thousands separators are not allowed).
+ * Timestamps are rounded to their 30-minute slot, a later line for the same
+ * slot wins. Lines with an invalid timestamp are skipped.
+ * @throws Error if the header has no timestamp or price column
+ */
+export function parsePriceCsv(content: string): TimeslotEntry[] {
+    const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (lines.length === 0) {
+        throw new Error('CSV is empty');
+    }
+
+    const separator = lines[0].includes(';') ? ';' : ',';
+    const header = lines[0].split(separator).map(column => column.trim().toLowerCase());
+    const timeColumn = header.indexOf('timestamp');
+    const fuelColumn = header.indexOf('fuel');
+    const co2Column = header.indexOf('co2');
+    if (timeColumn < 0 || (fuelColumn < 0 && co2Column < 0)) {
+        throw new Error(`CSV header needs a timestamp and a fuel and/or co2 column, got "${lines[0]}"`);
+    }
+
+    const price = (cells: string[], column: number): number | null => {
+        const value = column >= 0 ? Number(cells[column]?.trim()) : NaN;
+        return Number.isFinite(value) && value > 0 ? value : null;
+    };
+
+    const slots = new Map<string, TimeslotEntry>();
+    let skipped = 0;
+    for (const line of lines.slice(1)) {
+        const cells = line.split(separator);
+        const time = new Date(cells[timeColumn]?.trim() ?? '');
+        if (isNaN(time.getTime())) {
+            skipped++;
+            continue;
+        }
+        const timestamp = toTimeslot(time);
+        slots.set(timestamp, { timestamp, fuel: price(cells, fuelColumn), co2: price(cells, co2Column) });
+    }
+
+    if (skipped > 0) {
+        console.log(`⚠️ Skipped ${skipped} CSV line(s) with an invalid timestamp`);
+    }
+    return [...slots.values()].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Load a price CSV from disk (see parsePriceCsv)
+ */
+export function loadPriceCsv(filePath: string): TimeslotEntry[] {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`CSV file not found: ${filePath}`);
+    }
+    return parsePriceCsv(fs.readFileSync(filePath, 'utf-8'));
+}
@@ -0,0 +1,223 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import { CONFIG_PROFILES } from './configProfiles';
+import {
+    BotSettings,
+    ConfigValidationError,
+    RETIRED_SETTINGS,
+    SETTING_FIELDS,
+    SettingField,
+    checkSettingRelations,
+    checkSettingValue,
+    createDefaultSettings
+} from './configSchema';
+
+/**
+ * Config Loader
+ * Builds the bot settings from (later layers win):
+ *   1. Defaults (configSchema.ts)
+ *   2. Profile (BOT_PROFILE or `profile:` in the config file)
+ *   3. Config file (BOT_CONFIG_FILE or bot.config.yaml / .yml / .json in the working directory)
+ *   4. Environment variables (.env, GitHub Actions variables, CLI flags)
+ *
+ * All problems are collected and thrown together as one ConfigValidationError.
+ */
+
+export const CONFIG_FILE_NAMES = ['bot.config.yaml', 'bot.config.yml', 'bot.config.json'];
+
+export interface LoadedSettings {
+    settings: BotSettings;
+    profile: string | null;                 // Active profile name
+    file: string | null;                    // Config file that was read
+}
+
+const FIELDS_BY_PATH = new Map(SETTING_FIELDS.map(field => [field.path, field]));
+const RETIRED_BY_PATH = new Map(RETIRED_SETTINGS.map(setting => [setting.path, setting]));
+
+/**
+ * Config file to read (null if none is configured or present)
+ */
+export function findConfigFile(env: NodeJS.ProcessEnv = process.env): string | null {
+    if (env.BOT_CONFIG_FILE && env.BOT_CONFIG_FILE.trim() !== '') {
+        return path.resolve(env.BOT_CONFIG_FILE);
+    }
+
+    for (const name of CONFIG_FILE_NAMES) {
+        const candidate = path.join(process.cwd(), name);
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+    }
+    return null;
+}
+
+/**
+ * Load and validate the settings
+ * @throws ConfigValidationError listing every invalid value
+ */
+export function loadSettings(env: NodeJS.ProcessEnv = process.env): LoadedSettings {
+    const issues: string[] = [];
+    const sources = new Map<string, string>();
+    const settings = createDefaultSettings();
+
+    const file = findConfigFile(env);
+    const fileValues = file ? readConfigFile(file, issues) : {};
+    const { profile: fileProfile, ...fileSettings } = fileValues;
+
+    if (fileProfile !== undefined && typeof fileProfile !== 'string') {
+        issues.push(`profile in ${path.basename(file!)} must be a string, got ${JSON.stringify(fileProfile)}`);
+    }
+
+    const profile = env.BOT_PROFILE && env.BOT_PROFILE.trim() !== ''
+        ? env.BOT_PROFILE.trim()
+        : typeof fileProfile === 'string' ? fileProfile : null;
+
+    if (profile !== null) {
+        if (CONFIG_PROFILES[profile]) {
+            applyValues(settings, CONFIG_PROFILES[profile].settings, `profile "${profile}"`, '', sources, issues);
+        } else {
+            issues.push(`Unknown profile "${profile}" (available: ${Object.keys(CONFIG_PROFILES).join(', ')})`);
+        }
+    }
+
+    if (file) {
+        applyValues(settings, fileSettings, path.basename(file), '', sources, issues);
+    }
+
+    applyEnv(settings, env, sources, issues);
+
+    for (const field of SETTING_FIELDS) {
+        const problem = checkSettingValue(field, getPath(settings, field.path));
+        if (problem) {
+            const source = sources.get(field.path);
+            issues.push(`${field.path} ${problem}${source ? ` - set by ${source}` : ''}`);
+        }
+    }
+
+    // Relations only make sense once every single value is valid
+    if (issues.length === 0) {
+        issues.push(...checkSettingRelations(settings));
+    }
+
+    if (issues.length > 0) {
+        throw new ConfigValidationError(issues);
+    }
+
+    return { settings, profile, file };
+}
+
+function readConfigFile(file: string, issues: string[]): { [key: string]: unknown } {
+    try {
+        const content = fs.readFileSync(file, 'utf-8');
+        const parsed = file.endsWith('.json') ? JSON.parse(content) : YAML.parse(content);
+
+        if (parsed === null || parsed === undefined) {
+            return {};
+        }
+        if (!isPlainObject(parsed)) {
+            issues.push(`Config file ${file} must contain an object at the top level`);
+            return {};
+        }
+        return parsed;
+    } catch (error) {
+        issues.push(`Could not read config file ${file}: ${(error as Error).message}`);
+        return {};
+    }
+}
+
+/**
+ * Copy nested values (profile or config file) into the settings
+ */
+function applyValues(
+    settings: BotSettings,
+    values: { [key: string]: unknown },
+    source: string,
+    prefix: string,
+    sources: Map<string, string>,
+    issues: string[]
+): void {
+    for (const [key, value] of Object.entries(values)) {
+        const fieldPath = prefix ? `${prefix}.${key}` : key;
+
+        if (FIELDS_BY_PATH.has(fieldPath)) {
+            setPath(settings, fieldPath, value === null ? undefined : value);
+            sources.set(fieldPath, source);
+        } else if (isSection(fieldPath) && isPlainObject(value)) {
+            applyValues(settings, value, source, fieldPath, sources, issues);
+        } else if (RETIRED_BY_PATH.has(fieldPath)) {
+            issues.push(`Setting "${fieldPath}" in ${source} was removed: ${RETIRED_BY_PATH.get(fieldPath)!.migration}`);
+        } else {
+            issues.push(`Unknown setting "${fieldPath}" in ${source}`);
+        }
+    }
+}
+
+/**
+ * Copy environment variables into the settings (empty variables count as unset)
+ */
+function applyEnv(settings: BotSettings, env: NodeJS.ProcessEnv, sources: Map<string, string>, issues: string[]): void {
+    for (const field of SETTING_FIELDS) {
+        const raw = field.env ? env[field.env] : undefined;
+        if (!field.env || raw === undefined || raw.trim() === '') continue;
+
+        const value = parseEnvValue(field, raw.trim());
+        if (value === undefined) {
+            issues.push(`${field.env}="${raw}" must be ${field.type === 'boolean' ? 'true or false' : 'a number'} (${field.path})`);
+            continue;
+        }
+
+        setPath(settings, field.path, value);
+        sources.set(field.path, field.env);
+    }
+
+    for (const setting of RETIRED_SETTINGS) {
+        const raw = setting.env ? env[setting.env] : undefined;
+        if (raw !== undefined && raw.trim() !== '') {
+            issues.push(`${setting.env} (${setting.path}) was removed: ${setting.migration}`);
+        }
+    }
+}
+
+/**
+ * @returns Parsed value or undefined if the text cannot be parsed
+ */
+function parseEnvValue(field: SettingField, raw: string): unknown {
+    switch (field.type) {
+        case 'boolean':
+            return raw.toLowerCase() === 'true' ? true : raw.toLowerCase() === 'false' ? false : undefined;
+        case 'number':
+        case 'integer': {
+            const number = Number(raw);
+            return Number.isFinite(number) ? number : undefined;
+        }
+        case 'list':
+            return raw.split(',').map(item => item.trim()).filter(item => item !== '');
+        default:
+            return raw;
+    }
+}
+
+function isSection(sectionPath: string): boolean {
+    return SETTING_FIELDS.some(field => field.path.startsWith(`${sectionPath}.`));
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getPath(target: object, fieldPath: string): unknown {
+    return fieldPath.split('.').reduce<unknown>((node, key) => isPlainObject(node) ? node[key] : undefined, target);
+}
+
+function setPath(target: object, fieldPath: string, value: unknown): void {
+    const keys = fieldPath.split('.');
+    const parent = keys.slice(0, -1).reduce<Record<string, unknown>>((node, key) => {
+        const section = node[key];
+        if (!isPlainObject(section)) {
+            throw new Error(`"${key}" in "${fieldPath}" is not a settings section`);
+        }
+        return section;
+    }, target as Record<string, unknown>);
+    parent[keys[keys.length - 1]] = value;
+}
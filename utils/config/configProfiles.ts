@@ -0,0 +1,89 @@
+import { PartialSettings } from './configSchema';
+
+/**
+ * Named Config Profiles
+ * A profile is a set of settings applied on top of the defaults. The config file,
+ * environment variables and CLI flags still override single values of a profile.
+ *
+ * Select a profile with BOT_PROFILE=<name>, `profile: <name>` in the config file
+ * or `npm run bot -- run --profile <name>`.
+ */
+
+export interface ConfigProfile {
+    description: string;
+    settings: PartialSettings;
+}
+
+export const CONFIG_PROFILES: { [name: string]: ConfigProfile } = {
+    conservative: {
+        description: 'Lower price limits, waits longer for good prices, departs a smaller share of the fleet',
+        settings: {
+            fuel: {
+                maxFuelPrice: 500,
+                maxCo2Price: 110,
+                fuelEmergencyAmount: 1000000,
+                co2EmergencyAmount: 500000,
+                emergencyMaxPriceFactor: 1.5,
+                buyBelowAverage: 0.8
+            },
+            quality: {
+                minScore: 80
+            },
+            spending: {
+                maxCashShare: 0.3,
+                minCashReserve: 5000000
+            },
+            fleet: {
+                percentage: 0.05
+            },
+            campaigns: {
+                reputationCampaign: 2
+            },
+            maintenance: {
+                repairWearPercent: 40
+            }
+        }
+    },
+
+    aggressive: {
+        description: 'Higher price limits, buys earlier, departs a larger share of the fleet faster',
+        settings: {
+            fuel: {
+                maxFuelPrice: 700,
+                maxCo2Price: 140,
+                fuelEmergencyHolding: 5000000,
+                fuelEmergencyAmount: 5000000,
+                co2EmergencyHolding: 2000000,
+                co2EmergencyAmount: 2000000,
+                buyBelowAverage: 0.95
+            },
+            quality: {
+                minScore: 30
+            },
+            spending: {
+                maxCashShare: 0.9
+            },
+            fleet: {
+                percentage: 0.25,
+                minDelay: 500,
+                maxDelay: 1000
+            },
+            maintenance: {
+                repairWearPercent: 80
+            }
+        }
+    },
+
+    ci: {
+        description: 'Scheduled GitHub Actions runs: more headroom for slow runners, smaller artifacts',
+        settings: {
+            storage: {
+                maxJournalRuns: 200
+            },
+            scraping: {
+                elementTimeoutMs: 20000,
+                fleetSafetyMarginMs: 45000
+            }
+        }
+    }
+};
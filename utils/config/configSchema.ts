@@ -0,0 +1,673 @@
+import * as path from 'path';
+
+/**
+ * Bot Settings Schema
+ * Typed structure, defaults and validation rules of everything BOT_CONFIG exposes.
+ * Every setting is described once in SETTING_FIELDS: its path in the config file,
+ * its environment variable and its allowed range.
+ */
+
+export interface GameSettings {
+    baseUrl: string;
+}
+
+export interface StorageSettings {
+    dataDir: string;
+    maxJournalRuns: number;
+    priceFullResolutionDays: number;        // 30-minute slots kept in price-history.json
+    priceHourlyDays: number;                // Hourly rollups kept, older hours become daily rollups
+}
+
+export interface ModeSettings {
+    dryRun: boolean;
+}
+
+export interface FuelSettings {
+    maxFuelPrice: number;
+    maxCo2Price: number;
+    fuelEmergencyHolding: number;           // Emergency purchase below this fuel holding (L)
+    fuelEmergencyAmount: number;            // Amount bought in a fuel emergency (L)
+    co2EmergencyHolding: number;            // Emergency purchase below this CO2 holding (kg)
+    co2EmergencyAmount: number;             // Amount bought in a CO2 emergency (kg)
+    emergencyMaxPriceFactor: number;        // Emergency purchases only below max price × factor
+    buyBelowAverage: number;                // Recommend "buy" at or below 24h average × factor
+    emergencyAboveAverage: number;          // Recommend "emergency" at or above 24h average × factor
+    trendChangePercent: number;             // Forecast change (%) over the forecast horizon that counts as a trend
+    minSlotsForRecommendation: number;      // 24h price slots needed before recommending anything
+}
+
+export interface SpendingSettings {
+    maxCashShare: number;                   // A single purchase spends at most this share of the cash (0.5 = 50%)
+    minCashReserve: number;                 // Cash that purchases never touch ($)
+    fuelDailyLimit: number;                 // Fuel spend per UTC day ($, 0 = unlimited)
+    co2DailyLimit: number;                  // CO2 spend per UTC day ($, 0 = unlimited)
+}
+
+export interface ConsumptionSettings {
+    enabled: boolean;                       // Derive emergency thresholds/amounts from the burn rate
+    windowHours: number;                    // Burn rate is estimated over this many past hours
+    minSampleHours: number;                 // Observed hours needed before the estimate is used
+    emergencyCoverHours: number;            // Emergency purchase below this many hours of cover
+    targetCoverHours: number;               // Emergency purchases top the holding up to this many hours of cover
+}
+
+export interface StrategySettings {
+    fuel: string;                           // Buying strategy for fuel (see BUYING_STRATEGIES)
+    co2: string;                            // Buying strategy for CO2
+    percentile: {
+        rank: number;                       // Buy at or below this percentile (1-99)
+        windowHours: number;                // Of the prices in this many past hours
+    };
+    maCrossover: {
+        shortSlots: number;                 // Short moving average (30-minute slots)
+        longSlots: number;                  // Long moving average (30-minute slots)
+    };
+    timeOfDay: {
+        cheapHours: number;                 // Buy in this many cheapest hours of the day (UTC)
+    };
+}
+
+export interface SeasonalitySettings {
+    enabled: boolean;                       // Wait for a cheaper predicted slot if the holding covers it
+    windowDays: number;                     // Learn the slot profiles from this many past days
+    minSamplesPerSlot: number;              // Samples a slot needs before it is predicted
+    lookaheadHours: number;                 // Wait at most this long for a cheaper slot
+    minSavingPercent: number;               // Only wait for at least this saving (%)
+    minConfidence: number;                  // Only wait for predictions with this confidence (%)
+}
+
+export interface ForecastSettings {
+    windowHours: number;                    // Fit the forecast to the prices of this many past hours
+    horizonSlots: number;                   // Forecast this many upcoming 30-minute slots
+    intervalPercent: number;                // Coverage of the prediction intervals (%)
+    evaluationSlots: number;                // Confidence from the forecast errors of this many recent slots
+    maxErrorPercent: number;                // Mean forecast error (%) at which the confidence drops to 0
+}
+
+export interface LadderSettings {
+    enabled: boolean;                       // Buy a share of the free capacity by price percentile instead of filling it
+    windowHours: number;                    // Percentiles of the prices in this many past hours
+    tiers: string[];                        // "<percentile>:<fraction>", e.g. "25:0.5" = at or below P25 buy 50% of the free capacity
+}
+
+/**
+ * Parsed purchase ladder tier
+ */
+export interface LadderTier {
+    percentile: number;                     // 1-100
+    fraction: number;                       // Share of the free capacity (0-1)
+}
+
+export interface AlertSettings {
+    rules: string[];                        // Price alert rules, e.g. "fuel below 400", "co2 low 7d", "any bottom 5%"
+}
+
+/**
+ * Parsed price alert rule
+ * - below:  price under an absolute value
+ * - low:    lower than every price of the previous `days`
+ * - bottom: at or below the `percent`-th percentile of the last `days` (null = whole price history)
+ */
+export type AlertRule =
+    | { text: string; commodity: 'fuel' | 'co2' | 'any'; kind: 'below'; price: number }
+    | { text: string; commodity: 'fuel' | 'co2' | 'any'; kind: 'low'; days: number }
+    | { text: string; commodity: 'fuel' | 'co2' | 'any'; kind: 'bottom'; percent: number; days: number | null };
+
+export interface PriceImportSettings {
+    timestampColumn: string;                // CSV column / NDJSON field with the time
+    fuelColumn: string;                     // CSV column / NDJSON field with the fuel price
+    co2Column: string;                      // CSV column / NDJSON field with the CO2 price
+    timestampPattern: string;               // Text imports: regex, first group = time
+    fuelPattern: string;                    // Text imports: regex, first group = fuel price
+    co2Pattern: string;                     // Text imports: regex, first group = CO2 price
+    overwrite: boolean;                     // Replace stored prices that differ from the import
+}
+
+export interface QualitySettings {
+    outlierFactor: number;                  // Reject chart prices this many deviations (MAD) from the median
+    conflictTolerancePercent: number;       // Scraped and stored price of a slot may differ this much (%)
+    minScore: number;                       // Data-quality score (0-100) needed for intelligent buying, fixed threshold below
+    rescrapeBelowScore: number;             // Scrape a chart again while the score is below this and slots are missing
+    maxExtraScrapes: number;                // Extra scrapes per chart and run
+    rescrapeDelayMs: number;                // Wait before an extra scrape
+}
+
+export interface FleetSettings {
+    percentage: number;
+    minDelay: number;
+    maxDelay: number;
+    mockMode: boolean;
+    maxDeparturesOverride?: number;
+}
+
+export interface PipelineSettings {
+    skipTasks: string[];
+}
+
+export interface CampaignSettings {
+    ecoFriendly: boolean;                   // Start the eco-friendly campaign when none is active
+    airlineReputation: boolean;             // Start an airline reputation campaign when none is active
+    reputationCampaign: number;             // Campaign row to buy (1-4, higher = more reputation)
+    reputationHours: number;                // Campaign duration in hours
+}
+
+export interface MaintenanceSettings {
+    bulkCheck: boolean;                     // Plan bulk checks for planes with due checks
+    bulkRepair: boolean;                    // Plan bulk repairs
+    repairWearPercent: number;              // Repair planes worn to this percentage or above
+}
+
+export interface ScrapingSettings {
+    elementTimeoutMs: number;               // Wait for charts, popups and lists to appear
+    fleetSafetyMarginMs: number;            // Smart Fleet stops when less time than this is left
+    planeRescrapeHours: number;             // Re-scrape a plane's flight history after this many hours
+    maxFlightHistory: number;               // Flights kept per plane in planes.json
+    fullScanMaxDetails: number;             // Full scan: planes with details (0 = all, -1 = none)
+}
+
+export interface SessionSettings {
+    cookieExpiryMarginMinutes: number;      // Stored cookies expiring within this margin count as expired
+    maxRelogins: number;                    // Re-logins per run after the session died mid-run
+    actionTimeoutMs: number;                // Default timeout of clicks and waits without an explicit timeout
+}
+
+export interface NotificationSettings {
+    events: string[];                       // Events that are sent (see NOTIFICATION_EVENTS)
+    requestTimeoutMs: number;               // Timeout of a single HTTP request to a transport
+    telegram: {
+        botToken?: string;
+        chatId?: string;
+        apiBaseUrl: string;                 // Point at a local stand-in for tests
+    };
+    webhook: {
+        url?: string;                       // Receives every notification as JSON POST
+    };
+    templates: {                            // Override the default message templates
+        summary?: string;
+        emergencyPurchase?: string;
+        loginFailure?: string;
+        timeout?: string;
+        priceAlert?: string;
+    };
+}
+
+/**
+ * Notification events that can be enabled via notifications.events
+ */
+export const NOTIFICATION_EVENTS = ['summary', 'emergency-purchase', 'login-failure', 'timeout', 'price-alert'];
+
+/**
+ * Buying strategies that can be selected via strategies.fuel / strategies.co2
+ */
+export const BUYING_STRATEGIES = ['heuristic', 'threshold', 'percentile', 'ma-crossover', 'time-of-day'];
+
+export interface BotSettings {
+    game: GameSettings;
+    storage: StorageSettings;
+    mode: ModeSettings;
+    fuel: FuelSettings;
+    spending: SpendingSettings;
+    consumption: ConsumptionSettings;
+    strategies: StrategySettings;
+    seasonality: SeasonalitySettings;
+    forecast: ForecastSettings;
+    ladder: LadderSettings;
+    alerts: AlertSettings;
+    quality: QualitySettings;
+    priceImport: PriceImportSettings;
+    fleet: FleetSettings;
+    pipeline: PipelineSettings;
+    campaigns: CampaignSettings;
+    maintenance: MaintenanceSettings;
+    scraping: ScrapingSettings;
+    session: SessionSettings;
+    notifications: NotificationSettings;
+}
+
+/**
+ * Partial settings as found in profiles and config files
+ */
+export type PartialSettings = {
+    [K in keyof BotSettings]?: Partial<BotSettings[K]>;
+};
+
+/**
+ * Validation rule of a single setting
+ */
+export interface SettingField {
+    path: string;                           // e.g. "fleet.percentage"
+    type: 'number' | 'integer' | 'boolean' | 'string' | 'list';
+    env?: string;                           // Environment variable overriding the setting
+    min?: number;
+    max?: number;
+    oneOf?: number[];
+    allowed?: string[];                     // Allowed values of a string / items of a list
+    optional?: boolean;                     // May be unset (null in config files, empty env variable)
+    hint?: string;                          // Appended to range errors
+}
+
+export const SETTING_FIELDS: SettingField[] = [
+    { path: 'game.baseUrl', type: 'string', env: 'AM4_BASE_URL' },
+
+    { path: 'storage.dataDir', type: 'string', env: 'AM4_DATA_DIR' },
+    { path: 'storage.maxJournalRuns', type: 'integer', env: 'MAX_JOURNAL_RUNS', min: 1 },
+    { path: 'storage.priceFullResolutionDays', type: 'integer', env: 'PRICE_FULL_RESOLUTION_DAYS', min: 7, max: 365, hint: 'at least the 7-day statistics window' },
+    { path: 'storage.priceHourlyDays', type: 'integer', env: 'PRICE_HOURLY_DAYS', min: 7, max: 3650 },
+
+    { path: 'mode.dryRun', type: 'boolean', env: 'DRY_RUN' },
+
+    { path: 'fuel.maxFuelPrice', type: 'integer', env: 'MAX_FUEL_PRICE', min: 1, max: 5000 },
+    { path: 'fuel.maxCo2Price', type: 'integer', env: 'MAX_CO2_PRICE', min: 1, max: 1000 },
+    { path: 'fuel.fuelEmergencyHolding', type: 'integer', env: 'FUEL_EMERGENCY_HOLDING', min: 0 },
+    { path: 'fuel.fuelEmergencyAmount', type: 'integer', env: 'FUEL_EMERGENCY_AMOUNT', min: 1 },
+    { path: 'fuel.co2EmergencyHolding', type: 'integer', env: 'CO2_EMERGENCY_HOLDING', min: 0 },
+    { path: 'fuel.co2EmergencyAmount', type: 'integer', env: 'CO2_EMERGENCY_AMOUNT', min: 1 },
+    { path: 'fuel.emergencyMaxPriceFactor', type: 'number', env: 'EMERGENCY_MAX_PRICE_FACTOR', min: 1, max: 10 },
+    { path: 'fuel.buyBelowAverage', type: 'number', env: 'BUY_BELOW_AVERAGE', min: 0.1, max: 1, hint: '0.85 = 15% below average' },
+    { path: 'fuel.emergencyAboveAverage', type: 'number', env: 'EMERGENCY_ABOVE_AVERAGE', min: 1, max: 10, hint: '1.5 = 50% above average' },
+    { path: 'fuel.trendChangePercent', type: 'number', env: 'TREND_CHANGE_PERCENT', min: 0, max: 100 },
+    { path: 'fuel.minSlotsForRecommendation', type: 'integer', env: 'MIN_SLOTS_FOR_RECOMMENDATION', min: 1, max: 48, hint: 'a day has 48 slots' },
+
+    { path: 'spending.maxCashShare', type: 'number', env: 'MAX_CASH_SHARE', min: 0.01, max: 1, hint: '0.5 = at most 50% of the cash per purchase' },
+    { path: 'spending.minCashReserve', type: 'integer', env: 'MIN_CASH_RESERVE', min: 0 },
+    { path: 'spending.fuelDailyLimit', type: 'integer', env: 'FUEL_DAILY_SPEND_LIMIT', min: 0, hint: '0 = unlimited' },
+    { path: 'spending.co2DailyLimit', type: 'integer', env: 'CO2_DAILY_SPEND_LIMIT', min: 0, hint: '0 = unlimited' },
+
+    { path: 'consumption.enabled', type: 'boolean', env: 'CONSUMPTION_FORECAST' },
+    { path: 'consumption.windowHours', type: 'number', env: 'CONSUMPTION_WINDOW_HOURS', min: 1, max: 336, hint: 'holdings are kept for 336 hours' },
+    { path: 'consumption.minSampleHours', type: 'number', env: 'CONSUMPTION_MIN_SAMPLE_HOURS', min: 0, max: 336 },
+    { path: 'consumption.emergencyCoverHours', type: 'number', env: 'EMERGENCY_COVER_HOURS', min: 0, max: 168 },
+    { path: 'consumption.targetCoverHours', type: 'number', env: 'TARGET_COVER_HOURS', min: 1, max: 336 },
+
+    { path: 'strategies.fuel', type: 'string', env: 'FUEL_STRATEGY', allowed: BUYING_STRATEGIES },
+    { path: 'strategies.co2', type: 'string', env: 'CO2_STRATEGY', allowed: BUYING_STRATEGIES },
+    { path: 'strategies.percentile.rank', type: 'integer', env: 'PERCENTILE_RANK', min: 1, max: 99 },
+    { path: 'strategies.percentile.windowHours', type: 'integer', env: 'PERCENTILE_WINDOW_HOURS', min: 6, max: 336 },
+    { path: 'strategies.maCrossover.shortSlots', type: 'integer', env: 'MA_SHORT_SLOTS', min: 1, max: 48 },
+    { path: 'strategies.maCrossover.longSlots', type: 'integer', env: 'MA_LONG_SLOTS', min: 2, max: 336 },
+    { path: 'strategies.timeOfDay.cheapHours', type: 'integer', env: 'CHEAP_HOURS', min: 1, max: 23 },
+
+    { path: 'seasonality.enabled', type: 'boolean', env: 'SEASONALITY' },
+    { path: 'seasonality.windowDays', type: 'integer', env: 'SEASONALITY_WINDOW_DAYS', min: 1, max: 90 },
+    { path: 'seasonality.minSamplesPerSlot', type: 'integer', env: 'SEASONALITY_MIN_SAMPLES', min: 1, max: 50 },
+    { path: 'seasonality.lookaheadHours', type: 'number', env: 'SEASONALITY_LOOKAHEAD_HOURS', min: 0.5, max: 24 },
+    { path: 'seasonality.minSavingPercent', type: 'number', env: 'SEASONALITY_MIN_SAVING_PERCENT', min: 0, max: 50 },
+    { path: 'seasonality.minConfidence', type: 'integer', env: 'SEASONALITY_MIN_CONFIDENCE', min: 0, max: 100 },
+
+    { path: 'forecast.windowHours', type: 'integer', env: 'FORECAST_WINDOW_HOURS', min: 12, max: 672 },
+    { path: 'forecast.horizonSlots', type: 'integer', env: 'FORECAST_HORIZON_SLOTS', min: 1, max: 48, hint: 'a day has 48 slots' },
+    { path: 'forecast.intervalPercent', type: 'number', env: 'FORECAST_INTERVAL_PERCENT', min: 50, max: 99 },
+    { path: 'forecast.evaluationSlots', type: 'integer', env: 'FORECAST_EVALUATION_SLOTS', min: 6, max: 1344 },
+    { path: 'forecast.maxErrorPercent', type: 'number', env: 'FORECAST_MAX_ERROR_PERCENT', min: 1, max: 100 },
+
+    { path: 'ladder.enabled', type: 'boolean', env: 'LADDER' },
+    { path: 'ladder.windowHours', type: 'integer', env: 'LADDER_WINDOW_HOURS', min: 6, max: 336 },
+    { path: 'ladder.tiers', type: 'list', env: 'LADDER_TIERS' },
+
+    { path: 'alerts.rules', type: 'list', env: 'PRICE_ALERTS' },
+
+    { path: 'quality.outlierFactor', type: 'number', env: 'CHART_OUTLIER_FACTOR', min: 2, max: 50 },
+    { path: 'quality.conflictTolerancePercent', type: 'number', env: 'CHART_CONFLICT_TOLERANCE_PERCENT', min: 0, max: 100 },
+    { path: 'quality.minScore', type: 'integer', env: 'QUALITY_MIN_SCORE', min: 0, max: 100 },
+    { path: 'quality.rescrapeBelowScore', type: 'integer', env: 'QUALITY_RESCRAPE_BELOW_SCORE', min: 0, max: 100 },
+    { path: 'quality.maxExtraScrapes', type: 'integer', env: 'QUALITY_MAX_EXTRA_SCRAPES', min: 0, max: 10 },
+    { path: 'quality.rescrapeDelayMs', type: 'integer', env: 'QUALITY_RESCRAPE_DELAY_MS', min: 0, max: 60000 },
+
+    { path: 'priceImport.timestampColumn', type: 'string', env: 'IMPORT_TIMESTAMP_COLUMN' },
+    { path: 'priceImport.fuelColumn', type: 'string', env: 'IMPORT_FUEL_COLUMN' },
+    { path: 'priceImport.co2Column', type: 'string', env: 'IMPORT_CO2_COLUMN' },
+    { path: 'priceImport.timestampPattern', type: 'string', env: 'IMPORT_TIMESTAMP_PATTERN' },
+    { path: 'priceImport.fuelPattern', type: 'string', env: 'IMPORT_FUEL_PATTERN' },
+    { path: 'priceImport.co2Pattern', type: 'string', env: 'IMPORT_CO2_PATTERN' },
+    { path: 'priceImport.overwrite', type: 'boolean', env: 'IMPORT_OVERWRITE' },
+
+    { path: 'fleet.percentage', type: 'number', env: 'FLEET_PERCENTAGE', min: 0, max: 1, hint: '0.10 = 10% of the fleet' },
+    { path: 'fleet.minDelay', type: 'integer', env: 'FLEET_MIN_DELAY', min: 0, max: 60000 },
+    { path: 'fleet.maxDelay', type: 'integer', env: 'FLEET_MAX_DELAY', min: 0, max: 60000 },
+    { path: 'fleet.mockMode', type: 'boolean', env: 'FLEET_MOCK_MODE' },
+    { path: 'fleet.maxDeparturesOverride', type: 'integer', env: 'MAX_DEPARTURES_OVERRIDE', min: 0, optional: true },
+
+    { path: 'pipeline.skipTasks', type: 'list', env: 'SKIP_TASKS' },
+
+    { path: 'campaigns.ecoFriendly', type: 'boolean', env: 'CAMPAIGN_ECO_FRIENDLY' },
+    { path: 'campaigns.airlineReputation', type: 'boolean', env: 'CAMPAIGN_AIRLINE_REPUTATION' },
+    { path: 'campaigns.reputationCampaign', type: 'integer', env: 'REPUTATION_CAMPAIGN', min: 1, max: 4 },
+    { path: 'campaigns.reputationHours', type: 'integer', env: 'REPUTATION_HOURS', oneOf: [4, 8, 12, 16, 20, 24] },
+
+    { path: 'maintenance.bulkCheck', type: 'boolean', env: 'MAINTENANCE_BULK_CHECK' },
+    { path: 'maintenance.bulkRepair', type: 'boolean', env: 'MAINTENANCE_BULK_REPAIR' },
+    { path: 'maintenance.repairWearPercent', type: 'integer', env: 'REPAIR_WEAR_PERCENT', min: 1, max: 100 },
+
+    { path: 'scraping.elementTimeoutMs', type: 'integer', env: 'ELEMENT_TIMEOUT_MS', min: 1000, max: 120000 },
+    { path: 'scraping.fleetSafetyMarginMs', type: 'integer', env: 'FLEET_SAFETY_MARGIN_MS', min: 5000, max: 600000 },
+    { path: 'scraping.planeRescrapeHours', type: 'number', env: 'PLANE_RESCRAPE_HOURS', min: 0, max: 168 },
+    { path: 'scraping.maxFlightHistory', type: 'integer', env: 'MAX_FLIGHT_HISTORY', min: 1, max: 1000 },
+    { path: 'scraping.fullScanMaxDetails', type: 'integer', env: 'FULLSCAN_MAX_DETAILS', min: -1, hint: '0 = all, -1 = none' },
+
+    { path: 'session.cookieExpiryMarginMinutes', type: 'integer', env: 'SESSION_EXPIRY_MARGIN_MINUTES', min: 0, max: 1440 },
+    { path: 'session.maxRelogins', type: 'integer', env: 'SESSION_MAX_RELOGINS', min: 0, max: 10 },
+    { path: 'session.actionTimeoutMs', type: 'integer', env: 'SESSION_ACTION_TIMEOUT_MS', min: 1000, max: 120000 },
+
+    { path: 'notifications.events', type: 'list', env: 'NOTIFY_EVENTS', allowed: NOTIFICATION_EVENTS },
+    { path: 'notifications.requestTimeoutMs', type: 'integer', env: 'NOTIFY_TIMEOUT_MS', min: 1000, max: 60000 },
+    { path: 'notifications.telegram.botToken', type: 'string', env: 'TELEGRAM_BOT_TOKEN', optional: true },
+    { path: 'notifications.telegram.chatId', type: 'string', env: 'TELEGRAM_CHAT_ID', optional: true },
+    { path: 'notifications.telegram.apiBaseUrl', type: 'string', env: 'TELEGRAM_API_URL' },
+    { path: 'notifications.webhook.url', type: 'string', env: 'NOTIFY_WEBHOOK_URL', optional: true },
+    { path: 'notifications.templates.summary', type: 'string', optional: true },
+    { path: 'notifications.templates.emergencyPurchase', type: 'string', optional: true },
+    { path: 'notifications.templates.loginFailure', type: 'string', optional: true },
+    { path: 'notifications.templates.timeout', type: 'string', optional: true },
+    { path: 'notifications.templates.priceAlert', type: 'string', optional: true }
+];
+
+/**
+ * Removed setting - still set in a config file or the environment, it fails
+ * with its migration instead of "Unknown setting" (or being ignored)
+ */
+export interface RetiredSetting {
+    path: string;
+    env?: string;
+    migration: string;                      // What to set instead
+}
+
+export const RETIRED_SETTINGS: RetiredSetting[] = [
+    {
+        path: 'fuel.minConfidence',
+        env: 'MIN_CONFIDENCE',
+        migration: 'intelligent buying is gated on the data-quality score now - set quality.minScore (QUALITY_MIN_SCORE) instead'
+    }
+];
+
+/**
+ * Defaults (the values previously hard-coded in config.ts and the utils)
+ */
+export function createDefaultSettings(): BotSettings {
+    return {
+        game: {
+            baseUrl: 'https://www.airlinemanager.com/'
+        },
+        storage: {
+            dataDir: path.join(process.cwd(), 'data'),
+            maxJournalRuns: 500,
+            priceFullResolutionDays: 28,
+            priceHourlyDays: 180
+        },
+        mode: {
+            dryRun: false
+        },
+        fuel: {
+            maxFuelPrice: 550,
+            maxCo2Price: 120,
+            fuelEmergencyHolding: 2000000,
+            fuelEmergencyAmount: 2000000,
+            co2EmergencyHolding: 1000000,
+            co2EmergencyAmount: 1000000,
+            emergencyMaxPriceFactor: 2,
+            buyBelowAverage: 0.85,
+            emergencyAboveAverage: 1.5,
+            trendChangePercent: 5,
+            minSlotsForRecommendation: 10
+        },
+        spending: {
+            maxCashShare: 0.5,
+            minCashReserve: 0,
+            fuelDailyLimit: 0,
+            co2DailyLimit: 0
+        },
+        consumption: {
+            enabled: true,
+            windowHours: 72,
+            minSampleHours: 6,
+            emergencyCoverHours: 6,
+            targetCoverHours: 24
+        },
+        strategies: {
+            fuel: 'heuristic',
+            co2: 'heuristic',
+            percentile: {
+                rank: 25,
+                windowHours: 168
+            },
+            maCrossover: {
+                shortSlots: 4,
+                longSlots: 24
+            },
+            timeOfDay: {
+                cheapHours: 6
+            }
+        },
+        seasonality: {
+            enabled: true,
+            windowDays: 28,
+            minSamplesPerSlot: 3,
+            lookaheadHours: 3,
+            minSavingPercent: 3,
+            minConfidence: 50
+        },
+        forecast: {
+            windowHours: 168,
+            horizonSlots: 6,
+            intervalPercent: 80,
+            evaluationSlots: 48,
+            maxErrorPercent: 50
+        },
+        ladder: {
+            enabled: false,
+            windowHours: 168,
+            tiers: ['10:1', '25:0.5', '50:0.25', '100:0.1']
+        },
+        alerts: {
+            rules: []
+        },
+        quality: {
+            outlierFactor: 6,
+            conflictTolerancePercent: 1,
+            minScore: 50,
+            rescrapeBelowScore: 80,
+            maxExtraScrapes: 2,
+            rescrapeDelayMs: 3000
+        },
+        priceImport: {
+            timestampColumn: 'timestamp',
+            fuelColumn: 'fuel',
+            co2Column: 'co2',
+            timestampPattern: '(\\d{4}-\\d{2}-\\d{2}[ T]\\d{1,2}:\\d{2}(?::\\d{2})?(?:Z|[+-]\\d{2}:?\\d{2})?|\\d{1,2}\\.\\d{1,2}\\.\\d{2,4},? \\d{1,2}:\\d{2})',
+            fuelPattern: 'fuel\\D{0,20}?(\\d[\\d,]*)',
+            co2Pattern: 'co2\\D{0,20}?(\\d[\\d,]*)',
+            overwrite: false
+        },
+        fleet: {
+            percentage: 0.10,
+            minDelay: 1000,
+            maxDelay: 2000,
+            mockMode: false,
+            maxDeparturesOverride: undefined
+        },
+        pipeline: {
+            skipTasks: []
+        },
+        campaigns: {
+            ecoFriendly: true,
+            airlineReputation: true,
+            reputationCampaign: 4,
+            reputationHours: 24
+        },
+        maintenance: {
+            bulkCheck: true,
+            bulkRepair: true,
+            repairWearPercent: 60
+        },
+        scraping: {
+            elementTimeoutMs: 10000,
+            fleetSafetyMarginMs: 30000,
+            planeRescrapeHours: 8,
+            maxFlightHistory: 50,
+            fullScanMaxDetails: 5
+        },
+        session: {
+            cookieExpiryMarginMinutes: 10,
+            maxRelogins: 3,
+            actionTimeoutMs: 15000
+        },
+        notifications: {
+            events: [...NOTIFICATION_EVENTS],
+            requestTimeoutMs: 10000,
+            telegram: {
+                botToken: undefined,
+                chatId: undefined,
+                apiBaseUrl: 'https://api.telegram.org'
+            },
+            webhook: {
+                url: undefined
+            },
+            templates: {}
+        }
+    };
+}
+
+/**
+ * Purchase ladder tiers ("<percentile>:<fraction>") sorted by percentile
+ * @throws Error naming the first malformed tier
+ */
+export function parseLadderTiers(tiers: string[]): LadderTier[] {
+    return tiers.map(tier => {
+        const match = /^\s*(\d+(?:\.\d+)?)\s*:\s*(\d*\.?\d+)\s*$/.exec(tier);
+        const percentile = match ? Number(match[1]) : NaN;
+        const fraction = match ? Number(match[2]) : NaN;
+        if (!(percentile >= 1 && percentile <= 100) || !(fraction > 0 && fraction <= 1)) {
+            throw new Error(`"${tier}" is not a "<percentile 1-100>:<fraction 0-1>" tier`);
+        }
+        return { percentile, fraction };
+    }).sort((a, b) => a.percentile - b.percentile);
+}
+
+/**
+ * Price alert rule ("<fuel|co2|any> below <price>", "... low <days>d", "... bottom <percent>% [<days>d]")
+ * @throws Error if the rule does not match any of these forms
+ */
+export function parseAlertRule(text: string): AlertRule {
+    const match = /^\s*(fuel|co2|any)\s+(?:below\s+\$?(\d+(?:\.\d+)?)|low\s+(\d+)d|bottom\s+(\d+(?:\.\d+)?)%(?:\s+(\d+)d)?)\s*$/i.exec(text);
+    if (!match) {
+        throw new Error(`"${text}" is not a rule like "fuel below 400", "co2 low 7d" or "any bottom 5% 28d"`);
+    }
+    const commodity = match[1].toLowerCase() as AlertRule['commodity'];
+    if (match[2] !== undefined) {
+        return { text, commodity, kind: 'below', price: Number(match[2]) };
+    }
+    if (match[3] !== undefined) {
+        if (Number(match[3]) < 1) throw new Error(`"${text}": the low window must be at least 1 day`);
+        return { text, commodity, kind: 'low', days: Number(match[3]) };
+    }
+    const percent = Number(match[4]);
+    if (percent <= 0 || percent > 50) throw new Error(`"${text}": the bottom share must be between 0 and 50%`);
+    if (match[5] !== undefined && Number(match[5]) < 1) throw new Error(`"${text}": the bottom window must be at least 1 day`);
+    return { text, commodity, kind: 'bottom', percent, days: match[5] !== undefined ? Number(match[5]) : null };
+}
+
+/**
+ * Invalid configuration - lists every problem found, not just the first one
+ */
+export class ConfigValidationError extends Error {
+    readonly issues: string[];
+
+    constructor(issues: string[]) {
+        super(`Invalid bot configuration:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+        this.name = 'ConfigValidationError';
+        this.issues = issues;
+    }
+}
+
+/**
+ * Check a single value against its field rule
+ * @returns Problem description or null if the value is valid
+ */
+export function checkSettingValue(field: SettingField, value: unknown): string | null {
+    if (value === undefined || value === null) {
+        return field.optional ? null : 'is required';
+    }
+
+    switch (field.type) {
+        case 'boolean':
+            return typeof value === 'boolean' ? null : `must be true or false, got ${JSON.stringify(value)}`;
+        case 'string':
+            if (typeof value !== 'string') {
+                return `must be a string, got ${JSON.stringify(value)}`;
+            }
+            return !field.allowed || field.allowed.includes(value) ? null : `must be one of ${field.allowed.join(', ')}, got "${value}"`;
+        case 'list': {
+            if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+                return `must be a list of strings, got ${JSON.stringify(value)}`;
+            }
+            const unknown = field.allowed ? value.filter(item => !field.allowed!.includes(item)) : [];
+            return unknown.length === 0 ? null : `contains unknown ${unknown.map(item => `"${item}"`).join(', ')} (allowed: ${field.allowed!.join(', ')})`;
+        }
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `must be a number, got ${JSON.stringify(value)}`;
+    }
+    if (field.type === 'integer' && !Number.isInteger(value)) {
+        return `must be a whole number, got ${value}`;
+    }
+
+    const hint = field.hint ? ` (${field.hint})` : '';
+    if (field.oneOf && !field.oneOf.includes(value)) {
+        return `must be one of ${field.oneOf.join(', ')}, got ${value}${hint}`;
+    }
+    if (field.min !== undefined && field.max !== undefined && (value < field.min || value > field.max)) {
+        return `must be between ${field.min} and ${field.max}, got ${value}${hint}`;
+    }
+    if (field.min !== undefined && value < field.min) {
+        return `must be at least ${field.min}, got ${value}${hint}`;
+    }
+    if (field.max !== undefined && value > field.max) {
+        return `must be at most ${field.max}, got ${value}${hint}`;
+    }
+    return null;
+}
+
+/**
+ * Rules spanning several settings
+ * @returns Problem descriptions (empty if valid)
+ */
+export function checkSettingRelations(settings: BotSettings): string[] {
+    const issues: string[] = [];
+    if (settings.fleet.minDelay > settings.fleet.maxDelay) {
+        issues.push(`fleet.minDelay (${settings.fleet.minDelay}) must not be greater than fleet.maxDelay (${settings.fleet.maxDelay})`);
+    }
+    if (settings.fuel.buyBelowAverage >= settings.fuel.emergencyAboveAverage) {
+        issues.push(`fuel.buyBelowAverage (${settings.fuel.buyBelowAverage}) must be below fuel.emergencyAboveAverage (${settings.fuel.emergencyAboveAverage})`);
+    }
+    if (settings.consumption.emergencyCoverHours >= settings.consumption.targetCoverHours) {
+        issues.push(`consumption.emergencyCoverHours (${settings.consumption.emergencyCoverHours}) must be below consumption.targetCoverHours (${settings.consumption.targetCoverHours})`);
+    }
+    if (settings.storage.priceFullResolutionDays > settings.storage.priceHourlyDays) {
+        issues.push(`storage.priceFullResolutionDays (${settings.storage.priceFullResolutionDays}) must not be greater than storage.priceHourlyDays (${settings.storage.priceHourlyDays})`);
+    }
+    if (settings.strategies.maCrossover.shortSlots >= settings.strategies.maCrossover.longSlots) {
+        issues.push(`strategies.maCrossover.shortSlots (${settings.strategies.maCrossover.shortSlots}) must be below strategies.maCrossover.longSlots (${settings.strategies.maCrossover.longSlots})`);
+    }
+    if (settings.forecast.evaluationSlots > settings.forecast.windowHours * 2) {
+        issues.push(`forecast.evaluationSlots (${settings.forecast.evaluationSlots}) must fit into forecast.windowHours (${settings.forecast.windowHours}h = ${settings.forecast.windowHours * 2} slots)`);
+    }
+    try {
+        const tiers = parseLadderTiers(settings.ladder.tiers);
+        if (settings.ladder.enabled && tiers.length === 0) {
+            issues.push('ladder.tiers must not be empty when the ladder is enabled');
+        }
+        if (tiers.some((tier, i) => i > 0 && tier.fraction > tiers[i - 1].fraction)) {
+            issues.push(`ladder.tiers must not buy more at a higher percentile, got ${settings.ladder.tiers.join(', ')}`);
+        }
+    } catch (error) {
+        issues.push(`ladder.tiers: ${(error as Error).message}`);
+    }
+    for (const rule of settings.alerts.rules) {
+        try {
+            parseAlertRule(rule);
+        } catch (error) {
+            issues.push(`alerts.rules: ${(error as Error).message}`);
+        }
+    }
+    return issues;
+}
@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import { BOT_CONFIG } from '../../config';
+import { GeneralUtils } from '../00_general.utils';
+import type { LastScrapeCache, PlaneData } from '../04_fleet.utils';
+import type { Commodity } from '../07_journal.utils';
+import { PurchaseEntry, PurchaseLedger } from '../12_purchases.utils';
+import { HoldingLog } from './holdingLog';
+import { BurnRateEstimate, ConsumptionForecast, HoldingObservation } from './consumptionTypes';
+
+const HOUR_MS = 3600000;
+
+/**
+ * Burn rate from holding deltas between runs
+ * consumed = holding before + bought in between - holding after
+ * Intervals with a negative consumption (purchases the ledger does not know,
+ * e.g. bought by hand) are skipped.
+ * @param observations Observations of one commodity, oldest first
+ * @param purchases Ledger entries of the same commodity
+ */
+export function estimateFromHoldings(
+    observations: HoldingObservation[],
+    purchases: PurchaseEntry[],
+    now: Date,
+    windowHours: number
+): BurnRateEstimate | null {
+    const since = now.getTime() - windowHours * HOUR_MS;
+    let consumed = 0;
+    let hours = 0;
+    let samples = 0;
+
+    for (let i = 1; i < observations.length; i++) {
+        const start = new Date(observations[i - 1].timestamp).getTime();
+        const end = new Date(observations[i].timestamp).getTime();
+        if (start < since || end <= start) continue;
+
+        const bought = purchases
+            .filter(entry => {
+                const time = new Date(entry.timestamp).getTime();
+                return time >= start && time < end;
+            })
+            .reduce((sum, entry) => sum + entry.amount, 0);
+        const intervalConsumed = observations[i - 1].holding + bought - observations[i].holding;
+        if (intervalConsumed < 0) continue;
+
+        consumed += intervalConsumed;
+        hours += (end - start) / HOUR_MS;
+        samples++;
+    }
+
+    if (hours === 0) {
+        return null;
+    }
+    return { source: 'holdings', perHour: consumed / hours, sampleHours: hours, samples };
+}
+
+/**
+ * CO2 burn rate from the Smart Fleet flight history (quotas per flight)
+ * Every plane scraped within the window contributes its quotas per hour between
+ * the window start and its last scrape; the average is scaled to the fleet size.
+ * The flight history has no fuel figures, so there is no fuel estimate from flights.
+ * @param fleetSize Planes in the fleet (null = only the planes in planes.json)
+ */
+export function estimateFromFlights(
+    planes: PlaneData[],
+    fleetSize: number | null,
+    now: Date,
+    windowHours: number
+): BurnRateEstimate | null {
+    const since = now.getTime() - windowHours * HOUR_MS;
+    const rates: number[] = [];
+    let hours = 0;
+
+    for (const plane of planes) {
+        const scraped = new Date(plane.metadata.lastScraped).getTime();
+        const planeHours = (scraped - since) / HOUR_MS;
+        if (planeHours < 1) continue;
+
+        const quotas = plane.flightHistory
+            .filter(flight => {
+                const time = new Date(flight.timestamp).getTime();
+                return time >= since && time <= scraped;
+            })
+            .reduce((sum, flight) => sum + (flight.quotas ?? 0), 0);
+
+        rates.push(quotas / planeHours);
+        hours = Math.max(hours, planeHours);
+    }
+
+    if (rates.length === 0) {
+        return null;
+    }
+    const perPlane = rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+    return { source: 'flights', perHour: perPlane * (fleetSize ?? planes.length), sampleHours: hours, samples: rates.length };
+}
+
+/**
+ * Consumption Forecaster
+ * Estimates the hourly burn rate of fuel and CO2 and derives the emergency
+ * threshold and amount from a target coverage window (BOT_CONFIG.consumption):
+ * - emergency below `emergencyCoverHours` of cover
+ * - an emergency purchase tops the holding up to `targetCoverHours` of cover
+ * Holding deltas are preferred once they span `minSampleHours`, CO2 falls back to
+ * the flight history. Without an estimate the configured constants
+ * (fuel.fuelEmergencyHolding etc.) apply.
+ *
+ * Usage:
+ *   const forecaster = new ConsumptionForecaster();
+ *   forecaster.observe('fuel', curHolding);
+ *   const forecast = forecaster.forecast('fuel', curHolding);
+ */
+export class ConsumptionForecaster {
+    private purchaseLedger: PurchaseLedger;
+    private holdingLog: HoldingLog;
+
+    constructor(purchaseLedger: PurchaseLedger = new PurchaseLedger(), holdingLog: HoldingLog = new HoldingLog()) {
+        this.purchaseLedger = purchaseLedger;
+        this.holdingLog = holdingLog;
+    }
+
+    /**
+     * Record the holding seen in this run (call before buying)
+     */
+    public observe(commodity: Commodity, holding: number): void {
+        this.holdingLog.record(commodity, holding);
+    }
+
+    /**
+     * Best available burn rate (null = not enough data)
+     */
+    public burnRate(commodity: Commodity, now: Date = new Date()): BurnRateEstimate | null {
+        const { windowHours, minSampleHours } = BOT_CONFIG.consumption;
+
+        const fromHoldings = estimateFromHoldings(
+            this.holdingLog.query(commodity),
+            this.purchaseLedger.query({ commodity }),
+            now,
+            windowHours
+        );
+        if (fromHoldings && fromHoldings.sampleHours >= minSampleHours) {
+            return fromHoldings;
+        }
+
+        if (commodity === 'co2') {
+            const fromFlights = estimateFromFlights(this.loadPlanes(), this.loadFleetSize(), now, windowHours);
+            if (fromFlights && fromFlights.sampleHours >= minSampleHours) {
+                return fromFlights;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Hours of cover and the emergency threshold/amount for the current holding
+     */
+    public forecast(commodity: Commodity, holding: number, now: Date = new Date()): ConsumptionForecast {
+        const { enabled, emergencyCoverHours, targetCoverHours } = BOT_CONFIG.consumption;
+        const fuel = BOT_CONFIG.fuel;
+        const constants = commodity === 'fuel'
+            ? { emergencyHolding: fuel.fuelEmergencyHolding, emergencyAmount: fuel.fuelEmergencyAmount }
+            : { emergencyHolding: fuel.co2EmergencyHolding, emergencyAmount: fuel.co2EmergencyAmount };
+
+        const burnRate = enabled ? this.burnRate(commodity, now) : null;
+        if (!burnRate || burnRate.perHour <= 0) {
+            return { commodity, holding, burnRate, hoursOfCover: null, ...constants, derived: false };
+        }
+
+        return {
+            commodity,
+            holding,
+            burnRate,
+            hoursOfCover: holding / burnRate.perHour,
+            emergencyHolding: Math.round(burnRate.perHour * emergencyCoverHours),
+            emergencyAmount: Math.max(0, Math.round(burnRate.perHour * targetCoverHours - holding)),
+            derived: true
+        };
+    }
+
+    /**
+     * One-line summary for the log
+     */
+    public static describe(forecast: ConsumptionForecast): string {
+        if (!forecast.derived || !forecast.burnRate) {
+            return `📉 ${forecast.commodity.toUpperCase()} burn rate unknown - emergency below ${forecast.emergencyHolding.toLocaleString()} (configured)`;
+        }
+        const { burnRate } = forecast;
+        return `📉 ${forecast.commodity.toUpperCase()} burn rate ${Math.round(burnRate.perHour).toLocaleString()}/h ` +
+            `(${burnRate.source}, ${burnRate.sampleHours.toFixed(1)}h) → ${forecast.hoursOfCover!.toFixed(1)}h of cover, ` +
+            `emergency below ${forecast.emergencyHolding.toLocaleString()}`;
+    }
+
+    private loadPlanes(): PlaneData[] {
+        try {
+            const planesPath = GeneralUtils.dataPath('planes.json');
+            if (fs.existsSync(planesPath)) {
+                return JSON.parse(fs.readFileSync(planesPath, 'utf-8')) as PlaneData[];
+            }
+        } catch (error) {
+            console.error('❌ Error loading planes data:', error);
+        }
+        return [];
+    }
+
+    private loadFleetSize(): number | null {
+        try {
+            const cachePath = GeneralUtils.dataPath('last-scrape.json');
+            if (fs.existsSync(cachePath)) {
+                const cache = JSON.parse(fs.readFileSync(cachePath, 'utf-8')) as LastScrapeCache;
+                return cache.totalFleetSize > 0 ? cache.totalFleetSize : null;
+            }
+        } catch (error) {
+            console.error('❌ Error loading scrape cache:', error);
+        }
+        return null;
+    }
+}
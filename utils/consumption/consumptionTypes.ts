@@ -0,0 +1,50 @@
+// TypeScript interfaces for Consumption Forecasting (data/holdings.json)
+
+import type { Commodity } from '../07_journal.utils';
+
+/**
+ * Holding read from the fuel popup (before any purchase of that run)
+ */
+export interface HoldingObservation {
+    timestamp: string;                      // ISO-8601 (UTC)
+    commodity: Commodity;
+    holding: number;                        // Lbs (fuel) or quotas (CO2)
+}
+
+/**
+ * Structure of data/holdings.json
+ */
+export interface HoldingLogFile {
+    observations: HoldingObservation[];
+    lastUpdated: string;
+}
+
+/**
+ * Where a burn rate estimate comes from
+ * - holdings: holding deltas between runs, corrected for our own purchases
+ * - flights: CO2 quotas of the flights in the Smart Fleet flight history
+ */
+export type BurnRateSource = 'holdings' | 'flights';
+
+/**
+ * Estimated consumption per hour
+ */
+export interface BurnRateEstimate {
+    source: BurnRateSource;
+    perHour: number;
+    sampleHours: number;                    // Hours of observations the estimate is based on
+    samples: number;                        // Holding intervals or planes used
+}
+
+/**
+ * Coverage forecast of one commodity and the thresholds derived from it
+ */
+export interface ConsumptionForecast {
+    commodity: Commodity;
+    holding: number;
+    burnRate: BurnRateEstimate | null;      // null = not enough data, configured constants apply
+    hoursOfCover: number | null;            // holding / burn rate
+    emergencyHolding: number;               // Emergency purchase below this holding
+    emergencyAmount: number;                // Amount of an emergency purchase
+    derived: boolean;                       // true = thresholds come from the burn rate
+}
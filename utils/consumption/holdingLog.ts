@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GeneralUtils } from '../00_general.utils';
+import type { Commodity } from '../07_journal.utils';
+import { HoldingLogFile, HoldingObservation } from './consumptionTypes';
+
+/**
+ * Observations older than this are dropped (two weeks, the longest estimation window)
+ */
+export const HOLDING_RETENTION_HOURS = 336;
+
+/**
+ * Holding Log
+ * Keeps the fuel and CO2 holdings seen by every run in data/holdings.json.
+ * Together with the purchase ledger, the deltas between runs give the burn rate.
+ *
+ * Usage:
+ *   const log = new HoldingLog();
+ *   log.record('fuel', 5000000);
+ *   const observations = log.query('fuel');
+ */
+export class HoldingLog {
+    private filePath: string;
+
+    constructor(filePath: string = GeneralUtils.dataPath('holdings.json')) {
+        this.filePath = filePath;
+    }
+
+    /**
+     * Load the log (empty if the file does not exist or is unreadable)
+     */
+    public load(): HoldingLogFile {
+        return this.read() ?? { observations: [], lastUpdated: new Date().toISOString() };
+    }
+
+    /**
+     * @returns The log (empty without a file), null if the file is unreadable
+     */
+    private read(): HoldingLogFile | null {
+        if (!fs.existsSync(this.filePath)) {
+            return { observations: [], lastUpdated: new Date().toISOString() };
+        }
+        try {
+            const log = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as HoldingLogFile;
+            if (Array.isArray(log?.observations)) {
+                return log;
+            }
+            console.log('⚠️  Holding log has an unexpected format');
+        } catch (error) {
+            console.error('❌ Error loading holding log:', error);
+        }
+        return null;
+    }
+
+    /**
+     * Append an observation and drop the ones beyond the retention
+     * An unreadable log is moved aside (holdings.unreadable-<time>.json) before
+     * a new one is started - it is never overwritten.
+     * Errors are logged, never thrown - a missing observation only weakens the estimate.
+     */
+    public record(commodity: Commodity, holding: number, timestamp: string = new Date().toISOString()): void {
+        try {
+            let log = this.read();
+            if (log === null) {
+                const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+                const backup = path.join(path.dirname(this.filePath), `${path.basename(this.filePath, '.json')}.unreadable-${stamp}.json`);
+                fs.renameSync(this.filePath, backup);
+                console.log(`⚠️  Unreadable holding log moved to ${backup} - starting a new one`);
+                log = this.load();
+            }
+            const cutoff = new Date(timestamp).getTime() - HOLDING_RETENTION_HOURS * 3600000;
+
+            log.observations = log.observations.filter(observation => new Date(observation.timestamp).getTime() >= cutoff);
+            log.observations.push({ timestamp, commodity, holding });
+            log.lastUpdated = new Date().toISOString();
+
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            fs.writeFileSync(this.filePath, JSON.stringify(log, null, 2), 'utf-8');
+        } catch (error) {
+            console.error('❌ Error saving holding log:', error);
+        }
+    }
+
+    /**
+     * Observations of a commodity, oldest first
+     */
+    public query(commodity: Commodity): HoldingObservation[] {
+        return this.load().observations
+            .filter(observation => observation.commodity === commodity)
+            .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    }
+}
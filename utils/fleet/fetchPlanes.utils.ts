@@ -1,5 +1,8 @@
 import { Page, Locator, expect } from "@playwright/test";
 import { GeneralUtils } from '../00_general.utils';
+import { Selectors } from '../10_selectors.utils';
+import { Navigator } from '../11_navigation.utils';
+import { BOT_CONFIG } from '../../config';
 require('dotenv').config();
 
 // Define the Flight interface
@@ -136,21 +139,17 @@ export class FetchPlanesUtils {
 
     /**
      * Fetches plane information with optional detail extraction
-     * @param maxDetailsToFetch - Number of planes to fetch full details for (default: 5, 0 = all, -1 = none)
+     * @param maxDetailsToFetch - Number of planes to fetch full details for (default: scraping.fullScanMaxDetails = 5, 0 = all, -1 = none)
      */
-    public async getAllPlanes(maxDetailsToFetch: number = 5): Promise<PlaneInfo[]> {
+    public async getAllPlanes(maxDetailsToFetch: number = BOT_CONFIG.scraping.fullScanMaxDetails): Promise<PlaneInfo[]> {
         console.log('Fetching all planes...');
         const allPlanesData: PlaneInfo[] = [];
 
         try {
             console.log('Phase 1: Scraping list pages.');
-            await this.page.locator('#mapRoutes').getByRole('img').click();
-            await GeneralUtils.sleep(2000); // Increased sleep time
-
-            console.log('Waiting for routes list (div[id^="routeMainList"]) to load...');
-            // Explicitly wait for route list to be visible
+            console.log('Opening routes list...');
             try {
-                await this.page.waitForSelector('div[id^="routeMainList"]', { timeout: 10000 });
+                await Navigator.for(this.page).open('route-list');
                 console.log('Routes list loaded successfully');
             } catch (error) {
                 console.error('Error waiting for routes list:', error);
@@ -166,7 +165,7 @@ export class FetchPlanesUtils {
             while (hasNextPage) {
                 console.log(`Processing route list page ${currentPage}...`);
                 // ✅ FIX: Die Rows SIND die div[id^="routeMainList"] Elemente, nicht ihre Kinder!
-                const rowsLocator = this.page.locator('div[id^="routeMainList"]');
+                const rowsLocator = Selectors.locate(this.page, 'routes.rows');
                 const rowCount = await rowsLocator.count();
                 console.log(`Found ${rowCount} route rows on page ${currentPage}.`);
 
@@ -230,7 +229,7 @@ export class FetchPlanesUtils {
                             
                             // Extract additional information from detail page
                             // ✅ FIX: Der Ajax-Call lädt in 'detailsAction', nicht 'popContent'!
-                            const detailContainer = this.page.locator('#detailsAction');
+                            const detailContainer = Selectors.locate(this.page, 'fleetPanel.container');
                             
                             // Wait for container to be visible
                             await detailContainer.waitFor({ state: 'visible', timeout: 5000 }).catch(() => {
@@ -272,10 +271,10 @@ export class FetchPlanesUtils {
 
                                     // ✅ NEU: Extract flight history
                                     const flightHistory: FlightHistory[] = [];
-                                    const flightHistoryContainer = detailContainer.locator('#flight-history');
+                                    const flightHistoryContainer = Selectors.locate(this.page, 'fleetDetail.flightHistory');
 
                                     if (await flightHistoryContainer.count() > 0) {
-                                        const flightRows = flightHistoryContainer.locator('div.row.bg-light');
+                                        const flightRows = Selectors.locate(this.page, 'fleetDetail.flightRows');
                                         const rowCount = await flightRows.count();
                                         console.log(`Found ${rowCount} flights in history`);
 
@@ -349,7 +348,7 @@ export class FetchPlanesUtils {
                                 // ✅ RICHTIGE LÖSUNG: Klicke weißen Zurück-Pfeil (nicht Modal schließen!)
                                 // <span class="glyphicons glyphicons-chevron-left" onclick="$('#detailsAction').hide();">
                                 try {
-                                    const backButton = detailContainer.locator('span.glyphicons-chevron-left').first();
+                                    const backButton = Selectors.locate(this.page, 'routes.back');
                                     if (await backButton.count() > 0) {
                                         console.log('Clicking back arrow to return to list...');
                                         await backButton.click();
@@ -378,7 +377,7 @@ export class FetchPlanesUtils {
                     }
                 }
 
-                const nextPageButton = this.page.locator('.pagination-next');
+                const nextPageButton = Selectors.locate(this.page, 'routes.nextPage');
                 hasNextPage = await nextPageButton.isVisible();
                 if (hasNextPage) {
                     await nextPageButton.click();
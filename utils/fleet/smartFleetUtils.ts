@@ -1,6 +1,11 @@
 import { Page, Locator } from "@playwright/test";
 import { GeneralUtils } from '../00_general.utils';
 import { TimestampUtils } from './timestampUtils';
+import { RunJournal } from '../07_journal.utils';
+import { SessionManager } from '../09_session.utils';
+import { Selectors, SelectorName } from '../10_selectors.utils';
+import { Navigator } from '../11_navigation.utils';
+import { BOT_CONFIG } from '../../config';
 import {
     PlaneData,
     FlightHistoryEntry,
@@ -26,6 +31,7 @@ export class SmartFleetUtils {
     private departureConfig: DepartureConfig;
     private testStartTime: number;
     private testTimeout: number;
+    private safetyMarginMs: number;
 
     constructor(
         page: Page,
@@ -35,8 +41,9 @@ export class SmartFleetUtils {
         this.page = page;
         this.testStartTime = Date.now();
         this.testTimeout = testTimeout;
-        this.cacheFilePath = path.join(process.cwd(), 'data', 'last-scrape.json');
-        this.planesDataFilePath = path.join(process.cwd(), 'data', 'planes.json');
+        this.safetyMarginMs = BOT_CONFIG.scraping.fleetSafetyMarginMs;
+        this.cacheFilePath = GeneralUtils.dataPath('last-scrape.json');
+        this.planesDataFilePath = GeneralUtils.dataPath('planes.json');
 
         // Default configuration
         this.departureConfig = {
@@ -139,10 +146,10 @@ export class SmartFleetUtils {
 
     /**
      * Check if we have enough time to continue safely
-     * @param minRequired Minimum time required in milliseconds (default 30 seconds)
+     * @param minRequired Minimum time required in milliseconds (default: scraping.fleetSafetyMarginMs, 30 seconds)
      * @returns true if we have enough time to continue
      */
-    private canContinueSafely(minRequired: number = 30000): boolean {
+    private canContinueSafely(minRequired: number = this.safetyMarginMs): boolean {
         const remaining = this.getRemainingTime();
         return remaining > minRequired;
     }
@@ -154,28 +161,12 @@ export class SmartFleetUtils {
     public async navigateToFleetOverview(): Promise<void> {
         console.log('📍 Phase 1: Initial Setup - Ensuring Fleet Sidebar is ready');
 
-        // The fleet sidebar on the left is already visible by default!
-        // We just need to ensure we're on the "Landed" tab
+        // Log in again first if the session died before (or during) Smart Fleet
+        await SessionManager.for(this.page).recover('smartFleet');
 
-        // Click the "Landed" tab button at the bottom of the sidebar
-        const landedButton = this.page.locator('#flightStatusLanded');
-
-        // Check if it exists and is visible
-        if (await landedButton.count() > 0) {
-            await landedButton.click();
-            await GeneralUtils.sleep(1000);
-            console.log('✅ Landed tab activated');
-        } else {
-            console.log('⚠️ Fleet sidebar not found - trying to open it...');
-            // Fallback: Click Overview tab to ensure sidebar is visible
-            await this.page.locator('button:has-text("Overview")').first().click();
-            await GeneralUtils.sleep(1000);
-
-            // Try clicking Landed tab again
-            await this.page.locator('#flightStatusLanded').click();
-            await GeneralUtils.sleep(1000);
-            console.log('✅ Fleet sidebar opened and Landed tab activated');
-        }
+        // The fleet sidebar on the left is visible by default - make sure the "Landed" tab is active
+        await Navigator.for(this.page).open('fleet-sidebar');
+        console.log('✅ Landed tab activated');
     }
 
     /**
@@ -210,6 +201,7 @@ export class SmartFleetUtils {
                 fleetComposition.pending;
 
             console.log(`✅ Total fleet size: ${totalFleetSize}`);
+            RunJournal.record({ type: 'scrape', target: 'fleet', count: totalFleetSize });
             console.log(`   - Inflight: ${fleetComposition.inflight}`);
             console.log(`   - Landed: ${fleetComposition.landed}`);
             console.log(`   - Parked: ${fleetComposition.parked}`);
@@ -255,25 +247,25 @@ export class SmartFleetUtils {
             pending: 0
         };
 
-        // Tab button IDs
-        const tabs = [
-            { name: 'inflight', buttonId: '#flightStatusInflight', listId: '#inflightList' },
-            { name: 'landed', buttonId: '#flightStatusLanded', listId: '#landedList' },
-            { name: 'parked', buttonId: '#flightStatusParked', listId: '#parkedList' },
-            { name: 'pending', buttonId: '#flightStatusPending', listId: '#pendingList' }
+        // Tab buttons and their plane rows
+        const tabs: { name: keyof FleetComposition; button: SelectorName; rows: SelectorName }[] = [
+            { name: 'inflight', button: 'fleet.inflightTab', rows: 'fleet.inflightRows' },
+            { name: 'landed', button: 'fleet.landedTab', rows: 'fleet.landedRows' },
+            { name: 'parked', button: 'fleet.parkedTab', rows: 'fleet.parkedRows' },
+            { name: 'pending', button: 'fleet.pendingTab', rows: 'fleet.pendingRows' }
         ];
 
         for (const tab of tabs) {
             try {
                 // Click tab button
-                await this.page.locator(tab.buttonId).click();
+                await Selectors.locate(this.page, tab.button).click();
                 await GeneralUtils.sleep(1000);
 
                 // Count planes in that tab's list (.flight-list-sorting elements)
-                const planeRows = this.page.locator(`${tab.listId} .flight-list-sorting`);
+                const planeRows = Selectors.locate(this.page, tab.rows);
                 const count = await planeRows.count();
 
-                composition[tab.name as keyof FleetComposition] = count;
+                composition[tab.name] = count;
                 console.log(`   ${tab.name}: ${count} planes`);
             } catch (error) {
                 console.error(`Error counting ${tab.name} tab:`, error);
@@ -281,7 +273,7 @@ export class SmartFleetUtils {
         }
 
         // Return to Landed tab
-        await this.page.locator('#flightStatusLanded').click();
+        await Selectors.locate(this.page, 'fleet.landedTab').click();
         await GeneralUtils.sleep(500);
 
         return composition;
@@ -291,7 +283,7 @@ export class SmartFleetUtils {
      * Count currently landed planes (visible in Landed tab)
      */
     private async countLandedPlanes(): Promise<number> {
-        const landedRows = this.page.locator('#landedList .flight-list-sorting');
+        const landedRows = Selectors.locate(this.page, 'fleet.landedRows');
         return await landedRows.count();
     }
 
@@ -307,6 +299,14 @@ export class SmartFleetUtils {
         const planesData: PlaneData[] = [];
         let timedOut = false;
 
+        // Mock/dry-run: planes stay landed, so walk down the list instead of always taking the top row
+        const simulate = this.departureConfig.mockMode || BOT_CONFIG.mode.dryRun;
+        const simulateLabel = BOT_CONFIG.mode.dryRun ? 'DRY RUN' : 'MOCK MODE';
+        let simulatedRows = 0;
+        if (simulate) {
+            console.log(`🧪 ${simulateLabel}: planes are scraped but NOT departed`);
+        }
+
         // Use a while loop with counter to ensure we stop after maxDepartures successful departures
         let attempts = 0;
         const maxAttempts = maxDepartures * 3; // Safety: max 3 attempts per desired departure
@@ -314,25 +314,29 @@ export class SmartFleetUtils {
         while (planesData.length < maxDepartures && attempts < maxAttempts) {
             attempts++;
 
-            // ⏰ Check if we have at least 30s remaining before starting another plane
-            if (!this.canContinueSafely(30000)) {
-                console.log(`⏰ Less than 30s remaining (${Math.round(this.getRemainingTime() / 1000)}s left) - stopping departures to ensure safe data save`);
+            // ⏰ Check if we have at least the safety margin (default 30s) remaining before starting another plane
+            if (!this.canContinueSafely()) {
+                console.log(`⏰ Less than ${this.safetyMarginMs / 1000}s remaining (${Math.round(this.getRemainingTime() / 1000)}s left) - stopping departures to ensure safe data save`);
+                RunJournal.record({ type: 'skip', scope: 'departures', reason: `Time budget nearly exhausted after ${planesData.length} departures` });
                 timedOut = true;
                 break;
             }
 
             try {
-                // ALWAYS take the FIRST (top) plane from the list (FIFO)
-                const landedRows = this.page.locator('#landedList .flight-list-sorting');
+                // Session died since the last plane (an empty list would otherwise end the departures)
+                await this.recoverSession('departures', 'landed');
+
+                // ALWAYS take the FIRST (top) plane from the list (FIFO) - departed planes leave the list
+                const landedRows = Selectors.locate(this.page, 'fleet.landedRows');
                 const currentCount = await landedRows.count();
 
-                if (currentCount === 0) {
+                const rowIndex = simulate ? simulatedRows++ : 0;
+                if (currentCount <= rowIndex) {
                     console.log('📭 No more landed planes available');
                     break;
                 }
 
-                // ALWAYS take index 0 (the top/first plane in the list)
-                const row = landedRows.nth(0);
+                const row = landedRows.nth(rowIndex);
 
                 // Extract fleet ID from row ID (format: flightStatus{FLEETID})
                 const rowId = await row.getAttribute('id');
@@ -355,12 +359,17 @@ export class SmartFleetUtils {
                 await GeneralUtils.sleep(1500);
 
                 // Click "Depart" button
-                const departButton = this.page.locator('button:has-text("Depart")').first();
+                const departButton = Selectors.locate(this.page, 'fleetPanel.depart');
                 if (await departButton.count() > 0) {
-                    await departButton.click();
-                    await GeneralUtils.sleep(2000);
+                    if (simulate) {
+                        console.log(`🧪 ${simulateLabel}: Would depart ${registration || fleetId} - not clicking Depart`);
+                    } else {
+                        await departButton.click();
+                        await GeneralUtils.sleep(2000);
 
-                    console.log(`✅ Departed ${registration || fleetId}`);
+                        console.log(`✅ Departed ${registration || fleetId}`);
+                    }
+                    RunJournal.record({ type: 'departure', fleetId, registration: registration || 'Unknown', dryRun: simulate });
 
                     // === OPTIMIZATION: Scrape IMMEDIATELY while sidebar is still open! ===
                     // The sidebar panel is still showing this plane - we can directly click "Details"
@@ -369,13 +378,9 @@ export class SmartFleetUtils {
                     const panelData = await this.scrapePanelData(fleetId, registration || 'Unknown');
 
                     // Click "Details" button to open full page
-                    const detailsButton = this.page.locator('button:has-text("Details")').first();
+                    const detailsButton = Selectors.locate(this.page, 'fleetPanel.details');
                     if (await detailsButton.count() > 0) {
-                        await detailsButton.click();
-
-                        // Wait for popup to load
-                        await this.page.locator('#popup .modal-content').waitFor({ state: 'visible', timeout: 10000 });
-                        await GeneralUtils.sleep(500);
+                        await Navigator.for(this.page).open('fleet-detail');
 
                         // Scrape detail page
                         const detailPageData = await this.scrapeDetailPage(fleetId, registration || 'Unknown', cache);
@@ -397,6 +402,7 @@ export class SmartFleetUtils {
 
                         planesData.push(mergedData);
                         console.log(`   📊 Scraped ${registration || fleetId} (${detailPageData.flightHistory.length} flights)`);
+                        RunJournal.record({ type: 'scrape', target: 'plane', fleetId, count: mergedData.flightHistory.length });
 
                         // Close detail page popup
                         await this.closeDetailPagePopup();
@@ -409,9 +415,9 @@ export class SmartFleetUtils {
                     await this.returnToListAfterDeparture();
                 }
 
-                // ⏰ Check time after completing this plane - stop if < 30s remaining
-                if (!this.canContinueSafely(30000)) {
-                    console.log(`⏰ Less than 30s remaining after scraping ${registration || fleetId} (${Math.round(this.getRemainingTime() / 1000)}s left) - stopping to ensure safe data save`);
+                // ⏰ Check time after completing this plane - stop if less than the safety margin remains
+                if (!this.canContinueSafely()) {
+                    console.log(`⏰ Less than ${this.safetyMarginMs / 1000}s remaining after scraping ${registration || fleetId} (${Math.round(this.getRemainingTime() / 1000)}s left) - stopping to ensure safe data save`);
                     timedOut = true;
                     break;
                 }
@@ -427,7 +433,12 @@ export class SmartFleetUtils {
                 await GeneralUtils.sleep(delay);
 
             } catch (error) {
+                // Session died: log in again and retry (the loop takes the top row again)
+                if (await this.recoverSession('departures', 'landed')) {
+                    continue;
+                }
                 console.error(`❌ Error departing/scraping plane (attempt ${attempts}):`, error);
+                RunJournal.recordError('departure', error);
             }
         }
 
@@ -460,7 +471,7 @@ export class SmartFleetUtils {
         console.log(`   Loaded ${existingPlanes.length} existing plane records`);
 
         // Get all plane rows in Inflight list
-        const allRows = this.page.locator('#inflightList .flight-list-sorting');
+        const allRows = Selectors.locate(this.page, 'fleet.inflightRows');
         const rowCount = await allRows.count();
 
         console.log(`   Found ${rowCount} planes currently inflight`);
@@ -569,30 +580,22 @@ export class SmartFleetUtils {
         }
 
         // Hide game ad that blocks clicks
-        try {
-            await this.page.evaluate(() => {
-                const ad = document.querySelector('#game-ad');
-                if (ad) {
-                    (ad as HTMLElement).style.display = 'none';
-                    (ad as HTMLElement).style.visibility = 'hidden';
-                    (ad as HTMLElement).style.pointerEvents = 'none';
-                }
-            });
-        } catch (err) {
-            // Ignore if ad doesn't exist
-        }
+        await Navigator.for(this.page).dismissOverlays();
 
         // Now scrape the filtered planes (with time-check during execution)
         for (const plane of planesToScrape) {
             try {
-                // ⏰ Time-check BEFORE each scrape - require 30s buffer for safe completion
-                if (!this.canContinueSafely(30000)) {
-                    console.log(`   ⏰ Less than 30s remaining (${Math.round(this.getRemainingTime() / 1000)}s left) - stopping additional scrapes to ensure safe data save`);
+                // ⏰ Time-check BEFORE each scrape - require the safety margin for safe completion
+                if (!this.canContinueSafely()) {
+                    console.log(`   ⏰ Less than ${this.safetyMarginMs / 1000}s remaining (${Math.round(this.getRemainingTime() / 1000)}s left) - stopping additional scrapes to ensure safe data save`);
                     console.log(`   Scraped ${planesData.length}/${planesToScrape.length} additional planes before timeout`);
                     timedOut = true;
                     break;
                 }
 
+                // Session died since the last plane
+                await this.recoverSession('plane-scrape', 'inflight');
+
                 const row = this.page.locator(`#inflightList #flightStatus${plane.fleetId}`);
 
                 if (await row.count() === 0) {
@@ -607,13 +610,9 @@ export class SmartFleetUtils {
                 const panelData = await this.scrapePanelData(plane.fleetId, plane.registration);
 
                 // Click "Details" button to open full page
-                const detailsButton = this.page.locator('button:has-text("Details")').first();
+                const detailsButton = Selectors.locate(this.page, 'fleetPanel.details');
                 if (await detailsButton.count() > 0) {
-                    await detailsButton.click();
-
-                    // Wait for popup to load (instead of blind sleep)
-                    await this.page.locator('#popup .modal-content').waitFor({ state: 'visible', timeout: 10000 });
-                    await GeneralUtils.sleep(500); // Small buffer for content
+                    await Navigator.for(this.page).open('fleet-detail');
 
                     // Scrape detail page
                     const detailPageData = await this.scrapeDetailPage(plane.fleetId, plane.registration, cache);
@@ -634,6 +633,7 @@ export class SmartFleetUtils {
                     };
 
                     planesData.push(mergedData);
+                    RunJournal.record({ type: 'scrape', target: 'plane', fleetId: plane.fleetId, count: mergedData.flightHistory.length });
 
                     // Close detail page popup
                     await this.closeDetailPagePopup();
@@ -648,7 +648,13 @@ export class SmartFleetUtils {
                 await GeneralUtils.sleep(delay);
 
             } catch (error) {
+                // Session died: log in again and retry this plane at the end
+                if (await this.recoverSession('plane-scrape', 'inflight')) {
+                    planesToScrape.push(plane);
+                    continue;
+                }
                 console.error(`❌ Error scraping plane ${plane.fleetId}:`, error);
+                RunJournal.recordError('plane-scrape', error);
             }
         }
 
@@ -657,6 +663,23 @@ export class SmartFleetUtils {
         return { planesData, timedOut };
     }
 
+    /**
+     * Log in again if the session died and reopen the given fleet tab
+     * @returns true after a re-login
+     */
+    private async recoverSession(step: string, tab: 'landed' | 'inflight'): Promise<boolean> {
+        if (!(await SessionManager.for(this.page).recover(step))) {
+            return false;
+        }
+
+        await this.navigateToFleetOverview();
+        if (tab === 'inflight') {
+            await Selectors.locate(this.page, 'fleet.inflightTab').click({ force: true });
+            await GeneralUtils.sleep(1500);
+        }
+        return true;
+    }
+
     /**
      * Decide if a plane should be scraped based on cache
      * Returns hours since last flight for prioritization
@@ -682,14 +705,15 @@ export class SmartFleetUtils {
         }
 
         // Plane has been scraped before
-        // Strategy: Only scrape planes that were scraped more than 8 hours ago
+        // Strategy: Only scrape planes that were scraped more than scraping.planeRescrapeHours (default 8) ago
+        const rescrapeHours = BOT_CONFIG.scraping.planeRescrapeHours;
         const now = new Date();
         const lastScraped = new Date(snapshot.lastScraped);
         const hoursSinceLastScrape = (now.getTime() - lastScraped.getTime()) / (1000 * 60 * 60);
 
-        // Only scrape if it's been 8+ hours since last scrape
+        // Only scrape if enough hours passed since last scrape
         return {
-            shouldScrape: hoursSinceLastScrape >= 8,
+            shouldScrape: hoursSinceLastScrape >= rescrapeHours,
             hoursSince: hoursSinceLastScrape
         };
     }
@@ -746,12 +770,12 @@ export class SmartFleetUtils {
         for (let attempt = 1; attempt <= 3; attempt++) {
             try {
                 // Click with force to bypass any overlays
-                await this.page.locator('#flightStatusInflight').click({ force: true });
+                await Selectors.locate(this.page, 'fleet.inflightTab').click({ force: true });
                 await GeneralUtils.sleep(1500);
 
                 // VERIFY: Check if we actually switched tabs by checking if inflightList is visible
-                const inflightListVisible = await this.page.locator('#inflightList').isVisible();
-                const landedListVisible = await this.page.locator('#landedList').isVisible();
+                const inflightListVisible = await Selectors.locate(this.page, 'fleet.inflightList').isVisible();
+                const landedListVisible = await Selectors.locate(this.page, 'fleet.landedList').isVisible();
 
                 if (inflightListVisible && !landedListVisible) {
                     console.log(`✅ Tab switch successful (attempt ${attempt})`);
@@ -778,13 +802,13 @@ export class SmartFleetUtils {
         // Phase 3B: Scrape remaining inflight planes that weren't just departed (only if tab switch worked!)
         let remainingPlanesData: PlaneData[] = [];
         if (tabSwitched) {
-            // Check if we have enough time left for Phase 3B (at least 30s)
+            // Check if we have enough time left for Phase 3B (at least the safety margin)
             const remainingTimeSeconds = Math.floor(this.getRemainingTime() / 1000);
 
             console.log(`\n⏱️  Time check before Phase 3B:`);
             console.log(`   Remaining time: ${remainingTimeSeconds}s`);
 
-            if (this.canContinueSafely(30000)) {
+            if (this.canContinueSafely()) {
                 const cache = this.loadCache();
                 const remainingResult = await this.scrapeRemainingInflightPlanes(departedFleetIds, cache);
 
@@ -802,7 +826,7 @@ export class SmartFleetUtils {
 
                 remainingPlanesData = remainingResult.planesData;
             } else {
-                console.log(`   ⚠️  Less than 30s remaining, skipping Phase 3B to ensure safe data saving`);
+                console.log(`   ⚠️  Less than ${this.safetyMarginMs / 1000}s remaining, skipping Phase 3B to ensure safe data saving`);
             }
         }
 
@@ -825,7 +849,7 @@ export class SmartFleetUtils {
      * Scrape data from left-side detail panel
      */
     private async scrapePanelData(fleetId: string, registration: string): Promise<Partial<PlaneData>> {
-        const detailsPanel = this.page.locator('#detailsAction');
+        const detailsPanel = Selectors.locate(this.page, 'fleetPanel.container');
 
         // Extract current route (if visible)
         let rawRouteText: string | null = null;
@@ -872,7 +896,7 @@ export class SmartFleetUtils {
         registration: string,
         cache: LastScrapeCache | null
     ): Promise<Partial<PlaneData>> {
-        const detailContainer = this.page.locator('#detailsAction');
+        const detailContainer = Selectors.locate(this.page, 'fleetPanel.container');
 
         // Extract aircraft type, delivered date, metrics
         const aircraftType = await this.getDetailValue(detailContainer, 'Aircraft');
@@ -926,8 +950,7 @@ export class SmartFleetUtils {
         fleetId: string,
         cache: LastScrapeCache | null
     ): Promise<FlightHistoryEntry[]> {
-        const detailContainer = this.page.locator('#detailsAction');
-        const flightHistoryContainer = detailContainer.locator('#flight-history');
+        const flightHistoryContainer = Selectors.locate(this.page, 'fleetDetail.flightHistory');
 
         if (await flightHistoryContainer.count() === 0) {
             return [];
@@ -940,7 +963,7 @@ export class SmartFleetUtils {
         }
 
         const flightHistory: FlightHistoryEntry[] = [];
-        const flightRows = flightHistoryContainer.locator('div.row.bg-light');
+        const flightRows = Selectors.locate(this.page, 'fleetDetail.flightRows');
         const rowCount = await flightRows.count();
 
         for (let j = 0; j < rowCount; j++) {
@@ -1025,7 +1048,7 @@ export class SmartFleetUtils {
     private async returnToListAfterDeparture(): Promise<void> {
         try {
             // The "List" button has classes: .nudgeBtn.btn-block.btn-secondary.btn-xs
-            const sidebarBackButton = this.page.locator('button.nudgeBtn.btn-secondary:has-text("List")').first();
+            const sidebarBackButton = Selectors.locate(this.page, 'fleetPanel.list');
 
             // Check if button exists AND is visible (with short timeout)
             const isVisible = await sidebarBackButton.isVisible({ timeout: 1000 }).catch(() => false);
@@ -1045,27 +1068,9 @@ export class SmartFleetUtils {
      * Just close the popup - we're done after scraping!
      */
     private async closeDetailPagePopup(): Promise<void> {
-        try {
-            // Just close the popup with X button
-            // The close button is in #popup > .modal-header > .glyphicons-remove
-            const closeButton = this.page.locator('#popup .modal-header .glyphicons-remove').first();
-
-            if (await closeButton.count() > 0) {
-                await closeButton.click();
-                await GeneralUtils.sleep(500);
-            } else {
-                // Fallback: Try other possible selectors
-                const altCloseButton = this.page.locator('#popup .glyphicons-remove').first();
-                if (await altCloseButton.count() > 0) {
-                    await altCloseButton.click();
-                    await GeneralUtils.sleep(500);
-                }
-            }
-
-            // No need to go back - we're done scraping!
-            // The test will handle saving data and closing browser
-        } catch (err) {
-            console.error('Error closing detail page popup:', err);
+        // Just close the popup - no need to go back, we're done scraping!
+        if (!(await Navigator.for(this.page).closePopup())) {
+            console.error('Error closing detail page popup: popup is still open');
         }
     }
 
@@ -1,7 +1,9 @@
 import { Page, Locator } from "@playwright/test";
 import { GeneralUtils } from '../00_general.utils';
+import { Selectors } from '../10_selectors.utils';
+import { Navigator } from '../11_navigation.utils';
+import { BOT_CONFIG } from '../../config';
 import * as fs from 'fs';
-import * as path from 'path';
 require('dotenv').config();
 
 // Import interfaces from fetchPlanes (we'll reuse them)
@@ -109,10 +111,7 @@ export class UpdatePlanesUtils {
      */
     private async navigateToFleetPage(): Promise<void> {
         console.log('Navigating to fleet page...');
-        await this.page.locator('#mapRoutes').getByRole('img').click();
-        await GeneralUtils.sleep(2000);
-
-        await this.page.waitForSelector('div[id^="routeMainList"]', { timeout: 10000 });
+        await Navigator.for(this.page).open('route-list');
         console.log('Fleet page loaded');
     }
 
@@ -148,7 +147,7 @@ export class UpdatePlanesUtils {
                 await GeneralUtils.sleep(2000);
 
                 // Wait for detail container
-                const detailContainer = this.page.locator('#detailsAction');
+                const detailContainer = Selectors.locate(this.page, 'fleetPanel.container');
                 await detailContainer.waitFor({ state: 'visible', timeout: 5000 });
 
                 // Extract basic info (NO COLONS!) and parse to proper types
@@ -182,7 +181,7 @@ export class UpdatePlanesUtils {
             }
 
             // Try next page
-            const nextPageButton = this.page.locator('.pagination-next');
+            const nextPageButton = Selectors.locate(this.page, 'routes.nextPage');
             hasNextPage = await nextPageButton.isVisible();
             if (hasNextPage) {
                 await nextPageButton.click();
@@ -199,14 +198,14 @@ export class UpdatePlanesUtils {
      */
     private async extractFlightHistory(): Promise<FlightHistory[]> {
         const flightHistory: FlightHistory[] = [];
-        const detailContainer = this.page.locator('#detailsAction');
-        const flightHistoryContainer = detailContainer.locator('#flight-history');
+        const detailContainer = Selectors.locate(this.page, 'fleetPanel.container');
+        const flightHistoryContainer = Selectors.locate(this.page, 'fleetDetail.flightHistory');
 
         if (await flightHistoryContainer.count() === 0) {
             return flightHistory;
         }
 
-        const flightRows = flightHistoryContainer.locator('div.row.bg-light');
+        const flightRows = Selectors.locate(this.page, 'fleetDetail.flightRows');
         const rowCount = await flightRows.count();
         console.log(`Extracting ${rowCount} flights from history...`);
 
@@ -277,45 +276,21 @@ export class UpdatePlanesUtils {
             // Step 1: Click the white X button to close the popup window
             console.log('Closing popup window via X button...');
 
-            // The close button is in #popup > .modal-header > .glyphicons-remove
-            const closeButton = this.page.locator('#popup .modal-header .glyphicons-remove').first();
-
-            if (await closeButton.count() > 0) {
-                await closeButton.click();
-                await GeneralUtils.sleep(500);
+            if (await Navigator.for(this.page).closePopup()) {
                 console.log('✅ Popup closed via X button');
             } else {
-                console.log('⚠️ Close button (X) not found with selector #popup .modal-header .glyphicons-remove');
-                // Fallback: Try other possible selectors
-                const altCloseButton = this.page.locator('#popup .glyphicons-remove').first();
-                if (await altCloseButton.count() > 0) {
-                    await altCloseButton.click();
-                    await GeneralUtils.sleep(500);
-                    console.log('✅ Popup closed via fallback selector');
-                } else {
-                    console.log('❌ Could not find close button!');
-                }
+                console.log('❌ Could not close popup!');
             }
 
             // Step 2: Click back in sidebar to return to categorized overview
             console.log('Clicking back in sidebar...');
-            // The "List" button has classes: .nudgeBtn.btn-block.btn-secondary.btn-xs
-            const sidebarBackButton = this.page.locator('button.nudgeBtn.btn-secondary:has-text("List")').first();
+            const sidebarBackButton = Selectors.locate(this.page, 'fleetPanel.list');
             if (await sidebarBackButton.count() > 0) {
                 await sidebarBackButton.click();
                 await GeneralUtils.sleep(500);
                 console.log('✅ Returned to categorized overview');
             } else {
-                console.log('⚠️ Sidebar "List" button not found - trying fallback...');
-                // Fallback: Try generic button selector
-                const fallbackButton = this.page.locator('button.btn-secondary:has-text("List"), button:has-text("List")').first();
-                if (await fallbackButton.count() > 0) {
-                    await fallbackButton.click();
-                    await GeneralUtils.sleep(500);
-                    console.log('✅ Returned to categorized overview (fallback)');
-                } else {
-                    console.log('❌ Could not find List button!');
-                }
+                console.log('❌ Could not find List button!');
             }
         } catch (err) {
             console.error('Error going back to list:', err);
@@ -344,8 +319,8 @@ export class UpdatePlanesUtils {
             const allFlights = [...newFlights, ...existingFlights];
             const uniqueFlights = this.deduplicateFlights(allFlights);
 
-            // Keep max 50 most recent flights
-            merged.flightHistory = uniqueFlights.slice(0, 50);
+            // Keep the most recent flights (scraping.maxFlightHistory, default 50)
+            merged.flightHistory = uniqueFlights.slice(0, BOT_CONFIG.scraping.maxFlightHistory);
         }
 
         return merged;
@@ -375,7 +350,7 @@ export class UpdatePlanesUtils {
      * Loads existing planes from planes.json
      */
     private loadPlanesFromFile(): PlaneInfo[] {
-        const planesPath = path.join(process.cwd(), 'data', 'planes.json');
+        const planesPath = GeneralUtils.dataPath('planes.json');
 
         if (!fs.existsSync(planesPath)) {
             console.log('No existing planes.json found, starting fresh');
@@ -419,7 +394,7 @@ export class UpdatePlanesUtils {
         }
 
         // Save to file
-        const planesPath = path.join(process.cwd(), 'data', 'planes.json');
+        const planesPath = GeneralUtils.dataPath('planes.json');
         fs.writeFileSync(planesPath, JSON.stringify(finalPlanes, null, 2));
         console.log(`\nSaved ${finalPlanes.length} planes to data/planes.json`);
     }
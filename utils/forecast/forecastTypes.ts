@@ -0,0 +1,42 @@
+// TypeScript interfaces for the Price Forecaster
+
+export type PriceTrend = 'rising' | 'falling' | 'stable';
+
+/**
+ * Forecast of an upcoming timeslot with its prediction interval
+ */
+export interface ForecastPoint {
+    timestamp: string;                      // ISO-8601 timeslot (UTC)
+    price: number;
+    low: number;                            // Lower bound of the prediction interval
+    high: number;                           // Upper bound of the prediction interval
+}
+
+/**
+ * Smoothing parameters, chosen by the lowest one-step error on the window
+ */
+export interface SmoothingParameters {
+    alpha: number;                          // Level
+    beta: number;                           // Trend
+    phi: number;                            // Trend damping per slot
+}
+
+/**
+ * Forecast of one commodity
+ * With fewer than the minimum prices there are no points, the trend is
+ * stable and the confidence 0.
+ */
+export interface PriceForecast {
+    level: number;                          // Smoothed price at the last known slot (deseasonalized)
+    slope: number;                          // Smoothed change per slot
+    parameters: SmoothingParameters | null; // null without enough prices
+    seasonal: boolean;                      // Daily slot factors applied
+    sigma: number;                          // Standard deviation of the one-step errors ($)
+    errorPercent: number;                   // Mean absolute one-step error of the evaluated slots (%)
+    evaluated: number;                      // Recent slots the error was measured on
+    confidence: number;                     // 0-100, from errorPercent and evaluated
+    trend: PriceTrend;
+    changePercent: number;                  // Forecast at the end of the horizon against the current level
+    intervalPercent: number;                // Coverage of the prediction intervals
+    points: ForecastPoint[];
+}
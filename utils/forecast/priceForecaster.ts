@@ -0,0 +1,211 @@
+import { BOT_CONFIG } from '../../config';
+import { ForecastSettings } from '../config/configSchema';
+import type { PricePoint } from '../14_strategies.utils';
+import { ForecastPoint, PriceForecast, PriceTrend, SmoothingParameters } from './forecastTypes';
+
+const HOUR_MS = 3600000;
+const SLOT_MS = 1800000;
+const SLOTS_PER_DAY = 48;
+const MIN_PRICES = 10;                      // Prices in the window needed for a forecast
+
+// Grid the smoothing parameters are chosen from
+const ALPHAS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+const BETAS = [0, 0.05, 0.1, 0.2, 0.3];
+const PHIS = [0.8, 0.9, 0.98];
+
+interface SmoothingRun {
+    level: number;
+    slope: number;
+    errors: (number | null)[];              // One-step error per slot (deseasonalized), null = no price or first price
+    squaredError: number;
+}
+
+/**
+ * z of a two-sided normal interval with `percent` coverage
+ * (Abramowitz & Stegun 26.2.23, error below 0.0005)
+ */
+function normalQuantile(percent: number): number {
+    const tail = (1 - percent / 100) / 2;
+    const t = Math.sqrt(-2 * Math.log(tail));
+    return t - (2.515517 + 0.802853 * t + 0.010328 * t * t) / (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t);
+}
+
+function daySlot(time: number): number {
+    return Math.floor(time / SLOT_MS) % SLOTS_PER_DAY;
+}
+
+/**
+ * Price factor of every slot of the day (slot mean / window mean)
+ * @returns null unless every slot has `minSamples` prices and the slot means
+ *          differ by more than twice their standard error (no pattern in noise)
+ */
+function dailyFactors(values: (number | null)[], start: number, minSamples: number): number[] | null {
+    const groups: number[][] = Array.from({ length: SLOTS_PER_DAY }, () => []);
+    values.forEach((value, i) => {
+        if (value !== null) groups[daySlot(start + i * SLOT_MS)].push(value);
+    });
+    if (groups.some(group => group.length < minSamples)) return null;
+
+    const means = groups.map(group => group.reduce((sum, value) => sum + value, 0) / group.length);
+    const mean = means.reduce((sum, value) => sum + value, 0) / SLOTS_PER_DAY;
+    const between = means.reduce((sum, value) => sum + (value - mean) ** 2, 0) / SLOTS_PER_DAY;
+    const standardError = groups.reduce((sum, group, slot) =>
+        sum + group.reduce((total, value) => total + (value - means[slot]) ** 2, 0) / group.length / group.length, 0) / SLOTS_PER_DAY;
+    if (between <= 4 * standardError) return null;
+
+    return means.map(value => value / mean);
+}
+
+/**
+ * Damped-trend exponential smoothing (Holt, error-correction form)
+ * A slot without a price advances the level by the damped slope without an update.
+ */
+function smooth(values: (number | null)[], { alpha, beta, phi }: SmoothingParameters): SmoothingRun {
+    let level = NaN;
+    let slope = 0;
+    let squaredError = 0;
+    const errors: (number | null)[] = values.map(() => null);
+
+    values.forEach((value, i) => {
+        if (isNaN(level)) {
+            if (value !== null) level = value;
+            return;
+        }
+        const forecast = level + phi * slope;
+        if (value === null) {
+            level = forecast;
+            slope = phi * slope;
+            return;
+        }
+        const error = value - forecast;
+        errors[i] = error;
+        squaredError += error * error;
+        level = forecast + alpha * error;
+        slope = phi * slope + alpha * beta * error;
+    });
+    return { level, slope, errors, squaredError };
+}
+
+/**
+ * Sum of the damping factors φ + φ² + ... + φ^steps
+ */
+function dampedSteps(phi: number, steps: number): number {
+    let sum = 0;
+    for (let j = 1, factor = phi; j <= steps; j++, factor *= phi) sum += factor;
+    return sum;
+}
+
+function emptyForecast(intervalPercent: number): PriceForecast {
+    return {
+        level: 0, slope: 0, parameters: null, seasonal: false, sigma: 0, errorPercent: 0, evaluated: 0,
+        confidence: 0, trend: 'stable', changePercent: 0, intervalPercent, points: []
+    };
+}
+
+/**
+ * Forecast the next `horizonSlots` slots after `now`
+ * Removes the daily slot pattern (once every slot of the day has
+ * seasonality.minSamplesPerSlot prices in the window and the pattern stands
+ * out from the noise), smooths the 30-minute slot series with a damped trend
+ * and picks the smoothing parameters with the lowest one-step error. Prediction intervals widen with the steps ahead; the
+ * confidence falls with the mean one-step error of the last `evaluationSlots`
+ * slots (0 at `maxErrorPercent`) and with slots missing from them. The trend
+ * compares the forecast at the end of the horizon with the current level
+ * (fuel.trendChangePercent).
+ * @param prices Prices of one commodity, oldest first (missing prices already removed)
+ */
+export function forecastPrices(
+    prices: PricePoint[],
+    now: Date = new Date(),
+    settings: ForecastSettings = BOT_CONFIG.forecast
+): PriceForecast {
+    const { windowHours, horizonSlots, intervalPercent, evaluationSlots, maxErrorPercent } = settings;
+    const since = now.getTime() - windowHours * HOUR_MS;
+    const window = prices.filter(point => {
+        const time = new Date(point.timestamp).getTime();
+        return time >= since && time <= now.getTime() && point.price > 0;
+    });
+    if (window.length < MIN_PRICES) return emptyForecast(intervalPercent);
+
+    // Slot series from the first to the last price of the window, null where a price is missing
+    const slotOf = (point: PricePoint) => Math.floor(new Date(point.timestamp).getTime() / SLOT_MS) * SLOT_MS;
+    const start = slotOf(window[0]);
+    const values: (number | null)[] = new Array((slotOf(window[window.length - 1]) - start) / SLOT_MS + 1).fill(null);
+    for (const point of window) values[(slotOf(point) - start) / SLOT_MS] = point.price;
+
+    const factors = dailyFactors(values, start, BOT_CONFIG.seasonality.minSamplesPerSlot);
+    const factorAt = (time: number) => factors ? factors[daySlot(time)] : 1;
+    const adjusted = values.map((value, i) => value === null ? null : value / factorAt(start + i * SLOT_MS));
+
+    let best: { parameters: SmoothingParameters; run: SmoothingRun } | null = null;
+    for (const alpha of ALPHAS) {
+        for (const beta of BETAS) {
+            for (const phi of PHIS) {
+                const run = smooth(adjusted, { alpha, beta, phi });
+                if (!best || run.squaredError < best.run.squaredError) best = { parameters: { alpha, beta, phi }, run };
+            }
+        }
+    }
+    const { parameters, run } = best!;
+
+    // One-step errors in $, the recent ones measure the confidence
+    const errors = run.errors.flatMap((error, i) => error === null ? [] : [{
+        index: i,
+        error: error * factorAt(start + i * SLOT_MS),
+        price: values[i]!
+    }]);
+    const recent = errors.filter(entry => entry.index >= values.length - evaluationSlots);
+    const errorPercent = recent.length > 0
+        ? recent.reduce((sum, entry) => sum + Math.abs(entry.error) / entry.price, 0) / recent.length * 100
+        : 0;
+    const sigma = errors.length > 0 ? Math.sqrt(errors.reduce((sum, entry) => sum + entry.error ** 2, 0) / errors.length) : 0;
+    const adjustedSigma = errors.length > 0 ? Math.sqrt(run.squaredError / errors.length) : 0;
+    const confidence = recent.length > 0
+        ? 100 * Math.max(0, 1 - errorPercent / maxErrorPercent) * Math.min(1, recent.length / evaluationSlots)
+        : 0;
+
+    const last = start + (values.length - 1) * SLOT_MS;
+    const firstSlot = Math.floor(now.getTime() / SLOT_MS) * SLOT_MS + SLOT_MS;
+    const z = normalQuantile(intervalPercent);
+    const points: ForecastPoint[] = Array.from({ length: horizonSlots }, (_, i) => {
+        const time = firstSlot + i * SLOT_MS;
+        const steps = Math.round((time - last) / SLOT_MS);
+        const factor = factorAt(time);
+
+        // Variance of the forecast `steps` ahead: σ² (1 + Σ (α + αβ(φ + ... + φ^j))²)
+        let variance = 1;
+        for (let j = 1; j < steps; j++) {
+            variance += (parameters.alpha + parameters.alpha * parameters.beta * dampedSteps(parameters.phi, j)) ** 2;
+        }
+        const price = (run.level + dampedSteps(parameters.phi, steps) * run.slope) * factor;
+        const margin = z * adjustedSigma * Math.sqrt(variance) * factor;
+        return {
+            timestamp: new Date(time).toISOString(),
+            price: Math.round(price),
+            low: Math.max(0, Math.round(price - margin)),
+            high: Math.round(price + margin)
+        };
+    });
+
+    const horizonSteps = Math.round((firstSlot + (horizonSlots - 1) * SLOT_MS - last) / SLOT_MS);
+    const changePercent = run.level > 0 ? dampedSteps(parameters.phi, horizonSteps) * run.slope / run.level * 100 : 0;
+    const { trendChangePercent } = BOT_CONFIG.fuel;
+    const trend: PriceTrend = changePercent > trendChangePercent ? 'rising'
+        : changePercent < -trendChangePercent ? 'falling'
+        : 'stable';
+
+    return {
+        level: Math.round(run.level),
+        slope: Math.round(run.slope * 100) / 100,
+        parameters,
+        seasonal: factors !== null,
+        sigma: Math.round(sigma),
+        errorPercent: Math.round(errorPercent * 10) / 10,
+        evaluated: recent.length,
+        confidence: Math.round(confidence),
+        trend,
+        changePercent: Math.round(changePercent * 10) / 10,
+        intervalPercent,
+        points
+    };
+}
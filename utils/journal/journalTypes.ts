@@ -0,0 +1,174 @@
+// TypeScript interfaces for the Run Journal (data/runs/<runId>.json)
+
+export type Commodity = 'fuel' | 'co2';
+
+/**
+ * Fields shared by every journal event
+ */
+export interface JournalEventBase {
+    timestamp: string;                      // ISO-8601, set by RunJournal.record()
+    task: string | null;                    // Pipeline task active when the event was recorded
+}
+
+/**
+ * Fuel or CO2 purchase
+ */
+export interface PurchaseEvent extends JournalEventBase {
+    type: 'purchase';
+    commodity: Commodity;
+    amount: number;                         // Lbs (fuel) or quotas (CO2), as shown in the game
+    price: number;                          // Price shown in the game at purchase time (per 1,000)
+    holdingBefore: number;
+    emergency: boolean;
+    reason: string;                         // shouldBuyNow() reason
+    requestedAmount?: number;               // Partial fill: amount wanted before the spend caps
+    capReason?: string;                     // Partial fill: spend cap that reduced the amount
+    dryRun?: boolean;                       // true = intended only, not clicked (BOT_CONFIG.mode.dryRun)
+}
+
+/**
+ * Marketing campaign started
+ */
+export interface CampaignEvent extends JournalEventBase {
+    type: 'campaign';
+    campaign: 'eco-friendly' | 'airline-reputation';
+    option: string | null;                  // e.g. "Campaign 4, 24 Hours"
+    dryRun?: boolean;
+}
+
+/**
+ * Bulk check or bulk repair planned
+ */
+export interface MaintenanceEvent extends JournalEventBase {
+    type: 'maintenance';
+    action: 'check' | 'repair';
+    planes: number | null;                  // Number of planes selected (null if unknown)
+    wearThreshold: number | null;           // Repair only: wear percentage
+    dryRun?: boolean;
+}
+
+/**
+ * Plane departed
+ */
+export interface DepartureEvent extends JournalEventBase {
+    type: 'departure';
+    fleetId: string;
+    registration: string;
+    dryRun?: boolean;                       // Also true in fleet mock mode
+}
+
+/**
+ * Data scraped from the game
+ */
+export interface ScrapeEvent extends JournalEventBase {
+    type: 'scrape';
+    target: 'fuel-chart' | 'co2-chart' | 'plane' | 'fleet';
+    count: number;                          // Price points, flights or planes scraped
+    fleetId?: string;                       // target 'plane' only
+    rejected?: number;                      // Charts only: points that failed validation
+    quality?: number;                       // Charts only: data-quality score (0-100)
+    attempt?: number;                       // Charts only: scrape of the run, > 1 = extra scrape for missing slots
+}
+
+/**
+ * Price alert rule matched a scraped price (alerts.rules)
+ */
+export interface PriceAlertEvent extends JournalEventBase {
+    type: 'price-alert';
+    commodity: Commodity;
+    rule: string;                           // Rule as configured
+    slot: string;                           // Timeslot of the price (ISO-8601)
+    price: number;
+    message: string;
+}
+
+/**
+ * Decision NOT to act, with the reason
+ */
+export interface SkipEvent extends JournalEventBase {
+    type: 'skip';
+    scope: string;                          // e.g. "fuel-purchase", "eco-friendly-campaign", "bulk-repair"
+    reason: string;
+}
+
+/**
+ * Error caught by a util or a failed task
+ */
+export interface ErrorEvent extends JournalEventBase {
+    type: 'error';
+    scope: string;
+    message: string;
+}
+
+/**
+ * Login session restored, established or lost
+ */
+export interface SessionEvent extends JournalEventBase {
+    type: 'session';
+    action: 'restored' | 'login' | 'expired' | 'relogin';
+    step?: string;                          // relogin: interrupted step that is retried
+    detail?: string;                        // e.g. "3 stored cookie(s) expired"
+}
+
+/**
+ * Pipeline task finished
+ */
+export interface TaskEvent extends JournalEventBase {
+    type: 'task';
+    name: string;
+    status: 'success' | 'failed' | 'timeout' | 'skipped';
+    attempts: number;
+    durationMs: number;
+    error?: string;
+    skipReason?: string;
+}
+
+export type JournalEvent =
+    | PurchaseEvent
+    | CampaignEvent
+    | MaintenanceEvent
+    | DepartureEvent
+    | ScrapeEvent
+    | PriceAlertEvent
+    | SkipEvent
+    | ErrorEvent
+    | SessionEvent
+    | TaskEvent;
+
+export type JournalEventType = JournalEvent['type'];
+
+/**
+ * Event as passed to RunJournal.record() (timestamp/task are filled in)
+ * Distributive so every event type keeps its own fields.
+ */
+type WithoutBase<E> = E extends JournalEvent
+    ? Omit<E, 'timestamp' | 'task'> & { task?: string | null }
+    : never;
+
+export type JournalEventInput = WithoutBase<JournalEvent>;
+
+/**
+ * Complete journal file of a single run
+ */
+export interface RunRecord {
+    runId: string;
+    name: string;                           // e.g. "airlineManager", "fetchPlanes"
+    startedAt: string;                      // ISO-8601
+    finishedAt: string | null;              // null while running (or if the process died)
+    status: 'running' | 'completed' | 'failed';
+    dryRun: boolean;                        // BOT_CONFIG.mode.dryRun at start of the run
+    events: JournalEvent[];
+}
+
+/**
+ * Short overview of a run (RunJournalReader.listRuns())
+ */
+export interface RunOverview {
+    runId: string;
+    name: string;
+    startedAt: string;
+    finishedAt: string | null;
+    status: RunRecord['status'];
+    dryRun: boolean;
+    eventCounts: { [type in JournalEventType]?: number };
+}
@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GeneralUtils } from '../00_general.utils';
+import { BOT_CONFIG } from '../../config';
+import { JournalEvent, JournalEventInput, RunRecord } from './journalTypes';
+
+/**
+ * Called for every recorded event (e.g. by the notifier to send alerts)
+ */
+export type JournalListener = (event: JournalEvent, run: RunRecord) => void;
+
+/**
+ * Run Journal
+ * Records every decision and side effect of a bot run as typed events in
+ * data/runs/<runId>.json. The file is rewritten after every event, so the
+ * journal survives a crashed or timed out run.
+ *
+ * There is at most one active run per process. Utils call RunJournal.record()
+ * without knowing whether a run was started - without an active run the event
+ * is dropped (e.g. in dev specs).
+ *
+ * Usage:
+ *   RunJournal.start('airlineManager');
+ *   RunJournal.record({ type: 'skip', scope: 'fuel-purchase', reason: 'Storage full' });
+ *   RunJournal.finish('completed');
+ */
+export class RunJournal {
+    private static current: RunJournal | null = null;
+    private static listeners: JournalListener[] = [];
+
+    readonly record: RunRecord;
+    private filePath: string;
+    private currentTask: string | null = null;
+
+    private constructor(name: string) {
+        const startedAt = new Date();
+        this.record = {
+            runId: RunJournal.createRunId(startedAt),
+            name,
+            startedAt: startedAt.toISOString(),
+            finishedAt: null,
+            status: 'running',
+            dryRun: BOT_CONFIG.mode.dryRun,
+            events: []
+        };
+        this.filePath = path.join(RunJournal.getRunsDir(), `${this.record.runId}.json`);
+    }
+
+    /**
+     * Directory containing all run journals
+     */
+    public static getRunsDir(): string {
+        return GeneralUtils.dataPath('runs');
+    }
+
+    /**
+     * Start a new run (finishes a still active run as 'failed')
+     * @param name Name of the run, e.g. "airlineManager"
+     */
+    public static start(name: string): RunJournal {
+        if (RunJournal.current) {
+            console.log(`⚠️  Run ${RunJournal.current.record.runId} was not finished - marking as failed`);
+            RunJournal.finish('failed');
+        }
+
+        const journal = new RunJournal(name);
+        RunJournal.current = journal;
+        journal.save();
+        RunJournal.prune();
+
+        console.log(`📓 Run journal started: ${journal.filePath}`);
+        return journal;
+    }
+
+    /**
+     * Active run journal (null if no run was started)
+     */
+    public static active(): RunJournal | null {
+        return RunJournal.current;
+    }
+
+    /**
+     * Set the pipeline task that subsequent events belong to
+     */
+    public static setTask(task: string | null): void {
+        if (RunJournal.current) {
+            RunJournal.current.currentTask = task;
+        }
+    }
+
+    /**
+     * Record an event in the active run (no-op without an active run)
+     */
+    public static record(event: JournalEventInput): void {
+        const journal = RunJournal.current;
+        if (!journal) return;
+
+        const entry = {
+            ...event,
+            timestamp: new Date().toISOString(),
+            task: event.task !== undefined ? event.task : journal.currentTask
+        } as JournalEvent;
+
+        journal.record.events.push(entry);
+        journal.save();
+
+        for (const listener of RunJournal.listeners) {
+            try {
+                listener(entry, journal.record);
+            } catch (error) {
+                console.error('❌ Error in run journal listener:', error);
+            }
+        }
+    }
+
+    /**
+     * Listen to every recorded event of every run
+     * @returns Function that removes the listener again
+     */
+    public static subscribe(listener: JournalListener): () => void {
+        RunJournal.listeners.push(listener);
+        return () => {
+            RunJournal.listeners = RunJournal.listeners.filter(existing => existing !== listener);
+        };
+    }
+
+    /**
+     * Record a caught error (convenience wrapper)
+     */
+    public static recordError(scope: string, error: unknown): void {
+        const message = error instanceof Error ? error.message : String(error);
+        RunJournal.record({ type: 'error', scope, message });
+    }
+
+    /**
+     * Finish the active run
+     * @returns The finished run record (null if no run was active)
+     */
+    public static finish(status: 'completed' | 'failed' = 'completed'): RunRecord | null {
+        const journal = RunJournal.current;
+        if (!journal) return null;
+
+        journal.record.status = status;
+        journal.record.finishedAt = new Date().toISOString();
+        journal.save();
+        RunJournal.current = null;
+
+        console.log(`📓 Run journal saved: ${journal.filePath} (${journal.record.events.length} events)`);
+        return journal.record;
+    }
+
+    /**
+     * Run ID from start time, sortable and filesystem safe (e.g. "2025-01-15T14-01-05-123Z")
+     */
+    private static createRunId(startedAt: Date): string {
+        return startedAt.toISOString().replace(/[:.]/g, '-');
+    }
+
+    /**
+     * Delete the oldest journals beyond the configured maximum
+     */
+    private static prune(): void {
+        const maxRuns = BOT_CONFIG.storage.maxJournalRuns;
+        try {
+            const files = fs.readdirSync(RunJournal.getRunsDir())
+                .filter(file => file.endsWith('.json'))
+                .sort();
+
+            for (const file of files.slice(0, Math.max(0, files.length - maxRuns))) {
+                fs.unlinkSync(path.join(RunJournal.getRunsDir(), file));
+            }
+        } catch (error) {
+            console.error('❌ Error pruning run journals:', error);
+        }
+    }
+
+    private save(): void {
+        try {
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            fs.writeFileSync(this.filePath, JSON.stringify(this.record, null, 2), 'utf-8');
+        } catch (error) {
+            console.error('❌ Error saving run journal:', error);
+        }
+    }
+}
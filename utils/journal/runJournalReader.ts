@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RunJournal } from './runJournal';
+import { JournalEvent, JournalEventType, RunOverview, RunRecord } from './journalTypes';
+
+/**
+ * Filter for RunJournalReader.queryEvents()
+ */
+export interface JournalQuery {
+    types?: JournalEventType[];             // Only these event types
+    task?: string;                          // Only events of this pipeline task
+    since?: Date | string;                  // Events at or after this time
+    until?: Date | string;                  // Events before this time
+    runName?: string;                       // Only runs with this name (e.g. "airlineManager")
+}
+
+/**
+ * Event together with the run it belongs to
+ */
+export type JournalEventWithRun = JournalEvent & { runId: string };
+
+/**
+ * Read API for past run journals in data/runs/
+ *
+ * Usage:
+ *   const reader = new RunJournalReader();
+ *   const runs = reader.listRuns();
+ *   const purchases = reader.queryEvents({ types: ['purchase'], since: '2025-01-01' });
+ */
+export class RunJournalReader {
+    private runsDir: string;
+
+    constructor(runsDir: string = RunJournal.getRunsDir()) {
+        this.runsDir = runsDir;
+    }
+
+    /**
+     * All runs, oldest first
+     */
+    public listRuns(): RunOverview[] {
+        return this.loadAllRuns().map(run => {
+            const eventCounts: RunOverview['eventCounts'] = {};
+            for (const event of run.events) {
+                eventCounts[event.type] = (eventCounts[event.type] || 0) + 1;
+            }
+
+            return {
+                runId: run.runId,
+                name: run.name,
+                startedAt: run.startedAt,
+                finishedAt: run.finishedAt,
+                status: run.status,
+                dryRun: run.dryRun === true,
+                eventCounts
+            };
+        });
+    }
+
+    /**
+     * Load a single run (null if it does not exist or is unreadable)
+     */
+    public getRun(runId: string): RunRecord | null {
+        return this.loadRunFile(path.join(this.runsDir, `${runId}.json`));
+    }
+
+    /**
+     * Most recent run, optionally of a given name
+     */
+    public getLatestRun(name?: string): RunRecord | null {
+        const runs = this.loadAllRuns().filter(run => !name || run.name === name);
+        return runs.length > 0 ? runs[runs.length - 1] : null;
+    }
+
+    /**
+     * Events across all runs matching the query, oldest first
+     */
+    public queryEvents(query: JournalQuery = {}): JournalEventWithRun[] {
+        const since = query.since !== undefined ? new Date(query.since).getTime() : -Infinity;
+        const until = query.until !== undefined ? new Date(query.until).getTime() : Infinity;
+        const events: JournalEventWithRun[] = [];
+
+        for (const run of this.loadAllRuns()) {
+            if (query.runName && run.name !== query.runName) continue;
+
+            for (const event of run.events) {
+                const time = new Date(event.timestamp).getTime();
+                if (time < since || time >= until) continue;
+                if (query.types && !query.types.includes(event.type)) continue;
+                if (query.task && event.task !== query.task) continue;
+
+                events.push({ ...event, runId: run.runId });
+            }
+        }
+
+        return events;
+    }
+
+    private loadAllRuns(): RunRecord[] {
+        if (!fs.existsSync(this.runsDir)) {
+            return [];
+        }
+
+        return fs.readdirSync(this.runsDir)
+            .filter(file => file.endsWith('.json'))
+            .sort()
+            .map(file => this.loadRunFile(path.join(this.runsDir, file)))
+            .filter((run): run is RunRecord => run !== null);
+    }
+
+    private loadRunFile(filePath: string): RunRecord | null {
+        try {
+            if (!fs.existsSync(filePath)) {
+                return null;
+            }
+            return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as RunRecord;
+        } catch (error) {
+            console.error(`❌ Error reading run journal ${filePath}:`, error);
+            return null;
+        }
+    }
+}
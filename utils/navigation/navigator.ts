@@ -0,0 +1,285 @@
+import { Page } from "@playwright/test";
+import { BOT_CONFIG } from '../../config';
+import { GeneralUtils } from '../00_general.utils';
+import { Selectors, SelectorName } from '../10_selectors.utils';
+
+/**
+ * Game sections the navigator can open
+ * - fleet-detail: details popup of the plane currently selected in the fleet sidebar
+ */
+export type GameSection =
+    | 'map'
+    | 'fuel'
+    | 'co2'
+    | 'marketing'
+    | 'maintenance'
+    | 'fleet-sidebar'
+    | 'route-list'
+    | 'fleet-detail';
+
+interface SectionDefinition {
+    parent: GameSection | null;             // Section the open steps start from
+    open: (page: Page) => Promise<void>;
+    loaded: SelectorName[];                 // All visible once the section has loaded
+    popup: boolean;                         // Shown in the game popup (other sections need it closed)
+}
+
+const SECTIONS: Record<GameSection, SectionDefinition> = {
+    'map': {
+        parent: null,
+        open: async () => {},               // Closing the popup is all it takes
+        loaded: ['map.loaded'],
+        popup: false
+    },
+    'fuel': {
+        parent: 'map',
+        open: async page => {
+            await Selectors.locate(page, 'map.fuel').click();
+        },
+        loaded: ['popup.content', 'fuel.price', 'fuel.chart'],
+        popup: true
+    },
+    'co2': {
+        parent: 'fuel',
+        open: async page => {
+            await Selectors.locate(page, 'fuel.co2Tab').click();
+        },
+        loaded: ['popup.content', 'fuel.price', 'co2.chart'],
+        popup: true
+    },
+    'marketing': {
+        parent: 'map',
+        open: async page => {
+            await Selectors.locate(page, 'map.finance').click();
+            await Selectors.locate(page, 'marketing.tab').click();
+        },
+        loaded: ['popup.content', 'marketing.newCampaign'],
+        popup: true
+    },
+    'maintenance': {
+        parent: 'map',
+        open: async page => {
+            await Selectors.locate(page, 'map.maintenance').click();
+        },
+        loaded: ['popup.content', 'maintenance.planTab'],
+        popup: true
+    },
+    'fleet-sidebar': {
+        parent: 'map',
+        open: async page => {
+            // The sidebar is visible by default - only open it if it was closed
+            if (!(await Selectors.locate(page, 'fleet.landedTab').isVisible())) {
+                await Selectors.locate(page, 'fleet.overview').click();
+            }
+            await Selectors.locate(page, 'fleet.landedTab').click();
+        },
+        loaded: ['fleet.landedTab', 'fleet.landedList'],
+        popup: false
+    },
+    'route-list': {
+        parent: 'map',
+        open: async page => {
+            await Selectors.locate(page, 'map.routes').click();
+        },
+        loaded: ['popup.content', 'routes.rows'],
+        popup: true
+    },
+    'fleet-detail': {
+        parent: null,
+        open: async page => {
+            const detailsButton = Selectors.locate(page, 'fleetPanel.details');
+            if (!(await detailsButton.isVisible())) {
+                throw new Error('No plane selected in the fleet sidebar');
+            }
+            await detailsButton.click();
+        },
+        loaded: ['popup.content', 'fleetPanel.container'],
+        popup: true
+    }
+};
+
+/**
+ * Thrown when a section did not load (after overlay recovery and one retry)
+ */
+export class NavigationError extends Error {
+    section: GameSection;
+
+    constructor(section: GameSection, detail: string) {
+        super(`Could not open ${section}: ${detail}`);
+        this.name = 'NavigationError';
+        this.section = section;
+    }
+}
+
+/**
+ * Navigator
+ * Opens named game sections and waits until they have actually loaded
+ * (registry selectors visible) instead of sleeping a fixed time.
+ * - Every section is opened from the map (popup closed first), so a previous
+ *   step can leave the page in any state
+ * - A failed open hides stray overlays (#game-ad), closes the popup and retries once
+ *
+ * One navigator per page, shared by every util via Navigator.for(page).
+ *
+ * Usage:
+ *   const navigator = Navigator.for(page);
+ *   await navigator.open('fuel');             // Fresh from the map, throws NavigationError if it does not load
+ *   await navigator.ensure('marketing');      // No-op if already there
+ *   await navigator.closePopup();
+ */
+export class Navigator {
+    private static navigators: WeakMap<Page, Navigator> = new WeakMap();
+
+    page: Page;
+
+    private constructor(page: Page) {
+        this.page = page;
+    }
+
+    /**
+     * Navigator of a page (created on first use)
+     */
+    public static for(page: Page): Navigator {
+        let navigator = Navigator.navigators.get(page);
+        if (!navigator) {
+            navigator = new Navigator(page);
+            Navigator.navigators.set(page, navigator);
+        }
+        return navigator;
+    }
+
+    /**
+     * Open a section and wait until it has loaded
+     * @throws NavigationError if it still does not load after recovering and retrying once
+     */
+    public async open(section: GameSection): Promise<void> {
+        for (let attempt = 1; attempt <= 2; attempt++) {
+            try {
+                await this.openOnce(section);
+                return;
+            } catch (error) {
+                const detail = (error as Error).message.split('\n')[0];
+                if (attempt === 2) {
+                    throw new NavigationError(section, detail);
+                }
+                console.log(`⚠️  Opening ${section} failed (${detail}) - clearing overlays and retrying...`);
+                await this.dismissOverlays();
+                await this.closePopup();
+            }
+        }
+    }
+
+    /**
+     * Open a section unless the page already shows it
+     */
+    public async ensure(section: GameSection): Promise<void> {
+        if (!(await this.isOn(section))) {
+            await this.open(section);
+        }
+    }
+
+    /**
+     * Whether the page currently shows a section
+     */
+    public async isOn(section: GameSection): Promise<boolean> {
+        const definition = SECTIONS[section];
+        if (!definition.popup && await this.isPopupOpen()) {
+            return false;
+        }
+        for (const name of definition.loaded) {
+            if (!(await Selectors.locate(this.page, name).first().isVisible().catch(() => false))) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Close the game popup (safe to call when none is open)
+     * Falls back to Escape if the close icon does not close it.
+     * @returns true if no popup is open afterwards
+     */
+    public async closePopup(): Promise<boolean> {
+        if (!(await this.isPopupOpen())) {
+            return true;
+        }
+
+        try {
+            const closeButton = Selectors.locate(this.page, 'popup.close');
+            if (await closeButton.isVisible()) {
+                await closeButton.click({ timeout: 5000 });
+                await this.waitForPopupClosed();
+            }
+            if (await this.isPopupOpen()) {
+                await this.page.keyboard.press('Escape');
+                await this.waitForPopupClosed();
+            }
+        } catch (error) {
+            console.log('⚠️  Could not close popup:', (error as Error).message.split('\n')[0]);
+        }
+        return !(await this.isPopupOpen());
+    }
+
+    /**
+     * Hide overlays that intercept clicks (video ad)
+     */
+    public async dismissOverlays(): Promise<void> {
+        const ad = Selectors.locate(this.page, 'map.gameAd');
+        try {
+            if (await ad.count() > 0) {
+                await ad.evaluate(element => {
+                    const style = (element as HTMLElement).style;
+                    style.display = 'none';
+                    style.visibility = 'hidden';
+                    style.pointerEvents = 'none';
+                });
+            }
+        } catch {
+            // Ad disappeared in the meantime
+        }
+    }
+
+    private async openOnce(section: GameSection): Promise<void> {
+        const definition = SECTIONS[section];
+        if (definition.parent) {
+            await this.ensureParent(definition.parent);
+        } else if (!definition.popup) {
+            await this.closePopup();
+        }
+
+        await definition.open(this.page);
+        await this.waitForLoaded(section);
+    }
+
+    /**
+     * Reach the parent of a section without the retry (the caller retries the whole path)
+     */
+    private async ensureParent(section: GameSection): Promise<void> {
+        if (section === 'map') {
+            // Every section opened from the map starts with a closed popup
+            if (!(await this.closePopup())) {
+                throw new Error('popup did not close');
+            }
+            return;
+        }
+        if (!(await this.isOn(section))) {
+            await this.openOnce(section);
+        }
+    }
+
+    private async waitForLoaded(section: GameSection): Promise<void> {
+        const timeout = BOT_CONFIG.scraping.elementTimeoutMs;
+        for (const name of SECTIONS[section].loaded) {
+            await Selectors.locate(this.page, name).first().waitFor({ state: 'visible', timeout });
+        }
+    }
+
+    private async isPopupOpen(): Promise<boolean> {
+        return await Selectors.locate(this.page, 'popup.content').isVisible().catch(() => false);
+    }
+
+    private async waitForPopupClosed(): Promise<void> {
+        await Selectors.locate(this.page, 'popup.content').waitFor({ state: 'hidden', timeout: 3000 }).catch(() => {});
+        await GeneralUtils.sleep(300);     // Popup fade-out animation
+    }
+}
@@ -0,0 +1,37 @@
+// TypeScript interfaces for Notifications
+
+/**
+ * Events a notification can be sent for
+ * - summary: once at the end of every run
+ * - emergency-purchase: fuel/CO2 bought because the holding was critically low
+ * - login-failure: the login task failed or timed out
+ * - timeout: any other pipeline task timed out
+ * - price-alert: a price alert rule (alerts.rules) matched a scraped price
+ */
+export type NotificationEvent = 'summary' | 'emergency-purchase' | 'login-failure' | 'timeout' | 'price-alert';
+
+/**
+ * Values available as {{placeholders}} in a message template
+ */
+export interface TemplateValues {
+    [key: string]: string | number | boolean;
+}
+
+/**
+ * Rendered notification handed to the transports
+ */
+export interface Notification {
+    event: NotificationEvent;
+    text: string;                           // Rendered message
+    runId: string | null;                   // Run journal the notification belongs to
+    values: TemplateValues;                 // Values the template was rendered with (for webhooks)
+}
+
+/**
+ * Delivers notifications to one destination (Telegram, webhook, ...)
+ * Implementations throw on delivery errors - the notifier logs them and carries on.
+ */
+export interface NotificationTransport {
+    readonly name: string;
+    send(notification: Notification): Promise<void>;
+}
@@ -0,0 +1,169 @@
+import { BOT_CONFIG } from '../../config';
+import type { PipelineSummary } from '../06_pipeline.utils';
+import { JournalEvent, RunJournal, RunRecord } from '../07_journal.utils';
+import { Notification, NotificationEvent, NotificationTransport, TemplateValues } from './notificationTypes';
+import { DEFAULT_TEMPLATES, TEMPLATE_CONFIG_KEYS, buildSummaryValues, formatDuration, renderTemplate } from './templates';
+import { TelegramTransport, WebhookTransport } from './transports';
+
+export interface NotifierOptions {
+    events?: string[];                      // Enabled events (default: all)
+    templates?: { [E in NotificationEvent]?: string };  // Replace default templates
+}
+
+/**
+ * Notifier
+ * Sends the run summary and alerts to all configured transports.
+ * Alerts are derived from run journal events (watchJournal()), so the utils
+ * don't need to know about notifications. Delivery errors are logged and
+ * never fail the run.
+ *
+ * Usage:
+ *   const notifier = Notifier.fromConfig();
+ *   const unwatch = notifier.watchJournal();
+ *   ...
+ *   await notifier.sendRunSummary(RunJournal.finish(), summary);
+ *   unwatch();
+ */
+export class Notifier {
+    private transports: NotificationTransport[];
+    private events: string[];
+    private templates: { [E in NotificationEvent]: string };
+    private pending: Promise<void>[] = [];
+
+    constructor(transports: NotificationTransport[], options: NotifierOptions = {}) {
+        this.transports = transports;
+        this.events = options.events || Object.keys(DEFAULT_TEMPLATES);
+        this.templates = { ...DEFAULT_TEMPLATES };
+        for (const [event, template] of Object.entries(options.templates || {})) {
+            if (template) {
+                this.templates[event as NotificationEvent] = template;
+            }
+        }
+    }
+
+    /**
+     * Notifier with the transports configured in BOT_CONFIG.notifications
+     * (no transports = every notification is a no-op)
+     */
+    public static fromConfig(): Notifier {
+        const config = BOT_CONFIG.notifications;
+        const transports: NotificationTransport[] = [];
+
+        if (config.telegram.botToken && config.telegram.chatId) {
+            transports.push(new TelegramTransport(config.telegram.botToken, config.telegram.chatId, config.telegram.apiBaseUrl, config.requestTimeoutMs));
+        } else if (config.telegram.botToken) {
+            console.log('⚠️  TELEGRAM_BOT_TOKEN is set but TELEGRAM_CHAT_ID is missing - Telegram notifications disabled');
+        }
+        if (config.webhook.url) {
+            transports.push(new WebhookTransport(config.webhook.url, config.requestTimeoutMs));
+        }
+
+        const templates: NotifierOptions['templates'] = {};
+        for (const [event, key] of Object.entries(TEMPLATE_CONFIG_KEYS)) {
+            templates[event as NotificationEvent] = config.templates[key];
+        }
+
+        return new Notifier(transports, { events: config.events, templates });
+    }
+
+    public isEnabled(event: NotificationEvent): boolean {
+        return this.transports.length > 0 && this.events.includes(event);
+    }
+
+    /**
+     * Render and send a notification to all transports
+     * Resolves after delivery; never rejects.
+     */
+    public notify(event: NotificationEvent, values: TemplateValues, runId: string | null = null): Promise<void> {
+        if (!this.isEnabled(event)) {
+            return Promise.resolve();
+        }
+
+        const notification: Notification = {
+            event,
+            text: renderTemplate(this.templates[event], values),
+            runId,
+            values
+        };
+
+        const delivery = Promise.all(this.transports.map(async transport => {
+            try {
+                await transport.send(notification);
+                console.log(`📨 Sent ${event} notification via ${transport.name}`);
+            } catch (error) {
+                console.error(`❌ Failed to send ${event} notification via ${transport.name}:`, (error as Error).message);
+            }
+        })).then(() => undefined);
+
+        this.pending.push(delivery);
+        return delivery;
+    }
+
+    /**
+     * Send alerts for journal events of every run from now on
+     * @returns Function that stops watching
+     */
+    public watchJournal(): () => void {
+        return RunJournal.subscribe((event, run) => this.handleJournalEvent(event, run));
+    }
+
+    /**
+     * Send the run summary and wait for all pending alerts
+     * @param run Finished run record (RunJournal.finish())
+     * @param summary Pipeline summary (null if the run crashed before it finished)
+     */
+    public async sendRunSummary(run: RunRecord | null, summary: PipelineSummary | null): Promise<void> {
+        if (run) {
+            await this.notify('summary', buildSummaryValues(run, summary), run.runId);
+        }
+        await this.flush();
+    }
+
+    /**
+     * Wait until every notification sent so far was delivered (or failed)
+     */
+    public async flush(): Promise<void> {
+        const pending = this.pending;
+        this.pending = [];
+        await Promise.all(pending);
+    }
+
+    private handleJournalEvent(event: JournalEvent, run: RunRecord): void {
+        if (event.type === 'purchase' && event.emergency) {
+            this.notify('emergency-purchase', {
+                commodity: event.commodity === 'fuel' ? 'fuel' : 'CO2',
+                amount: event.amount.toLocaleString('en-US'),
+                unit: event.commodity === 'fuel' ? 'L' : 'kg',
+                price: event.price,
+                holdingBefore: event.holdingBefore.toLocaleString('en-US'),
+                reason: event.reason,
+                dryRunLabel: event.dryRun ? ' (dry run)' : ''
+            }, run.runId);
+        }
+
+        if (event.type === 'price-alert') {
+            this.notify('price-alert', {
+                commodity: event.commodity === 'fuel' ? 'Fuel' : 'CO2',
+                rule: event.rule,
+                slot: event.slot,
+                price: event.price,
+                message: event.message
+            }, run.runId);
+        }
+
+        if (event.type === 'task' && event.name === 'login' && (event.status === 'failed' || event.status === 'timeout')) {
+            this.notify('login-failure', {
+                status: event.status,
+                attempts: event.attempts,
+                error: event.error || 'unknown error'
+            }, run.runId);
+        } else if (event.type === 'task' && event.status === 'timeout') {
+            this.notify('timeout', {
+                task: event.name,
+                attempts: event.attempts,
+                duration: formatDuration(event.durationMs),
+                error: event.error || 'timed out'
+            }, run.runId);
+        }
+    }
+}
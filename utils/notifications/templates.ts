@@ -0,0 +1,114 @@
+import type { PipelineSummary } from '../06_pipeline.utils';
+import type { JournalEvent, PurchaseEvent, RunRecord } from '../07_journal.utils';
+import { NotificationEvent, TemplateValues } from './notificationTypes';
+
+/**
+ * Message Templates
+ * Templates use {{placeholders}}; unknown placeholders render as empty text.
+ * Each template can be replaced via notifications.templates in the config file.
+ */
+
+export const DEFAULT_TEMPLATES: { [E in NotificationEvent]: string } = {
+    'summary': [
+        '✈️ AM4 Bot - {{runName}} {{status}}{{dryRunLabel}} ({{duration}})',
+        '⛽ Fuel: {{fuel}}',
+        '🌱 CO2: {{co2}}',
+        '📢 Campaigns: {{campaigns}}',
+        '🔧 Maintenance: {{maintenance}}',
+        '🛫 Departures: {{departures}}',
+        '✅ Tasks: {{tasks}}',
+        '❌ Failures: {{failures}}'
+    ].join('\n'),
+    'emergency-purchase': '🚨 Emergency {{commodity}} purchase{{dryRunLabel}}: {{amount}} {{unit}} at ${{price}} (holding was {{holdingBefore}} {{unit}})\n{{reason}}',
+    'login-failure': '🔐 Login failed ({{status}} after {{attempts}} attempt(s)): {{error}}',
+    'timeout': '⏰ Task "{{task}}" timed out after {{duration}} ({{attempts}} attempt(s)): {{error}}',
+    'price-alert': '📣 {{commodity}} price alert: {{message}} (rule "{{rule}}")'
+};
+
+/**
+ * Config key (notifications.templates.<key>) of each event's template
+ */
+export const TEMPLATE_CONFIG_KEYS = {
+    'summary': 'summary',
+    'emergency-purchase': 'emergencyPurchase',
+    'login-failure': 'loginFailure',
+    'timeout': 'timeout',
+    'price-alert': 'priceAlert'
+} as const;
+
+export function renderTemplate(template: string, values: TemplateValues): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) =>
+        values[key] !== undefined ? String(values[key]) : ''
+    );
+}
+
+/**
+ * Format a duration like "2m 35s"
+ */
+export function formatDuration(durationMs: number): string {
+    const totalSeconds = Math.round(durationMs / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+/**
+ * Values of the summary template from the run journal and the pipeline result
+ * @param summary Pipeline summary (null if the run crashed before it finished)
+ */
+export function buildSummaryValues(run: RunRecord, summary: PipelineSummary | null): TemplateValues {
+    const eventsOf = <T extends JournalEvent['type']>(type: T) =>
+        run.events.filter((event): event is Extract<JournalEvent, { type: T }> => event.type === type);
+
+    const purchases = eventsOf('purchase');
+    const campaigns = eventsOf('campaign');
+    const maintenance = eventsOf('maintenance');
+    const departures = eventsOf('departure');
+    const errors = eventsOf('error');
+
+    const durationMs = summary
+        ? summary.durationMs
+        : new Date(run.finishedAt || Date.now()).getTime() - new Date(run.startedAt).getTime();
+
+    const failedTasks = summary
+        ? summary.results
+            .filter(result => result.status === 'failed' || result.status === 'timeout')
+            .map(result => `${result.name} ${result.status}${result.error ? ` (${result.error})` : ''}`)
+        : ['run did not finish'];
+    if (errors.length > 0) {
+        failedTasks.push(`${errors.length} caught error(s)`);
+    }
+
+    return {
+        runId: run.runId,
+        runName: run.name,
+        status: run.status,
+        dryRun: run.dryRun,
+        dryRunLabel: run.dryRun ? ' (dry run)' : '',
+        duration: formatDuration(durationMs),
+        fuel: describePurchases(purchases.filter(p => p.commodity === 'fuel'), 'L'),
+        co2: describePurchases(purchases.filter(p => p.commodity === 'co2'), 'kg'),
+        campaigns: campaigns.length > 0
+            ? campaigns.map(c => c.option ? `${c.campaign} (${c.option})` : c.campaign).join(', ')
+            : 'none started',
+        maintenance: maintenance.length > 0
+            ? maintenance.map(m => m.action === 'check'
+                ? `check of ${m.planes ?? '?'} plane(s)`
+                : `repair at ${m.wearThreshold ?? '?'}% wear`).join(', ')
+            : 'nothing planned',
+        departures: departures.length,
+        tasks: summary ? `${summary.succeeded.length}/${summary.results.length} succeeded` : 'unknown',
+        failures: failedTasks.length > 0 ? failedTasks.join('; ') : 'none'
+    };
+}
+
+function describePurchases(purchases: PurchaseEvent[], unit: string): string {
+    if (purchases.length === 0) {
+        return 'nothing bought';
+    }
+
+    const amount = purchases.reduce((sum, p) => sum + p.amount, 0);
+    const cost = purchases.reduce((sum, p) => sum + p.amount * p.price, 0);
+    const emergency = purchases.some(p => p.emergency) ? ', emergency' : '';
+    return `${amount.toLocaleString('en-US')} ${unit} at $${Math.round(cost / amount)}${emergency}`;
+}
@@ -0,0 +1,65 @@
+import { Notification, NotificationTransport } from './notificationTypes';
+
+/**
+ * Notification Transports
+ * Both transports POST JSON over HTTP, so tests can point them at a local
+ * HTTP stand-in (see tests/standin/notificationSink.ts).
+ */
+
+const TELEGRAM_MAX_MESSAGE_LENGTH = 4096;
+
+async function postJson(url: string, body: unknown, timeoutMs: number): Promise<void> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(timeoutMs)
+    });
+
+    if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        throw new Error(`HTTP ${response.status} ${response.statusText}${text ? `: ${text.slice(0, 200)}` : ''}`);
+    }
+}
+
+/**
+ * Telegram Bot API (sendMessage)
+ */
+export class TelegramTransport implements NotificationTransport {
+    readonly name = 'telegram';
+
+    constructor(
+        private botToken: string,
+        private chatId: string,
+        private apiBaseUrl: string = 'https://api.telegram.org',
+        private timeoutMs: number = 10000
+    ) {}
+
+    async send(notification: Notification): Promise<void> {
+        // The URL contains the token - it is never part of an error message
+        await postJson(`${this.apiBaseUrl.replace(/\/+$/, '')}/bot${this.botToken}/sendMessage`, {
+            chat_id: this.chatId,
+            text: notification.text.slice(0, TELEGRAM_MAX_MESSAGE_LENGTH),
+            disable_web_page_preview: true
+        }, this.timeoutMs);
+    }
+}
+
+/**
+ * Generic webhook: receives the rendered text plus all template values
+ */
+export class WebhookTransport implements NotificationTransport {
+    readonly name = 'webhook';
+
+    constructor(private url: string, private timeoutMs: number = 10000) {}
+
+    async send(notification: Notification): Promise<void> {
+        await postJson(this.url, {
+            event: notification.event,
+            text: notification.text,
+            runId: notification.runId,
+            values: notification.values,
+            sentAt: new Date().toISOString()
+        }, this.timeoutMs);
+    }
+}
@@ -0,0 +1,245 @@
+import { Page } from "@playwright/test";
+import { GeneralUtils } from '../00_general.utils';
+import { FuelUtils } from '../01_fuel.utils';
+import { CampaignUtils } from '../02_campaign.utils';
+import { MaintenanceUtils } from '../03_maintenance.utils';
+import { SmartFleetUtils } from '../04_fleet.utils';
+import { BOT_CONFIG, loadConfig } from '../../config';
+import { RunJournal } from '../07_journal.utils';
+import { SessionManager } from '../09_session.utils';
+import { Navigator } from '../11_navigation.utils';
+import { TaskPipeline, PipelineOptions, TaskContext, TaskOutput } from './taskPipeline';
+
+/**
+ * Bot Task Definitions
+ * Registers the regular bot run (login → fuel → co2 → campaigns → maintenance → smartFleet)
+ * as independent pipeline tasks. Every task opens and closes its own popup, so a
+ * failing task leaves the map in a usable state for the next one.
+ * A task interrupted by an expired session is retried once after logging in again.
+ * After a timed-out attempt the game is reloaded before anything else runs.
+ */
+
+export type BotTaskName = 'fuel' | 'co2' | 'campaigns' | 'maintenance' | 'smartFleet';
+
+export const BOT_TASK_NAMES: BotTaskName[] = ['fuel', 'co2', 'campaigns', 'maintenance', 'smartFleet'];
+
+export interface BotPipelineOptions extends PipelineOptions {
+    tasks?: BotTaskName[];                  // Only register these tasks (login is always registered)
+}
+
+/**
+ * Close the game popup if one is open (safe to call when none is open)
+ */
+export async function closePopupIfOpen(page: Page): Promise<void> {
+    if (!(await Navigator.for(page).closePopup())) {
+        console.log('⚠️  Popup is still open');
+    }
+}
+
+/**
+ * Reload the game after a timed-out task attempt
+ * The attempt cannot be cancelled - reloading drops the popup it was working
+ * in, so its pending clicks cannot act on the next attempt or task.
+ */
+async function resetAfterTimeout(page: Page): Promise<void> {
+    console.log('🔄 Reloading the game after the timeout...');
+    await page.goto(BOT_CONFIG.game.baseUrl);
+    await GeneralUtils.sleep(2000); // Wait for page to load
+}
+
+/**
+ * Create the pipeline for a regular bot run
+ * Task results and the active task of every event are written to the run journal.
+ * Further tasks depending on 'login' can be registered on the returned pipeline.
+ * @param page Playwright page
+ * @param options Pipeline options (totalBudgetMs should stay below the Playwright test timeout)
+ */
+export function createBotPipeline(page: Page, options: BotPipelineOptions = {}): TaskPipeline {
+    // Validate the whole config up front (throws ConfigValidationError listing every invalid value)
+    const { profile, file } = loadConfig();
+    console.log(`⚙️  Config: profile ${profile || '(none)'}${file ? `, file ${file}` : ''}`);
+
+    const generalUtils = new GeneralUtils(page);
+    const fuelUtils = new FuelUtils(page);
+    const campaignUtils = new CampaignUtils(page);
+    const maintenanceUtils = new MaintenanceUtils(page);
+    const skipTasks = BOT_CONFIG.pipeline.skipTasks;
+    const skipIfDisabled = (name: string) => () => skipTasks.includes(name) ? 'disabled via SKIP_TASKS' : false;
+    const include = (name: BotTaskName) => !options.tasks || options.tasks.includes(name);
+    const session = SessionManager.for(page);
+    const navigator = Navigator.for(page);
+    const withSession = (name: BotTaskName, run: (context: TaskContext) => Promise<TaskOutput | void>) =>
+        (context: TaskContext) => session.runStep(name, () => run(context));
+
+    if (BOT_CONFIG.mode.dryRun) {
+        console.log('🧪 DRY RUN enabled - no purchases, campaigns, maintenance or departures will be confirmed');
+    }
+
+    const pipeline = new TaskPipeline({
+        ...options,
+        onTaskStart: task => {
+            RunJournal.setTask(task.name);
+            options.onTaskStart?.(task);
+        },
+        onTaskFinish: result => {
+            RunJournal.record({
+                type: 'task',
+                name: result.name,
+                status: result.status,
+                attempts: result.attempts,
+                durationMs: result.durationMs,
+                ...(result.error ? { error: result.error } : {}),
+                ...(result.skipReason ? { skipReason: result.skipReason } : {})
+            });
+            RunJournal.setTask(null);
+            options.onTaskFinish?.(result);
+        },
+        onTaskTimeout: async (task, attempt) => {
+            await resetAfterTimeout(page);
+            await options.onTaskTimeout?.(task, attempt);
+        }
+    });
+
+    pipeline.register({
+        name: 'login',
+        timeoutMs: 60000,
+        retries: 1,
+        retryDelayMs: 3000,
+        run: async () => {
+            await generalUtils.login(page);
+        }
+    });
+
+    // Purchases are not idempotent - no retries for fuel/co2
+    // (except after a re-login: a logged-out page cannot have bought anything)
+    if (include('fuel')) {
+        pipeline.register({
+            name: 'fuel',
+            dependsOn: ['login'],
+            timeoutMs: 45000,
+            skipIf: skipIfDisabled('fuel'),
+            run: withSession('fuel', async () => {
+                try {
+                    await navigator.open('fuel');
+                    await fuelUtils.buyFuel();
+                } finally {
+                    await closePopupIfOpen(page);
+                }
+            })
+        });
+    }
+
+    if (include('co2')) {
+        pipeline.register({
+            name: 'co2',
+            dependsOn: ['login'],
+            timeoutMs: 45000,
+            skipIf: skipIfDisabled('co2'),
+            run: withSession('co2', async () => {
+                try {
+                    await navigator.open('co2');
+                    await fuelUtils.buyCo2();
+                } finally {
+                    await closePopupIfOpen(page);
+                }
+            })
+        });
+    }
+
+    if (include('campaigns')) {
+        pipeline.register({
+            name: 'campaigns',
+            dependsOn: ['login'],
+            timeoutMs: 60000,
+            retries: 1,
+            skipIf: skipIfDisabled('campaigns'),
+            run: withSession('campaigns', async () => {
+                try {
+                    await navigator.open('marketing');
+                    await campaignUtils.checkAndCreateEcoFriendlyCampaign();
+
+                    // Check and create airline reputation campaign after eco-friendly check
+                    await campaignUtils.checkAndCreateAirlineReputationCampaign();
+                } finally {
+                    await closePopupIfOpen(page);
+                }
+            })
+        });
+    }
+
+    if (include('maintenance')) {
+        pipeline.register({
+            name: 'maintenance',
+            dependsOn: ['login'],
+            timeoutMs: 45000,
+            retries: 1,
+            skipIf: skipIfDisabled('maintenance'),
+            run: withSession('maintenance', async () => {
+                try {
+                    console.log('Navigating to Maintenance section.');
+                    await navigator.open('maintenance');
+
+                    console.log('Checking planes for maintenance.');
+                    await maintenanceUtils.checkPlanes();
+                    await GeneralUtils.sleep(1000);
+
+                    console.log('Repairing planes if necessary.');
+                    await maintenanceUtils.repairPlanes();
+                    await GeneralUtils.sleep(1000);
+                } finally {
+                    await closePopupIfOpen(page);
+                }
+            })
+        });
+    }
+
+    // Smart Fleet manages its own time budget (stops early and still saves its data),
+    // so it gets whatever is left of the pipeline budget. It also logs in again per plane
+    // when the session dies, so the task itself is not retried.
+    if (include('smartFleet')) {
+        pipeline.register({
+            name: 'smartFleet',
+            dependsOn: ['login'],
+            timeoutMs: Infinity,
+            skipIf: skipIfDisabled('smartFleet'),
+            run: async ({ remainingMs }) => {
+                console.log('\n🚀 Starting Smart Fleet Processing...\n');
+                const fleetBudget = Number.isFinite(remainingMs) ? remainingMs - 5000 : undefined;
+                const smartFleetUtils = new SmartFleetUtils(page, BOT_CONFIG.fleet, fleetBudget);
+
+                // === PHASE 1: Navigate to Fleet Overview ===
+                await smartFleetUtils.navigateToFleetOverview();
+
+                // === PHASE 2: Count & Calculate ===
+                const {
+                    totalFleetSize,
+                    fleetComposition,
+                    currentLanded,
+                    maxDepartures
+                } = await smartFleetUtils.getFleetSizeAndCalculateLimit();
+
+                // === PHASE 3: Process Planes (Depart & Scrape) ===
+                const {
+                    processedCount,
+                    departedCount,
+                    planesData
+                } = await smartFleetUtils.processLandedPlanes(maxDepartures);
+
+                // === Save Data ===
+                smartFleetUtils.saveCache(totalFleetSize, fleetComposition, planesData);
+                smartFleetUtils.savePlanesData(planesData);
+
+                return {
+                    'Total Fleet Size': `${totalFleetSize} (inflight ${fleetComposition.inflight}, landed ${fleetComposition.landed}, parked ${fleetComposition.parked}, pending ${fleetComposition.pending})`,
+                    'Current Landed': currentLanded,
+                    'Max Departures': maxDepartures,
+                    'Departed & Scraped': departedCount,
+                    'Additionally Scraped': processedCount - departedCount,
+                    'Flights Scraped': planesData.reduce((sum, p) => sum + p.flightHistory.length, 0)
+                };
+            }
+        });
+    }
+
+    return pipeline;
+}
@@ -0,0 +1,354 @@
+/**
+ * Task Pipeline
+ * Runs registered bot tasks with individual timeouts, retries, dependencies
+ * and skip conditions. A failing task is recorded but does NOT abort
+ * independent tasks - only tasks depending on it are skipped.
+ *
+ * Usage:
+ *   const pipeline = new TaskPipeline({ totalBudgetMs: 170000 });
+ *   pipeline.register({ name: 'login', run: async () => { ... } });
+ *   pipeline.register({ name: 'fuel', dependsOn: ['login'], timeoutMs: 45000, run: async () => { ... } });
+ *   const summary = await pipeline.run();
+ *   console.log(TaskPipeline.formatSummary(summary));
+ */
+
+export type TaskStatus = 'success' | 'failed' | 'timeout' | 'skipped';
+
+/**
+ * Key/value output a task can report for the summary (e.g. "departed: 3")
+ */
+export interface TaskOutput {
+    [key: string]: string | number | boolean | null;
+}
+
+/**
+ * Runtime information passed to a task
+ */
+export interface TaskContext {
+    attempt: number;                        // 1-based attempt number
+    remainingMs: number;                    // Time left in the pipeline budget (Infinity if unlimited)
+    results: ReadonlyMap<string, TaskResult>;  // Results of tasks that already finished
+}
+
+/**
+ * Definition of a single pipeline task
+ */
+export interface PipelineTask {
+    name: string;
+    description?: string;
+    dependsOn?: string[];                   // Tasks that must succeed before this one runs
+    timeoutMs?: number;                     // Per-attempt timeout (default: PipelineOptions.defaultTimeoutMs, Infinity = budget only)
+    retries?: number;                       // Additional attempts after a failure/timeout (default: 0)
+    retryDelayMs?: number;                  // Delay between attempts (default: 1000)
+    /**
+     * Skip condition: return true or a reason string to skip the task
+     */
+    skipIf?: (context: TaskContext) => boolean | string | Promise<boolean | string>;
+    run: (context: TaskContext) => Promise<TaskOutput | void>;
+}
+
+/**
+ * Result of a single task
+ */
+export interface TaskResult {
+    name: string;
+    status: TaskStatus;
+    attempts: number;
+    durationMs: number;
+    error?: string;
+    skipReason?: string;
+    output?: TaskOutput;
+}
+
+/**
+ * Result of a complete pipeline run
+ */
+export interface PipelineSummary {
+    startedAt: string;                      // ISO-8601
+    finishedAt: string;                     // ISO-8601
+    durationMs: number;
+    results: TaskResult[];
+    succeeded: string[];
+    failed: string[];                       // Includes timed out tasks
+    skipped: string[];
+}
+
+export interface PipelineOptions {
+    defaultTimeoutMs?: number;              // Default per-attempt timeout (default: 60000)
+    totalBudgetMs?: number;                 // Overall time budget, task timeouts are capped by it
+    onTaskStart?: (task: PipelineTask) => void;     // Called before a task is evaluated (incl. skip checks)
+    onTaskFinish?: (result: TaskResult) => void;    // Called with the result of every task
+    /**
+     * Awaited after a timed-out attempt, before the next attempt or task starts
+     * (the attempt itself cannot be cancelled - reset the state it works on)
+     */
+    onTaskTimeout?: (task: PipelineTask, attempt: number) => Promise<void>;
+}
+
+/**
+ * Error thrown when a task attempt exceeds its timeout
+ */
+export class TaskTimeoutError extends Error {
+    constructor(taskName: string, timeoutMs: number) {
+        super(`Task "${taskName}" timed out after ${timeoutMs}ms`);
+        this.name = 'TaskTimeoutError';
+    }
+}
+
+export class TaskPipeline {
+    private tasks: PipelineTask[] = [];
+    private defaultTimeoutMs: number;
+    private totalBudgetMs: number | undefined;
+    private options: PipelineOptions;
+
+    constructor(options: PipelineOptions = {}) {
+        this.defaultTimeoutMs = options.defaultTimeoutMs ?? 60000;
+        this.totalBudgetMs = options.totalBudgetMs;
+        this.options = options;
+    }
+
+    /**
+     * Register a task. Tasks run in registration order unless dependencies require otherwise.
+     */
+    public register(task: PipelineTask): this {
+        if (this.tasks.some(t => t.name === task.name)) {
+            throw new Error(`Task "${task.name}" is already registered`);
+        }
+        this.tasks.push(task);
+        return this;
+    }
+
+    public getTaskNames(): string[] {
+        return this.tasks.map(t => t.name);
+    }
+
+    /**
+     * Run all registered tasks and return a per-task summary
+     * Never throws because of a failing task - check summary.failed instead.
+     */
+    public async run(): Promise<PipelineSummary> {
+        const ordered = this.resolveOrder();
+        const startTime = Date.now();
+        const results = new Map<string, TaskResult>();
+
+        for (const task of ordered) {
+            this.options.onTaskStart?.(task);
+            const result = await this.runTask(task, results, startTime);
+            results.set(task.name, result);
+            this.options.onTaskFinish?.(result);
+        }
+
+        const allResults = ordered.map(t => results.get(t.name)!);
+        const finishTime = Date.now();
+
+        return {
+            startedAt: new Date(startTime).toISOString(),
+            finishedAt: new Date(finishTime).toISOString(),
+            durationMs: finishTime - startTime,
+            results: allResults,
+            succeeded: allResults.filter(r => r.status === 'success').map(r => r.name),
+            failed: allResults.filter(r => r.status === 'failed' || r.status === 'timeout').map(r => r.name),
+            skipped: allResults.filter(r => r.status === 'skipped').map(r => r.name)
+        };
+    }
+
+    /**
+     * Format a summary as console table
+     */
+    public static formatSummary(summary: PipelineSummary): string {
+        const icons: { [status in TaskStatus]: string } = {
+            success: '✅',
+            failed: '❌',
+            timeout: '⏰',
+            skipped: '⏭️ '
+        };
+
+        const lines: string[] = [];
+        lines.push('='.repeat(60));
+        lines.push('📊 BOT RUN SUMMARY');
+        lines.push('='.repeat(60));
+
+        for (const result of summary.results) {
+            const duration = `${(result.durationMs / 1000).toFixed(1)}s`;
+            const attempts = result.attempts > 1 ? `, ${result.attempts} attempts` : '';
+            lines.push(`${icons[result.status]} ${result.name.padEnd(14)} ${result.status.toUpperCase().padEnd(8)} (${duration}${attempts})`);
+
+            if (result.skipReason) {
+                lines.push(`      Reason: ${result.skipReason}`);
+            }
+            if (result.error) {
+                lines.push(`      Error: ${result.error}`);
+            }
+            if (result.output) {
+                for (const [key, value] of Object.entries(result.output)) {
+                    lines.push(`      ${key}: ${value}`);
+                }
+            }
+        }
+
+        lines.push('-'.repeat(60));
+        lines.push(`Succeeded: ${summary.succeeded.length}, Failed: ${summary.failed.length}, Skipped: ${summary.skipped.length}`);
+        lines.push(`Total Duration: ${(summary.durationMs / 1000).toFixed(1)}s`);
+        lines.push('='.repeat(60));
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Order tasks so every task comes after its dependencies (stable w.r.t. registration order)
+     */
+    private resolveOrder(): PipelineTask[] {
+        const byName = new Map(this.tasks.map(t => [t.name, t]));
+        const ordered: PipelineTask[] = [];
+        const visiting = new Set<string>();
+        const done = new Set<string>();
+
+        const visit = (task: PipelineTask, path: string[]) => {
+            if (done.has(task.name)) return;
+            if (visiting.has(task.name)) {
+                throw new Error(`Circular task dependency: ${[...path, task.name].join(' → ')}`);
+            }
+            visiting.add(task.name);
+
+            for (const dependency of task.dependsOn || []) {
+                const dependencyTask = byName.get(dependency);
+                if (!dependencyTask) {
+                    throw new Error(`Task "${task.name}" depends on unknown task "${dependency}"`);
+                }
+                visit(dependencyTask, [...path, task.name]);
+            }
+
+            visiting.delete(task.name);
+            done.add(task.name);
+            ordered.push(task);
+        };
+
+        for (const task of this.tasks) {
+            visit(task, []);
+        }
+
+        return ordered;
+    }
+
+    private async runTask(
+        task: PipelineTask,
+        results: Map<string, TaskResult>,
+        pipelineStart: number
+    ): Promise<TaskResult> {
+        const taskStart = Date.now();
+        const remainingMs = () => this.totalBudgetMs !== undefined
+            ? this.totalBudgetMs - (Date.now() - pipelineStart)
+            : Infinity;
+        const skipped = (reason: string): TaskResult => {
+            console.log(`⏭️  Skipping task "${task.name}": ${reason}`);
+            return { name: task.name, status: 'skipped', attempts: 0, durationMs: 0, skipReason: reason };
+        };
+
+        // Dependencies must have succeeded
+        const failedDependency = (task.dependsOn || []).find(d => results.get(d)?.status !== 'success');
+        if (failedDependency) {
+            return skipped(`dependency "${failedDependency}" ${results.get(failedDependency)?.status ?? 'did not run'}`);
+        }
+
+        if (remainingMs() <= 0) {
+            return skipped('pipeline time budget exhausted');
+        }
+
+        if (task.skipIf) {
+            try {
+                const skip = await task.skipIf({ attempt: 0, remainingMs: remainingMs(), results });
+                if (skip) {
+                    return skipped(typeof skip === 'string' ? skip : 'skip condition met');
+                }
+            } catch (error) {
+                return {
+                    name: task.name,
+                    status: 'failed',
+                    attempts: 0,
+                    durationMs: Date.now() - taskStart,
+                    error: `Skip condition failed: ${(error as Error).message}`
+                };
+            }
+        }
+
+        const maxAttempts = 1 + (task.retries ?? 0);
+        let lastError: Error | null = null;
+        let timedOut = false;
+        let attempts = 0;                   // Attempts actually started (the budget can end the loop early)
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            const timeoutMs = Math.min(task.timeoutMs ?? this.defaultTimeoutMs, remainingMs());
+            if (timeoutMs <= 0) {
+                lastError = new Error('pipeline time budget exhausted');
+                break;
+            }
+            attempts = attempt;
+
+            const timeoutLabel = Number.isFinite(timeoutMs) ? `${Math.round(timeoutMs / 1000)}s` : 'none';
+            console.log(`\n▶️  Task "${task.name}" (attempt ${attempt}/${maxAttempts}, timeout ${timeoutLabel})`);
+
+            try {
+                const output = await this.withTimeout(
+                    task.run({ attempt, remainingMs: remainingMs(), results }),
+                    task.name,
+                    timeoutMs
+                );
+
+                return {
+                    name: task.name,
+                    status: 'success',
+                    attempts: attempt,
+                    durationMs: Date.now() - taskStart,
+                    ...(output ? { output } : {})
+                };
+            } catch (error) {
+                lastError = error as Error;
+                timedOut = error instanceof TaskTimeoutError;
+                console.error(`❌ Task "${task.name}" attempt ${attempt} ${timedOut ? 'timed out' : 'failed'}:`, lastError.message);
+
+                if (timedOut && this.options.onTaskTimeout) {
+                    try {
+                        await this.options.onTaskTimeout(task, attempt);
+                    } catch (cleanupError) {
+                        console.error(`❌ Cleanup after the timeout of task "${task.name}" failed:`, (cleanupError as Error).message);
+                    }
+                }
+
+                if (attempt < maxAttempts) {
+                    await new Promise(resolve => setTimeout(resolve, task.retryDelayMs ?? 1000));
+                }
+            }
+        }
+
+        return {
+            name: task.name,
+            status: timedOut ? 'timeout' : 'failed',
+            attempts,
+            durationMs: Date.now() - taskStart,
+            error: lastError ? lastError.message : 'unknown error'
+        };
+    }
+
+    /**
+     * Race a task promise against its timeout
+     * NOTE: The underlying browser actions cannot be cancelled - they keep running
+     * in the background until they fail on their own Playwright timeout
+     * (PipelineOptions.onTaskTimeout resets the page before anything else runs).
+     */
+    private async withTimeout<T>(promise: Promise<T>, taskName: string, timeoutMs: number): Promise<T> {
+        if (!Number.isFinite(timeoutMs)) {
+            return promise;
+        }
+
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new TaskTimeoutError(taskName, timeoutMs)), timeoutMs);
+        });
+
+        try {
+            return await Promise.race([promise, timeout]);
+        } finally {
+            if (timer) clearTimeout(timer);
+        }
+    }
+}
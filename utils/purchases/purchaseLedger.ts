@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GeneralUtils } from '../00_general.utils';
+import { RunJournal } from '../07_journal.utils';
+import { PRICE_UNIT, PurchaseEntry, PurchaseInput, PurchaseLog, PurchaseQuery } from './purchaseTypes';
+
+/**
+ * Purchase Ledger
+ * Keeps every confirmed fuel and CO2 purchase in data/purchase-log.json,
+ * separate from the price history (which only contains market prices).
+ * Unlike the run journals, the ledger is never pruned - it is the base for
+ * spend and savings reports across runs.
+ *
+ * Usage:
+ *   const ledger = new PurchaseLedger();
+ *   ledger.record({ commodity: 'fuel', amount: 500000, unitPrice: 480, holdingBefore: 2000000, ... });
+ *   const lastWeek = ledger.query({ commodity: 'fuel', since: new Date(Date.now() - 7 * 24 * 3600 * 1000) });
+ */
+export class PurchaseLedger {
+    private filePath: string;
+
+    constructor(filePath: string = GeneralUtils.dataPath('purchase-log.json')) {
+        this.filePath = filePath;
+    }
+
+    /**
+     * Load the ledger (empty if the file does not exist or is unreadable)
+     */
+    public load(): PurchaseLog {
+        return this.read() ?? { purchases: [], lastUpdated: new Date().toISOString() };
+    }
+
+    /**
+     * @returns The ledger (empty without a file), null if the file is unreadable
+     */
+    private read(): PurchaseLog | null {
+        if (!fs.existsSync(this.filePath)) {
+            return { purchases: [], lastUpdated: new Date().toISOString() };
+        }
+        try {
+            const log = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as PurchaseLog;
+            if (Array.isArray(log?.purchases)) {
+                return log;
+            }
+            console.log('⚠️  Purchase log has an unexpected format');
+        } catch (error) {
+            console.error('❌ Error loading purchase log:', error);
+        }
+        return null;
+    }
+
+    /**
+     * Append a purchase (total cost, holding after and run ID are derived)
+     * An unreadable ledger is moved aside (purchase-log.unreadable-<time>.json)
+     * before a new one is started - it is never overwritten.
+     * Errors are logged, never thrown - the purchase itself already happened.
+     * @returns The stored entry
+     */
+    public record(input: PurchaseInput): PurchaseEntry {
+        const entry: PurchaseEntry = {
+            timestamp: input.timestamp ?? new Date().toISOString(),
+            commodity: input.commodity,
+            amount: input.amount,
+            unitPrice: input.unitPrice,
+            totalCost: Math.round(input.amount / PRICE_UNIT * input.unitPrice),
+            holdingBefore: input.holdingBefore,
+            holdingAfter: input.holdingBefore + input.amount,
+            reason: input.reason,
+            basis: input.basis,
+            marketAvg24h: input.marketAvg24h,
+            runId: RunJournal.active()?.record.runId ?? null
+        };
+        if (input.capReason) {
+            entry.requestedAmount = input.requestedAmount;
+            entry.capReason = input.capReason;
+        }
+
+        try {
+            let log = this.read();
+            if (log === null) {
+                const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+                const backup = path.join(path.dirname(this.filePath), `${path.basename(this.filePath, '.json')}.unreadable-${stamp}.json`);
+                fs.renameSync(this.filePath, backup);
+                console.log(`⚠️  Unreadable purchase log moved to ${backup} - starting a new one`);
+                RunJournal.recordError('purchase-ledger', new Error(`Unreadable purchase log moved to ${backup}`));
+                log = this.load();
+            }
+            log.purchases.push(entry);
+            log.lastUpdated = new Date().toISOString();
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            fs.writeFileSync(this.filePath, JSON.stringify(log, null, 2), 'utf-8');
+            console.log(`🧾 Purchase logged: ${entry.amount.toLocaleString()} ${entry.commodity} for $${entry.totalCost.toLocaleString()}`);
+        } catch (error) {
+            console.error('❌ Error saving purchase log:', error);
+        }
+        return entry;
+    }
+
+    /**
+     * $ spent on a commodity since the start of the current UTC day
+     */
+    public spentToday(commodity: PurchaseEntry['commodity']): number {
+        const now = new Date();
+        const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+        return this.query({ commodity, since }).reduce((sum, entry) => sum + entry.totalCost, 0);
+    }
+
+    /**
+     * Purchases matching the query, oldest first
+     */
+    public query(query: PurchaseQuery = {}): PurchaseEntry[] {
+        const since = query.since !== undefined ? new Date(query.since).getTime() : -Infinity;
+        const until = query.until !== undefined ? new Date(query.until).getTime() : Infinity;
+
+        return this.load().purchases
+            .filter(entry => {
+                const time = new Date(entry.timestamp).getTime();
+                return (!query.commodity || entry.commodity === query.commodity) && time >= since && time < until;
+            })
+            .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    }
+}
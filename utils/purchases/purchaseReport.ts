@@ -0,0 +1,162 @@
+import type { BuyBasis, TimeslotEntry } from '../05_priceAnalytics.utils';
+import type { Commodity } from '../07_journal.utils';
+import { PRICE_UNIT, PriceComparison, PurchaseEntry, SpendPeriod } from './purchaseTypes';
+
+const COMMODITIES: Commodity[] = ['fuel', 'co2'];
+
+/**
+ * Spend per day ("2025-01-15") or ISO week ("2025-W03") and commodity, oldest first (UTC)
+ */
+export function summarizeSpend(entries: PurchaseEntry[], period: 'day' | 'week'): SpendPeriod[] {
+    const periods = new Map<string, SpendPeriod>();
+
+    for (const entry of entries) {
+        const date = new Date(entry.timestamp);
+        const key = period === 'day' ? date.toISOString().slice(0, 10) : isoWeek(date);
+        const id = `${key}|${entry.commodity}`;
+
+        let summary = periods.get(id);
+        if (!summary) {
+            summary = { period: key, commodity: entry.commodity, purchases: 0, amount: 0, totalCost: 0, avgPrice: 0 };
+            periods.set(id, summary);
+        }
+        summary.purchases++;
+        summary.amount += entry.amount;
+        summary.totalCost += entry.totalCost;
+    }
+
+    const summaries = Array.from(periods.values());
+    for (const summary of summaries) {
+        summary.avgPrice = summary.amount > 0 ? Math.round(summary.totalCost / summary.amount * PRICE_UNIT) : 0;
+    }
+    return summaries.sort((a, b) =>
+        a.period.localeCompare(b.period) || COMMODITIES.indexOf(a.commodity) - COMMODITIES.indexOf(b.commodity)
+    );
+}
+
+/**
+ * Compare the prices paid for a commodity with the market in [since, until)
+ * - avgPaid: volume-weighted unit price of all purchases in the window
+ * - marketAvg: plain average of all recorded price slots in the window
+ * - savings: what each purchase saved vs. the 24h average at decision time,
+ *   split by decision basis ("intelligent" = savings of the intelligent strategy)
+ */
+export function comparePrices(
+    entries: PurchaseEntry[],
+    timeslots: TimeslotEntry[],
+    commodity: Commodity,
+    since: Date,
+    until: Date
+): PriceComparison {
+    const inWindow = (timestamp: string) => {
+        const time = new Date(timestamp).getTime();
+        return time >= since.getTime() && time < until.getTime();
+    };
+
+    const purchases = entries.filter(entry => entry.commodity === commodity && inWindow(entry.timestamp));
+    const prices = timeslots
+        .filter(slot => inWindow(slot.timestamp))
+        .map(slot => slot[commodity])
+        .filter((price): price is number => price !== null && price > 0);
+
+    const amount = purchases.reduce((sum, entry) => sum + entry.amount, 0);
+    const totalCost = purchases.reduce((sum, entry) => sum + entry.totalCost, 0);
+
+    const savingsByBasis: Record<BuyBasis, number> = { emergency: 0, intelligent: 0, threshold: 0 };
+    for (const entry of purchases) {
+        if (entry.marketAvg24h !== null && entry.marketAvg24h > 0) {
+            savingsByBasis[entry.basis] += (entry.marketAvg24h - entry.unitPrice) * entry.amount / PRICE_UNIT;
+        }
+    }
+    for (const basis of Object.keys(savingsByBasis) as BuyBasis[]) {
+        savingsByBasis[basis] = Math.round(savingsByBasis[basis]);
+    }
+
+    return {
+        commodity,
+        purchases: purchases.length,
+        amount,
+        totalCost,
+        avgPaid: amount > 0 ? Math.round(totalCost / amount * PRICE_UNIT) : 0,
+        marketAvg: prices.length > 0 ? Math.round(prices.reduce((sum, price) => sum + price, 0) / prices.length) : 0,
+        savings: savingsByBasis.emergency + savingsByBasis.intelligent + savingsByBasis.threshold,
+        savingsByBasis
+    };
+}
+
+/**
+ * Purchase report for the window [since, until): daily spend, weekly spend
+ * and prices paid vs. market per commodity
+ */
+export function formatPurchaseReport(
+    entries: PurchaseEntry[],
+    timeslots: TimeslotEntry[],
+    since: Date,
+    until: Date = new Date()
+): string {
+    const purchases = entries.filter(entry => {
+        const time = new Date(entry.timestamp).getTime();
+        return time >= since.getTime() && time < until.getTime();
+    });
+
+    const lines: string[] = [
+        '',
+        `🧾 PURCHASE REPORT (${since.toISOString().slice(0, 10)} - ${until.toISOString().slice(0, 10)})`,
+        '━'.repeat(40)
+    ];
+
+    if (purchases.length === 0) {
+        lines.push('No purchases recorded in this period');
+        lines.push('━'.repeat(40));
+        return lines.join('\n');
+    }
+
+    const formatSpend = (summary: SpendPeriod) =>
+        `${summary.period.padEnd(12)} ${summary.commodity.toUpperCase().padEnd(5)} ` +
+        `${summary.amount.toLocaleString().padStart(13)}  $${summary.totalCost.toLocaleString().padStart(12)}  ` +
+        `avg $${summary.avgPrice.toLocaleString()} (${summary.purchases}x)`;
+
+    lines.push('Daily spend:');
+    lines.push(...summarizeSpend(purchases, 'day').map(formatSpend));
+    lines.push('Weekly spend:');
+    lines.push(...summarizeSpend(purchases, 'week').map(formatSpend));
+
+    for (const commodity of COMMODITIES) {
+        const comparison = comparePrices(purchases, timeslots, commodity, since, until);
+        if (comparison.purchases === 0) continue;
+
+        const vsMarket = comparison.marketAvg > 0
+            ? ` (${formatPercent((comparison.avgPaid - comparison.marketAvg) / comparison.marketAvg)} vs. market $${comparison.marketAvg.toLocaleString()})`
+            : ' (no market history)';
+
+        lines.push(`${commodity.toUpperCase()}:`);
+        lines.push(`  Avg paid:        $${comparison.avgPaid.toLocaleString()}${vsMarket}`);
+        lines.push(`  Savings vs 24h:  ${formatMoney(comparison.savings)}`);
+        lines.push(`    intelligent:   ${formatMoney(comparison.savingsByBasis.intelligent)}`);
+        lines.push(`    threshold:     ${formatMoney(comparison.savingsByBasis.threshold)}`);
+        lines.push(`    emergency:     ${formatMoney(comparison.savingsByBasis.emergency)}`);
+    }
+
+    lines.push('━'.repeat(40));
+    return lines.join('\n');
+}
+
+/**
+ * ISO-8601 week of a date (UTC), e.g. "2025-W03"
+ */
+function isoWeek(date: Date): string {
+    const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    const weekday = day.getUTCDay() || 7;
+    day.setUTCDate(day.getUTCDate() + 4 - weekday);          // Thursday of this week decides the year
+    const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+    const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+    return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+function formatMoney(value: number): string {
+    return `${value < 0 ? '-' : '+'}$${Math.abs(value).toLocaleString()}`;
+}
+
+function formatPercent(ratio: number): string {
+    return `${ratio < 0 ? '' : '+'}${(ratio * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,78 @@
+// TypeScript interfaces for the Purchase Ledger (data/purchase-log.json)
+
+import type { Commodity } from '../07_journal.utils';
+import type { BuyBasis } from '../05_priceAnalytics.utils';
+
+/**
+ * Game prices are per 1,000 Lbs (fuel) / 1,000 quotas (CO2)
+ */
+export const PRICE_UNIT = 1000;
+
+/**
+ * One confirmed fuel or CO2 purchase
+ */
+export interface PurchaseEntry {
+    timestamp: string;                      // ISO-8601 (UTC)
+    commodity: Commodity;
+    amount: number;                         // Lbs (fuel) or quotas (CO2)
+    unitPrice: number;                      // Price shown in the game (per PRICE_UNIT)
+    totalCost: number;                      // amount / PRICE_UNIT * unitPrice, rounded to $
+    holdingBefore: number;
+    holdingAfter: number;
+    reason: string;                         // shouldBuyNow() reason
+    basis: BuyBasis;                        // What the decision was based on
+    marketAvg24h: number | null;            // 24h average price at decision time (null = no history)
+    runId: string | null;                   // Run journal the purchase belongs to
+    requestedAmount?: number;               // Partial fill: amount wanted before the spend caps
+    capReason?: string;                     // Partial fill: spend cap that reduced the amount
+}
+
+/**
+ * Input for PurchaseLedger.record() - derived fields are calculated
+ */
+export type PurchaseInput = Omit<PurchaseEntry, 'timestamp' | 'totalCost' | 'holdingAfter' | 'runId'> & {
+    timestamp?: string;
+};
+
+/**
+ * Structure of data/purchase-log.json
+ */
+export interface PurchaseLog {
+    purchases: PurchaseEntry[];
+    lastUpdated: string;
+}
+
+/**
+ * Filter for PurchaseLedger.query()
+ */
+export interface PurchaseQuery {
+    commodity?: Commodity;
+    since?: Date | string;                  // Purchases at or after this time
+    until?: Date | string;                  // Purchases before this time
+}
+
+/**
+ * Spend of one commodity in one day ("2025-01-15") or ISO week ("2025-W03")
+ */
+export interface SpendPeriod {
+    period: string;
+    commodity: Commodity;
+    purchases: number;
+    amount: number;
+    totalCost: number;
+    avgPrice: number;                       // Volume-weighted unit price paid
+}
+
+/**
+ * Prices paid compared to the market in a time window
+ */
+export interface PriceComparison {
+    commodity: Commodity;
+    purchases: number;
+    amount: number;
+    totalCost: number;
+    avgPaid: number;                        // Volume-weighted unit price paid (0 = no purchases)
+    marketAvg: number;                      // Average of all price slots in the window (0 = no history)
+    savings: number;                        // $ saved vs. the 24h average at each purchase
+    savingsByBasis: Record<BuyBasis, number>;
+}
@@ -0,0 +1,67 @@
+import type { SpendingSettings } from '../config/configSchema';
+import type { Commodity } from '../07_journal.utils';
+import { PRICE_UNIT } from './purchaseTypes';
+
+/**
+ * Purchase that is about to be made
+ */
+export interface SpendRequest {
+    commodity: Commodity;
+    amount: number;                         // Amount the strategy wants to buy
+    unitPrice: number;                      // Price per PRICE_UNIT
+    cash: number | null;                    // Bank balance (null = unknown, cash caps are skipped)
+    spentToday: number;                     // $ already spent on this commodity today (UTC)
+}
+
+/**
+ * Amount allowed by the spend caps
+ */
+export interface SpendDecision {
+    amount: number;                         // Amount to buy (0 = nothing left in the budget)
+    budget: number;                         // $ the purchase may spend (Infinity = uncapped)
+    capReason: string | null;               // Why the amount was reduced (null = not capped)
+}
+
+/**
+ * Reduce a purchase to the spend caps (BOT_CONFIG.spending)
+ * - maxCashShare: at most this share of the current cash per purchase
+ * - minCashReserve: the cash left after the purchase never drops below the reserve
+ * - fuelDailyLimit / co2DailyLimit: spend per commodity and UTC day (0 = unlimited)
+ * The tightest cap wins, the amount is rounded down to whole units.
+ */
+export function applySpendLimits(request: SpendRequest, limits: SpendingSettings): SpendDecision {
+    const caps: { budget: number; reason: string }[] = [];
+
+    if (request.cash !== null) {
+        caps.push({
+            budget: request.cash * limits.maxCashShare,
+            reason: `max ${Math.round(limits.maxCashShare * 100)}% of cash $${request.cash.toLocaleString()}`
+        });
+        if (limits.minCashReserve > 0) {
+            caps.push({
+                budget: request.cash - limits.minCashReserve,
+                reason: `cash reserve $${limits.minCashReserve.toLocaleString()}`
+            });
+        }
+    }
+
+    const dailyLimit = request.commodity === 'fuel' ? limits.fuelDailyLimit : limits.co2DailyLimit;
+    if (dailyLimit > 0) {
+        caps.push({
+            budget: dailyLimit - request.spentToday,
+            reason: `daily limit $${dailyLimit.toLocaleString()} ($${request.spentToday.toLocaleString()} spent today)`
+        });
+    }
+
+    const tightest = caps.reduce<{ budget: number; reason: string } | null>(
+        (min, cap) => (min === null || cap.budget < min.budget ? cap : min),
+        null
+    );
+    const budget = tightest ? Math.max(0, Math.floor(tightest.budget)) : Infinity;
+    const affordable = request.unitPrice > 0 ? Math.floor(budget / request.unitPrice * PRICE_UNIT) : request.amount;
+
+    if (affordable >= request.amount) {
+        return { amount: request.amount, budget, capReason: null };
+    }
+    return { amount: affordable, budget, capReason: tightest!.reason };
+}
@@ -0,0 +1,208 @@
+import { BOT_CONFIG } from '../../config';
+import { TimeslotEntry, priceOf } from '../05_priceAnalytics.utils';
+import type { Commodity } from '../07_journal.utils';
+import {
+    ChartPricePoint,
+    ChartValidationReport,
+    ChartValidationResult,
+    PriceConflict,
+    RawChartPoint,
+    RejectedPoint,
+    RejectionReason
+} from './qualityTypes';
+
+const SLOT_MS = 1800000;
+const DAY_MS = 24 * 3600000;
+
+/**
+ * The newest chart point may be this far ahead of the local clock (game/server clock skew)
+ */
+const CLOCK_SKEW_MS = SLOT_MS;
+
+/**
+ * Outliers are only detected with this many points (the median is meaningless below)
+ */
+const MIN_POINTS_FOR_OUTLIERS = 5;
+
+/**
+ * Lower bound of the outlier scale as a share of the median (flat charts have a MAD of 0)
+ */
+const MIN_SCALE_SHARE = 0.02;
+
+function slotOf(time: number): number {
+    return Math.floor(time / SLOT_MS) * SLOT_MS;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Parse "HH:MM" / "HH:MM:SS" into minutes of the day
+ * @returns null if the label is no valid time of day
+ */
+function minutesOfDay(label: string): number | null {
+    const match = /^\s*(\d{1,2}):(\d{2})(?::\d{2})?\s*$/.exec(label);
+    if (!match) return null;
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+/**
+ * Infer the timeslots of chart labels that only show the time of day
+ * The chart lists its points oldest first and ends at the current slot, so the
+ * dates are assigned backwards: the last point gets the latest occurrence of its
+ * time not after now, every earlier point the latest occurrence not after its
+ * successor. This keeps the sequence monotonic across midnight and for charts
+ * spanning more than 24 hours.
+ * @returns ISO timeslot per label (null = label could not be parsed)
+ */
+export function inferChartTimestamps(labels: string[], now: Date = new Date()): (string | null)[] {
+    const midnight = Math.floor(now.getTime() / DAY_MS) * DAY_MS;
+    const timestamps: (string | null)[] = new Array(labels.length).fill(null);
+    let bound = now.getTime() + CLOCK_SKEW_MS;
+
+    for (let i = labels.length - 1; i >= 0; i--) {
+        const minutes = minutesOfDay(labels[i]);
+        if (minutes === null) continue;
+
+        let time = midnight + minutes * 60000;
+        while (time > bound) {
+            time -= DAY_MS;
+        }
+        timestamps[i] = new Date(slotOf(time)).toISOString();
+        bound = time;
+    }
+    return timestamps;
+}
+
+/**
+ * Validate a scraped chart before it is merged into the price history
+ * - rejects unparsable labels, zero/negative prices, duplicate slots and
+ *   outliers (more than `quality.outlierFactor` median absolute deviations from
+ *   the median of the chart)
+ * - counts the missing slots between the first and the last accepted point
+ * - reconciles slots that already have a price: differences within
+ *   `quality.conflictTolerancePercent` are ignored, larger ones are replaced by
+ *   the scrape only if its slot sequence is clean (no gaps, duplicates or bad
+ *   labels), otherwise the stored price is kept
+ * @param existing Stored timeslots (e.g. loadHistory().timeslots)
+ */
+export function validateChartPoints(
+    commodity: Commodity,
+    raw: RawChartPoint[],
+    existing: TimeslotEntry[],
+    now: Date = new Date(),
+    outlierFactor: number = BOT_CONFIG.quality.outlierFactor,
+    conflictTolerancePercent: number = BOT_CONFIG.quality.conflictTolerancePercent
+): ChartValidationResult {
+    const timestamps = inferChartTimestamps(raw.map(point => point.label), now);
+    const rejections: { index: number; point: RejectedPoint }[] = [];
+    const reject = (index: number, reason: RejectionReason) => rejections.push({
+        index,
+        point: { label: raw[index].label, timestamp: timestamps[index], price: raw[index].price, reason }
+    });
+
+    // Labels, prices and duplicates (the newest point of a slot wins)
+    const candidates: { index: number; timestamp: string; price: number }[] = [];
+    const seen = new Set<string>();
+    for (let i = raw.length - 1; i >= 0; i--) {
+        const timestamp = timestamps[i];
+        const price = raw[i].price;
+        if (timestamp === null) {
+            reject(i, 'invalid-label');
+        } else if (!Number.isFinite(price) || price <= 0) {
+            reject(i, 'non-positive');
+        } else if (seen.has(timestamp)) {
+            reject(i, 'duplicate-slot');
+        } else {
+            seen.add(timestamp);
+            candidates.unshift({ index: i, timestamp, price });
+        }
+    }
+
+    // Outliers
+    let plausible = candidates;
+    if (candidates.length >= MIN_POINTS_FOR_OUTLIERS) {
+        const mid = median(candidates.map(point => point.price));
+        const mad = median(candidates.map(point => Math.abs(point.price - mid)));
+        const scale = Math.max(1.4826 * mad, mid * MIN_SCALE_SHARE);
+        plausible = candidates.filter(point => {
+            if (Math.abs(point.price - mid) <= outlierFactor * scale) return true;
+            reject(point.index, 'outlier');
+            return false;
+        });
+    }
+
+    // Contiguity of the accepted slots
+    let missingSlots = 0;
+    for (let i = 1; i < plausible.length; i++) {
+        const step = new Date(plausible[i].timestamp).getTime() - new Date(plausible[i - 1].timestamp).getTime();
+        missingSlots += Math.max(0, Math.round(step / SLOT_MS) - 1);
+    }
+
+    // Conflicts with stored prices
+    const trusted = missingSlots === 0 && !rejections.some(({ point }) => point.reason === 'invalid-label' || point.reason === 'duplicate-slot');
+    const stored = new Map(existing.flatMap(entry => {
+        const price = priceOf(entry, commodity);
+        const observed = entry.sources?.[commodity]?.source === 'observed';    // Reconciled separately
+        return price !== null && !observed ? [[entry.timestamp, price] as const] : [];
+    }));
+    const conflicts: PriceConflict[] = [];
+    const points: ChartPricePoint[] = [];
+    for (const point of plausible) {
+        const storedPrice = stored.get(point.timestamp);
+        if (storedPrice !== undefined && Math.abs(point.price - storedPrice) / storedPrice * 100 > conflictTolerancePercent) {
+            conflicts.push({ timestamp: point.timestamp, stored: storedPrice, scraped: point.price, resolution: trusted ? 'replaced' : 'kept' });
+            if (!trusted) {
+                reject(point.index, 'conflict');
+                continue;
+            }
+        }
+        points.push({ timestamp: point.timestamp, price: point.price });
+    }
+
+    const report: ChartValidationReport = {
+        commodity,
+        received: raw.length,
+        accepted: points.length,
+        rejected: rejections.sort((a, b) => a.index - b.index).map(({ point }) => point),
+        first: plausible[0]?.timestamp ?? null,
+        last: plausible[plausible.length - 1]?.timestamp ?? null,
+        missingSlots,
+        conflicts,
+        score: raw.length > 0 ? Math.round(100 * points.length / (raw.length + missingSlots)) : 0
+    };
+    return { points, report };
+}
+
+/**
+ * Console data-quality report of a chart scrape
+ */
+export function formatChartValidation(report: ChartValidationReport): string {
+    const name = report.commodity.toUpperCase();
+    const counts = new Map<RejectionReason, number>();
+    for (const point of report.rejected) {
+        counts.set(point.reason, (counts.get(point.reason) ?? 0) + 1);
+    }
+
+    const lines = [`🧪 ${name} chart quality: ${report.score}% - ${report.accepted} of ${report.received} points accepted`];
+    if (report.first && report.last) {
+        const sequence = report.missingSlots === 0 ? 'contiguous' : `${report.missingSlots} missing slot(s)`;
+        lines.push(`   Range: ${report.first.slice(0, 16)} → ${report.last.slice(0, 16)} UTC (${sequence})`);
+    }
+    if (counts.size > 0) {
+        lines.push(`   Rejected: ${[...counts].map(([reason, count]) => `${count} ${reason}`).join(', ')}`);
+    }
+    for (const point of report.rejected.filter(point => point.reason === 'outlier' || point.reason === 'non-positive')) {
+        lines.push(`   ⚠️  ${point.label} $${point.price} (${point.reason})`);
+    }
+    if (report.conflicts.length > 0) {
+        const replaced = report.conflicts.filter(conflict => conflict.resolution === 'replaced').length;
+        lines.push(`   Conflicts with stored prices: ${report.conflicts.length} (${replaced} replaced, ${report.conflicts.length - replaced} kept)`);
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,59 @@
+import { BOT_CONFIG } from '../../config';
+import type { TimeslotEntry } from '../05_priceAnalytics.utils';
+import type { Commodity } from '../07_journal.utils';
+import { PriceMismatch, ReconciliationReport } from './qualityTypes';
+
+/**
+ * Compare the live purchase-screen prices with the chart prices of the same slots
+ * Only slots whose stored price came from the chart are compared. A steady bias
+ * points at a systematic scraping error (wrong slot assignment, parsing), single
+ * mismatches at a price change within the slot.
+ * @param since Only slots from this time on (default: all)
+ */
+export function reconcileObservedPrices(
+    commodity: Commodity,
+    timeslots: TimeslotEntry[],
+    since?: Date,
+    tolerancePercent: number = BOT_CONFIG.quality.conflictTolerancePercent
+): ReconciliationReport {
+    const diffs: PriceMismatch[] = [];
+    for (const entry of timeslots) {
+        if (since && new Date(entry.timestamp).getTime() < since.getTime()) continue;
+        const observed = entry.observed?.[commodity];
+        const chart = entry[commodity];
+        if (observed === undefined || chart === null || chart <= 0 || entry.sources?.[commodity]?.source !== 'chart') continue;
+        diffs.push({ timestamp: entry.timestamp, observed, chart, diffPercent: (observed - chart) / chart * 100 });
+    }
+
+    const mismatches = diffs.filter(diff => Math.abs(diff.diffPercent) > tolerancePercent);
+    return {
+        commodity,
+        compared: diffs.length,
+        matching: diffs.length - mismatches.length,
+        mismatches,
+        biasPercent: diffs.length > 0 ? diffs.reduce((sum, diff) => sum + diff.diffPercent, 0) / diffs.length : 0,
+        maxDiffPercent: diffs.reduce((max, diff) => Math.max(max, Math.abs(diff.diffPercent)), 0)
+    };
+}
+
+/**
+ * Console report of the observed-vs-chart comparison
+ * @param maxListed Mismatches listed individually (newest first)
+ */
+export function formatReconciliation(report: ReconciliationReport, maxListed: number = 5): string {
+    const name = report.commodity.toUpperCase();
+    if (report.compared === 0) {
+        return `🔍 ${name} observed vs. chart: no slots with both prices yet`;
+    }
+
+    const icon = report.mismatches.length === 0 ? '✅' : '⚠️ ';
+    const lines = [
+        `${icon} ${name} observed vs. chart: ${report.matching} of ${report.compared} slot(s) match, ` +
+            `bias ${report.biasPercent >= 0 ? '+' : ''}${report.biasPercent.toFixed(1)}%, max ${report.maxDiffPercent.toFixed(1)}%`
+    ];
+    for (const mismatch of report.mismatches.slice(-maxListed).reverse()) {
+        lines.push(`   ${mismatch.timestamp.slice(0, 16)} UTC  observed $${mismatch.observed}, chart $${mismatch.chart} ` +
+            `(${mismatch.diffPercent >= 0 ? '+' : ''}${mismatch.diffPercent.toFixed(1)}%)`);
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,97 @@
+// TypeScript interfaces for the Price Data Quality checks
+
+import type { Commodity } from '../07_journal.utils';
+
+/**
+ * Chart point as read from the Highcharts series (the label has no date)
+ */
+export interface RawChartPoint {
+    label: string;                          // Time of day, e.g. "13:00:00" (UTC)
+    price: number;
+}
+
+/**
+ * Chart point with its inferred 30-minute timeslot
+ */
+export interface ChartPricePoint {
+    timestamp: string;                      // ISO-8601 timeslot (UTC)
+    price: number;
+}
+
+/**
+ * Why a chart point was not added to the history
+ * - invalid-label:  time label could not be parsed
+ * - non-positive:   price is zero, negative or not a number
+ * - duplicate-slot: a later point already covers the slot
+ * - outlier:        price too far from the median of the chart
+ * - conflict:       differs from the stored price and the scrape is not trusted to replace it
+ */
+export type RejectionReason = 'invalid-label' | 'non-positive' | 'duplicate-slot' | 'outlier' | 'conflict';
+
+export interface RejectedPoint {
+    label: string;
+    timestamp: string | null;               // null = label could not be parsed
+    price: number;
+    reason: RejectionReason;
+}
+
+/**
+ * Slot with a stored price that differs from the scraped one
+ */
+export interface PriceConflict {
+    timestamp: string;
+    stored: number;
+    scraped: number;
+    resolution: 'replaced' | 'kept';        // replaced = the scraped price wins
+}
+
+/**
+ * Data-quality report of a single chart scrape
+ */
+export interface ChartValidationReport {
+    commodity: Commodity;
+    received: number;                       // Points read from the chart
+    accepted: number;                       // Points passed on to the price history
+    rejected: RejectedPoint[];
+    first: string | null;                   // Oldest accepted timeslot
+    last: string | null;                    // Newest accepted timeslot
+    missingSlots: number;                   // Gaps between the first and the last accepted slot
+    conflicts: PriceConflict[];
+    score: number;                          // 0-100: accepted share of received points and slots in the range
+}
+
+export interface ChartValidationResult {
+    points: ChartPricePoint[];              // Oldest first, ready for addExternalPriceEntries()
+    report: ChartValidationReport;
+}
+
+/**
+ * Slot whose live purchase-screen price differs from the chart price
+ */
+export interface PriceMismatch {
+    timestamp: string;
+    observed: number;
+    chart: number;
+    diffPercent: number;                    // (observed - chart) / chart, signed
+}
+
+/**
+ * Live purchase-screen prices compared with the chart prices of the same slots
+ */
+export interface ReconciliationReport {
+    commodity: Commodity;
+    compared: number;                       // Slots with both an observed and a chart price
+    matching: number;                       // Within the tolerance
+    mismatches: PriceMismatch[];
+    biasPercent: number;                    // Mean signed difference (systematic offset of one source)
+    maxDiffPercent: number;                 // Largest absolute difference
+}
+
+/**
+ * Run of consecutive slots without a price
+ */
+export interface MissingSlotRange {
+    start: string;                          // First missing timeslot (ISO-8601, UTC)
+    end: string;                            // Last missing timeslot
+    slots: number;
+}
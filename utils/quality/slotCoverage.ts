@@ -0,0 +1,52 @@
+import { TimeslotEntry, priceOf } from '../05_priceAnalytics.utils';
+import type { Commodity } from '../07_journal.utils';
+import { MissingSlotRange } from './qualityTypes';
+
+const SLOT_MS = 1800000;
+
+/**
+ * Completed slots between `since` and `until` without a price of the commodity,
+ * merged into ranges (oldest first)
+ * The slot still running at `until` is not counted, the charts may not show it yet.
+ */
+export function findMissingSlotRanges(
+    commodity: Commodity,
+    timeslots: TimeslotEntry[],
+    since: Date,
+    until: Date = new Date()
+): MissingSlotRange[] {
+    const priced = new Set(timeslots.filter(entry => priceOf(entry, commodity) !== null)
+        .map(entry => new Date(entry.timestamp).getTime()));
+    const ranges: MissingSlotRange[] = [];
+    let current: MissingSlotRange | null = null;
+
+    for (let slot = Math.ceil(since.getTime() / SLOT_MS) * SLOT_MS; slot + SLOT_MS <= until.getTime(); slot += SLOT_MS) {
+        if (priced.has(slot)) {
+            current = null;
+        } else if (current) {
+            current.end = new Date(slot).toISOString();
+            current.slots++;
+        } else {
+            current = { start: new Date(slot).toISOString(), end: new Date(slot).toISOString(), slots: 1 };
+            ranges.push(current);
+        }
+    }
+    return ranges;
+}
+
+/**
+ * Short list of missing ranges for the console ("02:00-04:30 UTC (6 slots), ...")
+ * @param maxRanges Ranges listed individually
+ */
+export function formatMissingSlotRanges(ranges: MissingSlotRange[], maxRanges: number = 5): string {
+    const listed = ranges.slice(0, maxRanges).map(range => {
+        const start = range.start.slice(11, 16);
+        return range.slots === 1
+            ? `${start} UTC`
+            : `${start}-${range.end.slice(11, 16)} UTC (${range.slots} slots)`;
+    });
+    if (ranges.length > maxRanges) {
+        listed.push(`${ranges.length - maxRanges} more`);
+    }
+    return listed.join(', ');
+}
@@ -0,0 +1,189 @@
+import type { PurchaseEntry } from '../12_purchases.utils';
+import type { PricePoint } from '../14_strategies.utils';
+import type { ForecastPoint } from '../22_forecast.utils';
+import { CommodityReport, PriceBand, PriceReport } from './reportTypes';
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+const GAP_MS = 2 * HOUR_MS;                 // Longer gaps between prices break the lines and bands
+
+const WIDTH = 960;
+const HEIGHT = 320;
+const MARGIN = { top: 16, right: 16, bottom: 32, left: 64 };
+
+const STYLE = `
+body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; margin: 24px; color: #1f2933; background: #f7f9fb; }
+h1 { font-size: 22px; margin-bottom: 4px; }
+h2 { font-size: 18px; margin: 0 0 12px; }
+section { background: #fff; border: 1px solid #d9e2ec; border-radius: 6px; padding: 16px; margin-top: 20px; }
+.meta { color: #627d98; font-size: 13px; }
+.summary { display: flex; flex-wrap: wrap; gap: 8px 24px; margin-bottom: 12px; font-size: 14px; }
+.summary div span { color: #627d98; margin-right: 6px; }
+.badge { padding: 1px 8px; border-radius: 10px; color: #fff; font-weight: 600; }
+.buy, .good { background: #2f9e44; } .wait, .fair { background: #e8a317; } .emergency, .poor { background: #d64545; }
+svg { width: 100%; height: auto; }
+svg text { font-size: 11px; fill: #627d98; }
+.legend { font-size: 12px; color: #627d98; margin-top: 4px; }
+.legend i { display: inline-block; width: 12px; height: 12px; margin: 0 4px -2px 12px; border-radius: 2px; }
+table { border-collapse: collapse; font-size: 13px; margin-top: 12px; }
+th, td { text-align: left; padding: 3px 10px; border-bottom: 1px solid #e4e7eb; }
+`;
+
+const BASIS_COLORS = { intelligent: '#2f9e44', threshold: '#e8a317', emergency: '#d64545' };
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function money(value: number): string {
+    return `$${value.toLocaleString('en-US')}`;
+}
+
+/**
+ * Split a series where two consecutive slots are more than GAP_MS apart
+ */
+function segments<T extends { timestamp: string }>(items: T[]): T[][] {
+    const result: T[][] = [];
+    let previous = -Infinity;
+    for (const item of items) {
+        const time = new Date(item.timestamp).getTime();
+        if (result.length === 0 || time - previous > GAP_MS) result.push([]);
+        result[result.length - 1].push(item);
+        previous = time;
+    }
+    return result;
+}
+
+/**
+ * Inline SVG chart of one commodity: 7d and 24h min-max bands, the price line,
+ * a marker per purchase (colored by decision basis, details as tooltip) and the
+ * forecast of the next slots with its prediction interval (extends the x axis)
+ */
+export function renderPriceChart(report: CommodityReport, since: Date, until: Date): string {
+    const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+    const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+    const forecast = report.stats?.forecast.points ?? [];
+    const values = [
+        ...report.prices.map(point => point.price),
+        ...report.band7d.flatMap(band => [band.min, band.max]),
+        ...report.purchases.map(entry => entry.unitPrice),
+        ...forecast.flatMap(point => [point.low, point.high])
+    ];
+    const low = Math.min(...values);
+    const high = Math.max(...values);
+    const padding = Math.max((high - low) * 0.05, 1);
+    const minY = Math.max(0, low - padding);
+    const maxY = high + padding;
+
+    const start = since.getTime();
+    const end = forecast.length > 0
+        ? Math.max(until.getTime(), new Date(forecast[forecast.length - 1].timestamp).getTime())
+        : until.getTime();
+    const span = Math.max(end - start, 1);
+    const x = (timestamp: string) => (MARGIN.left + (new Date(timestamp).getTime() - start) / span * plotWidth).toFixed(1);
+    const y = (price: number) => (MARGIN.top + (maxY - price) / (maxY - minY) * plotHeight).toFixed(1);
+
+    const band = (bands: PriceBand[], color: string) => segments(bands).map(segment => {
+        const upper = segment.map(entry => `${x(entry.timestamp)},${y(entry.max)}`);
+        const lower = [...segment].reverse().map(entry => `${x(entry.timestamp)},${y(entry.min)}`);
+        return `<polygon points="${[...upper, ...lower].join(' ')}" fill="${color}" stroke="none"/>`;
+    }).join('');
+    const line = (points: PricePoint[]) => segments(points).map(segment =>
+        `<polyline points="${segment.map(point => `${x(point.timestamp)},${y(point.price)}`).join(' ')}" fill="none" stroke="#1c7ed6" stroke-width="1.5"/>`
+    ).join('');
+    const forecastChart = (points: ForecastPoint[]) => {
+        if (points.length === 0) return '';
+        const upper = points.map(point => `${x(point.timestamp)},${y(point.high)}`);
+        const lower = [...points].reverse().map(point => `${x(point.timestamp)},${y(point.low)}`);
+        const latest = report.prices[report.prices.length - 1];
+        const path = [...(latest ? [latest] : []), ...points].map(point => `${x(point.timestamp)},${y(point.price)}`);
+        return `<polygon points="${[...upper, ...lower].join(' ')}" fill="#ffe8cc" stroke="none"/>` +
+            `<polyline points="${path.join(' ')}" fill="none" stroke="#f76707" stroke-width="1.5" stroke-dasharray="4 3"/>`;
+    };
+    const marker = (entry: PurchaseEntry) => {
+        const tooltip = `${entry.timestamp.slice(0, 16).replace('T', ' ')} UTC: ${entry.amount.toLocaleString('en-US')} at ` +
+            `${money(entry.unitPrice)} (${money(entry.totalCost)}, ${entry.basis})\n${entry.reason}`;
+        return `<circle cx="${x(entry.timestamp)}" cy="${y(entry.unitPrice)}" r="5" fill="${BASIS_COLORS[entry.basis]}" ` +
+            `stroke="#fff" stroke-width="1.5"><title>${escapeHtml(tooltip)}</title></circle>`;
+    };
+
+    const yTicks = Array.from({ length: 5 }, (_, i) => minY + (maxY - minY) * i / 4).map(price =>
+        `<line x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${y(price)}" y2="${y(price)}" stroke="#e4e7eb"/>` +
+        `<text x="${MARGIN.left - 6}" y="${y(price)}" text-anchor="end" dominant-baseline="middle">${money(Math.round(price))}</text>`
+    );
+    const dayStep = Math.ceil(span / DAY_MS / 14);
+    const xTicks: string[] = [];
+    for (let day = Math.ceil(start / DAY_MS) * DAY_MS, i = 0; day <= end; day += DAY_MS, i++) {
+        if (i % dayStep !== 0) continue;
+        const timestamp = new Date(day).toISOString();
+        xTicks.push(`<line x1="${x(timestamp)}" x2="${x(timestamp)}" y1="${MARGIN.top}" y2="${HEIGHT - MARGIN.bottom}" stroke="#e4e7eb"/>` +
+            `<text x="${x(timestamp)}" y="${HEIGHT - MARGIN.bottom + 16}" text-anchor="middle">${timestamp.slice(5, 10)}</text>`);
+    }
+
+    return `<svg viewBox="0 0 ${WIDTH} ${HEIGHT}" xmlns="http://www.w3.org/2000/svg" role="img" ` +
+        `aria-label="${report.commodity} price history">` +
+        yTicks.join('') + xTicks.join('') +
+        band(report.band7d, '#d0ebff') +
+        band(report.band24h, '#a5d8ff') +
+        line(report.prices) +
+        forecastChart(forecast) +
+        report.purchases.map(marker).join('') +
+        '</svg>';
+}
+
+function renderCommodity(report: CommodityReport, since: Date, until: Date): string {
+    const title = report.commodity.toUpperCase();
+    if (report.prices.length === 0 || !report.stats) {
+        return `<section><h2>${title}</h2><p>No prices recorded in this period.</p></section>`;
+    }
+
+    const { stats, comparison } = report;
+    const { forecast } = stats;
+    const next = forecast.points[0];
+    const last = forecast.points[forecast.points.length - 1];
+    const quality = report.qualityScore >= 80 ? 'good' : report.qualityScore >= 50 ? 'fair' : 'poor';
+    const summary = [
+        ['Current', money(stats.current)],
+        ['Recommendation', `<span class="badge ${stats.recommendation}">${stats.recommendation.toUpperCase()}</span>`],
+        ['Trend', stats.trend],
+        ['Confidence', `${stats.confidence}%`],
+        ['Forecast', next
+            ? `${money(next.price)} next slot (${money(next.low)} - ${money(next.high)}), ${money(last.price)} at ` +
+                `${last.timestamp.slice(11, 16)} UTC (${money(last.low)} - ${money(last.high)}, ${forecast.intervalPercent}% interval)`
+            : 'not enough prices'],
+        ['Forecast error', next ? `${forecast.errorPercent}% over the last ${forecast.evaluated} slots` : '-'],
+        ['Strategy', escapeHtml(report.strategy)],
+        ['Data quality', `<span class="badge ${quality}">${report.qualityScore}/100</span>`],
+        ['24h', `${money(stats.avg24h)} avg (${money(stats.min24h)} - ${money(stats.max24h)})`],
+        ['7d', `${money(stats.avg7d)} avg (${money(stats.min7d)} - ${money(stats.max7d)})`],
+        ['Paid', comparison.purchases > 0
+            ? `${money(comparison.avgPaid)} avg vs. ${money(comparison.marketAvg)} market, saved ${money(comparison.savings)}`
+            : 'no purchases']
+    ].map(([label, value]) => `<div><span>${label}</span>${value}</div>`).join('');
+
+    const rows = [...report.purchases].reverse().map(entry => `<tr><td>${entry.timestamp.slice(0, 16).replace('T', ' ')}</td>` +
+        `<td>${entry.amount.toLocaleString('en-US')}</td><td>${money(entry.unitPrice)}</td><td>${money(entry.totalCost)}</td>` +
+        `<td>${entry.basis}</td><td>${escapeHtml(entry.reason)}</td></tr>`).join('');
+    const table = rows
+        ? `<table><tr><th>Time (UTC)</th><th>Amount</th><th>Price</th><th>Total</th><th>Basis</th><th>Reason</th></tr>${rows}</table>`
+        : '';
+
+    return `<section><h2>${title}</h2><div class="summary">${summary}</div>${renderPriceChart(report, since, until)}` +
+        '<div class="legend"><i style="background:#d0ebff"></i>7d range<i style="background:#a5d8ff"></i>24h range' +
+        '<i style="background:#1c7ed6"></i>price<i style="background:#f76707"></i>forecast<i style="background:#2f9e44"></i>intelligent buy' +
+        '<i style="background:#e8a317"></i>threshold buy<i style="background:#d64545"></i>emergency buy</div>' +
+        `${table}</section>`;
+}
+
+/**
+ * Self-contained HTML page (inline CSS and SVG, no scripts or external files)
+ */
+export function renderHtmlReport(report: PriceReport): string {
+    const since = new Date(report.since);
+    const until = new Date(report.generatedAt);
+    return '<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n' +
+        `<title>AM4 Price Report ${report.generatedAt.slice(0, 10)}</title>\n<style>${STYLE}</style>\n</head>\n<body>\n` +
+        `<h1>AM4 Price Report</h1>\n<div class="meta">Last ${report.days} day(s), generated ${report.generatedAt.slice(0, 16).replace('T', ' ')} UTC</div>\n` +
+        report.commodities.map(commodity => renderCommodity(commodity, since, until)).join('\n') +
+        '\n</body>\n</html>\n';
+}
@@ -0,0 +1,75 @@
+import { BOT_CONFIG } from '../../config';
+import { PriceAnalyticsUtils, priceOf } from '../05_priceAnalytics.utils';
+import type { Commodity } from '../07_journal.utils';
+import { PurchaseLedger, comparePrices } from '../12_purchases.utils';
+import { PricePoint, StrategyName } from '../14_strategies.utils';
+import { CommodityReport, PriceBand, PriceReport } from './reportTypes';
+
+const HOUR_MS = 3600000;
+const COMMODITIES: Commodity[] = ['fuel', 'co2'];
+
+/**
+ * Trailing band at every price of `points` (window of `hours` ending at the price)
+ * @param history Prices the windows are taken from, oldest first (may start before `points`)
+ */
+export function trailingBands(points: PricePoint[], history: PricePoint[], hours: number): PriceBand[] {
+    const times = history.map(point => new Date(point.timestamp).getTime());
+    let start = 0;
+    let end = 0;
+
+    return points.map(point => {
+        const time = new Date(point.timestamp).getTime();
+        while (end < history.length && times[end] <= time) end++;
+        while (start < end && times[start] <= time - hours * HOUR_MS) start++;
+
+        const window = history.slice(start, end).map(entry => entry.price);
+        if (window.length === 0) {
+            return { timestamp: point.timestamp, min: point.price, avg: point.price, max: point.price };
+        }
+        return {
+            timestamp: point.timestamp,
+            min: Math.min(...window),
+            avg: Math.round(window.reduce((sum, price) => sum + price, 0) / window.length),
+            max: Math.max(...window)
+        };
+    });
+}
+
+/**
+ * Collect the data of the HTML report: prices of the last `days` with their
+ * 24h/7d bands, the purchases of the window, the current recommendation and
+ * the data-quality score per commodity
+ */
+export function buildPriceReport(
+    days: number = 7,
+    analytics: PriceAnalyticsUtils = new PriceAnalyticsUtils(),
+    ledger: PurchaseLedger = new PurchaseLedger(),
+    now: Date = new Date()
+): PriceReport {
+    const since = new Date(now.getTime() - days * 24 * HOUR_MS);
+    const history = analytics.loadHistory();
+    const purchases = ledger.query({ since, until: now });
+
+    const commodities = COMMODITIES.map((commodity): CommodityReport => {
+        const all = history.timeslots.flatMap(entry => {
+            const price = priceOf(entry, commodity);
+            return price !== null ? [{ timestamp: entry.timestamp, price }] : [];
+        });
+        const prices = all.filter(point => new Date(point.timestamp).getTime() >= since.getTime());
+        const latest = all[all.length - 1];
+
+        return {
+            commodity,
+            prices,
+            band24h: trailingBands(prices, all, 24),
+            band7d: trailingBands(prices, all, 168),
+            purchases: purchases.filter(entry => entry.commodity === commodity),
+            comparison: comparePrices(purchases, history.timeslots, commodity, since, now),
+            stats: latest ? analytics.getStatistics(commodity, latest.price, { history, now }) : null,
+            strategy: BOT_CONFIG.strategies[commodity] as StrategyName,
+            qualityScore: analytics.checkDataQuality(commodity)
+        };
+    });
+
+    return { generatedAt: now.toISOString(), since: since.toISOString(), days, commodities };
+}
@@ -0,0 +1,38 @@
+// TypeScript interfaces for the HTML Price Report
+
+import type { PriceStatistics } from '../05_priceAnalytics.utils';
+import type { Commodity } from '../07_journal.utils';
+import type { PriceComparison, PurchaseEntry } from '../12_purchases.utils';
+import type { PricePoint, StrategyName } from '../14_strategies.utils';
+
+/**
+ * Min/avg/max of the prices in the window ending at a timeslot
+ */
+export interface PriceBand {
+    timestamp: string;
+    min: number;
+    avg: number;
+    max: number;
+}
+
+/**
+ * Everything the report shows for one commodity
+ */
+export interface CommodityReport {
+    commodity: Commodity;
+    prices: PricePoint[];                   // Prices in the report window, oldest first
+    band24h: PriceBand[];                   // Trailing 24h band at every price
+    band7d: PriceBand[];                    // Trailing 7d band at every price
+    purchases: PurchaseEntry[];             // Purchases in the report window
+    comparison: PriceComparison;            // Prices paid vs. market in the window
+    stats: PriceStatistics | null;          // getStatistics() of the latest price (null = no prices)
+    strategy: StrategyName;
+    qualityScore: number;                   // checkDataQuality() 0-100
+}
+
+export interface PriceReport {
+    generatedAt: string;                    // ISO-8601
+    since: string;                          // Start of the report window
+    days: number;
+    commodities: CommodityReport[];
+}
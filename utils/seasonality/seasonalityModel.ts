@@ -0,0 +1,171 @@
+import { BOT_CONFIG } from '../../config';
+import type { PricePoint } from '../14_strategies.utils';
+import { CheaperSlot, SeasonalResolution, SlotPrediction, SlotProfile } from './seasonalityTypes';
+
+const HOUR_MS = 3600000;
+const SLOT_MS = 1800000;
+
+/**
+ * Slot of the day (0-47, UTC)
+ */
+function daySlot(time: Date): number {
+    return time.getUTCHours() * 2 + (time.getUTCMinutes() >= 30 ? 1 : 0);
+}
+
+/**
+ * Slot of the week (0-335, UTC, Sunday first)
+ */
+function weekSlot(time: Date): number {
+    return time.getUTCDay() * 48 + daySlot(time);
+}
+
+function toProfiles(groups: Map<number, number[]>): Map<number, SlotProfile> {
+    const profiles = new Map<number, SlotProfile>();
+    for (const [slot, ratios] of groups) {
+        const factor = ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length;
+        const variance = ratios.reduce((sum, ratio) => sum + (ratio - factor) ** 2, 0) / ratios.length;
+        profiles.set(slot, { factor, spread: Math.sqrt(variance), samples: ratios.length });
+    }
+    return profiles;
+}
+
+function addTo(groups: Map<number, number[]>, slot: number, ratio: number): void {
+    const ratios = groups.get(slot);
+    if (ratios) {
+        ratios.push(ratio);
+    } else {
+        groups.set(slot, [ratio]);
+    }
+}
+
+/**
+ * Seasonality Model
+ * Learns how much each 30-minute slot of the day (and of the week, where a
+ * weekday slot has `minSamplesPerSlot` samples) deviates from the mean price of
+ * the window, and predicts upcoming slots as the recent deseasonalized price
+ * level times the slot factor. Confidence grows with the samples of a slot and
+ * shrinks with their spread.
+ *
+ * Usage:
+ *   const model = SeasonalityModel.fit(prices);
+ *   const next = model.predict(new Date(), 6);
+ *   const cheaper = model.findCheaperSlot(currentPrice, new Date());
+ */
+export class SeasonalityModel {
+    private constructor(
+        public readonly level: number,
+        private daily: Map<number, SlotProfile>,
+        private weekly: Map<number, SlotProfile>,
+        private minSamples: number
+    ) {}
+
+    /**
+     * Fit the slot profiles to the prices of the last `windowDays`
+     * @param prices Prices of one commodity (missing prices already removed)
+     */
+    public static fit(
+        prices: PricePoint[],
+        now: Date = new Date(),
+        windowDays: number = BOT_CONFIG.seasonality.windowDays,
+        minSamples: number = BOT_CONFIG.seasonality.minSamplesPerSlot
+    ): SeasonalityModel {
+        const since = now.getTime() - windowDays * 24 * HOUR_MS;
+        const window = prices.filter(point => {
+            const time = new Date(point.timestamp).getTime();
+            return time >= since && time <= now.getTime() && point.price > 0;
+        });
+        if (window.length === 0) {
+            return new SeasonalityModel(0, new Map(), new Map(), minSamples);
+        }
+
+        const mean = window.reduce((sum, point) => sum + point.price, 0) / window.length;
+        const dailyGroups = new Map<number, number[]>();
+        const weeklyGroups = new Map<number, number[]>();
+        for (const point of window) {
+            const time = new Date(point.timestamp);
+            addTo(dailyGroups, daySlot(time), point.price / mean);
+            addTo(weeklyGroups, weekSlot(time), point.price / mean);
+        }
+        const daily = toProfiles(dailyGroups);
+        const weekly = toProfiles(weeklyGroups);
+
+        // Recent level: the last 24 hours with the daily pattern removed
+        const recent = window.filter(point => new Date(point.timestamp).getTime() >= now.getTime() - 24 * HOUR_MS);
+        const deseasonalized = recent.map(point => {
+            const profile = daily.get(daySlot(new Date(point.timestamp)));
+            return profile && profile.samples >= minSamples ? point.price / profile.factor : point.price;
+        });
+        const level = deseasonalized.length > 0
+            ? deseasonalized.reduce((sum, price) => sum + price, 0) / deseasonalized.length
+            : mean;
+
+        return new SeasonalityModel(level, daily, weekly, minSamples);
+    }
+
+    /**
+     * Predict the next `count` slots after `from`
+     */
+    public predict(from: Date, count: number): SlotPrediction[] {
+        const firstSlot = Math.floor(from.getTime() / SLOT_MS) * SLOT_MS + SLOT_MS;
+        const predictions: SlotPrediction[] = [];
+
+        for (let i = 0; i < count; i++) {
+            const time = new Date(firstSlot + i * SLOT_MS);
+            const { profile, resolution } = this.profileFor(time);
+            const factor = profile?.factor ?? 1;
+            const spread = profile?.spread ?? 0;
+            const samples = profile?.samples ?? 0;
+            const sampleWeight = Math.min(1, samples / (this.minSamples * 2));
+
+            predictions.push({
+                timestamp: time.toISOString(),
+                price: Math.round(this.level * factor),
+                low: Math.round(this.level * (factor - spread)),
+                high: Math.round(this.level * (factor + spread)),
+                confidence: profile ? Math.round(100 * sampleWeight * Math.max(0, 1 - spread / factor * 5)) : 0,
+                samples,
+                resolution
+            });
+        }
+        return predictions;
+    }
+
+    /**
+     * Cheapest confidently predicted slot within the lookahead that beats the
+     * current price by at least `minSavingPercent` (null = buying now is fine)
+     */
+    public findCheaperSlot(
+        currentPrice: number,
+        from: Date,
+        lookaheadHours: number = BOT_CONFIG.seasonality.lookaheadHours,
+        minSavingPercent: number = BOT_CONFIG.seasonality.minSavingPercent,
+        minConfidence: number = BOT_CONFIG.seasonality.minConfidence
+    ): CheaperSlot | null {
+        if (this.level <= 0) return null;
+
+        const limit = currentPrice * (1 - minSavingPercent / 100);
+        const candidates = this.predict(from, Math.floor(lookaheadHours * 2))
+            .filter(prediction => prediction.confidence >= minConfidence && prediction.price <= limit)
+            .sort((a, b) => a.price - b.price);
+        if (candidates.length === 0) return null;
+
+        const prediction = candidates[0];
+        return {
+            prediction,
+            hoursUntil: (new Date(prediction.timestamp).getTime() - from.getTime()) / HOUR_MS,
+            savingPercent: (currentPrice - prediction.price) / currentPrice * 100
+        };
+    }
+
+    private profileFor(time: Date): { profile: SlotProfile | null; resolution: SeasonalResolution } {
+        const weekly = this.weekly.get(weekSlot(time));
+        if (weekly && weekly.samples >= this.minSamples) {
+            return { profile: weekly, resolution: 'week' };
+        }
+        const daily = this.daily.get(daySlot(time));
+        if (daily && daily.samples >= this.minSamples) {
+            return { profile: daily, resolution: 'day' };
+        }
+        return { profile: null, resolution: 'none' };
+    }
+}
@@ -0,0 +1,40 @@
+// TypeScript interfaces for the Seasonality Model
+
+/**
+ * Which profile a prediction is based on
+ * - week: same 30-minute slot on the same weekday
+ * - day:  same 30-minute slot on any day
+ * - none: no history for the slot (recent level only, confidence 0)
+ */
+export type SeasonalResolution = 'week' | 'day' | 'none';
+
+/**
+ * Learned price distribution of one slot, relative to the mean of the window
+ */
+export interface SlotProfile {
+    factor: number;                         // Mean price of the slot / mean price of the window
+    spread: number;                         // Standard deviation of that ratio
+    samples: number;
+}
+
+/**
+ * Predicted price of an upcoming timeslot
+ */
+export interface SlotPrediction {
+    timestamp: string;                      // ISO-8601 timeslot (UTC)
+    price: number;
+    low: number;                            // price - 1 standard deviation
+    high: number;                           // price + 1 standard deviation
+    confidence: number;                     // 0-100, from the sample count and the spread of the slot
+    samples: number;
+    resolution: SeasonalResolution;
+}
+
+/**
+ * Cheaper upcoming slot worth waiting for
+ */
+export interface CheaperSlot {
+    prediction: SlotPrediction;
+    hoursUntil: number;
+    savingPercent: number;                  // Against the current price
+}
@@ -0,0 +1,201 @@
+import { Page } from "@playwright/test";
+import { GeneralUtils } from '../00_general.utils';
+import { Navigator } from '../11_navigation.utils';
+import { SELECTOR_DEFINITIONS, SelectorName } from './selectorRegistry';
+import { Selectors } from './selectors';
+import { SelectorCheck, SelectorSection, SelectorStatus } from './selectorTypes';
+
+/**
+ * Result of a selector doctor run
+ */
+export interface SelectorDoctorReport {
+    checks: SelectorCheck[];
+    counts: Record<SelectorStatus, number>;
+    healthy: boolean;                       // No broken selectors
+}
+
+/**
+ * How the doctor reaches a section (the navigator starts every path from the map)
+ * Only opens screens - nothing is bought, planned or departed.
+ */
+const SECTION_STEPS: Record<Exclude<SelectorSection, 'landing'>, (page: Page) => Promise<void>> = {
+    'map': page => Navigator.for(page).open('map'),
+    'fuel': page => Navigator.for(page).open('fuel'),
+    'co2': page => Navigator.for(page).open('co2'),
+    'marketing': page => Navigator.for(page).open('marketing'),
+    'marketing-new': async page => {
+        await Navigator.for(page).open('marketing');
+        await click(page, 'marketing.newCampaign');
+    },
+    'marketing-eco': async page => {
+        await SECTION_STEPS['marketing-new'](page);
+        await click(page, 'marketing.ecoType');
+    },
+    'marketing-reputation': async page => {
+        await SECTION_STEPS['marketing-new'](page);
+        await click(page, 'marketing.reputationType');
+    },
+    'maintenance': async page => {
+        await Navigator.for(page).open('maintenance');
+        await click(page, 'maintenance.planTab');
+    },
+    'maintenance-check': async page => {
+        await SECTION_STEPS.maintenance(page);
+        await click(page, 'maintenance.bulkCheck');
+    },
+    'maintenance-repair': async page => {
+        await SECTION_STEPS.maintenance(page);
+        await click(page, 'maintenance.bulkRepair');
+    },
+    'fleet-sidebar': page => Navigator.for(page).open('fleet-sidebar'),
+    'fleet-panel': async page => {
+        await Navigator.for(page).open('fleet-sidebar');
+        // Landed planes show every panel button (Depart included)
+        if (await Selectors.locate(page, 'fleet.landedRows').count() === 0) {
+            await click(page, 'fleet.inflightTab');
+            if (await Selectors.locate(page, 'fleet.inflightRows').count() === 0) {
+                throw new Error('No landed or inflight planes to open');
+            }
+            await Selectors.locate(page, 'fleet.inflightRows').first().click();
+        } else {
+            await Selectors.locate(page, 'fleet.landedRows').first().click();
+        }
+        await Selectors.locate(page, 'fleetPanel.container').waitFor({ state: 'visible' });
+    },
+    'fleet-detail': async page => {
+        await SECTION_STEPS['fleet-panel'](page);
+        await Navigator.for(page).open('fleet-detail');
+    },
+    'route-list': page => Navigator.for(page).open('route-list'),
+    'route-detail': async page => {
+        await Navigator.for(page).open('route-list');
+        await Selectors.locate(page, 'routes.rows').first().locator('a').first().click();
+        await Selectors.locate(page, 'routes.back').waitFor({ state: 'visible' });
+    }
+};
+
+/**
+ * Sections the doctor cannot open on a logged-in page
+ */
+const SKIPPED_SECTIONS: Record<'landing', string> = {
+    'landing': 'only shown while logged out'
+};
+
+async function click(page: Page, name: SelectorName): Promise<void> {
+    await Selectors.locate(page, name).click();
+    await GeneralUtils.sleep(1000);
+}
+
+const STATUS_ICONS: Record<SelectorStatus, string> = {
+    ok: '✅',
+    fallback: '↪️ ',
+    ambiguous: '⚠️ ',
+    broken: '❌',
+    absent: '➖',
+    skipped: '⏭️ '
+};
+
+/**
+ * Selector Doctor
+ * Opens every game section of the selector registry on a logged-in page and
+ * checks each selector: broken, only found via a fallback, or ambiguous
+ * (a single-element selector matching several elements).
+ *
+ * Usage:
+ *   await SessionManager.for(page).login();
+ *   const report = await new SelectorDoctor(page).run();
+ *   console.log(SelectorDoctor.formatReport(report));
+ */
+export class SelectorDoctor {
+    page: Page;
+
+    constructor(page: Page) {
+        this.page = page;
+    }
+
+    /**
+     * Check every registered selector, section by section
+     */
+    public async run(): Promise<SelectorDoctorReport> {
+        const checks: SelectorCheck[] = [];
+        const names = Object.keys(SELECTOR_DEFINITIONS) as SelectorName[];
+        const sections = [...new Set(names.map(name => SELECTOR_DEFINITIONS[name].section))];
+
+        for (const section of sections) {
+            const sectionNames = names.filter(name => SELECTOR_DEFINITIONS[name].section === section);
+            console.log(`🩺 Checking ${section} (${sectionNames.length} selectors)...`);
+
+            if (section === 'landing') {
+                for (const name of sectionNames) {
+                    checks.push({ name, section, status: 'skipped', candidate: null, count: 0, detail: SKIPPED_SECTIONS[section] });
+                }
+                continue;
+            }
+
+            // Check the selectors even if the section did not load completely - the failing one shows up as broken
+            const openError = await this.openSection(section);
+            for (const name of sectionNames) {
+                try {
+                    const result = await Selectors.resolve(this.page, name);
+                    checks.push({ name, section, ...result, ...(openError && result.status !== 'ok' ? { detail: `section did not load: ${openError}` } : {}) });
+                } catch (error) {
+                    checks.push({ name, section, status: 'broken', candidate: null, count: 0, detail: (error as Error).message.split('\n')[0] });
+                }
+            }
+        }
+        await this.closePopup();
+
+        const counts: Record<SelectorStatus, number> = { ok: 0, fallback: 0, ambiguous: 0, broken: 0, absent: 0, skipped: 0 };
+        for (const check of checks) {
+            counts[check.status]++;
+        }
+        return { checks, counts, healthy: counts.broken === 0 };
+    }
+
+    /**
+     * Report of a doctor run, problems first
+     */
+    public static formatReport(report: SelectorDoctorReport): string {
+        const lines: string[] = ['\n🩺 SELECTOR DOCTOR', '━'.repeat(40)];
+
+        const problems = report.checks.filter(check => check.status === 'broken' || check.status === 'ambiguous' || check.status === 'fallback');
+        const others = report.checks.filter(check => !problems.includes(check));
+        for (const check of [...problems, ...others]) {
+            const definition = SELECTOR_DEFINITIONS[check.name as SelectorName];
+            let detail = '';
+            if (check.status === 'fallback' || check.status === 'ambiguous') {
+                detail = ` - candidate ${check.candidate! + 1}/${definition.candidates.length} matched ${check.count}x`;
+            } else if (check.status === 'ok' && definition.multiple) {
+                detail = ` - ${check.count} matches`;
+            }
+            if (check.detail) {
+                detail += ` - ${check.detail}`;
+            }
+            lines.push(`${STATUS_ICONS[check.status]} ${check.name.padEnd(28)} ${definition.description}${detail}`);
+        }
+
+        lines.push('━'.repeat(40));
+        lines.push(Object.entries(report.counts).map(([status, count]) => `${status}: ${count}`).join(', '));
+        lines.push(report.healthy ? '✅ No broken selectors' : `❌ ${report.counts.broken} broken selector(s)`);
+        return lines.join('\n');
+    }
+
+    /**
+     * Open a section
+     * @returns Why the section did not load, or null once it is open
+     */
+    private async openSection(section: Exclude<SelectorSection, 'landing'>): Promise<string | null> {
+        try {
+            await SECTION_STEPS[section](this.page);
+            return null;
+        } catch (error) {
+            const message = (error as Error).message.split('\n')[0];
+            console.log(`⚠️  Could not open ${section}: ${message}`);
+            return message;
+        }
+    }
+
+    private async closePopup(): Promise<void> {
+        await Navigator.for(this.page).closePopup();
+    }
+}
@@ -0,0 +1,375 @@
+import { SelectorDefinition } from './selectorTypes';
+
+/**
+ * Selector Registry
+ * Every page-level selector the bot relies on, by name, with ordered fallbacks.
+ * When the game changes its markup, add the new selector in front of the old one
+ * (the old one keeps working until the change reaches every server) and run
+ * `npm run bot -- selectors doctor` to see which selectors still match.
+ *
+ * Selectors relative to a row or panel the bot already found (label spans,
+ * `#flightStatusReg<id>`, ...) stay next to the code using them.
+ */
+export const SELECTORS = {
+    // === Landing page (logged out) ===
+    'landing.play': {
+        description: 'PLAY FREE NOW button',
+        section: 'landing',
+        candidates: [{ role: 'button', name: 'PLAY FREE NOW' }]
+    },
+    'landing.loginChooser': {
+        description: 'Log in button opening the login form',
+        section: 'landing',
+        candidates: [{ role: 'button', name: 'Log in' }]
+    },
+    'landing.email': {
+        description: 'Login form email field',
+        section: 'landing',
+        candidates: ['#lEmail']
+    },
+    'landing.password': {
+        description: 'Login form password field',
+        section: 'landing',
+        candidates: ['#lPass']
+    },
+    'landing.submit': {
+        description: 'Login form submit button',
+        section: 'landing',
+        candidates: [{ role: 'button', name: 'Log In', exact: true }]
+    },
+
+    // === Map ===
+    'map.loaded': {
+        description: 'Routes menu (present once the game has loaded)',
+        section: 'map',
+        candidates: ['#mapRoutes']
+    },
+    'map.routes': {
+        description: 'Routes menu icon',
+        section: 'map',
+        candidates: ['#mapRoutes img']
+    },
+    'map.fuel': {
+        description: 'Fuel menu icon',
+        section: 'map',
+        candidates: [{ css: '#mapMaint > img', nth: 0 }, '[onclick*="fuel"] img']
+    },
+    'map.maintenance': {
+        description: 'Maintenance menu icon',
+        section: 'map',
+        candidates: ['div:nth-child(4) > #mapMaint > img', '[onclick*="maint"] img']
+    },
+    'map.finance': {
+        description: 'Finance menu icon',
+        section: 'map',
+        candidates: ['div:nth-child(5) > #mapMaint > img', '[onclick*="finance"] img']
+    },
+    'map.cash': {
+        description: 'Bank balance in the header',
+        section: 'map',
+        candidates: ['#headerAccount']
+    },
+    'map.gameAd': {
+        description: 'Video ad overlay',
+        section: 'map',
+        candidates: ['#game-ad'],
+        optional: true
+    },
+
+    // === Popup (fuel, finance, maintenance, fleet details) ===
+    'popup.content': {
+        description: 'Popup content',
+        section: 'fuel',
+        candidates: ['#popup .modal-content']
+    },
+    'popup.close': {
+        description: 'Popup close icon',
+        section: 'fuel',
+        candidates: [
+            '#popup > .modal-dialog > .modal-content > .modal-header > div > .glyphicons',
+            '#popup .modal-header .glyphicons-remove',
+            { css: '#popup .glyphicons-remove', nth: 0 }
+        ]
+    },
+
+    // === Fuel & CO2 ===
+    'fuel.price': {
+        description: 'Current price (fuel or CO2 tab)',
+        section: 'fuel',
+        candidates: [{ text: 'Total price$', child: 'b > span' }, '#sumCost']
+    },
+    'fuel.holding': {
+        description: 'Current holding (fuel or CO2 tab)',
+        section: 'fuel',
+        candidates: ['#holding']
+    },
+    'fuel.capacity': {
+        description: 'Remaining capacity (fuel or CO2 tab)',
+        section: 'fuel',
+        candidates: ['#remCapacity']
+    },
+    'fuel.amount': {
+        description: 'Amount to purchase field',
+        section: 'fuel',
+        candidates: [{ placeholder: 'Amount to purchase' }, '#amountInput']
+    },
+    'fuel.purchase': {
+        description: 'Purchase button',
+        section: 'fuel',
+        candidates: [{ role: 'button', name: ' Purchase' }]
+    },
+    'fuel.co2Tab': {
+        description: 'CO2 tab button',
+        section: 'fuel',
+        candidates: [{ role: 'button', name: ' Co2' }, { role: 'button', name: 'Co2' }]
+    },
+    'fuel.chart': {
+        description: 'Fuel price chart (Highcharts)',
+        section: 'fuel',
+        candidates: ['#fuelChart[data-highcharts-chart]']
+    },
+    'co2.chart': {
+        description: 'CO2 price chart (Highcharts)',
+        section: 'co2',
+        candidates: ['#co2Chart[data-highcharts-chart]']
+    },
+
+    // === Marketing ===
+    'marketing.tab': {
+        description: 'Marketing tab button',
+        section: 'marketing',
+        candidates: [{ role: 'button', name: ' Marketing' }]
+    },
+    'marketing.activeEco': {
+        description: 'Active eco-friendly campaign cell',
+        section: 'marketing',
+        candidates: [{ role: 'cell', name: ' Eco friendly' }],
+        optional: true
+    },
+    'marketing.newCampaign': {
+        description: 'New campaign button',
+        section: 'marketing',
+        candidates: [{ role: 'button', name: ' New campaign' }]
+    },
+    'marketing.ecoType': {
+        description: 'Eco-friendly campaign type',
+        section: 'marketing-new',
+        candidates: [{ role: 'cell', name: 'Eco-friendly Increases' }]
+    },
+    'marketing.reputationType': {
+        description: 'Airline reputation campaign type',
+        section: 'marketing-new',
+        candidates: [{ role: 'cell', name: 'Increase airline reputation' }]
+    },
+    'marketing.ecoConfirm': {
+        description: 'Eco-friendly campaign price button',
+        section: 'marketing-eco',
+        candidates: [{ role: 'button', name: '$' }]
+    },
+    'marketing.duration': {
+        description: 'Campaign duration select',
+        section: 'marketing-reputation',
+        candidates: ['select']
+    },
+    'marketing.campaignRows': {
+        description: 'Reputation campaign rows',
+        section: 'marketing-reputation',
+        candidates: ['tr:has-text("CAMPAIGN")'],
+        multiple: true
+    },
+    'marketing.priceButtons': {
+        description: 'Campaign price buttons',
+        section: 'marketing-reputation',
+        candidates: [{ role: 'button', name: /\$/ }],
+        multiple: true
+    },
+
+    // === Maintenance ===
+    'maintenance.planTab': {
+        description: 'Plan tab button',
+        section: 'maintenance',
+        candidates: [{ role: 'button', name: ' Plan' }]
+    },
+    'maintenance.bulkCheck': {
+        description: 'Bulk check button',
+        section: 'maintenance',
+        candidates: [{ role: 'button', name: ' Bulk check' }]
+    },
+    'maintenance.bulkRepair': {
+        description: 'Bulk repair button',
+        section: 'maintenance',
+        candidates: [{ role: 'button', name: ' Bulk repair' }]
+    },
+    'maintenance.dueChecks': {
+        description: 'Check hours shown in red (check due)',
+        section: 'maintenance-check',
+        candidates: ['.bg-white > .text-danger'],
+        multiple: true,
+        optional: true
+    },
+    'maintenance.planBulkCheck': {
+        description: 'Plan bulk check button',
+        section: 'maintenance-check',
+        candidates: [{ role: 'button', name: 'Plan bulk check' }]
+    },
+    'maintenance.repairPercent': {
+        description: 'Bulk repair wear select',
+        section: 'maintenance-repair',
+        candidates: ['#repairPct']
+    },
+    'maintenance.noWornAircraft': {
+        description: 'No aircraft worn message',
+        section: 'maintenance-repair',
+        candidates: [{ text: 'There are no aircraft worn to' }],
+        optional: true
+    },
+    'maintenance.planBulkRepair': {
+        description: 'Plan bulk repair button',
+        section: 'maintenance-repair',
+        candidates: [{ role: 'button', name: 'Plan bulk repair' }],
+        optional: true
+    },
+
+    // === Fleet sidebar ===
+    'fleet.overview': {
+        description: 'Fleet overview button',
+        section: 'fleet-sidebar',
+        candidates: [{ css: 'button:has-text("Overview")', nth: 0 }],
+        optional: true
+    },
+    'fleet.landedTab': {
+        description: 'Landed tab',
+        section: 'fleet-sidebar',
+        candidates: ['#flightStatusLanded']
+    },
+    'fleet.inflightTab': {
+        description: 'Inflight tab',
+        section: 'fleet-sidebar',
+        candidates: ['#flightStatusInflight']
+    },
+    'fleet.parkedTab': {
+        description: 'Parked tab',
+        section: 'fleet-sidebar',
+        candidates: ['#flightStatusParked']
+    },
+    'fleet.pendingTab': {
+        description: 'Pending tab',
+        section: 'fleet-sidebar',
+        candidates: ['#flightStatusPending']
+    },
+    'fleet.landedList': {
+        description: 'Landed list',
+        section: 'fleet-sidebar',
+        candidates: ['#landedList']
+    },
+    'fleet.inflightList': {
+        description: 'Inflight list',
+        section: 'fleet-sidebar',
+        candidates: ['#inflightList']
+    },
+    'fleet.parkedList': {
+        description: 'Parked list',
+        section: 'fleet-sidebar',
+        candidates: ['#parkedList']
+    },
+    'fleet.pendingList': {
+        description: 'Pending list',
+        section: 'fleet-sidebar',
+        candidates: ['#pendingList']
+    },
+    'fleet.landedRows': {
+        description: 'Landed plane rows',
+        section: 'fleet-sidebar',
+        candidates: ['#landedList .flight-list-sorting'],
+        multiple: true,
+        optional: true
+    },
+    'fleet.inflightRows': {
+        description: 'Inflight plane rows',
+        section: 'fleet-sidebar',
+        candidates: ['#inflightList .flight-list-sorting'],
+        multiple: true,
+        optional: true
+    },
+    'fleet.parkedRows': {
+        description: 'Parked plane rows',
+        section: 'fleet-sidebar',
+        candidates: ['#parkedList .flight-list-sorting'],
+        multiple: true,
+        optional: true
+    },
+    'fleet.pendingRows': {
+        description: 'Pending plane rows',
+        section: 'fleet-sidebar',
+        candidates: ['#pendingList .flight-list-sorting'],
+        multiple: true,
+        optional: true
+    },
+
+    // === Plane panel (sidebar detail view) ===
+    'fleetPanel.container': {
+        description: 'Plane detail panel',
+        section: 'fleet-panel',
+        candidates: ['#detailsAction']
+    },
+    'fleetPanel.depart': {
+        description: 'Depart button',
+        section: 'fleet-panel',
+        candidates: [{ css: 'button:has-text("Depart")', nth: 0 }],
+        optional: true
+    },
+    'fleetPanel.details': {
+        description: 'Details button',
+        section: 'fleet-panel',
+        candidates: [{ css: 'button:has-text("Details")', nth: 0 }]
+    },
+    'fleetPanel.list': {
+        description: 'Back to list button',
+        section: 'fleet-panel',
+        candidates: [
+            { css: 'button.nudgeBtn.btn-secondary:has-text("List")', nth: 0 },
+            { css: 'button.btn-secondary:has-text("List")', nth: 0 },
+            { css: 'button:has-text("List")', nth: 0 }
+        ]
+    },
+
+    // === Plane details popup ===
+    'fleetDetail.flightHistory': {
+        description: 'Flight history container',
+        section: 'fleet-detail',
+        candidates: ['#detailsAction #flight-history']
+    },
+    'fleetDetail.flightRows': {
+        description: 'Flight history rows',
+        section: 'fleet-detail',
+        candidates: ['#detailsAction #flight-history div.row.bg-light'],
+        multiple: true,
+        optional: true
+    },
+
+    // === Route list ===
+    'routes.rows': {
+        description: 'Route list rows',
+        section: 'route-list',
+        candidates: ['div[id^="routeMainList"]'],
+        multiple: true
+    },
+    'routes.nextPage': {
+        description: 'Next page button',
+        section: 'route-list',
+        candidates: ['.pagination-next'],
+        optional: true
+    },
+    'routes.back': {
+        description: 'Back arrow of the route detail view',
+        section: 'route-detail',
+        candidates: [{ css: '#detailsAction span.glyphicons-chevron-left', nth: 0 }]
+    }
+} satisfies Record<string, SelectorDefinition>;
+
+export type SelectorName = keyof typeof SELECTORS;
+
+/**
+ * Registry entries as a plain record (for iteration)
+ */
+export const SELECTOR_DEFINITIONS: Record<SelectorName, SelectorDefinition> = SELECTORS;
@@ -0,0 +1,72 @@
+// TypeScript interfaces for the Selector Registry
+
+import type { Page } from "@playwright/test";
+
+export type AriaRole = Parameters<Page['getByRole']>[0];
+
+/**
+ * One way to find an element
+ * Exactly one of css/role/text/placeholder is set.
+ */
+export interface SelectorCandidate {
+    css?: string;                           // CSS or Playwright selector (e.g. 'button:has-text("Depart")')
+    role?: AriaRole;                        // getByRole(role, { name, exact })
+    name?: string | RegExp;
+    exact?: boolean;
+    text?: string | RegExp;                 // getByText(text, { exact })
+    placeholder?: string;                   // getByPlaceholder(placeholder)
+    child?: string;                         // Selector applied inside the match (e.g. 'b > span')
+    nth?: number;                           // Pick one of several matches (positional selectors)
+}
+
+/**
+ * Game screen a selector lives on (the selector doctor opens it before checking)
+ */
+export type SelectorSection =
+    | 'landing'
+    | 'map'
+    | 'fuel'
+    | 'co2'
+    | 'marketing'
+    | 'marketing-new'
+    | 'marketing-eco'
+    | 'marketing-reputation'
+    | 'maintenance'
+    | 'maintenance-check'
+    | 'maintenance-repair'
+    | 'fleet-sidebar'
+    | 'fleet-panel'
+    | 'fleet-detail'
+    | 'route-list'
+    | 'route-detail';
+
+/**
+ * Named selector with ordered fallbacks
+ */
+export interface SelectorDefinition {
+    description: string;
+    section: SelectorSection;
+    candidates: Array<string | SelectorCandidate>;  // Ordered, a plain string is a CSS selector
+    multiple?: boolean;                     // Matches a list (rows, buttons) - several matches are expected
+    optional?: boolean;                     // Only present in some game states (e.g. an active campaign)
+}
+
+/**
+ * Outcome of checking a selector against the current page
+ * - ok:        first candidate matched (once, or any number for lists)
+ * - fallback:  first candidate missing, a later one matched
+ * - ambiguous: single-element selector matched several elements
+ * - broken:    no candidate matched
+ * - absent:    optional selector not present in the current game state
+ * - skipped:   section cannot be opened by the doctor (landing page)
+ */
+export type SelectorStatus = 'ok' | 'fallback' | 'ambiguous' | 'broken' | 'absent' | 'skipped';
+
+export interface SelectorCheck {
+    name: string;
+    section: SelectorSection;
+    status: SelectorStatus;
+    candidate: number | null;               // Index of the matching candidate
+    count: number;                          // Elements matched by that candidate
+    detail?: string;
+}
@@ -0,0 +1,96 @@
+import { Locator, Page } from "@playwright/test";
+import { SELECTOR_DEFINITIONS, SelectorName } from './selectorRegistry';
+import { SelectorCandidate, SelectorDefinition, SelectorStatus } from './selectorTypes';
+
+type SelectorRoot = Page | Locator;
+
+/**
+ * Selectors
+ * Locates registry selectors (see selectorRegistry.ts) on a page.
+ *
+ * Usage:
+ *   await Selectors.locate(page, 'map.fuel').click();           // First matching candidate wins
+ *   const rows = Selectors.locate(page, 'fleet.landedRows');     // Lists keep all matches
+ *   const check = await Selectors.resolve(page, 'popup.close');  // Which candidate matched, how often
+ */
+export class Selectors {
+    /**
+     * Registry entry of a selector
+     */
+    public static definition(name: SelectorName): SelectorDefinition {
+        return SELECTOR_DEFINITIONS[name];
+    }
+
+    /**
+     * Locator for a registry selector
+     * All candidates are combined with or(), so a fallback is used as soon as the
+     * preferred selector stops matching. Candidates should target the same element:
+     * single-element selectors resolve to the first match in document order.
+     */
+    public static locate(root: SelectorRoot, name: SelectorName): Locator {
+        const definition = Selectors.definition(name);
+        const locators = definition.candidates.map(candidate => Selectors.candidateLocator(root, candidate));
+        const combined = locators.slice(1).reduce((all, locator) => all.or(locator), locators[0]);
+        return definition.multiple ? combined : combined.first();
+    }
+
+    /**
+     * Locator for one candidate of a registry selector
+     */
+    public static locateCandidate(root: SelectorRoot, name: SelectorName, index: number): Locator {
+        return Selectors.candidateLocator(root, Selectors.definition(name).candidates[index]);
+    }
+
+    /**
+     * Count the matches of every candidate in order and classify the result
+     */
+    public static async resolve(root: SelectorRoot, name: SelectorName): Promise<{ status: SelectorStatus; candidate: number | null; count: number }> {
+        const definition = Selectors.definition(name);
+        const counts: number[] = [];
+        for (let i = 0; i < definition.candidates.length; i++) {
+            counts.push(await Selectors.locateCandidate(root, name, i).count());
+        }
+        return classifyMatches(definition, counts);
+    }
+
+    private static candidateLocator(root: SelectorRoot, candidate: string | SelectorCandidate): Locator {
+        const spec: SelectorCandidate = typeof candidate === 'string' ? { css: candidate } : candidate;
+
+        let locator: Locator;
+        if (spec.role) {
+            locator = root.getByRole(spec.role, { name: spec.name, exact: spec.exact });
+        } else if (spec.text !== undefined) {
+            locator = root.getByText(spec.text, { exact: spec.exact });
+        } else if (spec.placeholder !== undefined) {
+            locator = root.getByPlaceholder(spec.placeholder, { exact: spec.exact });
+        } else if (spec.css) {
+            locator = root.locator(spec.css);
+        } else {
+            throw new Error(`Invalid selector candidate: ${JSON.stringify(candidate)}`);
+        }
+
+        if (spec.child) {
+            locator = locator.locator(spec.child);
+        }
+        return spec.nth !== undefined ? locator.nth(spec.nth) : locator;
+    }
+}
+
+/**
+ * Classify the match counts of a selector's candidates (in registry order)
+ * - The first candidate with matches decides; any later one counts as a fallback
+ * - A single-element selector matching several elements is ambiguous
+ *   (positional candidates with `nth` match at most one element)
+ */
+export function classifyMatches(definition: SelectorDefinition, counts: number[]): { status: SelectorStatus; candidate: number | null; count: number } {
+    const index = counts.findIndex(count => count > 0);
+    if (index === -1) {
+        return { status: definition.optional ? 'absent' : 'broken', candidate: null, count: 0 };
+    }
+
+    const count = counts[index];
+    if (!definition.multiple && count > 1) {
+        return { status: 'ambiguous', candidate: index, count };
+    }
+    return { status: index === 0 ? 'ok' : 'fallback', candidate: index, count };
+}
@@ -0,0 +1,253 @@
+import { Page } from "@playwright/test";
+import { BOT_CONFIG } from '../../config';
+import { GeneralUtils } from '../00_general.utils';
+import { RunJournal } from '../07_journal.utils';
+import { Selectors } from '../10_selectors.utils';
+import { applyStorageState, readStorageState, validateStorageState, writeStorageState } from './sessionState';
+
+/**
+ * Thrown when the game session is gone (landing page or login form visible)
+ */
+export class SessionExpiredError extends Error {
+    step: string | null;
+
+    constructor(step: string | null = null, detail?: string) {
+        super(`Session expired${step ? ` during ${step}` : ''}${detail ? ` - ${detail}` : ''}`);
+        this.name = 'SessionExpiredError';
+        this.step = step;
+    }
+}
+
+/**
+ * Session Manager
+ * Owns the login session of a page:
+ * - Restores the stored Playwright storage state (cookies + localStorage),
+ *   dropping cookies that are expired or about to expire
+ * - Logs in when the stored session is missing or rejected and stores the new state
+ * - Detects a logged-out page and logs in again mid-run (BOT_CONFIG.session.maxRelogins)
+ *
+ * One manager per page, shared by every util via SessionManager.for(page).
+ *
+ * Usage:
+ *   const session = SessionManager.for(page);
+ *   await session.login();
+ *   await session.runStep('fuel', async () => { ... });    // Re-login + one retry if the session died
+ *   await session.recover('departures');                    // Re-login only if the page is logged out
+ *
+ *   // In a util that catches its own errors:
+ *   } catch (error) {
+ *       await SessionManager.throwIfLoggedOut(this.page, 'eco-friendly-campaign');
+ *       ...
+ *   }
+ */
+export class SessionManager {
+    private static sessions: WeakMap<Page, SessionManager> = new WeakMap();
+
+    page: Page;
+    private statePath: string = GeneralUtils.dataPath('session-state.json');
+    private legacyCookiesPath: string = GeneralUtils.dataPath('cookies.json');
+    private relogins: number = 0;
+    private stateRestored: boolean = false;
+
+    private constructor(page: Page) {
+        this.page = page;
+    }
+
+    /**
+     * Session manager of a page (created on first use)
+     */
+    public static for(page: Page): SessionManager {
+        let session = SessionManager.sessions.get(page);
+        if (!session) {
+            session = new SessionManager(page);
+            SessionManager.sessions.set(page, session);
+        }
+        return session;
+    }
+
+    /**
+     * Throw a SessionExpiredError if the page shows the landing page or login form
+     * Meant for catch blocks of utils that would otherwise swallow the error.
+     */
+    public static async throwIfLoggedOut(page: Page, step: string | null = null): Promise<void> {
+        if (await SessionManager.for(page).isLoggedOut()) {
+            throw new SessionExpiredError(step);
+        }
+    }
+
+    /**
+     * Re-logins performed by this session so far
+     */
+    public get reloginCount(): number {
+        return this.relogins;
+    }
+
+    /**
+     * Open the game with the stored session, log in if it is missing or rejected
+     */
+    public async login(): Promise<void> {
+        console.log('Logging in...');
+
+        // Bounded clicks/waits: on a logged-out page a step fails (and can be retried)
+        // instead of waiting until its task timeout
+        this.page.setDefaultTimeout(BOT_CONFIG.session.actionTimeoutMs);
+        this.page.setDefaultNavigationTimeout(30000);   // Playwright default - the game can be slow to load
+
+        // Restore the stored session (only usable cookies)
+        const restored = await this.restoreStoredState();
+
+        // Navigate to the site (live game or local stand-in, see BOT_CONFIG.game)
+        await this.page.goto(BOT_CONFIG.game.baseUrl);
+        await GeneralUtils.sleep(2000); // Wait for page to load
+
+        if (await this.isLoggedOut()) {
+            if (restored) {
+                console.log('🔐 Stored session was rejected by the game, performing login...');
+                RunJournal.record({ type: 'session', action: 'expired', detail: 'Stored session rejected by the game' });
+            } else {
+                console.log('🔐 Not logged in, performing login...');
+            }
+            await this.performLogin();
+            RunJournal.record({ type: 'session', action: 'login' });
+        } else {
+            console.log('✅ Already logged in with stored session, waiting for game to load...');
+            await this.waitForGame();
+            RunJournal.record({ type: 'session', action: 'restored' });
+            console.log('✅ Game loaded successfully!');
+        }
+    }
+
+    /**
+     * Whether the page shows the landing page ("PLAY FREE NOW") or the login form
+     */
+    public async isLoggedOut(): Promise<boolean> {
+        const playButton = Selectors.locate(this.page, 'landing.play');
+        const emailField = Selectors.locate(this.page, 'landing.email');
+        return await playButton.isVisible().catch(() => false)
+            || await emailField.isVisible().catch(() => false);
+    }
+
+    /**
+     * Log in again if the session died
+     * @param step Step that was interrupted (for logs and the run journal)
+     * @returns true after a re-login, false if the page is still logged in
+     * @throws SessionExpiredError if the re-login limit of this run is reached
+     */
+    public async recover(step: string): Promise<boolean> {
+        if (!(await this.isLoggedOut())) {
+            return false;
+        }
+
+        const maxRelogins = BOT_CONFIG.session.maxRelogins;
+        if (this.relogins >= maxRelogins) {
+            RunJournal.record({ type: 'session', action: 'expired', step, detail: `Re-login limit (${maxRelogins}) reached` });
+            throw new SessionExpiredError(step, `re-login limit (${maxRelogins}) reached`);
+        }
+
+        this.relogins++;
+        console.log(`🔐 Session expired during ${step} - logging in again (${this.relogins}/${maxRelogins})...`);
+        RunJournal.record({ type: 'session', action: 'relogin', step });
+
+        await this.page.context().clearCookies();
+        await this.page.goto(BOT_CONFIG.game.baseUrl);
+        await GeneralUtils.sleep(2000);
+        await this.performLogin();
+        return true;
+    }
+
+    /**
+     * Run a step; if it fails because the session died, log in again and retry it once
+     * Errors that are not caused by a lost session are rethrown unchanged.
+     */
+    public async runStep<T>(step: string, fn: () => Promise<T>): Promise<T> {
+        // Session died between steps
+        await this.recover(step);
+
+        try {
+            return await fn();
+        } catch (error) {
+            if (!(await this.recover(step))) {
+                throw error;
+            }
+            console.log(`🔁 Retrying ${step} after re-login`);
+            return await fn();
+        }
+    }
+
+    /**
+     * Load the stored storage state into the browser context (once per session)
+     * @returns true if usable cookies were restored
+     */
+    private async restoreStoredState(): Promise<boolean> {
+        if (this.stateRestored) {
+            return false;
+        }
+        this.stateRestored = true;
+
+        const stored = readStorageState(this.statePath, this.legacyCookiesPath);
+        if (!stored) {
+            console.log('ℹ️  No stored session found, will login normally');
+            return false;
+        }
+
+        const marginMs = BOT_CONFIG.session.cookieExpiryMarginMinutes * 60 * 1000;
+        const { state, expired } = validateStorageState(stored, marginMs);
+        if (expired.length > 0) {
+            console.log(`⚠️  ${expired.length} stored cookie(s) expired or expiring soon - not restored`);
+            RunJournal.record({ type: 'session', action: 'expired', detail: `${expired.length} stored cookie(s) expired` });
+        }
+        if (state.cookies.length === 0) {
+            console.log('ℹ️  Stored session has no valid cookies left, will login normally');
+            return false;
+        }
+
+        try {
+            await applyStorageState(this.page.context(), state);
+            console.log(`✅ Session restored from ${this.statePath} (${state.cookies.length} cookies)`);
+            return true;
+        } catch (error) {
+            console.error('❌ Error restoring session:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Fill in the login form on the landing page and store the new session
+     */
+    private async performLogin(): Promise<void> {
+        const username = process.env.EMAIL;
+        const password = process.env.PASSWORD;
+        if (!username || !password) {
+            throw new Error('Missing required environment variables: EMAIL and/or PASSWORD');
+        }
+
+        await Selectors.locate(this.page, 'landing.play').click();
+        await Selectors.locate(this.page, 'landing.loginChooser').click();
+        await Selectors.locate(this.page, 'landing.email').fill(username);
+        await Selectors.locate(this.page, 'landing.password').fill(password);
+        await Selectors.locate(this.page, 'landing.submit').click();
+
+        // Wait for the game instead of a fixed delay - fails fast on wrong credentials
+        try {
+            await this.waitForGame();
+        } catch {
+            throw new Error('Login failed: game did not load after submitting the login form (check EMAIL/PASSWORD)');
+        }
+
+        await this.saveState();
+        console.log('✅ Logged in successfully!');
+    }
+
+    private async waitForGame(): Promise<void> {
+        await Selectors.locate(this.page, 'map.loaded').waitFor({ timeout: 15000 });
+    }
+
+    private async saveState(): Promise<void> {
+        try {
+            await writeStorageState(this.page.context(), this.statePath);
+            console.log(`✅ Session saved to ${this.statePath}`);
+        } catch (error) {
+            console.error('❌ Error saving session:', error);
+        }
+    }
+}
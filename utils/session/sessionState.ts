@@ -0,0 +1,99 @@
+import { BrowserContext } from "@playwright/test";
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Session State
+ * Reads, validates and writes the Playwright storage state of the game
+ * session (cookies + localStorage, data/session-state.json).
+ */
+
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+export type StoredCookie = StorageState['cookies'][number];
+
+/**
+ * Stored state split into usable and expired cookies
+ */
+export interface ValidatedState {
+    state: StorageState;                    // State containing only the usable cookies
+    expired: StoredCookie[];                // Cookies expired or expiring within the margin
+}
+
+/**
+ * Load a stored storage state
+ * Falls back to a legacy cookies.json (plain cookie array) if no state file exists.
+ * @returns The state, or null if nothing usable is stored
+ */
+export function readStorageState(statePath: string, legacyCookiesPath?: string): StorageState | null {
+    try {
+        if (fs.existsSync(statePath)) {
+            const state = JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+            return {
+                cookies: Array.isArray(state.cookies) ? state.cookies : [],
+                origins: Array.isArray(state.origins) ? state.origins : []
+            };
+        }
+
+        if (legacyCookiesPath && fs.existsSync(legacyCookiesPath)) {
+            const cookies = JSON.parse(fs.readFileSync(legacyCookiesPath, 'utf-8'));
+            console.log(`ℹ️  Using legacy ${path.basename(legacyCookiesPath)} (replaced by ${path.basename(statePath)} after the next login)`);
+            return { cookies: Array.isArray(cookies) ? cookies : [], origins: [] };
+        }
+    } catch (error) {
+        console.error('❌ Error reading stored session:', error);
+    }
+    return null;
+}
+
+/**
+ * Drop cookies that are expired or expire within the margin
+ * Session cookies (expires = -1) are kept - the game decides whether they are still valid.
+ * @param marginMs Cookies expiring within this time count as expired
+ * @param now Reference time (epoch ms)
+ */
+export function validateStorageState(state: StorageState, marginMs: number, now: number = Date.now()): ValidatedState {
+    const valid: StoredCookie[] = [];
+    const expired: StoredCookie[] = [];
+
+    for (const cookie of state.cookies) {
+        const expiresAt = cookie.expires > 0 ? cookie.expires * 1000 : Infinity;
+        if (expiresAt - marginMs <= now) {
+            expired.push(cookie);
+        } else {
+            valid.push(cookie);
+        }
+    }
+
+    return { state: { cookies: valid, origins: state.origins }, expired };
+}
+
+/**
+ * Apply a storage state to an existing browser context
+ * (Playwright only accepts storageState when creating a context)
+ * localStorage entries are written on every page load, but never overwrite newer values.
+ */
+export async function applyStorageState(context: BrowserContext, state: StorageState): Promise<void> {
+    if (state.cookies.length > 0) {
+        await context.addCookies(state.cookies);
+    }
+
+    if (state.origins.some(origin => origin.localStorage.length > 0)) {
+        await context.addInitScript((origins: StorageState['origins']) => {
+            const entry = origins.find(o => o.origin === window.location.origin);
+            if (!entry) return;
+            for (const item of entry.localStorage) {
+                if (window.localStorage.getItem(item.name) === null) {
+                    window.localStorage.setItem(item.name, item.value);
+                }
+            }
+        }, state.origins);
+    }
+}
+
+/**
+ * Save the complete storage state of a context
+ */
+export async function writeStorageState(context: BrowserContext, statePath: string): Promise<void> {
+    fs.mkdirSync(path.dirname(statePath), { recursive: true });
+    await context.storageState({ path: statePath });
+}
@@ -0,0 +1,197 @@
+import { BOT_CONFIG } from '../../config';
+import type { Commodity } from '../07_journal.utils';
+import { BuyingStrategy, PricePoint, StrategyContext, StrategyDecision, StrategyName } from './strategyTypes';
+
+const HOUR_MS = 3600000;
+
+/**
+ * Price at a percentile (nearest rank, 1-100) of a list of prices
+ */
+export function pricePercentile(prices: number[], rank: number): number {
+    if (prices.length === 0) return 0;
+    const sorted = [...prices].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(rank / 100 * sorted.length) - 1));
+    return sorted[index];
+}
+
+function pricesSince(prices: PricePoint[], now: Date, hours: number): number[] {
+    const cutoff = now.getTime() - hours * HOUR_MS;
+    return prices.filter(point => new Date(point.timestamp).getTime() >= cutoff).map(point => point.price);
+}
+
+function average(values: number[]): number {
+    return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+}
+
+/**
+ * Buy below MAX_FUEL_PRICE / MAX_CO2_PRICE (also the fallback of every strategy without enough history)
+ */
+function thresholdDecision(context: StrategyContext): StrategyDecision {
+    const { currentPrice, maxPrice } = context;
+    if (currentPrice < maxPrice) {
+        return { shouldBuy: true, reason: `✅ Price below max threshold ($${currentPrice} < $${maxPrice})`, basis: 'threshold' };
+    }
+    return { shouldBuy: false, reason: `⏸️ Price too high ($${currentPrice} >= $${maxPrice})`, basis: 'threshold' };
+}
+
+/**
+ * Fixed threshold: buy whenever the price is below the configured maximum
+ */
+const thresholdStrategy: BuyingStrategy = {
+    name: 'threshold',
+    description: 'Buy below MAX_FUEL_PRICE / MAX_CO2_PRICE',
+    decide: thresholdDecision
+};
+
+/**
+ * Original heuristic: follow the getStatistics() recommendation (85% of the 24h
+ * average or a falling trend below average)
+ */
+const heuristicStrategy: BuyingStrategy = {
+    name: 'heuristic',
+    description: 'Buy below 85% of the 24h average or on a falling trend',
+    decide: context => {
+        const { currentPrice, stats } = context;
+        if (stats.recommendation === 'buy') {
+            return {
+                shouldBuy: true,
+                reason: `🎯 Intelligent buy (price: $${currentPrice}, 24h avg: $${stats.avg24h}, trend: ${stats.trend})`,
+                basis: 'intelligent'
+            };
+        }
+        return {
+            shouldBuy: false,
+            reason: `⏸️ Waiting for better price (current: $${currentPrice}, 24h avg: $${stats.avg24h}, trend: ${stats.trend})`,
+            basis: 'intelligent'
+        };
+    }
+};
+
+/**
+ * Rolling percentile: buy at or below the n-th percentile of the prices in the window
+ */
+const percentileStrategy: BuyingStrategy = {
+    name: 'percentile',
+    description: 'Buy at or below a percentile of the recent prices',
+    decide: context => {
+        const { rank, windowHours } = BOT_CONFIG.strategies.percentile;
+        const window = pricesSince(context.prices, context.now, windowHours);
+        if (window.length < BOT_CONFIG.fuel.minSlotsForRecommendation) {
+            return thresholdDecision(context);
+        }
+
+        const limit = pricePercentile(window, rank);
+        if (context.currentPrice <= limit) {
+            return {
+                shouldBuy: true,
+                reason: `🎯 Percentile buy (price: $${context.currentPrice} <= P${rank} of last ${windowHours}h: $${limit})`,
+                basis: 'intelligent'
+            };
+        }
+        return {
+            shouldBuy: false,
+            reason: `⏸️ Waiting for better price (current: $${context.currentPrice}, P${rank} of last ${windowHours}h: $${limit})`,
+            basis: 'intelligent'
+        };
+    }
+};
+
+/**
+ * Moving-average crossover: buy when the short MA crosses back above the long MA
+ * (the dip is over) while the price is still at or below the 7d average
+ */
+const maCrossoverStrategy: BuyingStrategy = {
+    name: 'ma-crossover',
+    description: 'Buy when the short moving average crosses above the long one after a dip',
+    decide: context => {
+        const { shortSlots, longSlots } = BOT_CONFIG.strategies.maCrossover;
+        const series = context.prices.map(point => point.price);
+        if (series.length < longSlots + 1) {
+            return thresholdDecision(context);
+        }
+
+        const short = average(series.slice(-shortSlots));
+        const long = average(series.slice(-longSlots));
+        const previousShort = average(series.slice(-shortSlots - 1, -1));
+        const previousLong = average(series.slice(-longSlots - 1, -1));
+        const averages = `${shortSlots}-slot MA $${short}, ${longSlots}-slot MA $${long}`;
+
+        const avg7d = context.stats.avg7d;
+        if (previousShort <= previousLong && short > long && (avg7d === 0 || context.currentPrice <= avg7d)) {
+            return { shouldBuy: true, reason: `📈 MA crossover buy (price: $${context.currentPrice}, ${averages})`, basis: 'intelligent' };
+        }
+        return {
+            shouldBuy: false,
+            reason: short < long
+                ? `⏸️ Waiting for the dip to end (current: $${context.currentPrice}, ${averages})`
+                : `⏸️ Waiting for the next dip (current: $${context.currentPrice}, ${averages}, 7d avg: $${avg7d})`,
+            basis: 'intelligent'
+        };
+    }
+};
+
+/**
+ * Time-of-day aware: buy in the hours (UTC) that were cheapest over the last
+ * 7 days, as long as the price is not above the 24h average
+ */
+const timeOfDayStrategy: BuyingStrategy = {
+    name: 'time-of-day',
+    description: 'Buy in the historically cheapest hours of the day',
+    decide: context => {
+        const { cheapHours } = BOT_CONFIG.strategies.timeOfDay;
+        const cutoff = context.now.getTime() - 168 * HOUR_MS;
+
+        const byHour: number[][] = Array.from({ length: 24 }, () => []);
+        for (const point of context.prices) {
+            const time = new Date(point.timestamp);
+            if (time.getTime() >= cutoff) {
+                byHour[time.getUTCHours()].push(point.price);
+            }
+        }
+        const profile = byHour
+            .map((prices, hour) => ({ hour, avg: average(prices), count: prices.length }))
+            .filter(entry => entry.count > 0);
+        if (profile.length < 20) {
+            return thresholdDecision(context);
+        }
+
+        const cheapest = [...profile].sort((a, b) => a.avg - b.avg).slice(0, cheapHours).map(entry => entry.hour);
+        const hour = context.now.getUTCHours();
+        const avg24h = context.stats.avg24h;
+
+        if (cheapest.includes(hour) && (avg24h === 0 || context.currentPrice <= avg24h)) {
+            return {
+                shouldBuy: true,
+                reason: `🕐 Time-of-day buy (${hour}:00 UTC is one of the ${cheapHours} cheapest hours, price: $${context.currentPrice}, 24h avg: $${avg24h})`,
+                basis: 'intelligent'
+            };
+        }
+
+        const nextHour = [...cheapest].sort((a, b) => ((a - hour + 24) % 24) - ((b - hour + 24) % 24)).find(h => h !== hour) ?? hour;
+        return {
+            shouldBuy: false,
+            reason: cheapest.includes(hour)
+                ? `⏸️ Cheap hour but price above 24h average (current: $${context.currentPrice}, 24h avg: $${avg24h})`
+                : `⏸️ Waiting for a cheap hour (next: ${nextHour}:00 UTC, current: $${context.currentPrice})`,
+            basis: 'intelligent'
+        };
+    }
+};
+
+/**
+ * All built-in strategies by name
+ */
+export const STRATEGIES: Record<StrategyName, BuyingStrategy> = {
+    'heuristic': heuristicStrategy,
+    'threshold': thresholdStrategy,
+    'percentile': percentileStrategy,
+    'ma-crossover': maCrossoverStrategy,
+    'time-of-day': timeOfDayStrategy
+};
+
+/**
+ * Strategy configured for a commodity (strategies.fuel / strategies.co2)
+ */
+export function strategyFor(commodity: Commodity): BuyingStrategy {
+    return STRATEGIES[BOT_CONFIG.strategies[commodity] as StrategyName];
+}
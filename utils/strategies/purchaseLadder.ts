@@ -0,0 +1,59 @@
+import { BOT_CONFIG } from '../../config';
+import { LadderSettings, parseLadderTiers } from '../config/configSchema';
+import { pricePercentile } from './builtinStrategies';
+import { LadderStep, PricePoint } from './strategyTypes';
+
+const HOUR_MS = 3600000;
+
+/**
+ * Share of the free capacity to buy at the current price
+ * Every tier is the price at a percentile of the last `windowHours`; the lowest
+ * tier the price reaches sets the fraction (default: at or below P10 fill the
+ * tank, P25 half, P50 a quarter, otherwise a tenth), so a run of cheap slots
+ * fills the tank gradually. Above the highest tier nothing is bought; without
+ * enough history the tank is filled as before.
+ */
+export function ladderStep(
+    currentPrice: number,
+    prices: PricePoint[],
+    now: Date,
+    settings: LadderSettings = BOT_CONFIG.ladder
+): LadderStep {
+    const { windowHours } = settings;
+    const cutoff = now.getTime() - windowHours * HOUR_MS;
+    const window = prices.filter(point => new Date(point.timestamp).getTime() >= cutoff).map(point => point.price);
+
+    if (window.length < BOT_CONFIG.fuel.minSlotsForRecommendation) {
+        return {
+            fraction: 1,
+            percentile: null,
+            limit: null,
+            reason: `🪜 Ladder: not enough prices in the last ${windowHours}h (${window.length}) - filling the free capacity`
+        };
+    }
+
+    const tiers = parseLadderTiers(settings.tiers);
+    for (const tier of tiers) {
+        const limit = pricePercentile(window, tier.percentile);
+        if (currentPrice <= limit) {
+            return {
+                fraction: tier.fraction,
+                percentile: tier.percentile,
+                limit,
+                reason: `🪜 Ladder: $${currentPrice} <= P${tier.percentile} of last ${windowHours}h ($${limit}) - ` +
+                    `buying ${Math.round(tier.fraction * 100)}% of the free capacity`
+            };
+        }
+    }
+
+    const highest = tiers[tiers.length - 1];
+    const limit = highest ? pricePercentile(window, highest.percentile) : null;
+    return {
+        fraction: 0,
+        percentile: null,
+        limit,
+        reason: highest
+            ? `🪜 Ladder: $${currentPrice} above P${highest.percentile} of last ${windowHours}h ($${limit}) - not buying`
+            : '🪜 Ladder: no tiers configured - not buying'
+    };
+}
@@ -0,0 +1,60 @@
+// TypeScript interfaces for Buying Strategies
+
+import type { BuyBasis, PriceStatistics } from '../05_priceAnalytics.utils';
+import type { Commodity } from '../07_journal.utils';
+
+/**
+ * Names of the built-in strategies (select per commodity via strategies.fuel / strategies.co2)
+ */
+export type StrategyName = 'heuristic' | 'threshold' | 'percentile' | 'ma-crossover' | 'time-of-day';
+
+/**
+ * One recorded price of a commodity
+ */
+export interface PricePoint {
+    timestamp: string;                      // ISO-8601 timeslot (UTC)
+    price: number;
+}
+
+/**
+ * Everything a strategy may base its decision on
+ */
+export interface StrategyContext {
+    commodity: Commodity;
+    currentPrice: number;
+    maxPrice: number;                       // MAX_FUEL_PRICE / MAX_CO2_PRICE
+    holding: number;
+    stats: PriceStatistics;                 // getStatistics() of the current price
+    prices: PricePoint[];                   // Price history of the commodity, oldest first
+    now: Date;
+}
+
+/**
+ * Buy or wait, and why
+ */
+export interface StrategyDecision {
+    shouldBuy: boolean;
+    reason: string;
+    basis: BuyBasis;
+}
+
+/**
+ * Share of the free capacity a regular purchase buys (purchase ladder)
+ */
+export interface LadderStep {
+    fraction: number;                       // 0-1, 0 = price above every tier
+    percentile: number | null;              // Tier the price reached (null = no tier or not enough history)
+    limit: number | null;                   // Price at that percentile
+    reason: string;
+}
+
+/**
+ * Buying strategy
+ * Decides on the price alone - emergency purchases (low holding) are handled
+ * by PriceAnalyticsUtils.shouldBuyNow() before any strategy is asked.
+ */
+export interface BuyingStrategy {
+    name: StrategyName;
+    description: string;
+    decide(context: StrategyContext): StrategyDecision;
+}
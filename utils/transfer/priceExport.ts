@@ -0,0 +1,46 @@
+import { TimeslotEntry, priceOf } from '../05_priceAnalytics.utils';
+import { ExportOptions } from './transferTypes';
+
+/**
+ * Timeslots within the range that have a price of at least one exported commodity
+ */
+function selectSlots(timeslots: TimeslotEntry[], options: ExportOptions): TimeslotEntry[] {
+    const { commodities, since, until } = options;
+    return timeslots.filter(entry => {
+        const time = new Date(entry.timestamp).getTime();
+        if ((since && time < since.getTime()) || (until && time > until.getTime())) return false;
+        return commodities.some(commodity => priceOf(entry, commodity) !== null);
+    });
+}
+
+/**
+ * Export timeslots as CSV or NDJSON, oldest first
+ * CSV: `timestamp,<commodity>...,<commodity>_source...` with empty cells for
+ * missing prices (readable by `backtest --csv` and `prices import`).
+ * NDJSON: `{ timestamp, <commodity>: price | null, sources }` per line.
+ */
+export function exportPrices(timeslots: TimeslotEntry[], options: ExportOptions): string {
+    const slots = selectSlots(timeslots, options);
+    const { commodities } = options;
+
+    if (options.format === 'ndjson') {
+        return slots.map(entry => {
+            const record: { [key: string]: unknown } = { timestamp: entry.timestamp };
+            const sources: { [commodity: string]: unknown } = {};
+            for (const commodity of commodities) {
+                record[commodity] = priceOf(entry, commodity);
+                if (entry.sources?.[commodity]) sources[commodity] = entry.sources[commodity];
+            }
+            record.sources = sources;
+            return `${JSON.stringify(record)}\n`;
+        }).join('');
+    }
+
+    const header = ['timestamp', ...commodities, ...commodities.map(commodity => `${commodity}_source`)];
+    const rows = slots.map(entry => [
+        entry.timestamp,
+        ...commodities.map(commodity => String(priceOf(entry, commodity) ?? '')),
+        ...commodities.map(commodity => entry.sources?.[commodity]?.source ?? '')
+    ]);
+    return [header, ...rows].map(cells => `${cells.join(',')}\n`).join('');
+}
@@ -0,0 +1,270 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BOT_CONFIG } from '../../config';
+import { PriceAnalyticsUtils, TimeslotEntry, priceOf } from '../05_priceAnalytics.utils';
+import type { Commodity } from '../07_journal.utils';
+import type { PricePoint } from '../14_strategies.utils';
+import type { PriceRollups } from '../17_archive.utils';
+import { CommodityImportPlan, ImportFormat, ImportMapping, ImportPlan, ParsedImport, SkippedLine } from './transferTypes';
+
+const SLOT_MS = 1800000;
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+const COMMODITIES: Commodity[] = ['fuel', 'co2'];
+
+/**
+ * Parse a timestamp of an import (UTC unless it has a zone)
+ * Accepts ISO-8601 ("2025-01-15T14:30:00Z", "2025-01-15 14:30"), European
+ * dates ("15.01.2025 14:30", "15.01.25, 14:30") and Unix time in seconds or ms.
+ * @returns null if the text is no timestamp
+ */
+export function parseImportTimestamp(text: string): Date | null {
+    const value = text.trim();
+    if (/^\d{10}$/.test(value)) return new Date(Number(value) * 1000);
+    if (/^\d{13}$/.test(value)) return new Date(Number(value));
+
+    const european = /^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(value);
+    if (european) {
+        const [, day, month, year, hours, minutes, seconds] = european;
+        const fullYear = year.length === 2 ? 2000 + Number(year) : Number(year);
+        const time = Date.UTC(fullYear, Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds ?? 0));
+        return isNaN(time) ? null : new Date(time);
+    }
+
+    const iso = /^(\d{4}-\d{2}-\d{2})[ T](\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(Z|[+-]\d{2}:?\d{2})?$/.exec(value);
+    if (iso) {
+        const [, date, time, zone] = iso;
+        const parsed = new Date(`${date}T${time.padStart(5, '0')}${zone ?? 'Z'}`);
+        return isNaN(parsed.getTime()) ? null : parsed;
+    }
+    return null;
+}
+
+/**
+ * Price of an import field ("$1,234", "1234", 1234)
+ * @returns null if missing, not a number or not positive
+ */
+function parsePrice(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const price = typeof value === 'number' ? value : Number(String(value).replace(/[$,\s]/g, ''));
+    return Number.isFinite(price) && price > 0 ? price : null;
+}
+
+function slotOf(time: Date): string {
+    return new Date(Math.floor(time.getTime() / SLOT_MS) * SLOT_MS).toISOString();
+}
+
+function compile(pattern: string, name: string): RegExp {
+    try {
+        return new RegExp(pattern, 'i');
+    } catch (error) {
+        throw new Error(`priceImport.${name} is not a valid regular expression: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Import format from the file extension (.csv, .ndjson/.jsonl, anything else is text)
+ */
+export function detectImportFormat(filePath: string): ImportFormat {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === '.csv') return 'csv';
+    if (extension === '.ndjson' || extension === '.jsonl') return 'ndjson';
+    return 'text';
+}
+
+/**
+ * Read prices from an import file
+ * Timestamps are rounded to their 30-minute slot, a later line for the same
+ * slot wins. Lines without a usable timestamp or price are skipped (and listed).
+ * @throws Error if a CSV has none of the mapped columns or a pattern is invalid
+ */
+export function parsePriceImport(
+    content: string,
+    format: ImportFormat,
+    mapping: ImportMapping = BOT_CONFIG.priceImport
+): ParsedImport {
+    const lines = content.split(/\r?\n/);
+    const slots: Record<Commodity, Map<string, number>> = { fuel: new Map(), co2: new Map() };
+    const skipped: SkippedLine[] = [];
+
+    const add = (lineNumber: number, time: Date | null, prices: Record<Commodity, number | null>) => {
+        if (!time) {
+            skipped.push({ line: lineNumber, reason: 'no valid timestamp' });
+        } else if (prices.fuel === null && prices.co2 === null) {
+            skipped.push({ line: lineNumber, reason: 'no valid price' });
+        } else {
+            for (const commodity of COMMODITIES) {
+                const price = prices[commodity];
+                if (price !== null) slots[commodity].set(slotOf(time), price);
+            }
+        }
+    };
+
+    if (format === 'csv') {
+        const first = lines.findIndex(line => line.trim() !== '');
+        if (first < 0) throw new Error('CSV is empty');
+        const separator = lines[first].includes('\t') ? '\t' : lines[first].includes(';') ? ';' : ',';
+        const cells = (line: string) => line.split(separator).map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+        const header = cells(lines[first]).map(column => column.toLowerCase());
+        const column = (name: string) => header.indexOf(name.toLowerCase());
+        const timeColumn = column(mapping.timestampColumn);
+        const priceColumns = { fuel: column(mapping.fuelColumn), co2: column(mapping.co2Column) };
+        if (timeColumn < 0 || (priceColumns.fuel < 0 && priceColumns.co2 < 0)) {
+            throw new Error(`CSV header needs a "${mapping.timestampColumn}" column and a "${mapping.fuelColumn}" and/or ` +
+                `"${mapping.co2Column}" column, got "${lines[first]}"`);
+        }
+
+        lines.forEach((line, index) => {
+            if (index <= first || line.trim() === '') return;
+            const row = cells(line);
+            add(index + 1, parseImportTimestamp(row[timeColumn] ?? ''), {
+                fuel: priceColumns.fuel >= 0 ? parsePrice(row[priceColumns.fuel]) : null,
+                co2: priceColumns.co2 >= 0 ? parsePrice(row[priceColumns.co2]) : null
+            });
+        });
+    } else if (format === 'ndjson') {
+        lines.forEach((line, index) => {
+            if (line.trim() === '') return;
+            let record: { [key: string]: unknown };
+            try {
+                record = JSON.parse(line);
+            } catch {
+                skipped.push({ line: index + 1, reason: 'invalid JSON' });
+                return;
+            }
+            const time = record[mapping.timestampColumn];
+            add(index + 1, typeof time === 'string' || typeof time === 'number' ? parseImportTimestamp(String(time)) : null, {
+                fuel: parsePrice(record[mapping.fuelColumn]),
+                co2: parsePrice(record[mapping.co2Column])
+            });
+        });
+    } else {
+        const timePattern = compile(mapping.timestampPattern, 'timestampPattern');
+        const pricePatterns = { fuel: compile(mapping.fuelPattern, 'fuelPattern'), co2: compile(mapping.co2Pattern, 'co2Pattern') };
+        let current: Date | null = null;
+
+        lines.forEach((line, index) => {
+            const timeMatch = timePattern.exec(line);
+            if (timeMatch) {
+                current = parseImportTimestamp(timeMatch[1] ?? timeMatch[0]);
+            }
+            const prices = {
+                fuel: parsePrice(pricePatterns.fuel.exec(line)?.[1]),
+                co2: parsePrice(pricePatterns.co2.exec(line)?.[1])
+            };
+            // Lines with neither a time nor a price are chatter, not skipped data
+            if (prices.fuel !== null || prices.co2 !== null) {
+                add(index + 1, current, prices);
+            }
+        });
+    }
+
+    const points = (commodity: Commodity): PricePoint[] => [...slots[commodity]]
+        .map(([timestamp, price]) => ({ timestamp, price }))
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    return {
+        format,
+        lines: lines.filter(line => line.trim() !== '').length,
+        points: { fuel: points('fuel'), co2: points('co2') },
+        skipped
+    };
+}
+
+/**
+ * Load and parse an import file (format from the extension unless given)
+ */
+export function loadPriceImport(filePath: string, format?: ImportFormat, mapping?: ImportMapping): ParsedImport {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Import file not found: ${filePath}`);
+    }
+    return parsePriceImport(fs.readFileSync(filePath, 'utf-8'), format ?? detectImportFormat(filePath), mapping);
+}
+
+/**
+ * Compare the imported prices with the stored ones
+ * Slots without a price are added; a different stored price is replaced only
+ * with `overwrite`; periods already rolled into the archive are skipped so
+ * re-importing does not count them twice.
+ * @param timeslots Full-resolution history (loadHistory().timeslots)
+ */
+export function planPriceImport(
+    parsed: ParsedImport,
+    timeslots: TimeslotEntry[],
+    rollups: PriceRollups,
+    overwrite: boolean = BOT_CONFIG.priceImport.overwrite
+): ImportPlan {
+    const commodities = COMMODITIES.filter(commodity => parsed.points[commodity].length > 0).map(commodity => {
+        const stored = new Map(timeslots.map(entry => [entry.timestamp, priceOf(entry, commodity)]));
+        const hours = new Set(rollups.hourly.filter(entry => entry[commodity]).map(entry => entry.timestamp));
+        const days = new Set(rollups.daily.filter(entry => entry[commodity]).map(entry => entry.timestamp));
+        const plan: CommodityImportPlan = {
+            commodity, entries: [], added: 0, unchanged: 0, replaced: 0, kept: 0, archived: 0,
+            first: parsed.points[commodity][0].timestamp,
+            last: parsed.points[commodity][parsed.points[commodity].length - 1].timestamp
+        };
+
+        for (const point of parsed.points[commodity]) {
+            const time = new Date(point.timestamp).getTime();
+            const hour = new Date(Math.floor(time / HOUR_MS) * HOUR_MS).toISOString();
+            const day = new Date(Math.floor(time / DAY_MS) * DAY_MS).toISOString();
+            const storedPrice = stored.get(point.timestamp) ?? null;
+
+            if (storedPrice === null && (hours.has(hour) || days.has(day))) {
+                plan.archived++;
+            } else if (storedPrice === null) {
+                plan.added++;
+                plan.entries.push(point);
+            } else if (storedPrice === point.price) {
+                plan.unchanged++;
+            } else if (overwrite) {
+                plan.replaced++;
+                plan.entries.push(point);
+            } else {
+                plan.kept++;
+            }
+        }
+        return plan;
+    });
+
+    return { format: parsed.format, lines: parsed.lines, skipped: parsed.skipped, overwrite, commodities };
+}
+
+/**
+ * Write the planned prices to the price history (source 'import')
+ */
+export function applyPriceImport(plan: ImportPlan, analytics: PriceAnalyticsUtils = new PriceAnalyticsUtils()): number {
+    let written = 0;
+    for (const commodity of plan.commodities) {
+        if (commodity.entries.length > 0) {
+            analytics.addExternalPriceEntries(commodity.commodity, commodity.entries, 'import');
+            written += commodity.entries.length;
+        }
+    }
+    return written;
+}
+
+/**
+ * Console preview of an import
+ * @param maxSkipped Skipped lines listed individually
+ */
+export function formatImportPlan(plan: ImportPlan, maxSkipped: number = 5): string {
+    const lines = [
+        `\n📥 PRICE IMPORT (${plan.format}, ${plan.lines} line(s), ${plan.overwrite ? 'overwriting' : 'keeping'} stored prices)`,
+        '━'.repeat(40)
+    ];
+    if (plan.commodities.length === 0) {
+        lines.push('No prices found');
+    }
+    for (const commodity of plan.commodities) {
+        lines.push(`${commodity.commodity.toUpperCase()}: ${commodity.first!.slice(0, 16)} → ${commodity.last!.slice(0, 16)} UTC`);
+        lines.push(`   ${commodity.added} new, ${commodity.replaced} replaced, ${commodity.kept} kept (stored price differs), ` +
+            `${commodity.unchanged} unchanged, ${commodity.archived} already archived`);
+    }
+    if (plan.skipped.length > 0) {
+        lines.push(`⚠️  Skipped ${plan.skipped.length} line(s):`);
+        for (const skip of plan.skipped.slice(0, maxSkipped)) {
+            lines.push(`   line ${skip.line}: ${skip.reason}`);
+        }
+    }
+    return lines.join('\n');
+}
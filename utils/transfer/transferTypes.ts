@@ -0,0 +1,70 @@
+// TypeScript interfaces for Price History Import/Export
+
+import type { Commodity } from '../07_journal.utils';
+import type { PricePoint } from '../14_strategies.utils';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+/**
+ * - csv:    header line, comma/semicolon/tab separated
+ * - ndjson: one JSON object per line
+ * - text:   free text (e.g. a price announcement channel dump), read with regexes
+ */
+export type ImportFormat = 'csv' | 'ndjson' | 'text';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    commodities: Commodity[];               // Columns/fields exported, slots without any of them are skipped
+    since?: Date;
+    until?: Date;
+}
+
+/**
+ * Where the fields of an import are found (BOT_CONFIG.priceImport)
+ */
+export interface ImportMapping {
+    timestampColumn: string;                // CSV column / NDJSON field with the time
+    fuelColumn: string;
+    co2Column: string;
+    timestampPattern: string;               // Text: regex, first group = time (later lines without one reuse it)
+    fuelPattern: string;                    // Text: regex, first group = fuel price
+    co2Pattern: string;                     // Text: regex, first group = CO2 price
+}
+
+export interface SkippedLine {
+    line: number;                           // 1-based line number in the file
+    reason: string;
+}
+
+/**
+ * Prices read from an import file, rounded to 30-minute slots (a later line for the same slot wins)
+ */
+export interface ParsedImport {
+    format: ImportFormat;
+    lines: number;
+    points: Record<Commodity, PricePoint[]>;    // Oldest first
+    skipped: SkippedLine[];
+}
+
+/**
+ * What an import would change for one commodity
+ */
+export interface CommodityImportPlan {
+    commodity: Commodity;
+    entries: PricePoint[];                  // Prices to write (added + replaced)
+    added: number;                          // Slots without a price so far
+    unchanged: number;                      // Same price already stored
+    replaced: number;                       // Different price stored, overwritten (overwrite = true)
+    kept: number;                           // Different price stored, kept (overwrite = false)
+    archived: number;                       // Period already rolled into the archive, skipped
+    first: string | null;
+    last: string | null;
+}
+
+export interface ImportPlan {
+    format: ImportFormat;
+    lines: number;
+    skipped: SkippedLine[];
+    overwrite: boolean;
+    commodities: CommodityImportPlan[];
+}